@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "DuesScheduleFrequency" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "DuesPayment" ADD COLUMN     "installmentNumber" INTEGER,
+ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DuesSchedule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "installmentCount" INTEGER NOT NULL DEFAULT 1,
+    "frequency" "DuesScheduleFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "firstDueDate" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "includeNewMembers" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "DuesSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DuesSchedule_chapterId_idx" ON "DuesSchedule"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "DuesSchedule_isActive_idx" ON "DuesSchedule"("isActive");
+
+-- CreateIndex
+CREATE INDEX "DuesSchedule_createdById_idx" ON "DuesSchedule"("createdById");
+
+-- CreateIndex
+CREATE INDEX "DuesPayment_scheduleId_idx" ON "DuesPayment"("scheduleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesPayment_scheduleId_userId_installmentNumber_key" ON "DuesPayment"("scheduleId", "userId", "installmentNumber");
+
+-- AddForeignKey
+ALTER TABLE "DuesPayment" ADD CONSTRAINT "DuesPayment_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "DuesSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesSchedule" ADD CONSTRAINT "DuesSchedule_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesSchedule" ADD CONSTRAINT "DuesSchedule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "LateFeeType" AS ENUM ('FLAT', 'PERCENTAGE');
+
+-- CreateEnum
+CREATE TYPE "LateFeeRecurrence" AS ENUM ('ONE_TIME', 'RECURRING');
+
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'LATE_FEE';
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "lateFeeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LateFeeRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "graceDays" INTEGER NOT NULL DEFAULT 0,
+    "feeType" "LateFeeType" NOT NULL DEFAULT 'FLAT',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "recurrence" "LateFeeRecurrence" NOT NULL DEFAULT 'ONE_TIME',
+    "recurrenceDays" INTEGER,
+    "maxApplications" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+
+    CONSTRAINT "LateFeeRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DuesLateFee" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "sequence" INTEGER NOT NULL DEFAULT 1,
+    "assessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "waivedAt" TIMESTAMP(3),
+    "duesPaymentId" TEXT NOT NULL,
+    "ruleId" TEXT,
+
+    CONSTRAINT "DuesLateFee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LateFeeRule_chapterId_idx" ON "LateFeeRule"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "LateFeeRule_isActive_idx" ON "LateFeeRule"("isActive");
+
+-- CreateIndex
+CREATE INDEX "DuesLateFee_duesPaymentId_idx" ON "DuesLateFee"("duesPaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesLateFee_ruleId_idx" ON "DuesLateFee"("ruleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesLateFee_duesPaymentId_ruleId_sequence_key" ON "DuesLateFee"("duesPaymentId", "ruleId", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_lateFeeId_key" ON "Transaction"("lateFeeId");
+
+-- AddForeignKey
+ALTER TABLE "LateFeeRule" ADD CONSTRAINT "LateFeeRule_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesLateFee" ADD CONSTRAINT "DuesLateFee_duesPaymentId_fkey" FOREIGN KEY ("duesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesLateFee" ADD CONSTRAINT "DuesLateFee_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "LateFeeRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_lateFeeId_fkey" FOREIGN KEY ("lateFeeId") REFERENCES "DuesLateFee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateTable
+CREATE TABLE "DuesReminderRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "sendEmail" BOOLEAN NOT NULL DEFAULT true,
+    "sendSms" BOOLEAN NOT NULL DEFAULT false,
+    "message" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+
+    CONSTRAINT "DuesReminderRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DuesReminder" (
+    "id" TEXT NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailSent" BOOLEAN NOT NULL DEFAULT false,
+    "smsSent" BOOLEAN NOT NULL DEFAULT false,
+    "duesPaymentId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+
+    CONSTRAINT "DuesReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DuesReminderRule_chapterId_idx" ON "DuesReminderRule"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "DuesReminderRule_isActive_idx" ON "DuesReminderRule"("isActive");
+
+-- CreateIndex
+CREATE INDEX "DuesReminder_duesPaymentId_idx" ON "DuesReminder"("duesPaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesReminder_ruleId_idx" ON "DuesReminder"("ruleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesReminder_duesPaymentId_ruleId_key" ON "DuesReminder"("duesPaymentId", "ruleId");
+
+-- AddForeignKey
+ALTER TABLE "DuesReminderRule" ADD CONSTRAINT "DuesReminderRule_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesReminder" ADD CONSTRAINT "DuesReminder_duesPaymentId_fkey" FOREIGN KEY ("duesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesReminder" ADD CONSTRAINT "DuesReminder_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "DuesReminderRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
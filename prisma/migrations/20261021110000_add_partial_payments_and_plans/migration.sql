@@ -0,0 +1,96 @@
+-- CreateEnum
+CREATE TYPE "DuesPaymentPlanStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED', 'COMPLETED', 'CANCELED');
+
+-- DropIndex
+DROP INDEX "Transaction_lateFeeId_key";
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "DuesPayment" ADD COLUMN     "amountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "duesPaymentRecordId" TEXT;
+
+-- Backfill amountPaid for dues that were already paid in full
+UPDATE "DuesPayment" d
+SET "amountPaid" = d."amount" + COALESCE((
+    SELECT SUM(f."amount") FROM "DuesLateFee" f
+    WHERE f."duesPaymentId" = d."id" AND f."waivedAt" IS NULL
+), 0)
+WHERE d."paidAt" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "DuesPaymentRecord" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "note" TEXT,
+    "stripePaymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "duesPaymentId" TEXT NOT NULL,
+    "recordedById" TEXT,
+
+    CONSTRAINT "DuesPaymentRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DuesPaymentPlan" (
+    "id" TEXT NOT NULL,
+    "status" "DuesPaymentPlanStatus" NOT NULL DEFAULT 'PENDING',
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "baseAmountPaid" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "installmentCount" INTEGER NOT NULL,
+    "frequency" "DuesScheduleFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "firstPaymentDate" TIMESTAMP(3) NOT NULL,
+    "requestNote" TEXT,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "duesPaymentId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+
+    CONSTRAINT "DuesPaymentPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesPaymentRecord_stripePaymentId_key" ON "DuesPaymentRecord"("stripePaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesPaymentRecord_duesPaymentId_idx" ON "DuesPaymentRecord"("duesPaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesPaymentRecord_paidAt_idx" ON "DuesPaymentRecord"("paidAt");
+
+-- CreateIndex
+CREATE INDEX "DuesPaymentPlan_duesPaymentId_idx" ON "DuesPaymentPlan"("duesPaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesPaymentPlan_status_idx" ON "DuesPaymentPlan"("status");
+
+-- CreateIndex
+CREATE INDEX "Transaction_lateFeeId_idx" ON "Transaction"("lateFeeId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_duesPaymentRecordId_idx" ON "Transaction"("duesPaymentRecordId");
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentRecord" ADD CONSTRAINT "DuesPaymentRecord_duesPaymentId_fkey" FOREIGN KEY ("duesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentRecord" ADD CONSTRAINT "DuesPaymentRecord_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentPlan" ADD CONSTRAINT "DuesPaymentPlan_duesPaymentId_fkey" FOREIGN KEY ("duesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentPlan" ADD CONSTRAINT "DuesPaymentPlan_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentPlan" ADD CONSTRAINT "DuesPaymentPlan_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_duesPaymentRecordId_fkey" FOREIGN KEY ("duesPaymentRecordId") REFERENCES "DuesPaymentRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
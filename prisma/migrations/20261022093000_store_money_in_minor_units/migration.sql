@@ -0,0 +1,44 @@
+-- Money moves from floating point dollars to integer minor units (cents).
+-- Existing amounts are multiplied by 100 and rounded. PERCENTAGE late fee
+-- rules go from percent to basis points, which is the same conversion.
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Budget" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "Expense" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "DuesPayment" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ALTER COLUMN "amountPaid" DROP DEFAULT,
+ALTER COLUMN "amountPaid" SET DATA TYPE INTEGER USING ROUND("amountPaid" * 100)::INTEGER,
+ALTER COLUMN "amountPaid" SET DEFAULT 0,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "DuesSchedule" ALTER COLUMN "totalAmount" SET DATA TYPE INTEGER USING ROUND("totalAmount" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "LateFeeRule" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "DuesLateFee" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "DuesPaymentRecord" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- AlterTable
+ALTER TABLE "DuesPaymentPlan" ALTER COLUMN "totalAmount" SET DATA TYPE INTEGER USING ROUND("totalAmount" * 100)::INTEGER,
+ALTER COLUMN "baseAmountPaid" DROP DEFAULT,
+ALTER COLUMN "baseAmountPaid" SET DATA TYPE INTEGER USING ROUND("baseAmountPaid" * 100)::INTEGER,
+ALTER COLUMN "baseAmountPaid" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "amount" SET DATA TYPE INTEGER USING ROUND("amount" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'USD';
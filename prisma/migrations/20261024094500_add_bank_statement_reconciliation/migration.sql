@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('CSV', 'OFX');
+
+-- CreateEnum
+CREATE TYPE "BankStatementLineStatus" AS ENUM ('UNMATCHED', 'MATCHED', 'RECONCILED', 'IGNORED');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "bankStatementLineId" TEXT,
+ADD COLUMN     "reconciledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "BankStatementImport" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "importedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chapterId" TEXT NOT NULL,
+    "importedById" TEXT,
+
+    CONSTRAINT "BankStatementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementLine" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "status" "BankStatementLineStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "reconciledAt" TIMESTAMP(3),
+    "importId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "matchedTransactionId" TEXT,
+    "matchedExpenseId" TEXT,
+    "matchedDuesPaymentId" TEXT,
+    "reconciledById" TEXT,
+
+    CONSTRAINT "BankStatementLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_bankStatementLineId_idx" ON "Transaction"("bankStatementLineId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementImport_chapterId_idx" ON "BankStatementImport"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_importId_idx" ON "BankStatementLine"("importId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_chapterId_idx" ON "BankStatementLine"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_reference_idx" ON "BankStatementLine"("reference");
+
+-- CreateIndex
+CREATE INDEX "BankStatementLine_status_idx" ON "BankStatementLine"("status");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_bankStatementLineId_fkey" FOREIGN KEY ("bankStatementLineId") REFERENCES "BankStatementLine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementImport" ADD CONSTRAINT "BankStatementImport_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementImport" ADD CONSTRAINT "BankStatementImport_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_importId_fkey" FOREIGN KEY ("importId") REFERENCES "BankStatementImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_matchedTransactionId_fkey" FOREIGN KEY ("matchedTransactionId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_matchedExpenseId_fkey" FOREIGN KEY ("matchedExpenseId") REFERENCES "Expense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_matchedDuesPaymentId_fkey" FOREIGN KEY ("matchedDuesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementLine" ADD CONSTRAINT "BankStatementLine_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
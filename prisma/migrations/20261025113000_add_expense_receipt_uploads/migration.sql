@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "receiptContentType" TEXT,
+ADD COLUMN     "receiptFileName" TEXT,
+ADD COLUMN     "receiptKey" TEXT,
+ADD COLUMN     "receiptSize" INTEGER;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "ExpenseApprovalDecision" AS ENUM ('APPROVED', 'DENIED');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "approvalRuleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExpenseApprovalRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minAmount" INTEGER NOT NULL DEFAULT 0,
+    "maxAmount" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+
+    CONSTRAINT "ExpenseApprovalRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseApprovalStep" (
+    "id" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "approverRole" "MembershipRole",
+    "ruleId" TEXT NOT NULL,
+    "approverId" TEXT,
+
+    CONSTRAINT "ExpenseApprovalStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseApproval" (
+    "id" TEXT NOT NULL,
+    "stepOrder" INTEGER NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "decision" "ExpenseApprovalDecision" NOT NULL,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expenseId" TEXT NOT NULL,
+    "decidedById" TEXT NOT NULL,
+
+    CONSTRAINT "ExpenseApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Expense_approvalRuleId_idx" ON "Expense"("approvalRuleId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApprovalRule_chapterId_idx" ON "ExpenseApprovalRule"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApprovalStep_approverId_idx" ON "ExpenseApprovalStep"("approverId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseApprovalStep_ruleId_order_key" ON "ExpenseApprovalStep"("ruleId", "order");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_expenseId_idx" ON "ExpenseApproval"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_decidedById_idx" ON "ExpenseApproval"("decidedById");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_approvalRuleId_fkey" FOREIGN KEY ("approvalRuleId") REFERENCES "ExpenseApprovalRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApprovalRule" ADD CONSTRAINT "ExpenseApprovalRule_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApprovalStep" ADD CONSTRAINT "ExpenseApprovalStep_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "ExpenseApprovalRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApprovalStep" ADD CONSTRAINT "ExpenseApprovalStep_approverId_fkey" FOREIGN KEY ("approverId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "FiscalPeriodStatus" AS ENUM ('OPEN', 'LOCKED', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateTable
+CREATE TABLE "FiscalPeriod" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" "FiscalPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "lockedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "closedById" TEXT,
+
+    CONSTRAINT "FiscalPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FiscalPeriodBalance" (
+    "id" TEXT NOT NULL,
+    "openingBalance" INTEGER NOT NULL DEFAULT 0,
+    "closingBalance" INTEGER,
+    "periodId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+
+    CONSTRAINT "FiscalPeriodBalance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FiscalPeriod_chapterId_idx" ON "FiscalPeriod"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "FiscalPeriod_startDate_idx" ON "FiscalPeriod"("startDate");
+
+-- CreateIndex
+CREATE INDEX "FiscalPeriodBalance_accountId_idx" ON "FiscalPeriodBalance"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FiscalPeriodBalance_periodId_accountId_key" ON "FiscalPeriodBalance"("periodId", "accountId");
+
+-- AddForeignKey
+ALTER TABLE "FiscalPeriod" ADD CONSTRAINT "FiscalPeriod_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FiscalPeriod" ADD CONSTRAINT "FiscalPeriod_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FiscalPeriodBalance" ADD CONSTRAINT "FiscalPeriodBalance_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "FiscalPeriod"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FiscalPeriodBalance" ADD CONSTRAINT "FiscalPeriodBalance_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
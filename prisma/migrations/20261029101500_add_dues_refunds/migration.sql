@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "duesRefundId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DuesRefund" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT,
+    "stripeRefundId" TEXT,
+    "refundedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "paymentRecordId" TEXT NOT NULL,
+    "refundedById" TEXT,
+
+    CONSTRAINT "DuesRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesRefund_stripeRefundId_key" ON "DuesRefund"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "DuesRefund_paymentRecordId_idx" ON "DuesRefund"("paymentRecordId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_duesRefundId_idx" ON "Transaction"("duesRefundId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_duesRefundId_fkey" FOREIGN KEY ("duesRefundId") REFERENCES "DuesRefund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesRefund" ADD CONSTRAINT "DuesRefund_paymentRecordId_fkey" FOREIGN KEY ("paymentRecordId") REFERENCES "DuesPaymentRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesRefund" ADD CONSTRAINT "DuesRefund_refundedById_fkey" FOREIGN KEY ("refundedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Chapter" ADD COLUMN     "stripeAccountId" TEXT,
+ADD COLUMN     "stripeChargesEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "stripeDetailsSubmitted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "stripePayoutsEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Chapter_stripeAccountId_key" ON "Chapter"("stripeAccountId");
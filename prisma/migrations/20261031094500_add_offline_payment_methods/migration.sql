@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('STRIPE', 'CASH', 'CHECK', 'VENMO', 'ZELLE', 'BANK_TRANSFER', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "DuesPaymentRecord" ADD COLUMN     "method" "PaymentMethod" NOT NULL DEFAULT 'OTHER',
+ADD COLUMN     "receivedById" TEXT,
+ADD COLUMN     "referenceNumber" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AddForeignKey
+ALTER TABLE "DuesPaymentRecord" ADD CONSTRAINT "DuesPaymentRecord_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill payments taken through Stripe
+UPDATE "DuesPaymentRecord" SET "method" = 'STRIPE' WHERE "stripePaymentId" IS NOT NULL;
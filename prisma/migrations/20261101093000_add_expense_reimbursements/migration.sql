@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "ReimbursementStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "reimbursementId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateTable
+CREATE TABLE "PayoutMethod" (
+    "id" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "PayoutMethod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Reimbursement" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "method" "PaymentMethod" NOT NULL,
+    "payoutDetails" TEXT,
+    "reference" TEXT,
+    "status" "ReimbursementStatus" NOT NULL DEFAULT 'PENDING',
+    "provider" TEXT,
+    "providerPayoutId" TEXT,
+    "failureReason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "payeeId" TEXT NOT NULL,
+    "issuedById" TEXT NOT NULL,
+
+    CONSTRAINT "Reimbursement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayoutMethod_userId_idx" ON "PayoutMethod"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutMethod_chapterId_userId_key" ON "PayoutMethod"("chapterId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Reimbursement_chapterId_idx" ON "Reimbursement"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "Reimbursement_payeeId_idx" ON "Reimbursement"("payeeId");
+
+-- CreateIndex
+CREATE INDEX "Reimbursement_issuedById_idx" ON "Reimbursement"("issuedById");
+
+-- CreateIndex
+CREATE INDEX "Reimbursement_status_idx" ON "Reimbursement"("status");
+
+-- CreateIndex
+CREATE INDEX "Expense_reimbursementId_idx" ON "Expense"("reimbursementId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_reimbursementId_fkey" FOREIGN KEY ("reimbursementId") REFERENCES "Reimbursement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutMethod" ADD CONSTRAINT "PayoutMethod_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutMethod" ADD CONSTRAINT "PayoutMethod_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reimbursement" ADD CONSTRAINT "Reimbursement_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reimbursement" ADD CONSTRAINT "Reimbursement_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Reimbursement" ADD CONSTRAINT "Reimbursement_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
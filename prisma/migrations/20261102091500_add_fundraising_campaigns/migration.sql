@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "CampaignStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ENDED');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "campaignId" TEXT,
+ADD COLUMN     "donationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "FundraisingCampaign" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "goalAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" "CampaignStatus" NOT NULL DEFAULT 'DRAFT',
+    "endDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "FundraisingCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Donation" (
+    "id" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "donorName" TEXT NOT NULL,
+    "donorEmail" TEXT,
+    "message" TEXT,
+    "isAnonymous" BOOLEAN NOT NULL DEFAULT false,
+    "stripePaymentId" TEXT,
+    "donatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "campaignId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "Donation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FundraisingCampaign_createdById_idx" ON "FundraisingCampaign"("createdById");
+
+-- CreateIndex
+CREATE INDEX "FundraisingCampaign_status_idx" ON "FundraisingCampaign"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundraisingCampaign_chapterId_slug_key" ON "FundraisingCampaign"("chapterId", "slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_stripePaymentId_key" ON "Donation"("stripePaymentId");
+
+-- CreateIndex
+CREATE INDEX "Donation_campaignId_idx" ON "Donation"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Donation_chapterId_idx" ON "Donation"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "Donation_userId_idx" ON "Donation"("userId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_campaignId_idx" ON "Transaction"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_donationId_idx" ON "Transaction"("donationId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "FundraisingCampaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "Donation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundraisingCampaign" ADD CONSTRAINT "FundraisingCampaign_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundraisingCampaign" ADD CONSTRAINT "FundraisingCampaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "FundraisingCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "DuesAdjustmentType" AS ENUM ('WAIVER', 'SCHOLARSHIP', 'DISCOUNT');
+
+-- CreateEnum
+CREATE TYPE "DuesAdjustmentStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Membership" ADD COLUMN     "duesCategoryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DuesCategory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "defaultAmount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "chapterId" TEXT NOT NULL,
+
+    CONSTRAINT "DuesCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DuesAdjustment" (
+    "id" TEXT NOT NULL,
+    "type" "DuesAdjustmentType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "DuesAdjustmentStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "duesPaymentId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "reviewedById" TEXT,
+
+    CONSTRAINT "DuesAdjustment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Membership_duesCategoryId_idx" ON "Membership"("duesCategoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesCategory_chapterId_name_key" ON "DuesCategory"("chapterId", "name");
+
+-- CreateIndex
+CREATE INDEX "DuesAdjustment_duesPaymentId_idx" ON "DuesAdjustment"("duesPaymentId");
+
+-- CreateIndex
+CREATE INDEX "DuesAdjustment_status_idx" ON "DuesAdjustment"("status");
+
+-- AddForeignKey
+ALTER TABLE "Membership" ADD CONSTRAINT "Membership_duesCategoryId_fkey" FOREIGN KEY ("duesCategoryId") REFERENCES "DuesCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesCategory" ADD CONSTRAINT "DuesCategory_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesAdjustment" ADD CONSTRAINT "DuesAdjustment_duesPaymentId_fkey" FOREIGN KEY ("duesPaymentId") REFERENCES "DuesPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesAdjustment" ADD CONSTRAINT "DuesAdjustment_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DuesAdjustment" ADD CONSTRAINT "DuesAdjustment_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
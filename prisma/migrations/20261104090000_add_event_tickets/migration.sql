@@ -0,0 +1,119 @@
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "eventId" TEXT,
+ADD COLUMN     "ticketOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "EventTicketType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "price" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "quantity" INTEGER,
+    "membersOnly" BOOLEAN NOT NULL DEFAULT false,
+    "salesEndAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "eventId" TEXT NOT NULL,
+
+    CONSTRAINT "EventTicketType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventTicketOrder" (
+    "id" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "buyerName" TEXT NOT NULL,
+    "buyerEmail" TEXT NOT NULL,
+    "stripePaymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "eventId" TEXT NOT NULL,
+    "ticketTypeId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "EventTicketOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventTicket" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "orderId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "ticketTypeId" TEXT NOT NULL,
+
+    CONSTRAINT "EventTicket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventTicketType_eventId_idx" ON "EventTicketType"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventTicketOrder_stripePaymentId_key" ON "EventTicketOrder"("stripePaymentId");
+
+-- CreateIndex
+CREATE INDEX "EventTicketOrder_eventId_idx" ON "EventTicketOrder"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventTicketOrder_ticketTypeId_idx" ON "EventTicketOrder"("ticketTypeId");
+
+-- CreateIndex
+CREATE INDEX "EventTicketOrder_chapterId_idx" ON "EventTicketOrder"("chapterId");
+
+-- CreateIndex
+CREATE INDEX "EventTicketOrder_userId_idx" ON "EventTicketOrder"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventTicket_code_key" ON "EventTicket"("code");
+
+-- CreateIndex
+CREATE INDEX "EventTicket_orderId_idx" ON "EventTicket"("orderId");
+
+-- CreateIndex
+CREATE INDEX "EventTicket_eventId_idx" ON "EventTicket"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventTicket_ticketTypeId_idx" ON "EventTicket"("ticketTypeId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_eventId_idx" ON "Transaction"("eventId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_ticketOrderId_idx" ON "Transaction"("ticketOrderId");
+
+-- AddForeignKey
+ALTER TABLE "EventTicketType" ADD CONSTRAINT "EventTicketType_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicketOrder" ADD CONSTRAINT "EventTicketOrder_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicketOrder" ADD CONSTRAINT "EventTicketOrder_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "EventTicketType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicketOrder" ADD CONSTRAINT "EventTicketOrder_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicketOrder" ADD CONSTRAINT "EventTicketOrder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicket" ADD CONSTRAINT "EventTicket_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "EventTicketOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicket" ADD CONSTRAINT "EventTicket_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventTicket" ADD CONSTRAINT "EventTicket_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "EventTicketType"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_ticketOrderId_fkey" FOREIGN KEY ("ticketOrderId") REFERENCES "EventTicketOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AttendanceMethod" AS ENUM ('QR_CODE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateTable
+CREATE TABLE "EventAttendance" (
+    "id" TEXT NOT NULL,
+    "method" "AttendanceMethod" NOT NULL,
+    "checkedInAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "checkedInById" TEXT,
+
+    CONSTRAINT "EventAttendance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventAttendance_eventId_idx" ON "EventAttendance"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventAttendance_userId_idx" ON "EventAttendance"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventAttendance_userId_eventId_key" ON "EventAttendance"("userId", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "EventAttendance" ADD CONSTRAINT "EventAttendance_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventAttendance" ADD CONSTRAINT "EventAttendance_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventAttendance" ADD CONSTRAINT "EventAttendance_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
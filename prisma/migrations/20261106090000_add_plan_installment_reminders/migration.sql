@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "DuesReminder_duesPaymentId_ruleId_key";
+
+-- AlterTable
+ALTER TABLE "DuesReminder" ADD COLUMN     "planInstallmentNumber" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DuesReminder_duesPaymentId_ruleId_planInstallmentNumber_key" ON "DuesReminder"("duesPaymentId", "ruleId", "planInstallmentNumber");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DuesPaymentRecord" ADD COLUMN     "reviewReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invite" ALTER COLUMN "expiresAt" SET DEFAULT NOW() + interval '7 days';
@@ -0,0 +1,40 @@
+import { ledgerService } from '../src/lib/services/ledger-service';
+import { db } from '../src/lib/db';
+
+/**
+ * This script posts journal entries for transactions that were recorded
+ * before the double-entry ledger existed, for every chapter or for a single
+ * chapter when its slug is passed as the first argument.
+ * Run it once after deploying with `npx tsx scripts/backfill-ledger.ts [slug]`
+ */
+async function backfillLedger() {
+  const chapterSlug = process.argv[2];
+
+  try {
+    console.log('Starting ledger backfill...');
+
+    const chapters = await db.chapter.findMany({
+      where: chapterSlug ? { slug: chapterSlug } : undefined,
+      select: { id: true, name: true },
+    });
+
+    if (chapterSlug && chapters.length === 0) {
+      throw new Error(`Chapter with slug ${chapterSlug} not found`);
+    }
+
+    for (const chapter of chapters) {
+      const posted = await ledgerService.postUnpostedTransactions(chapter.id);
+      console.log(`Posted ${posted} transactions for ${chapter.name}`);
+    }
+  } catch (error) {
+    console.error('Error while backfilling the ledger:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Run the function
+backfillLedger()
+  .then(() => console.log('Script completed'))
+  .catch(error => console.error('Script failed:', error));
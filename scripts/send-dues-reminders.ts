@@ -0,0 +1,42 @@
+import { duesReminderService } from '../src/lib/services/dues-reminder-service';
+import { db } from '../src/lib/db';
+
+/**
+ * This script sends any dues reminders that have come due, for every chapter
+ * or for a single chapter when its slug is passed as the first argument.
+ * It does the same work as the /api/cron/dues-reminders job and can be run
+ * from a system crontab with `npx tsx scripts/send-dues-reminders.ts [slug]`
+ */
+async function sendDuesReminders() {
+  const chapterSlug = process.argv[2];
+
+  try {
+    console.log('Starting dues reminder run...');
+
+    if (chapterSlug) {
+      const chapter = await db.chapter.findUnique({
+        where: { slug: chapterSlug },
+      });
+
+      if (!chapter) {
+        throw new Error(`Chapter with slug ${chapterSlug} not found`);
+      }
+
+      const result = await duesReminderService.sendReminders(chapter.id);
+      console.log(`Reminders for ${chapter.name}:`, result);
+    } else {
+      const result = await duesReminderService.sendRemindersForAllChapters();
+      console.log('Reminders for all chapters:', result);
+    }
+  } catch (error) {
+    console.error('Error while sending dues reminders:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+// Run the function
+sendDuesReminders()
+  .then(() => console.log('Script completed'))
+  .catch(error => console.error('Script failed:', error));
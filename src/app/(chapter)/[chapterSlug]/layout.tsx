@@ -47,6 +47,7 @@ export default async function ChapterLayout({ children, params }: ChapterLayoutP
             <nav className="hidden md:flex space-x-6">
               <Link href={`/${chapterSlug}/portal`} className="font-medium">Dashboard</Link>
               <Link href={`/${chapterSlug}/portal/events`} className="text-white/70 hover:text-white transition-colors">Events</Link>
+              <Link href={`/${chapterSlug}/portal/dues`} className="text-white/70 hover:text-white transition-colors">My Dues</Link>
               <Link href={`/${chapterSlug}/portal/members`} className="text-white/70 hover:text-white transition-colors">Members</Link>
               <Link href={`/${chapterSlug}/portal/files`} className="text-white/70 hover:text-white transition-colors">Files</Link>
             </nav>
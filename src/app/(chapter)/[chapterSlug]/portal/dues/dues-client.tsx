@@ -0,0 +1,591 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import { AlertCircle, CalendarClock, CheckCircle2, CreditCard, Download, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { getDuesBalance } from '@/lib/finance/dues-balance';
+import { getPaymentPlanInstallments, getNextPlanInstallment } from '@/lib/finance/payment-plans';
+import { describePaymentMethod } from '@/lib/finance/payment-methods';
+import { DuesPaymentPlanStatus, DuesScheduleFrequency, PaymentMethod } from '@/generated/prisma';
+
+// Type definitions
+interface MemberPaymentPlan {
+  id: string;
+  status: DuesPaymentPlanStatus;
+  totalAmount: number;
+  baseAmountPaid: number;
+  installmentCount: number;
+  frequency: DuesScheduleFrequency;
+  firstPaymentDate: string;
+}
+
+interface MemberDuesPayment {
+  id: string;
+  amount: number;
+  amountPaid: number;
+  currency: string;
+  dueDate: string;
+  paidAt: string | null;
+  installmentNumber: number | null;
+  schedule: {
+    id: string;
+    name: string;
+    installmentCount: number;
+  } | null;
+  lateFees: {
+    id: string;
+    amount: number;
+    assessedAt: string;
+  }[];
+  paymentRecords: {
+    id: string;
+    amount: number;
+    paidAt: string;
+    method: PaymentMethod;
+    referenceNumber: string | null;
+  }[];
+  paymentPlans: MemberPaymentPlan[];
+}
+
+interface MemberDuesClientProps {
+  chapterSlug: string;
+}
+
+// What is still owed on a dues item, including unwaived late fees
+function getAmountDue(payment: MemberDuesPayment) {
+  return getDuesBalance(payment).remaining;
+}
+
+// The approved plan's next installment, if the member is paying in installments
+function getPlanInstallment(payment: MemberDuesPayment) {
+  const plan = payment.paymentPlans.find((p) => p.status === 'APPROVED');
+  if (!plan) {
+    return undefined;
+  }
+
+  const installments = getPaymentPlanInstallments(
+    { ...plan, firstPaymentDate: new Date(plan.firstPaymentDate) },
+    payment.amountPaid
+  );
+  return getNextPlanInstallment(installments);
+}
+
+// Name shown for a dues item, e.g. "Fall 2026 Dues · 2/4"
+function getDuesLabel(payment: MemberDuesPayment) {
+  if (payment.schedule) {
+    return `${payment.schedule.name} · ${payment.installmentNumber}/${payment.schedule.installmentCount}`;
+  }
+  return 'Member dues';
+}
+
+export default function MemberDuesClient({ chapterSlug }: MemberDuesClientProps) {
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [planDuesId, setPlanDuesId] = useState<string | null>(null);
+  const [planInstallments, setPlanInstallments] = useState('3');
+  const [planFrequency, setPlanFrequency] = useState<DuesScheduleFrequency>('MONTHLY');
+  const [planStartDate, setPlanStartDate] = useState('');
+  const [planNote, setPlanNote] = useState('');
+  const [statementYear, setStatementYear] = useState(String(new Date().getFullYear()));
+
+  // Fetch the member's own dues
+  const { data: duesPayments, isLoading, error, refetch } = useQuery<MemberDuesPayment[]>({
+    queryKey: ['my-dues', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/me`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch dues');
+      }
+      return res.json();
+    },
+  });
+
+  // Ask the chapter to split a dues balance into installments
+  const requestPlanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/payment-plans`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          duesPaymentId: planDuesId,
+          installmentCount: Number(planInstallments),
+          frequency: planFrequency,
+          firstPaymentDate: planStartDate,
+          requestNote: planNote || undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to request payment plan');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Payment plan requested. You will see it here once it is approved.');
+      setPlanDuesId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  // Withdraw a plan request that has not been reviewed yet
+  const cancelPlanMutation = useMutation({
+    mutationFn: async (planId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/payment-plans/${planId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to cancel payment plan');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Payment plan request withdrawn');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const openPlanDialog = (duesPaymentId: string) => {
+    setPlanDuesId(duesPaymentId);
+    setPlanInstallments('3');
+    setPlanFrequency('MONTHLY');
+    setPlanStartDate(new Date().toISOString().slice(0, 10));
+    setPlanNote('');
+  };
+
+  // Send the member to Stripe Checkout for a single dues item
+  const handlePay = async (duesPaymentId: string) => {
+    setPayingId(duesPaymentId);
+
+    try {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/checkout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          duesPaymentId,
+          returnTo: 'portal',
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok || !data.url) {
+        throw new Error(data.error || 'Failed to start payment');
+      }
+
+      window.location.href = data.url;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start payment');
+      setPayingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load your dues. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const now = new Date();
+  const outstanding = (duesPayments ?? [])
+    .filter((payment) => !payment.paidAt)
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  // Every payment made, including partial payments and plan installments
+  const history = (duesPayments ?? [])
+    .flatMap((payment) => payment.paymentRecords.map((record) => ({ ...record, payment })))
+    .sort((a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime());
+
+  const balance = outstanding.reduce((sum, payment) => sum + getAmountDue(payment), 0);
+  const overdueBalance = outstanding
+    .filter((payment) => new Date(payment.dueDate) < now)
+    .reduce((sum, payment) => sum + getAmountDue(payment), 0);
+  const totalPaid = history.reduce((sum, record) => sum + record.amount, 0);
+  // Statements go back to the year of the member's first dues
+  const firstYear = Math.min(
+    now.getFullYear(),
+    ...(duesPayments ?? []).map((payment) => new Date(payment.dueDate).getFullYear())
+  );
+  const statementYears = Array.from({ length: now.getFullYear() - firstYear + 1 }, (_, index) => String(now.getFullYear() - index));
+  const nextDue = outstanding.find((payment) => new Date(payment.dueDate) >= now) ?? outstanding[0];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">My Dues</h1>
+        <p className="text-gray-600">Your balance, upcoming dues and payment history.</p>
+      </div>
+
+      {/* Balance Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding Balance</CardDescription>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <CardTitle className="text-2xl">{formatCurrency(balance)}</CardTitle>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!isLoading && overdueBalance > 0 && (
+              <p className="text-sm text-destructive">{formatCurrency(overdueBalance)} overdue</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Next Payment</CardDescription>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <CardTitle className="text-2xl">
+                {nextDue ? formatCurrency(getAmountDue(nextDue)) : 'None'}
+              </CardTitle>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!isLoading && nextDue && (
+              <p className="text-sm text-gray-500">Due {formatDate(nextDue.dueDate)}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Paid</CardDescription>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <CardTitle className="text-2xl">{formatCurrency(totalPaid)}</CardTitle>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!isLoading && (
+              <p className="text-sm text-gray-500">{history.length} payments</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Outstanding Dues */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding Dues</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : outstanding.length === 0 ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <CheckCircle2 className="h-5 w-5 mr-2 text-green-600" />
+              You&apos;re all paid up.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dues</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Late Fees</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Remaining</TableHead>
+                    <TableHead className="text-right"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outstanding.map((payment) => {
+                    const isOverdue = new Date(payment.dueDate) < now;
+                    const lateFeeTotal = payment.lateFees.reduce((sum, fee) => sum + fee.amount, 0);
+                    const pendingPlan = payment.paymentPlans.find((plan) => plan.status === 'PENDING');
+                    const planInstallment = getPlanInstallment(payment);
+
+                    return (
+                      <TableRow key={payment.id}>
+                        <TableCell>
+                          <div className="font-medium">{getDuesLabel(payment)}</div>
+                          {planInstallment && (
+                            <div className="text-xs text-gray-500">
+                              Payment plan · next {formatCurrency(planInstallment.amount - planInstallment.amountPaid, payment.currency)} due {formatDate(planInstallment.dueDate)}
+                            </div>
+                          )}
+                          {pendingPlan && (
+                            <div className="text-xs text-gray-500">
+                              Payment plan requested ·{' '}
+                              <button
+                                type="button"
+                                className="underline hover:text-gray-700"
+                                disabled={cancelPlanMutation.isPending}
+                                onClick={() => cancelPlanMutation.mutate(pendingPlan.id)}
+                              >
+                                Withdraw
+                              </button>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {formatDate(payment.dueDate)}
+                            {isOverdue && !planInstallment && (
+                              <Badge variant="outline" className="bg-red-100 text-red-800">Overdue</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{formatCurrency(payment.amount, payment.currency)}</TableCell>
+                        <TableCell>{lateFeeTotal > 0 ? formatCurrency(lateFeeTotal, payment.currency) : '—'}</TableCell>
+                        <TableCell>{payment.amountPaid > 0 ? formatCurrency(payment.amountPaid, payment.currency) : '—'}</TableCell>
+                        <TableCell className="font-medium">{formatCurrency(getAmountDue(payment), payment.currency)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {!planInstallment && !pendingPlan && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="mr-2"
+                              onClick={() => openPlanDialog(payment.id)}
+                            >
+                              <CalendarClock className="h-4 w-4 mr-2" />
+                              Payment Plan
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => handlePay(payment.id)}
+                            disabled={payingId !== null}
+                          >
+                            {payingId === payment.id ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <CreditCard className="h-4 w-4 mr-2" />
+                            )}
+                            {planInstallment ? 'Pay Installment' : 'Pay'}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment History */}
+      <Card>
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle>Payment History</CardTitle>
+            <CardDescription>Download a receipt for any payment, or a statement of the whole year.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statementYear} onValueChange={setStatementYear}>
+              <SelectTrigger className="w-[100px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statementYears.map((year) => (
+                  <SelectItem key={year} value={year}>{year}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild>
+              <a
+                href={`/api/chapters/${chapterSlug}/finance/statements?year=${statementYear}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Statement
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">No payments yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dues</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead>Paid On</TableHead>
+                    <TableHead>Paid By</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead className="text-right"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell className="font-medium">
+                        {getDuesLabel(record.payment)}
+                        {!record.payment.paidAt && (
+                          <Badge variant="outline" className="ml-2">Partial</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDate(record.payment.dueDate)}</TableCell>
+                      <TableCell>{formatDate(record.paidAt)}</TableCell>
+                      <TableCell>{describePaymentMethod(record.method, record.referenceNumber)}</TableCell>
+                      <TableCell>{formatCurrency(record.amount, record.payment.currency)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" asChild>
+                          <a
+                            href={`/api/chapters/${chapterSlug}/finance/receipts/${record.id}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <FileText className="h-4 w-4 mr-2" />
+                            Receipt
+                          </a>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment Plan Request Dialog */}
+      <Dialog open={planDuesId !== null} onOpenChange={(open) => !open && setPlanDuesId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request a Payment Plan</DialogTitle>
+            <DialogDescription>
+              Split your remaining balance into smaller payments. Your chapter will review the request.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-installments">Number of Payments</Label>
+                <Input
+                  id="plan-installments"
+                  type="number"
+                  min="2"
+                  max="12"
+                  value={planInstallments}
+                  onChange={(e) => setPlanInstallments(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={planFrequency} onValueChange={(value) => setPlanFrequency(value as DuesScheduleFrequency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                    <SelectItem value="QUARTERLY">Quarterly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-start">First Payment</Label>
+              <Input
+                id="plan-start"
+                type="date"
+                value={planStartDate}
+                onChange={(e) => setPlanStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-note">Note</Label>
+              <Textarea
+                id="plan-note"
+                placeholder="Optional message for your treasurer"
+                value={planNote}
+                onChange={(e) => setPlanNote(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanDuesId(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => requestPlanMutation.mutate()}
+              disabled={requestPlanMutation.isPending || !planStartDate}
+            >
+              {requestPlanMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Request Plan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import Link from 'next/link';
+import { CheckCircle2, Clock } from 'lucide-react';
+import { requireChapterAccess } from '@/lib/auth';
+import stripe from '@/lib/stripe';
+import { prisma } from '@/lib/db';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface PageProps {
+  params: Promise<{
+    chapterSlug: string;
+  }>;
+  searchParams: Promise<{
+    session_id?: string;
+  }>;
+}
+
+// Member-facing landing page after a Stripe Checkout dues payment
+export default async function PortalDuesSuccessPage({ params, searchParams }: PageProps) {
+  // Next.js 15: params and searchParams are Promises that need to be awaited
+  const { chapterSlug } = await params;
+  const { session_id: sessionId } = await searchParams;
+  
+  // This will redirect if user isn't authenticated or doesn't have access to this chapter
+  const { user } = await requireChapterAccess(chapterSlug);
+
+  // Look up the checkout session so the member sees what they paid for.
+  // The payment itself is recorded by the Stripe webhook.
+  let amountPaid: number | null = null;
+  let currency: string | undefined;
+  let duesPayment: { dueDate: Date } | null = null;
+  let paymentRecord: { paidAt: Date } | null = null;
+
+  if (sessionId) {
+    try {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      const paymentIntentId = typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id;
+
+      // Only show sessions that belong to the signed-in member
+      if (session.metadata?.userId === user.id && session.metadata?.duesPaymentId) {
+        amountPaid = session.amount_total; // Minor units, like our own records
+        currency = session.currency?.toUpperCase();
+        duesPayment = await prisma.duesPayment.findFirst({
+          where: {
+            id: session.metadata.duesPaymentId,
+            userId: user.id,
+          },
+          select: {
+            dueDate: true,
+          },
+        });
+
+        // Partial and plan installment payments don't mark the dues paid,
+        // so look for this checkout's own recorded payment
+        if (paymentIntentId) {
+          paymentRecord = await prisma.duesPaymentRecord.findFirst({
+            where: {
+              stripePaymentId: paymentIntentId,
+              duesPayment: { userId: user.id },
+              transactions: { some: {} },
+            },
+            select: {
+              paidAt: true,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error retrieving checkout session:', error);
+    }
+  }
+
+  const isConfirmed = !!paymentRecord;
+
+  return (
+    <div className="max-w-lg mx-auto py-8">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            {isConfirmed ? (
+              <CheckCircle2 className="h-12 w-12 text-green-600" />
+            ) : (
+              <Clock className="h-12 w-12 text-yellow-600" />
+            )}
+          </div>
+          <CardTitle className="text-2xl">
+            {isConfirmed ? 'Payment Received' : 'Payment Processing'}
+          </CardTitle>
+          <CardDescription>
+            {isConfirmed
+              ? 'Thank you! Your dues payment has been recorded.'
+              : 'Thank you! Your payment is being confirmed and will appear in your dues shortly.'}
+          </CardDescription>
+        </CardHeader>
+        {(amountPaid !== null || duesPayment) && (
+          <CardContent className="space-y-2 text-sm">
+            {amountPaid !== null && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Amount</span>
+                <span className="font-medium">{formatCurrency(amountPaid, currency)}</span>
+              </div>
+            )}
+            {duesPayment && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Dues due</span>
+                <span className="font-medium">{formatDate(duesPayment.dueDate)}</span>
+              </div>
+            )}
+            {paymentRecord && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Paid on</span>
+                <span className="font-medium">{formatDate(paymentRecord.paidAt)}</span>
+              </div>
+            )}
+          </CardContent>
+        )}
+        <CardFooter className="flex justify-center gap-2">
+          <Link href={`/${chapterSlug}/portal/dues`}>
+            <Button>Back to My Dues</Button>
+          </Link>
+          <Link href={`/${chapterSlug}/portal`}>
+            <Button variant="outline">Portal Home</Button>
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
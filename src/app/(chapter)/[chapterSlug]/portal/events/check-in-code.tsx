@@ -0,0 +1,69 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import Image from 'next/image';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+interface CheckInCode {
+  code: string;
+  qrCode: string; // PNG data URL
+  checkedInAt: string | null;
+}
+
+interface CheckInCodeProps {
+  chapterSlug: string;
+  eventId: string;
+}
+
+export function CheckInCode({ chapterSlug, eventId }: CheckInCodeProps) {
+  const { data, isLoading, error } = useQuery<CheckInCode>({
+    queryKey: ['check-in-code', chapterSlug, eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/events/${eventId}/check-in-code`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch check-in code');
+      }
+      return res.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <div className="flex items-center text-sm">
+        <AlertCircle className="h-4 w-4 text-destructive mr-2" />
+        Failed to load your check-in code. Please try again later.
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-40 w-40" />;
+  }
+
+  if (data.checkedInAt) {
+    return (
+      <p className="flex items-center text-sm text-green-700">
+        <CheckCircle className="h-4 w-4 mr-2" />
+        Checked in at {format(new Date(data.checkedInAt), 'h:mm a')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+      <Image
+        src={data.qrCode}
+        alt="Your check-in QR code"
+        width={160}
+        height={160}
+        unoptimized
+        className="rounded border"
+      />
+      <p className="text-sm text-muted-foreground">
+        Show this code at the door and an officer will scan it to check you in.
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { format } from 'date-fns';
 import { 
   Card, 
@@ -9,7 +11,7 @@ import {
   CardHeader, 
   CardTitle 
 } from '@/components/ui/card';
-import { Calendar, CalendarDays, Clock, MapPin, Users } from 'lucide-react';
+import { Calendar, CalendarDays, CheckCircle2, Clock, MapPin, Users } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -28,7 +30,12 @@ import {
   DialogHeader,
   DialogTitle
 } from '@/components/ui/dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { TicketPurchaseForm } from '@/components/chapters/TicketPurchaseForm';
+import { EventTicketOption } from '@/lib/finance/event-tickets';
 import { EventRsvpForm } from './event-rsvp-form';
+import { MyTickets } from './my-tickets';
+import { CheckInCode } from './check-in-code';
 
 // Type definitions
 interface EventRSVP {
@@ -54,6 +61,7 @@ interface Event {
   createdAt: string;
   updatedAt: string;
   userRsvp?: EventRSVP;
+  ticketTypes?: EventTicketOption[];
   _count?: {
     rsvps: number;
   };
@@ -106,6 +114,9 @@ export default function PortalEventsClient({ chapterSlug }: PortalEventsClientPr
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   // Only using setIsRsvpDialogOpen in handleRsvpSuccess
   const [, setIsRsvpDialogOpen] = useState(false);
+  const { data: session } = useSession();
+  // Set when returning from ticket checkout
+  const ticketsPurchased = useSearchParams().get('tickets') === 'purchased';
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<EventTab>('upcoming');
   const [pagination, setPagination] = useState<Pagination>({
@@ -203,6 +214,18 @@ export default function PortalEventsClient({ chapterSlug }: PortalEventsClientPr
         <h1 className="text-2xl font-bold tracking-tight">Chapter Events</h1>
       </div>
 
+      {ticketsPurchased && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>You&apos;re going!</AlertTitle>
+          <AlertDescription>
+            Your tickets are on their way to your email. They&apos;ll show up under My Tickets in a moment.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <MyTickets chapterSlug={chapterSlug} />
+
       <Tabs defaultValue="upcoming" value={activeTab} onValueChange={handleTabChange}>
         <TabsList>
           <TabsTrigger value="upcoming">Upcoming Events</TabsTrigger>
@@ -580,6 +603,27 @@ export default function PortalEventsClient({ chapterSlug }: PortalEventsClientPr
                 </div>
               )}
               
+              {!!selectedEvent.ticketTypes?.length && (
+                <div className="pt-4 border-t">
+                  <h3 className="text-sm font-medium mb-3">Tickets</h3>
+                  <TicketPurchaseForm
+                    chapterSlug={chapterSlug}
+                    eventId={selectedEvent.id}
+                    ticketTypes={selectedEvent.ticketTypes}
+                    isMember
+                    defaultName={session?.user?.name ?? ''}
+                    defaultEmail={session?.user?.email ?? ''}
+                  />
+                </div>
+              )}
+
+              {selectedEvent.status !== 'CANCELED' && selectedEvent.status !== 'COMPLETED' && (
+                <div className="pt-4 border-t">
+                  <h3 className="text-sm font-medium mb-3">Check-in Code</h3>
+                  <CheckInCode chapterSlug={chapterSlug} eventId={selectedEvent.id} />
+                </div>
+              )}
+
               {selectedEvent.status !== 'CANCELED' && selectedEvent.status !== 'COMPLETED' && (
                 <div className="pt-4 border-t">
                   <h3 className="text-sm font-medium mb-3">Your RSVP</h3>
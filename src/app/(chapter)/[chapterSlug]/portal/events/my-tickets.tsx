@@ -0,0 +1,97 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Ticket } from 'lucide-react';
+
+interface TicketOrder {
+  id: string;
+  quantity: number;
+  event: {
+    id: string;
+    title: string;
+    startDate: string;
+    location: string;
+    status: 'UPCOMING' | 'ONGOING' | 'COMPLETED' | 'CANCELED';
+  };
+  ticketType: {
+    name: string;
+  };
+  tickets: {
+    id: string;
+    code: string;
+  }[];
+}
+
+interface MyTicketsProps {
+  chapterSlug: string;
+}
+
+export function MyTickets({ chapterSlug }: MyTicketsProps) {
+  const { data: orders, isLoading, error } = useQuery<TicketOrder[]>({
+    queryKey: ['my-tickets', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/tickets`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch tickets');
+      }
+      return res.json();
+    },
+  });
+
+  // Members who never bought a ticket don't see the section
+  if (!error && !isLoading && !orders?.length) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Ticket className="h-5 w-5 mr-2" />
+          My Tickets
+        </CardTitle>
+        <CardDescription>Show a ticket code at the door. Codes were also emailed to you.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load your tickets. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          orders?.map((order) => (
+            <div key={order.id} className="p-4 border rounded-lg">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="font-medium">{order.event.title}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {format(new Date(order.event.startDate), 'PPP p')} · {order.event.location}
+                  </div>
+                </div>
+                <Badge variant="secondary">
+                  {order.quantity} × {order.ticketType.name}
+                </Badge>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {order.tickets.map((ticket) => (
+                  <code key={ticket.id} className="px-2 py-1 rounded bg-muted font-mono text-sm tracking-wider">
+                    {ticket.code}
+                  </code>
+                ))}
+              </div>
+              {order.event.status === 'CANCELED' && (
+                <p className="text-sm text-destructive mt-2">This event was canceled.</p>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
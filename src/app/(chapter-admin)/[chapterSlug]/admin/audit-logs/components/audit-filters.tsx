@@ -27,6 +27,7 @@ interface AuditFiltersProps {
 }
 
 const filterSchema = z.object({
+  category: z.string().optional(),
   action: z.string().optional(),
   targetType: z.string().optional(),
   userId: z.string().optional(),
@@ -52,6 +53,50 @@ const auditActionOptions = [
   { label: 'Event Deleted', value: 'event.deleted' },
   { label: 'RSVP Created', value: 'event.rsvp_created' },
   { label: 'RSVP Updated', value: 'event.rsvp_updated' },
+  { label: 'Budget Created', value: 'budget.created' },
+  { label: 'Budget Updated', value: 'budget.updated' },
+  { label: 'Budget Deleted', value: 'budget.deleted' },
+  { label: 'Budget Line Item Created', value: 'budget_line_item.created' },
+  { label: 'Budget Line Item Updated', value: 'budget_line_item.updated' },
+  { label: 'Budget Line Item Deleted', value: 'budget_line_item.deleted' },
+  { label: 'Expense Created', value: 'expense.created' },
+  { label: 'Expense Updated', value: 'expense.updated' },
+  { label: 'Expense Deleted', value: 'expense.deleted' },
+  { label: 'Dues Created', value: 'dues.created' },
+  { label: 'Dues Updated', value: 'dues.updated' },
+  { label: 'Dues Deleted', value: 'dues.deleted' },
+  { label: 'Dues Payment Recorded', value: 'dues.payment_recorded' },
+  { label: 'Dues Refunded', value: 'dues.refunded' },
+  { label: 'Late Fee Assessed', value: 'dues.late_fee_assessed' },
+  { label: 'Late Fee Waived', value: 'dues.late_fee_waived' },
+  { label: 'Payment Plan Requested', value: 'payment_plan.requested' },
+  { label: 'Payment Plan Reviewed', value: 'payment_plan.reviewed' },
+  { label: 'Payment Plan Canceled', value: 'payment_plan.canceled' },
+  { label: 'Dues Category Created', value: 'dues_category.created' },
+  { label: 'Dues Category Updated', value: 'dues_category.updated' },
+  { label: 'Dues Category Deleted', value: 'dues_category.deleted' },
+  { label: 'Dues Category Assigned', value: 'dues_category.assigned' },
+  { label: 'Waiver Requested', value: 'dues_adjustment.requested' },
+  { label: 'Waiver Reviewed', value: 'dues_adjustment.reviewed' },
+  { label: 'Dues Schedule Created', value: 'dues_schedule.created' },
+  { label: 'Dues Schedule Updated', value: 'dues_schedule.updated' },
+  { label: 'Dues Schedule Deleted', value: 'dues_schedule.deleted' },
+  { label: 'Late Fee Rule Created', value: 'late_fee_rule.created' },
+  { label: 'Late Fee Rule Updated', value: 'late_fee_rule.updated' },
+  { label: 'Late Fee Rule Deleted', value: 'late_fee_rule.deleted' },
+  { label: 'Transaction Created', value: 'transaction.created' },
+  { label: 'Transfer Created', value: 'transfer.created' },
+  { label: 'Journal Entry Created', value: 'journal_entry.created' },
+  { label: 'Statement Line Matched', value: 'reconciliation.matched' },
+  { label: 'Statement Line Confirmed', value: 'reconciliation.confirmed' },
+  { label: 'Statement Line Ignored', value: 'reconciliation.ignored' },
+  { label: 'Reimbursement Created', value: 'reimbursement.created' },
+  { label: 'Reimbursement Settled', value: 'reimbursement.settled' },
+  { label: 'Donation Recorded', value: 'donation.recorded' },
+  { label: 'Ticket Order Recorded', value: 'ticket_order.recorded' },
+  { label: 'Fiscal Period Locked', value: 'fiscal_period.locked' },
+  { label: 'Fiscal Period Unlocked', value: 'fiscal_period.unlocked' },
+  { label: 'Fiscal Period Closed', value: 'fiscal_period.closed' },
 ];
 
 const targetTypeOptions = [
@@ -62,6 +107,29 @@ const targetTypeOptions = [
   { label: 'RSVP', value: 'rsvp' },
   { label: 'Invite', value: 'invite' },
   { label: 'Subscription', value: 'subscription' },
+  { label: 'Budget', value: 'budget' },
+  { label: 'Budget Line Item', value: 'budget_line_item' },
+  { label: 'Expense', value: 'expense' },
+  { label: 'Dues Payment', value: 'dues_payment' },
+  { label: 'Payment Plan', value: 'payment_plan' },
+  { label: 'Dues Category', value: 'dues_category' },
+  { label: 'Waiver', value: 'dues_adjustment' },
+  { label: 'Dues Schedule', value: 'dues_schedule' },
+  { label: 'Late Fee Rule', value: 'late_fee_rule' },
+  { label: 'Late Fee', value: 'late_fee' },
+  { label: 'Transaction', value: 'transaction' },
+  { label: 'Journal Entry', value: 'journal_entry' },
+  { label: 'Statement Line', value: 'statement_line' },
+  { label: 'Reimbursement', value: 'reimbursement' },
+  { label: 'Donation', value: 'donation' },
+  { label: 'Ticket Order', value: 'ticket_order' },
+  { label: 'Fiscal Period', value: 'fiscal_period' },
+];
+
+// "all" stands in for no category since select items can't have an empty value
+const categoryOptions = [
+  { label: 'All activity', value: 'all' },
+  { label: 'Finance', value: 'finance' },
 ];
 
 export function AuditFilters({ chapterSlug }: AuditFiltersProps) {
@@ -71,6 +139,7 @@ export function AuditFilters({ chapterSlug }: AuditFiltersProps) {
   const form = useForm<FilterValues>({
     resolver: zodResolver(filterSchema),
     defaultValues: {
+      category: 'all',
       action: '',
       targetType: '',
       userId: '',
@@ -82,6 +151,7 @@ export function AuditFilters({ chapterSlug }: AuditFiltersProps) {
   function onSubmit(values: FilterValues) {
     const queryParams = new URLSearchParams();
     
+    if (values.category && values.category !== 'all') queryParams.set('category', values.category);
     if (values.action) queryParams.set('action', values.action);
     if (values.targetType) queryParams.set('targetType', values.targetType);
     if (values.userId) queryParams.set('userId', values.userId);
@@ -96,6 +166,7 @@ export function AuditFilters({ chapterSlug }: AuditFiltersProps) {
   
   function clearFilters() {
     form.reset({
+      category: 'all',
       action: '',
       targetType: '',
       userId: '',
@@ -116,6 +187,33 @@ export function AuditFilters({ chapterSlug }: AuditFiltersProps) {
         <PopoverContent className="w-96 p-4">
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categoryOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="action"
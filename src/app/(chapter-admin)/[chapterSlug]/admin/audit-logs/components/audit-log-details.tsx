@@ -23,13 +23,13 @@ interface AuditLogUser {
 
 interface AuditLog {
   id: string;
-  userId: string;
+  userId: string | null;
   action: string;
   targetType: string;
   targetId: string | null;
   metadata: Record<string, unknown>;
   createdAt: Date;
-  user: AuditLogUser;
+  user: AuditLogUser | null; // Null for changes made by Stripe or scheduled jobs
 }
 
 interface AuditLogDetailsProps {
@@ -38,6 +38,10 @@ interface AuditLogDetailsProps {
 
 export function AuditLogDetails({ log }: AuditLogDetailsProps) {
   const [open, setOpen] = useState(false);
+  const changes = getChanges(log.metadata);
+  const otherDetails = Object.fromEntries(
+    Object.entries(log.metadata ?? {}).filter(([key]) => key !== 'before' && key !== 'after')
+  );
   
   return (
     <>
@@ -82,7 +86,7 @@ export function AuditLogDetails({ log }: AuditLogDetailsProps) {
             <div className="flex flex-col">
               <span className="text-sm font-medium text-muted-foreground">Performed By</span>
               <div className="flex items-center gap-2 mt-1">
-                {log.user.image && (
+                {log.user?.image && (
                   <Image
                     src={log.user.image}
                     alt={log.user.name || "User"}
@@ -92,20 +96,48 @@ export function AuditLogDetails({ log }: AuditLogDetailsProps) {
                   />
                 )}
                 <div>
-                  <div className="font-medium">{log.user.name || "Unknown User"}</div>
-                  <div className="text-xs text-muted-foreground">{log.user.email}</div>
+                  <div className="font-medium">{log.user ? log.user.name || "Unknown User" : "System"}</div>
+                  <div className="text-xs text-muted-foreground">{log.user?.email}</div>
                 </div>
               </div>
             </div>
             
-            {log.metadata && Object.keys(log.metadata).length > 0 && (
+            {changes.length > 0 && (
+              <div className="flex flex-col">
+                <span className="text-sm font-medium text-muted-foreground">
+                  Changes
+                </span>
+                <div className="rounded-md border mt-1 overflow-auto max-h-64">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b bg-muted">
+                        <th className="text-left font-medium p-2">Field</th>
+                        <th className="text-left font-medium p-2">Before</th>
+                        <th className="text-left font-medium p-2">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map((change) => (
+                        <tr key={change.field} className="border-b last:border-0">
+                          <td className="p-2 font-mono">{change.field}</td>
+                          <td className="p-2 font-mono text-muted-foreground break-all">{formatValue(change.before)}</td>
+                          <td className="p-2 font-mono break-all">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+            
+            {Object.keys(otherDetails).length > 0 && (
               <div className="flex flex-col">
                 <span className="text-sm font-medium text-muted-foreground">
                   Additional Details
                 </span>
                 <div className="p-3 bg-muted rounded-md mt-1 overflow-auto max-h-52">
                   <pre className="text-xs font-mono whitespace-pre-wrap">
-                    {JSON.stringify(log.metadata, null, 2)}
+                    {JSON.stringify(otherDetails, null, 2)}
                   </pre>
                 </div>
               </div>
@@ -118,13 +150,32 @@ export function AuditLogDetails({ log }: AuditLogDetailsProps) {
 }
 
 // Helper functions to format the display of audit log data
+
+// Finance entries store the values a change touched as "before" and "after"
+function getChanges(metadata: Record<string, unknown> | null | undefined) {
+  const before = (metadata?.before ?? {}) as Record<string, unknown>;
+  const after = (metadata?.after ?? {}) as Record<string, unknown>;
+
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])].map((field) => ({
+    field,
+    before: before[field],
+    after: after[field],
+  }));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (value === null) return 'empty';
+  return String(value);
+}
+
 function formatActionLabel(action: string): string {
   return action
     .split('.')
-    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1).replace(/_/g, ' '))
     .join(' ');
 }
 
 function formatTargetType(targetType: string): string {
-  return targetType.charAt(0).toUpperCase() + targetType.slice(1);
+  return targetType.charAt(0).toUpperCase() + targetType.slice(1).replace(/_/g, ' ');
 }
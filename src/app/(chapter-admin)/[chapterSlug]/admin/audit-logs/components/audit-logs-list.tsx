@@ -22,13 +22,13 @@ interface AuditLogUser {
 
 interface AuditLog {
   id: string;
-  userId: string;
+  userId: string | null;
   action: string;
   targetType: string;
   targetId: string | null;
   metadata: Record<string, unknown>;
   createdAt: Date;
-  user: AuditLogUser;
+  user: AuditLogUser | null; // Null for changes made by Stripe or scheduled jobs
 }
 
 interface PaginationInfo {
@@ -90,7 +90,7 @@ export function AuditLogsList({ auditLogsData, chapterSlug }: AuditLogsListProps
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
-                            {log.user.image && (
+                            {log.user?.image && (
                               <Image
                                 src={log.user.image}
                                 alt={log.user.name || "User"}
@@ -100,8 +100,8 @@ export function AuditLogsList({ auditLogsData, chapterSlug }: AuditLogsListProps
                               />
                             )}
                             <div>
-                              <div className="font-medium">{log.user.name || "Unknown User"}</div>
-                              <div className="text-xs text-muted-foreground">{log.user.email}</div>
+                              <div className="font-medium">{log.user ? log.user.name || "Unknown User" : "System"}</div>
+                              <div className="text-xs text-muted-foreground">{log.user?.email}</div>
                             </div>
                           </div>
                         </TableCell>
@@ -144,12 +144,12 @@ export function AuditLogsList({ auditLogsData, chapterSlug }: AuditLogsListProps
 function formatActionLabel(action: string): string {
   return action
     .split('.')
-    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1).replace(/_/g, ' '))
     .join(' ');
 }
 
 function formatTargetType(targetType: string): string {
-  return targetType.charAt(0).toUpperCase() + targetType.slice(1);
+  return targetType.charAt(0).toUpperCase() + targetType.slice(1).replace(/_/g, ' ');
 }
 
 function truncateId(id: string): string {
@@ -20,7 +20,7 @@ export default async function AuditLogsPage({
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }) {
   const { chapterSlug } = await params;
-  const { page = '1', userId, action, targetType, from, to } = await searchParams;
+  const { page = '1', userId, action, targetType, category, from, to } = await searchParams;
 
   // Check if the chapter exists
   const chapter = await getChapterFromSlug(chapterSlug);
@@ -56,6 +56,7 @@ export default async function AuditLogsPage({
     userId: userId as string | undefined,
     action: action as string | undefined,
     targetType: targetType as string | undefined,
+    category: category === 'finance' ? 'finance' : undefined,
     page: currentPage,
     limit: 25,
     fromDate,
@@ -64,7 +65,7 @@ export default async function AuditLogsPage({
   
   // Map the data to ensure type compatibility (especially for metadata)
   type AuditLogWithUser = AuditLog & {
-    user: Pick<User, 'id' | 'name' | 'email' | 'image'>;
+    user: Pick<User, 'id' | 'name' | 'email' | 'image'> | null;
   };
 
   const auditLogsData = {
@@ -0,0 +1,396 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Camera,
+  CameraOff,
+  CheckCircle,
+  Loader2,
+  Search,
+  Undo2,
+} from 'lucide-react';
+import { EventAttendance } from '../../components/event-attendance-panel';
+
+// The browser's built-in QR reader, which TypeScript's DOM types don't include yet
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+// How often the camera is read, and how long the same code is ignored after a scan
+const SCAN_INTERVAL_MS = 400;
+const REPEAT_SCAN_MS = 3000;
+
+interface CheckInResult {
+  user: { id: string; name: string | null; email: string | null };
+  alreadyCheckedIn: boolean;
+  attendance: { checkedInAt: string };
+}
+
+interface CheckInClientProps {
+  chapterSlug: string;
+  eventId: string;
+}
+
+export function CheckInClient({ chapterSlug, eventId }: CheckInClientProps) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [manualCode, setManualCode] = useState('');
+  const [scannerSupported, setScannerSupported] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [lastResult, setLastResult] = useState<
+    { type: 'success'; result: CheckInResult } | { type: 'error'; message: string } | null
+  >(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const attendanceKey = ['event-attendance', chapterSlug, eventId];
+
+  // Fetch the event for its title
+  const { data: event } = useQuery<{ title: string; startDate: string; location: string }>({
+    queryKey: ['event', chapterSlug, eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/events/${eventId}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch event');
+      }
+      const data = await res.json();
+      return data.event;
+    },
+  });
+
+  const { data, isLoading, error } = useQuery<EventAttendance>({
+    queryKey: attendanceKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/events/${eventId}/attendance`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch attendance');
+      }
+      return res.json();
+    },
+  });
+
+  // Check in by scanned code or by member
+  const { mutate: checkIn, isPending: isCheckingIn } = useMutation({
+    mutationFn: async (body: { code: string } | { userId: string }): Promise<CheckInResult> => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/events/${eventId}/attendance`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to check in member');
+      }
+
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setLastResult({ type: 'success', result });
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+    },
+    onError: (error) => {
+      setLastResult({ type: 'error', message: error.message });
+    },
+  });
+
+  // Undo a check-in
+  const undoCheckIn = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await fetch(
+        `/api/chapters/${chapterSlug}/events/${eventId}/attendance?userId=${encodeURIComponent(userId)}`,
+        { method: 'DELETE' }
+      );
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to remove check-in');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Check-in removed');
+      setLastResult(null);
+      queryClient.invalidateQueries({ queryKey: attendanceKey });
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const stopScanning = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  // Camera scanning needs the browser's BarcodeDetector; otherwise codes are typed or searched
+  useEffect(() => {
+    setScannerSupported(typeof window !== 'undefined' && !!window.BarcodeDetector);
+    return stopScanning;
+  }, [stopScanning]);
+
+  const startScanning = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      setIsScanning(true);
+    } catch (error) {
+      toast.error('Could not open the camera');
+      console.error(error);
+    }
+  };
+
+  // Read the camera until scanning stops
+  useEffect(() => {
+    if (!isScanning || !videoRef.current || !streamRef.current || !window.BarcodeDetector) {
+      return;
+    }
+
+    const video = videoRef.current;
+    video.srcObject = streamRef.current;
+    video.play().catch(console.error);
+
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+    let timeout: ReturnType<typeof setTimeout>;
+    let stopped = false;
+
+    const scan = async () => {
+      try {
+        const [barcode] = await detector.detect(video);
+        const now = Date.now();
+        const last = lastScanRef.current;
+
+        if (barcode && !(last && last.code === barcode.rawValue && now - last.at < REPEAT_SCAN_MS)) {
+          lastScanRef.current = { code: barcode.rawValue, at: now };
+          checkIn({ code: barcode.rawValue });
+        }
+      } catch {
+        // The video isn't ready yet; try again on the next tick
+      }
+
+      if (!stopped) {
+        timeout = setTimeout(scan, SCAN_INTERVAL_MS);
+      }
+    };
+
+    scan();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timeout);
+    };
+  }, [isScanning, checkIn]);
+
+  const handleManualCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    checkIn({ code: manualCode.trim() });
+    setManualCode('');
+  };
+
+  const query = search.trim().toLowerCase();
+  const members = (data?.members ?? []).filter(
+    (member) =>
+      !query ||
+      member.user.name?.toLowerCase().includes(query) ||
+      member.user.email?.toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link href={`/${chapterSlug}/admin/events/${eventId}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Event
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold tracking-tight">Check-in</h1>
+          {event ? (
+            <p className="text-muted-foreground">
+              {event.title} · {format(new Date(event.startDate), 'MMM d, yyyy h:mm a')}
+            </p>
+          ) : (
+            <Skeleton className="h-4 w-64 mt-1" />
+          )}
+        </div>
+        {data && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+              <span className="text-xl font-bold">{data.summary.attended}</span>
+              <span className="text-xs text-muted-foreground">Checked In</span>
+            </div>
+            <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+              <span className="text-xl font-bold">{data.summary.noShows}</span>
+              <span className="text-xs text-muted-foreground">Going, Not Here Yet</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {lastResult?.type === 'success' && (
+        <Alert className="border-green-200 bg-green-50">
+          <CheckCircle className="h-4 w-4 text-green-700" />
+          <AlertTitle>
+            {lastResult.result.user.name || lastResult.result.user.email}
+          </AlertTitle>
+          <AlertDescription>
+            {lastResult.result.alreadyCheckedIn
+              ? `Already checked in at ${format(new Date(lastResult.result.attendance.checkedInAt), 'h:mm a')}`
+              : 'Checked in'}
+          </AlertDescription>
+        </Alert>
+      )}
+      {lastResult?.type === 'error' && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Check-in failed</AlertTitle>
+          <AlertDescription>{lastResult.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Scan</CardTitle>
+            <CardDescription>
+              Scan a member&apos;s QR code from their event page, or enter it with a handheld scanner.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scannerSupported ? (
+              <>
+                {isScanning && (
+                  <video ref={videoRef} className="w-full rounded-md bg-black aspect-video object-cover" muted playsInline />
+                )}
+                <Button variant={isScanning ? 'outline' : 'default'} onClick={isScanning ? stopScanning : startScanning}>
+                  {isScanning ? (
+                    <>
+                      <CameraOff className="mr-2 h-4 w-4" />
+                      Stop Camera
+                    </>
+                  ) : (
+                    <>
+                      <Camera className="mr-2 h-4 w-4" />
+                      Scan with Camera
+                    </>
+                  )}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This browser can&apos;t scan with the camera. Use a handheld scanner or search for the member instead.
+              </p>
+            )}
+
+            <form onSubmit={handleManualCode} className="flex gap-2">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="Check-in code"
+                autoComplete="off"
+              />
+              <Button type="submit" variant="outline" disabled={isCheckingIn || !manualCode.trim()}>
+                {isCheckingIn ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check In'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Find a Member</CardTitle>
+            <CardDescription>For members without their code</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name or email"
+                className="pl-8"
+              />
+            </div>
+
+            {error ? (
+              <div className="flex items-center justify-center p-4">
+                <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+                <p>Failed to load members. Please try again later.</p>
+              </div>
+            ) : isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }).map((_, index) => (
+                  <Skeleton key={index} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : members.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">No members found</p>
+            ) : (
+              <div className="divide-y max-h-[480px] overflow-y-auto">
+                {members.map((member) => (
+                  <div key={member.user.id} className="flex items-center justify-between gap-4 py-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{member.user.name || 'Unknown'}</p>
+                      <p className="text-xs text-muted-foreground truncate">{member.user.email}</p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {member.rsvpStatus === 'GOING' && <Badge variant="outline">Going</Badge>}
+                      {member.attendance ? (
+                        <>
+                          <Badge className="bg-green-100 text-green-800" variant="secondary">
+                            {format(new Date(member.attendance.checkedInAt), 'h:mm a')}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Undo Check-in"
+                            disabled={undoCheckIn.isPending}
+                            onClick={() => undoCheckIn.mutate(member.user.id)}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          disabled={isCheckingIn}
+                          onClick={() => checkIn({ userId: member.user.id })}
+                        >
+                          Check In
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { CheckInClient } from "./check-in-client";
+
+interface PageProps {
+  params: Promise<{
+    chapterSlug: string;
+    eventId: string;
+  }>;
+}
+
+// Server component for Next.js 15 App Router
+export default async function EventCheckInPage({ params }: PageProps) {
+  // Next.js 15: params is a Promise that needs to be awaited
+  const { chapterSlug, eventId } = await params;
+  
+  return <CheckInClient chapterSlug={chapterSlug} eventId={eventId} />;
+}
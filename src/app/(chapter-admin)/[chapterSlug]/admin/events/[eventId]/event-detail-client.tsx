@@ -50,10 +50,13 @@ import {
   XCircle, 
   HelpCircle,
   Download,
-  Loader2
+  Loader2,
+  QrCode
 } from 'lucide-react';
 import { EventStatus } from '@/generated/prisma';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { EventTicketsPanel } from '../components/event-tickets-panel';
+import { EventAttendancePanel } from '../components/event-attendance-panel';
 
 // Type definitions
 interface User {
@@ -328,6 +331,13 @@ export function EventDetailClient({ chapterSlug, eventId }: EventDetailClientPro
           </p>
         </div>
         <div className="flex space-x-3">
+          <Button
+            onClick={() => router.push(`/${chapterSlug}/admin/events/${eventId}/check-in`)}
+            variant="outline"
+            size="sm"
+          >
+            <QrCode className="mr-2 h-4 w-4" /> Check-in
+          </Button>
           <Button onClick={handleEditEvent} variant="outline" size="sm">
             <Edit className="mr-2 h-4 w-4" /> Edit
           </Button>
@@ -377,7 +387,7 @@ export function EventDetailClient({ chapterSlug, eventId }: EventDetailClientPro
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="rsvps">
             RSVPs
@@ -385,6 +395,8 @@ export function EventDetailClient({ chapterSlug, eventId }: EventDetailClientPro
               {rsvps.length}
             </Badge>
           </TabsTrigger>
+          <TabsTrigger value="attendance">Attendance</TabsTrigger>
+          <TabsTrigger value="tickets">Tickets</TabsTrigger>
         </TabsList>
         
         <TabsContent value="details" className="space-y-6">
@@ -521,6 +533,14 @@ export function EventDetailClient({ chapterSlug, eventId }: EventDetailClientPro
             </div>
           )}
         </TabsContent>
+
+        <TabsContent value="attendance" className="space-y-6">
+          <EventAttendancePanel chapterSlug={chapterSlug} eventId={eventId} />
+        </TabsContent>
+
+        <TabsContent value="tickets" className="space-y-6">
+          <EventTicketsPanel chapterSlug={chapterSlug} eventId={eventId} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, QrCode } from 'lucide-react';
+
+export interface AttendanceMember {
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  };
+  rsvpStatus: 'GOING' | 'NOT_GOING' | 'MAYBE' | null;
+  attendance: {
+    id: string;
+    method: 'QR_CODE' | 'MANUAL';
+    checkedInAt: string;
+    checkedInBy: { id: string; name: string | null } | null;
+  } | null;
+}
+
+export interface EventAttendance {
+  members: AttendanceMember[];
+  summary: {
+    going: number;
+    attended: number;
+    goingAndAttended: number;
+    noShows: number;
+    walkIns: number;
+  };
+}
+
+// RSVP status labels
+const rsvpStatusLabelMap = {
+  GOING: 'Going',
+  NOT_GOING: 'Not Going',
+  MAYBE: 'Maybe',
+};
+
+type AttendanceFilter = 'all' | 'attended' | 'noShows' | 'walkIns';
+
+interface EventAttendancePanelProps {
+  chapterSlug: string;
+  eventId: string;
+}
+
+export function EventAttendancePanel({ chapterSlug, eventId }: EventAttendancePanelProps) {
+  const [filter, setFilter] = useState<AttendanceFilter>('all');
+
+  const { data, isLoading, error } = useQuery<EventAttendance>({
+    queryKey: ['event-attendance', chapterSlug, eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/events/${eventId}/attendance`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch attendance');
+      }
+      return res.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center p-6">
+          <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+          <p>Failed to load attendance. Please try again later.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-20 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const { summary } = data;
+  // Share of members who said they were going that actually came
+  const showRate = summary.going > 0 ? Math.round((summary.goingAndAttended / summary.going) * 100) : null;
+
+  const members = data.members.filter((member) => {
+    switch (filter) {
+      case 'attended':
+        return member.attendance;
+      case 'noShows':
+        return member.rsvpStatus === 'GOING' && !member.attendance;
+      case 'walkIns':
+        return member.attendance && member.rsvpStatus !== 'GOING';
+      default:
+        return member.attendance || member.rsvpStatus;
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 w-full md:w-auto">
+          <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+            <span className="text-xl font-bold">{summary.going}</span>
+            <span className="text-xs text-muted-foreground">RSVP&apos;d Going</span>
+          </div>
+          <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+            <span className="text-xl font-bold">{summary.attended}</span>
+            <span className="text-xs text-muted-foreground">Attended</span>
+          </div>
+          <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+            <span className="text-xl font-bold">{summary.noShows}</span>
+            <span className="text-xs text-muted-foreground">No-shows</span>
+          </div>
+          <div className="flex flex-col items-center justify-center p-3 border rounded-md bg-card">
+            <span className="text-xl font-bold">{summary.walkIns}</span>
+            <span className="text-xs text-muted-foreground">Walk-ins</span>
+          </div>
+        </div>
+
+        <Button asChild size="sm">
+          <Link href={`/${chapterSlug}/admin/events/${eventId}/check-in`}>
+            <QrCode className="mr-2 h-4 w-4" />
+            Open Check-in
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>RSVPs vs. Attendance</CardTitle>
+            <CardDescription>
+              {showRate === null
+                ? 'No one has RSVP\'d going yet.'
+                : `${showRate}% of members who RSVP'd going checked in.`}
+            </CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as AttendanceFilter)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All responses</SelectItem>
+              <SelectItem value="attended">Attended</SelectItem>
+              <SelectItem value="noShows">No-shows</SelectItem>
+              <SelectItem value="walkIns">Walk-ins</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {members.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No members to show</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>RSVP</TableHead>
+                    <TableHead>Attended</TableHead>
+                    <TableHead>Checked In By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.user.id}>
+                      <TableCell>
+                        <p className="font-medium">{member.user.name || 'Unknown'}</p>
+                        <p className="text-xs text-muted-foreground">{member.user.email}</p>
+                      </TableCell>
+                      <TableCell>
+                        {member.rsvpStatus ? rsvpStatusLabelMap[member.rsvpStatus] : (
+                          <span className="text-muted-foreground">No response</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {member.attendance ? (
+                          <Badge className="bg-green-100 text-green-800" variant="secondary">
+                            {format(new Date(member.attendance.checkedInAt), 'h:mm a')}
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {member.attendance ? (
+                          <>
+                            <p>{member.attendance.checkedInBy?.name || 'Unknown'}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {member.attendance.method === 'QR_CODE' ? 'QR code' : 'Manual'}
+                            </p>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/utils/format';
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/money';
+import { TicketAvailability } from '@/lib/finance/event-tickets';
+
+interface TicketType {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  currency: string;
+  quantity: number | null;
+  membersOnly: boolean;
+  salesEndAt: string | null;
+  sold: number;
+  availability: TicketAvailability;
+}
+
+interface TicketOrder {
+  id: string;
+  quantity: number;
+  amount: number;
+  currency: string;
+  buyerName: string;
+  buyerEmail: string;
+  createdAt: string;
+  ticketType: { id: string; name: string };
+  tickets: { id: string; code: string }[];
+  user: { id: string; name: string | null; email: string } | null;
+}
+
+// Form schema; the price is entered in whole currency units
+const ticketTypeFormSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(60, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional(),
+  price: z.coerce.number().min(0, 'Price cannot be negative'),
+  quantity: z.string().refine((value) => value === '' || (Number.isInteger(Number(value)) && Number(value) > 0), 'Quantity must be a positive whole number'),
+  membersOnly: z.boolean(),
+  salesEndAt: z.string().optional(),
+});
+
+type FormValues = z.infer<typeof ticketTypeFormSchema>;
+
+const emptyForm: FormValues = {
+  name: '',
+  description: '',
+  price: 0,
+  quantity: '',
+  membersOnly: false,
+  salesEndAt: '',
+};
+
+interface EventTicketsPanelProps {
+  chapterSlug: string;
+  eventId: string;
+}
+
+export function EventTicketsPanel({ chapterSlug, eventId }: EventTicketsPanelProps) {
+  const [editingTicketType, setEditingTicketType] = useState<TicketType | null>(null);
+  const baseUrl = `/api/chapters/${chapterSlug}/events/${eventId}`;
+
+  // Fetch ticket types with sales
+  const { data: ticketTypes, isLoading, error, refetch } = useQuery<TicketType[]>({
+    queryKey: ['event-ticket-types', chapterSlug, eventId],
+    queryFn: async () => {
+      const res = await fetch(`${baseUrl}/ticket-types`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch ticket types');
+      }
+      return res.json();
+    },
+  });
+
+  // Fetch orders with their ticket codes
+  const { data: orders, isLoading: loadingOrders } = useQuery<TicketOrder[]>({
+    queryKey: ['event-ticket-orders', chapterSlug, eventId],
+    queryFn: async () => {
+      const res = await fetch(`${baseUrl}/ticket-orders`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch ticket orders');
+      }
+      return res.json();
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(ticketTypeFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Create or update a ticket type
+  const saveTicketType = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await fetch(
+        editingTicketType ? `${baseUrl}/ticket-types/${editingTicketType.id}` : `${baseUrl}/ticket-types`,
+        {
+          method: editingTicketType ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            name: data.name,
+            description: data.description || null,
+            price: toMinorUnits(data.price), // The API expects cents
+            quantity: data.quantity ? Number(data.quantity) : null,
+            membersOnly: data.membersOnly,
+            salesEndAt: data.salesEndAt ? new Date(data.salesEndAt).toISOString() : null,
+          }),
+        }
+      );
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to save ticket type');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(editingTicketType ? 'Ticket type updated' : 'Ticket type added');
+      setEditingTicketType(null);
+      form.reset(emptyForm);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete a ticket type that hasn't sold
+  const deleteTicketType = useMutation({
+    mutationFn: async (ticketTypeId: string) => {
+      const res = await fetch(`${baseUrl}/ticket-types/${ticketTypeId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete ticket type');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Ticket type deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const startEditing = (ticketType: TicketType) => {
+    setEditingTicketType(ticketType);
+    form.reset({
+      name: ticketType.name,
+      description: ticketType.description ?? '',
+      price: fromMinorUnits(ticketType.price, ticketType.currency),
+      quantity: ticketType.quantity?.toString() ?? '',
+      membersOnly: ticketType.membersOnly,
+      salesEndAt: ticketType.salesEndAt ? format(new Date(ticketType.salesEndAt), "yyyy-MM-dd'T'HH:mm") : '',
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingTicketType(null);
+    form.reset(emptyForm);
+  };
+
+  const totalSold = ticketTypes?.reduce((sum, ticketType) => sum + ticketType.sold, 0) ?? 0;
+  const revenue = orders?.reduce((sum, order) => sum + order.amount, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Ticket Types</CardTitle>
+          <CardDescription>
+            Sell member, guest or early bird tickets. Ticket income is recorded in the chapter&apos;s books.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error ? (
+            <div className="flex items-center justify-center p-4">
+              <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+              <p>Failed to load ticket types. Please try again later.</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : ticketTypes?.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No tickets yet. Members RSVP to this event for free.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Sold</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ticketTypes?.map((ticketType) => (
+                    <TableRow key={ticketType.id}>
+                      <TableCell>
+                        <div className="font-medium">{ticketType.name}</div>
+                        {ticketType.description && (
+                          <div className="text-xs text-muted-foreground">{ticketType.description}</div>
+                        )}
+                        {ticketType.membersOnly && (
+                          <Badge variant="outline" className="mt-1">Members only</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {ticketType.price === 0 ? 'Free' : formatCurrency(ticketType.price, ticketType.currency)}
+                      </TableCell>
+                      <TableCell>
+                        {ticketType.sold}
+                        {ticketType.quantity !== null && ` / ${ticketType.quantity}`}
+                      </TableCell>
+                      <TableCell>
+                        <div>{ticketType.availability.isOnSale ? 'On sale' : ticketType.availability.reason}</div>
+                        {ticketType.salesEndAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Until {format(new Date(ticketType.salesEndAt), 'MMM d, yyyy h:mm a')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit Ticket Type"
+                            onClick={() => startEditing(ticketType)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete Ticket Type"
+                            disabled={deleteTicketType.isPending || ticketType.sold > 0}
+                            onClick={() => deleteTicketType.mutate(ticketType.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveTicketType.mutate(data))} className="space-y-4 border-t pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Early bird" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price ($)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="0.01" min="0" />
+                      </FormControl>
+                      <FormDescription>0 for free tickets</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantity</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="1" min="1" placeholder="No limit" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="salesEndAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sales End</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="datetime-local" />
+                      </FormControl>
+                      <FormDescription>Optional, e.g. for early bird pricing</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="membersOnly"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center gap-2 space-y-0 md:pt-8">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel className="font-normal">Members only</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saveTicketType.isPending}>
+                  {saveTicketType.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : editingTicketType ? (
+                    'Save Ticket Type'
+                  ) : (
+                    'Add Ticket Type'
+                  )}
+                </Button>
+                {editingTicketType && (
+                  <Button type="button" variant="outline" onClick={cancelEditing}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orders</CardTitle>
+          <CardDescription>
+            {totalSold} tickets issued
+            {revenue > 0 && orders?.[0] && ` · ${formatCurrency(revenue, orders[0].currency)} in ticket sales`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {loadingOrders ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : orders?.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No tickets have been sold yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Buyer</TableHead>
+                    <TableHead>Tickets</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Codes</TableHead>
+                    <TableHead>Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders?.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell>
+                        <div className="font-medium">{order.buyerName}</div>
+                        <div className="text-xs text-muted-foreground">{order.buyerEmail}</div>
+                        {order.user && <Badge variant="outline" className="mt-1">Member</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {order.quantity} × {order.ticketType.name}
+                      </TableCell>
+                      <TableCell>
+                        {order.amount === 0 ? 'Free' : formatCurrency(order.amount, order.currency)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {order.tickets.map((ticket) => (
+                            <code key={ticket.id} className="px-1.5 py-0.5 rounded bg-muted font-mono text-xs">
+                              {ticket.code}
+                            </code>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{format(new Date(order.createdAt), 'MMM d, yyyy')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
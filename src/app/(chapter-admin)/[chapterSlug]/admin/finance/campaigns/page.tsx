@@ -0,0 +1,26 @@
+import { Suspense } from "react";
+import { CampaignsList } from "@/components/finance/campaigns/CampaignsList";
+import { PageHeader } from "@/components/ui/page-header";
+import { CardSkeleton } from "@/components/skeletons/card-skeleton";
+
+export default async function CampaignsPage({
+  params,
+}: {
+  params: Promise<{ chapterSlug: string }>;
+}) {
+  // Get the chapterSlug from the dynamic route parameter
+  const { chapterSlug } = await params;
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Fundraising Campaigns"
+        description="Raise money for philanthropy drives and alumni giving with public donation pages."
+      />
+      
+      <Suspense fallback={<CardSkeleton className="h-[400px]" />}>
+        <CampaignsList chapterSlug={chapterSlug} />
+      </Suspense>
+    </div>
+  );
+}
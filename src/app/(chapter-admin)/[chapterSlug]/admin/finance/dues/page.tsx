@@ -7,6 +7,13 @@ import { PlusIcon } from "@radix-ui/react-icons";
 import { CardSkeleton } from "@/components/skeletons/card-skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BulkDuesFormPanel } from "@/components/finance/dues/BulkDuesFormPanel";
+import { DuesSchedulesList } from "@/components/finance/dues/DuesSchedulesList";
+import { DuesScheduleFormPanel } from "@/components/finance/dues/DuesScheduleFormPanel";
+import { LateFeeRulesPanel } from "@/components/finance/dues/LateFeeRulesPanel";
+import { DuesRemindersPanel } from "@/components/finance/dues/DuesRemindersPanel";
+import { PaymentPlansList } from "@/components/finance/dues/PaymentPlansList";
+import { DuesAdjustmentsList } from "@/components/finance/dues/DuesAdjustmentsList";
+import { DuesCategoriesPanel } from "@/components/finance/dues/DuesCategoriesPanel";
 
 export default async function DuesPage({
   params,
@@ -36,6 +43,12 @@ export default async function DuesPage({
           <TabsTrigger value="all">All Dues</TabsTrigger>
           <TabsTrigger value="pending">Pending</TabsTrigger>
           <TabsTrigger value="paid">Paid</TabsTrigger>
+          <TabsTrigger value="payment-plans">Payment Plans</TabsTrigger>
+          <TabsTrigger value="waivers">Waivers</TabsTrigger>
+          <TabsTrigger value="categories">Categories</TabsTrigger>
+          <TabsTrigger value="schedules">Schedules</TabsTrigger>
+          <TabsTrigger value="late-fees">Late Fees</TabsTrigger>
+          <TabsTrigger value="reminders">Reminders</TabsTrigger>
           <TabsTrigger value="create">Create Bulk</TabsTrigger>
         </TabsList>
         
@@ -57,6 +70,37 @@ export default async function DuesPage({
           </Suspense>
         </TabsContent>
         
+        <TabsContent value="payment-plans" className="space-y-4">
+          <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+            <PaymentPlansList chapterSlug={chapterSlug} />
+          </Suspense>
+        </TabsContent>
+        
+        <TabsContent value="waivers" className="space-y-4">
+          <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+            <DuesAdjustmentsList chapterSlug={chapterSlug} />
+          </Suspense>
+        </TabsContent>
+        
+        <TabsContent value="categories" className="space-y-4">
+          <DuesCategoriesPanel chapterSlug={chapterSlug} />
+        </TabsContent>
+        
+        <TabsContent value="schedules" className="space-y-4">
+          <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+            <DuesSchedulesList chapterSlug={chapterSlug} />
+          </Suspense>
+          <DuesScheduleFormPanel chapterSlug={chapterSlug} />
+        </TabsContent>
+        
+        <TabsContent value="late-fees" className="space-y-4">
+          <LateFeeRulesPanel chapterSlug={chapterSlug} />
+        </TabsContent>
+        
+        <TabsContent value="reminders" className="space-y-4">
+          <DuesRemindersPanel chapterSlug={chapterSlug} />
+        </TabsContent>
+        
         <TabsContent value="create" className="space-y-4">
           <BulkDuesFormPanel chapterSlug={chapterSlug} />
         </TabsContent>
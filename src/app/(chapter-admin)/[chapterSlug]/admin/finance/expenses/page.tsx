@@ -1,8 +1,11 @@
 import { Suspense } from "react";
 import Link from "next/link";
 import { ExpensesList } from "@/components/finance/expenses/ExpensesList";
+import { ExpenseApprovalRulesPanel } from "@/components/finance/expenses/ExpenseApprovalRulesPanel";
+import { ReimbursementQueue } from "@/components/finance/expenses/ReimbursementQueue";
 import { PageHeader } from "@/components/ui/page-header";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PlusIcon } from "@radix-ui/react-icons";
 import { CardSkeleton } from "@/components/skeletons/card-skeleton";
 
@@ -29,9 +32,27 @@ export default async function ExpensesPage({
         </Link>
       </div>
       
-      <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
-        <ExpensesList chapterSlug={chapterSlug} />
-      </Suspense>
+      <Tabs defaultValue="expenses" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="reimbursements">Reimbursements</TabsTrigger>
+          <TabsTrigger value="approval-chains">Approval Chains</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="expenses">
+          <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+            <ExpensesList chapterSlug={chapterSlug} />
+          </Suspense>
+        </TabsContent>
+
+        <TabsContent value="reimbursements">
+          <ReimbursementQueue chapterSlug={chapterSlug} />
+        </TabsContent>
+
+        <TabsContent value="approval-chains">
+          <ExpenseApprovalRulesPanel chapterSlug={chapterSlug} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -1,10 +1,18 @@
 import { Suspense } from "react";
+import Link from "next/link";
+import { FileBarChart, HeartHandshake, Landmark } from "lucide-react";
 import { CardSkeleton } from "@/components/skeletons/card-skeleton";
 import { FinanceSummary } from "@/components/finance/FinanceSummary";
+import { CashFlowForecast } from "@/components/finance/CashFlowForecast";
 import { RecentTransactions } from "@/components/finance/RecentTransactions";
 import { DuesStats } from "@/components/finance/DuesStats";
 import { ExpensesStats } from "@/components/finance/ExpensesStats";
+import { AccountBalances } from "@/components/finance/AccountBalances";
+import { JournalEntries } from "@/components/finance/JournalEntries";
+import { FiscalPeriodsPanel } from "@/components/finance/FiscalPeriodsPanel";
+import { StripePayouts } from "@/components/finance/StripePayouts";
 import { PageHeader } from "@/components/ui/page-header";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default async function FinanceDashboardPage({
@@ -17,10 +25,32 @@ export default async function FinanceDashboardPage({
 
   return (
     <div className="space-y-6">
-      <PageHeader
-        title="Finance Dashboard"
-        description="Manage your chapter's finances, track dues payments, and expenses."
-      />
+      <div className="flex items-center justify-between">
+        <PageHeader
+          title="Finance Dashboard"
+          description="Manage your chapter's finances, track dues payments, and expenses."
+        />
+        <div className="flex gap-2">
+          <Link href={`/${chapterSlug}/admin/finance/campaigns`}>
+            <Button variant="outline">
+              <HeartHandshake className="mr-2 h-4 w-4" />
+              Campaigns
+            </Button>
+          </Link>
+          <Link href={`/${chapterSlug}/admin/finance/reports`}>
+            <Button variant="outline">
+              <FileBarChart className="mr-2 h-4 w-4" />
+              Reports
+            </Button>
+          </Link>
+          <Link href={`/${chapterSlug}/admin/finance/reconciliation`}>
+            <Button variant="outline">
+              <Landmark className="mr-2 h-4 w-4" />
+              Reconcile Bank Statement
+            </Button>
+          </Link>
+        </div>
+      </div>
       
       <Tabs defaultValue="overview" className="space-y-4">
         <TabsList>
@@ -28,6 +58,8 @@ export default async function FinanceDashboardPage({
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
           <TabsTrigger value="dues">Dues</TabsTrigger>
           <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="ledger">Ledger</TabsTrigger>
+          <TabsTrigger value="periods">Periods</TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-4">
@@ -40,6 +72,10 @@ export default async function FinanceDashboardPage({
               <RecentTransactions chapterSlug={chapterSlug} limit={5} />
             </Suspense>
           </div>
+
+          <Suspense fallback={<CardSkeleton />}>
+            <CashFlowForecast chapterSlug={chapterSlug} />
+          </Suspense>
           
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-2">
             <Suspense fallback={<CardSkeleton />}>
@@ -50,6 +86,16 @@ export default async function FinanceDashboardPage({
               <ExpensesStats chapterSlug={chapterSlug} />
             </Suspense>
           </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-2">
+            <Suspense fallback={<CardSkeleton />}>
+              <AccountBalances chapterSlug={chapterSlug} />
+            </Suspense>
+
+            <Suspense fallback={<CardSkeleton />}>
+              <StripePayouts chapterSlug={chapterSlug} />
+            </Suspense>
+          </div>
         </TabsContent>
         
         <TabsContent value="transactions" className="space-y-4">
@@ -73,6 +119,26 @@ export default async function FinanceDashboardPage({
             </Suspense>
           </div>
         </TabsContent>
+        
+        <TabsContent value="ledger" className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <Suspense fallback={<CardSkeleton />}>
+              <AccountBalances chapterSlug={chapterSlug} expanded />
+            </Suspense>
+            
+            <div className="md:col-span-2">
+              <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+                <JournalEntries chapterSlug={chapterSlug} />
+              </Suspense>
+            </div>
+          </div>
+        </TabsContent>
+        
+        <TabsContent value="periods" className="space-y-4">
+          <Suspense fallback={<CardSkeleton className="h-[400px]" />}>
+            <FiscalPeriodsPanel chapterSlug={chapterSlug} />
+          </Suspense>
+        </TabsContent>
       </Tabs>
     </div>
   );
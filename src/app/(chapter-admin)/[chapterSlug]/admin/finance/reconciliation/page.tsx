@@ -0,0 +1,26 @@
+import { Suspense } from "react";
+import { BankReconciliation } from "@/components/finance/reconciliation/BankReconciliation";
+import { PageHeader } from "@/components/ui/page-header";
+import { CardSkeleton } from "@/components/skeletons/card-skeleton";
+
+export default async function ReconciliationPage({
+  params,
+}: {
+  params: Promise<{ chapterSlug: string }>;
+}) {
+  // Get the chapterSlug from the dynamic route parameter
+  const { chapterSlug } = await params;
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Bank Reconciliation"
+        description="Match your bank statements against the chapter's recorded transactions."
+      />
+      
+      <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+        <BankReconciliation chapterSlug={chapterSlug} />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Suspense } from "react";
+import { FinancialReports } from "@/components/finance/FinancialReports";
+import { PageHeader } from "@/components/ui/page-header";
+import { CardSkeleton } from "@/components/skeletons/card-skeleton";
+
+export default async function FinancialReportsPage({
+  params,
+}: {
+  params: Promise<{ chapterSlug: string }>;
+}) {
+  // Get the chapterSlug from the dynamic route parameter
+  const { chapterSlug } = await params;
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Financial Reports"
+        description="Income statement, cash flow, dues collection and spending for any period."
+      />
+      
+      <Suspense fallback={<CardSkeleton className="h-[600px]" />}>
+        <FinancialReports chapterSlug={chapterSlug} />
+      </Suspense>
+    </div>
+  );
+}
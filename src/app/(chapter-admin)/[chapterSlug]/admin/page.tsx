@@ -138,14 +138,19 @@ interface ActivityItem {
   };
   
   // Now we can safely use formatAuditAction since it's defined above
-  const recentActivity = recentLogsResult.data.map((log: AuditLog & { user: { id: string; name: string | null; email: string | null; image: string | null; } }) => ({
+  const recentActivity = recentLogsResult.data.map((log: AuditLog & { user: { id: string; name: string | null; email: string | null; image: string | null; } | null }) => ({
     id: log.id,
-    user: {
+    user: log.user ? {
       name: log.user.name || 'Unknown User',
       image: log.user.image || '',
       initials: log.user.name 
         ? log.user.name.split(' ').map(n => n[0]).join('').toUpperCase()
         : '??'
+    } : {
+      // Changes recorded from Stripe have no member behind them
+      name: 'Stripe',
+      image: '',
+      initials: 'S'
     },
     action: formatAuditAction(log.action, log.targetType),
     timestamp: log.createdAt
@@ -0,0 +1,89 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { campaignService } from '@/lib/services/campaign-service';
+import { CampaignProgressBar } from '@/components/chapters/CampaignProgressBar';
+import { DonationForm } from '@/components/chapters/DonationForm';
+import { DonorList } from '@/components/chapters/DonorList';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+type DonatePageProps = {
+  params: Promise<{ chapterSlug: string; campaignSlug: string }>;
+  searchParams: Promise<{ donated?: string }>;
+};
+
+export async function generateMetadata({ params }: DonatePageProps): Promise<Metadata> {
+  const { chapterSlug, campaignSlug } = await params;
+
+  const campaign = await campaignService.getPublicCampaign(chapterSlug, campaignSlug);
+
+  if (!campaign) {
+    return { title: 'Campaign not found | GreekDash' };
+  }
+
+  return {
+    title: `${campaign.title} | ${campaign.chapter.name}`,
+    description: campaign.description ?? `Support ${campaign.chapter.name} by donating to ${campaign.title}.`,
+  };
+}
+
+export default async function DonatePage({ params, searchParams }: DonatePageProps) {
+  const { chapterSlug, campaignSlug } = await params;
+  const { donated } = await searchParams;
+
+  const campaign = await campaignService.getPublicCampaign(chapterSlug, campaignSlug);
+
+  if (!campaign) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-5xl space-y-8">
+      {donated && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Thank you for your donation!</AlertTitle>
+          <AlertDescription>
+            Your payment went through. It may take a moment to appear on the donor list.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-3xl">{campaign.title}</CardTitle>
+          <CardDescription>
+            Raising money for{' '}
+            <Link href={`/${campaign.chapter.slug}`} className="underline">
+              {campaign.chapter.name}
+            </Link>
+            {campaign.endDate && ` until ${format(campaign.endDate, 'MMMM d, yyyy')}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {campaign.description && (
+            <p className="whitespace-pre-line">{campaign.description}</p>
+          )}
+          <CampaignProgressBar progress={campaign.progress} currency={campaign.currency} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+        {campaign.isAcceptingDonations ? (
+          <DonationForm chapterSlug={campaign.chapter.slug} campaignSlug={campaign.slug} currency={campaign.currency} />
+        ) : (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Donations Closed</CardTitle>
+              <CardDescription>This campaign is no longer accepting donations. Thank you to everyone who gave!</CardDescription>
+            </CardHeader>
+          </Card>
+        )}
+        <DonorList currency={campaign.currency} donors={campaign.donors} />
+      </div>
+    </div>
+  );
+}
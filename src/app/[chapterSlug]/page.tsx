@@ -3,11 +3,16 @@ import { ChapterHeader } from '@/components/chapters/ChapterHeader';
 import { EventsList } from '@/components/chapters/EventsList';
 import { Gallery } from '@/components/chapters/Gallery';
 import { ContactForm } from '@/components/chapters/ContactForm';
+import { CampaignsSection } from '@/components/chapters/CampaignsSection';
+import { campaignService } from '@/lib/services/campaign-service';
+import { ticketService } from '@/lib/services/ticket-service';
 import { EventStatus } from '@/generated/prisma';
 import { Metadata } from 'next';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { CheckCircle2 } from 'lucide-react';
 
 export async function generateMetadata({ 
   params 
@@ -36,11 +41,14 @@ export async function generateMetadata({
 }
 
 export default async function PublicChapterPage({ 
-  params 
+  params,
+  searchParams
 }: { 
-  params: Promise<{ chapterSlug: string }> 
+  params: Promise<{ chapterSlug: string }>;
+  searchParams: Promise<{ tickets?: string }>;
 }) {
   const { chapterSlug } = await params;
+  const { tickets } = await searchParams;
   
   // Get chapter details including public information
   const chapter = await prisma.chapter.findUnique({
@@ -161,6 +169,9 @@ export default async function PublicChapterPage({
     take: 3 // Limit to the next 3 upcoming events
   });
   
+  // Ticket types on sale for those events
+  const ticketTypes = await ticketService.getTicketsForEvents(upcomingEvents.map((event) => event.id));
+  
   // Get gallery images for this chapter
   const galleryImages = await prisma.galleryImage.findMany({
     where: {
@@ -176,10 +187,26 @@ export default async function PublicChapterPage({
     }
   });
   
+  // Get fundraising campaigns currently taking donations
+  const campaigns = await campaignService.getPublicCampaigns(chapter.id);
+  
   return (
     <div className="container mx-auto py-8 px-4 max-w-5xl space-y-8">
       <ChapterHeader chapter={chapter} />
-      <EventsList events={upcomingEvents} />
+      {tickets && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>You&apos;re going!</AlertTitle>
+          <AlertDescription>
+            Your tickets are on their way to your email. Show the ticket codes at the door.
+          </AlertDescription>
+        </Alert>
+      )}
+      <EventsList
+        chapterSlug={chapterSlug}
+        events={upcomingEvents.map((event) => ({ ...event, ticketTypes: ticketTypes[event.id] ?? [] }))}
+      />
+      <CampaignsSection chapterSlug={chapterSlug} campaigns={campaigns} />
       <Gallery images={galleryImages} />
       <ContactForm chapterSlug={chapterSlug} />
     </div>
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import { MembershipRole } from "@/generated/prisma";
 import { prisma } from "@/lib/db";
 import { authOptions } from "@/lib/auth";
+import { financeService } from "@/lib/services/finance-service";
 
 // Helper function to check if user is an admin of the chapter
 async function isChapterAdmin(userId: string, chapterId: string) {
@@ -188,6 +189,14 @@ export async function PATCH(
         },
       });
       
+      // Bill the new member for any active dues schedules that include new members
+      try {
+        await financeService.applyDuesSchedulesToMember(updatedMembership.userId, chapter.id);
+      } catch (error) {
+        // Approval has already succeeded, so don't fail the request over dues generation
+        console.error("Error applying dues schedules to approved member:", error);
+      }
+      
       return NextResponse.json({
         message: "Membership request approved",
         membership: updatedMembership,
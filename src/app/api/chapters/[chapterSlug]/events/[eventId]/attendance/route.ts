@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { MembershipRole } from "@/generated/prisma";
+import { requireChapterAccess } from "@/lib/auth";
+import { attendanceService } from "@/lib/services/attendance-service";
+import { checkInSchema } from "@/lib/validations/event";
+
+// Only chapter admins can see and record attendance
+async function requireEventAdmin(chapterSlug: string) {
+  const { user, membership } = await requireChapterAccess(chapterSlug);
+
+  if (membership.role !== MembershipRole.ADMIN && membership.role !== MembershipRole.OWNER) {
+    return { error: NextResponse.json({ error: "Only admins can manage attendance" }, { status: 403 }) };
+  }
+
+  // Get chapter ID from slug for validation
+  const chapter = await prisma.chapter.findUnique({
+    where: { slug: chapterSlug },
+    select: { id: true }
+  });
+
+  if (!chapter) {
+    return { error: NextResponse.json({ error: "Chapter not found" }, { status: 404 }) };
+  }
+
+  return { user, chapter };
+}
+
+// GET handler - list members with their RSVP and whether they were checked in
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // In Next.js 15, params is a Promise that needs to be awaited
+    const { chapterSlug, eventId } = await params;
+
+    const access = await requireEventAdmin(chapterSlug);
+    if (access.error) {
+      return access.error;
+    }
+
+    const attendance = await attendanceService.getAttendance(eventId, access.chapter.id);
+
+    return NextResponse.json(attendance);
+  } catch (error) {
+    console.error("Error fetching attendance:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch attendance" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST handler - check a member in by QR code or by picking them from the list
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // In Next.js 15, params is a Promise that needs to be awaited
+    const { chapterSlug, eventId } = await params;
+
+    const access = await requireEventAdmin(chapterSlug);
+    if (access.error) {
+      return access.error;
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = checkInSchema.parse(body);
+
+    const result = await attendanceService.checkIn(eventId, access.chapter.id, validatedData, access.user.id);
+
+    return NextResponse.json(result, { status: result.alreadyCheckedIn ? 200 : 201 });
+  } catch (error) {
+    console.error("Error checking in member:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to check in member" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE handler - undo a member's check-in
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // In Next.js 15, params is a Promise that needs to be awaited
+    const { chapterSlug, eventId } = await params;
+
+    const access = await requireEventAdmin(chapterSlug);
+    if (access.error) {
+      return access.error;
+    }
+
+    const userId = new URL(request.url).searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ error: "Member is required" }, { status: 400 });
+    }
+
+    await attendanceService.removeCheckIn(eventId, access.chapter.id, userId);
+
+    return NextResponse.json({ message: "Check-in removed successfully" });
+  } catch (error) {
+    console.error("Error removing check-in:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove check-in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireChapterAccess } from "@/lib/auth";
+import { attendanceService } from "@/lib/services/attendance-service";
+
+// GET handler - get the current member's QR check-in code for an event
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // In Next.js 15, params is a Promise that needs to be awaited
+    const { chapterSlug, eventId } = await params;
+
+    // Authenticate user and check chapter access
+    const { user } = await requireChapterAccess(chapterSlug);
+
+    // Get chapter ID from slug for validation
+    const chapter = await prisma.chapter.findUnique({
+      where: { slug: chapterSlug },
+      select: { id: true }
+    });
+
+    if (!chapter) {
+      return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+    }
+
+    const checkInCode = await attendanceService.getMyCheckInCode(eventId, chapter.id, user.id);
+
+    return NextResponse.json(checkInCode);
+  } catch (error) {
+    console.error("Error fetching check-in code:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch check-in code" },
+      { status: 500 }
+    );
+  }
+}
@@ -220,6 +220,18 @@ export async function DELETE(
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
+    // Ticket orders back income in the books, so events that sold tickets are kept
+    const ticketOrderCount = await prisma.eventTicketOrder.count({
+      where: { eventId },
+    });
+
+    if (ticketOrderCount > 0) {
+      return NextResponse.json(
+        { error: "Events that have sold tickets cannot be deleted; cancel the event instead" },
+        { status: 400 }
+      );
+    }
+
     // Delete the event (will also cascade delete RSVPs)
     await prisma.event.delete({
       where: { id: eventId },
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { ticketService } from "@/lib/services/ticket-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// GET /api/chapters/[chapterSlug]/events/[eventId]/ticket-orders - List ticket orders with their codes
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // Get chapter slug and event ID from params
+    const { chapterSlug, eventId } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const orders = await ticketService.getTicketOrders(eventId, chapter.id);
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error("Error fetching ticket orders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ticket orders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ticketService } from "@/lib/services/ticket-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { eventTicketTypeSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/events/[eventId]/ticket-types/[ticketTypeId] - Update a ticket type
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string; ticketTypeId: string }> }
+) {
+  try {
+    // Get chapter slug, event ID and ticket type ID from params
+    const { chapterSlug, eventId, ticketTypeId } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = eventTicketTypeSchema.partial().parse(body);
+
+    const ticketType = await ticketService.updateTicketType(ticketTypeId, eventId, chapter.id, validatedData);
+
+    return NextResponse.json(ticketType);
+  } catch (error) {
+    console.error("Error updating ticket type:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update ticket type" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/events/[eventId]/ticket-types/[ticketTypeId] - Delete an unsold ticket type
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string; ticketTypeId: string }> }
+) {
+  try {
+    // Get chapter slug, event ID and ticket type ID from params
+    const { chapterSlug, eventId, ticketTypeId } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await ticketService.deleteTicketType(ticketTypeId, eventId, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting ticket type:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete ticket type" },
+      { status: 500 }
+    );
+  }
+}
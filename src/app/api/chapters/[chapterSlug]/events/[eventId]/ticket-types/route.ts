@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ticketService } from "@/lib/services/ticket-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { eventTicketTypeSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/events/[eventId]/ticket-types - List an event's ticket types with sales
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // Get chapter slug and event ID from params
+    const { chapterSlug, eventId } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const ticketTypes = await ticketService.getTicketTypes(eventId, chapter.id);
+
+    return NextResponse.json(ticketTypes);
+  } catch (error) {
+    console.error("Error fetching ticket types:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch ticket types" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/events/[eventId]/ticket-types - Put a new kind of ticket on sale
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; eventId: string }> }
+) {
+  try {
+    // Get chapter slug and event ID from params
+    const { chapterSlug, eventId } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = eventTicketTypeSchema.parse(body);
+
+    const ticketType = await ticketService.createTicketType(eventId, chapter.id, validatedData);
+
+    return NextResponse.json(ticketType, { status: 201 });
+  } catch (error) {
+    console.error("Error creating ticket type:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create ticket type" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import { prisma } from "@/lib/db";
 import { MembershipRole, Prisma, EventStatus } from "@/generated/prisma";
 import { requireChapterAccess, authOptions } from "@/lib/auth";
+import { ticketService } from "@/lib/services/ticket-service";
 
 // GET handler - get all events for a chapter
 export async function GET(
@@ -105,9 +106,15 @@ export async function GET(
       );
     }
 
+    // Ticket types on sale for each event
+    const ticketTypes = await ticketService.getTicketsForEvents(events.map((event) => event.id));
+
     // Return the successfully fetched events
     return NextResponse.json({
-      events,
+      events: events.map((event) => ({
+        ...event,
+        ticketTypes: ticketTypes[event.id] ?? [],
+      })),
       pagination: {
         total: totalEvents,
         pages: Math.ceil(totalEvents / limit),
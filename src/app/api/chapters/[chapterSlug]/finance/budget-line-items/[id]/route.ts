@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { budgetLineItemSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/budget-line-items/[id] - Update a budget line item
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and line item ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse request body; a line item cannot move to another budget or chapter
+    const body = await request.json();
+    const validatedData = budgetLineItemSchema.omit({ budgetId: true, chapterId: true }).partial().parse(body);
+
+    const lineItem = await financeService.updateBudgetLineItem(id, chapter.id, validatedData, membership.userId);
+
+    return NextResponse.json(lineItem);
+  } catch (error) {
+    console.error("Error updating budget line item:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update budget line item" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/budget-line-items/[id] - Delete a budget line item
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and line item ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await financeService.deleteBudgetLineItem(id, chapter.id, membership.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting budget line item:", error);
+    return NextResponse.json(
+      { error: "Failed to delete budget line item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { budgetLineItemSchema } from "@/lib/validations/finance";
+
+// POST /api/chapters/[chapterSlug]/finance/budget-line-items - Add a line item to a budget
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { budgetId, chapterId, ...lineItemData } = budgetLineItemSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const lineItem = await financeService.createBudgetLineItem(budgetId, chapterId, lineItemData, membership.userId);
+
+    return NextResponse.json(lineItem, { status: 201 });
+  } catch (error) {
+    console.error("Error creating budget line item:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create budget line item" },
+      { status: 500 }
+    );
+  }
+}
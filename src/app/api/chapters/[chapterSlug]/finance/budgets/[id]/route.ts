@@ -96,6 +96,7 @@ export async function PATCH(
       startDate?: Date;
       endDate?: Date;
       amount?: number;
+      currency?: string;
       status?: 'PLANNING' | 'ACTIVE' | 'COMPLETED' | 'ARCHIVED';
     }
     
@@ -109,13 +110,15 @@ export async function PATCH(
     if ('startDate' in rawValidatedData) validatedData.startDate = rawValidatedData.startDate as Date;
     if ('endDate' in rawValidatedData) validatedData.endDate = rawValidatedData.endDate as Date;
     if ('amount' in rawValidatedData) validatedData.amount = rawValidatedData.amount as number;
+    if ('currency' in rawValidatedData) validatedData.currency = rawValidatedData.currency as string;
     if ('status' in rawValidatedData) validatedData.status = rawValidatedData.status as 'PLANNING' | 'ACTIVE' | 'COMPLETED' | 'ARCHIVED';
     
     // Update budget with the properly typed data
     const budget = await financeService.updateBudget(
       id,
       chapter.id,
-      validatedData
+      validatedData,
+      session.user.id
     );
 
     return NextResponse.json(budget);
@@ -128,7 +131,7 @@ export async function PATCH(
       );
     }
     return NextResponse.json(
-      { error: "Failed to update budget" },
+      { error: error instanceof Error ? error.message : "Failed to update budget" },
       { status: 500 }
     );
   }
@@ -167,7 +170,7 @@ export async function DELETE(
     }
     
     // Delete budget
-    await financeService.deleteBudget(id, chapter.id);
+    await financeService.deleteBudget(id, chapter.id, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
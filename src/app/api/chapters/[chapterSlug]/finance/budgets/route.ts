@@ -3,6 +3,7 @@ import { z } from "zod";
 
 import { financeService } from "@/lib/services/finance-service";
 import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { budgetListQuerySchema, budgetSchema } from "@/lib/validations/finance";
 
 // GET /api/chapters/[chapterSlug]/finance/budgets - Get all budgets for a chapter
 export async function GET(
@@ -17,12 +18,21 @@ export async function GET(
     // For viewing budgets, member access is sufficient
     const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
 
-    // Get budgets
-    const budgets = await financeService.getBudgets(chapter.id);
+    // Filter by status if provided
+    const url = new URL(request.url);
+    const filters = budgetListQuerySchema.parse(Object.fromEntries(url.searchParams));
+
+    const budgets = await financeService.getBudgets(chapter.id, filters);
 
     return NextResponse.json(budgets);
   } catch (error) {
     console.error("Error fetching budgets:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to fetch budgets" },
       { status: 500 }
@@ -41,24 +51,19 @@ export async function POST(
     
     // Use our finance access check utility to verify tenant access and feature availability
     // For creating budgets, we require ADMIN access to ensure proper financial controls
-    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
 
     // Parse and validate request body
     const body = await request.json();
     
-    // Add additional required fields and validate types
-    const budgetData = {
-      name: String(body.name),
-      description: body.description ? String(body.description) : null,
-      startDate: new Date(body.startDate),
-      endDate: new Date(body.endDate),
-      amount: Number(body.amount),
-      status: body.status || 'PLANNING',
-      chapterId: chapter.id,
-    };
+    // Amounts arrive in minor units (cents) and must be whole numbers
+    const budgetData = budgetSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
     
     // Create budget
-    const budget = await financeService.createBudget(budgetData);
+    const budget = await financeService.createBudget(budgetData, membership.userId);
 
     return NextResponse.json(budget, { status: 201 });
   } catch (error) {
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { campaignService } from "@/lib/services/campaign-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { campaignSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/campaigns/[id] - Get a campaign with its donations
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and campaign ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const campaign = await campaignService.getCampaign(id, chapter.id);
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    console.error("Error fetching campaign:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch campaign" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/chapters/[chapterSlug]/finance/campaigns/[id] - Update a campaign
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and campaign ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = campaignSchema.partial().parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const campaign = await campaignService.updateCampaign(id, chapter.id, {
+      title: validatedData.title,
+      slug: validatedData.slug,
+      description: validatedData.description,
+      goalAmount: validatedData.goalAmount,
+      currency: validatedData.currency,
+      status: validatedData.status,
+      endDate: validatedData.endDate,
+    });
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    console.error("Error updating campaign:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update campaign" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/campaigns/[id] - Delete a campaign without donations
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and campaign ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await campaignService.deleteCampaign(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting campaign:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete campaign" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { campaignService } from "@/lib/services/campaign-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { campaignSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/campaigns - Get fundraising campaigns with amounts raised
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const campaigns = await campaignService.getCampaigns(chapter.id);
+
+    return NextResponse.json(campaigns);
+  } catch (error) {
+    console.error("Error fetching campaigns:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch campaigns" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/campaigns - Create a fundraising campaign
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = campaignSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const campaign = await campaignService.createCampaign(chapter.id, membership.userId, {
+      title: validatedData.title,
+      slug: validatedData.slug,
+      description: validatedData.description,
+      goalAmount: validatedData.goalAmount,
+      currency: validatedData.currency,
+      status: validatedData.status,
+      endDate: validatedData.endDate,
+    });
+
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    console.error("Error creating campaign:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create campaign" },
+      { status: 500 }
+    );
+  }
+}
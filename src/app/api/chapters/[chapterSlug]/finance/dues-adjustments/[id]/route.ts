@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesAdjustmentReviewSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/dues-adjustments/[id] - Approve or deny a waiver, scholarship or discount
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and adjustment ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesAdjustmentReviewSchema.parse(body);
+
+    const adjustment = await financeService.reviewDuesAdjustment(id, chapter.id, {
+      ...validatedData,
+      reviewedById: membership.userId,
+    });
+
+    return NextResponse.json(adjustment);
+  } catch (error) {
+    console.error("Error reviewing dues adjustment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to review dues adjustment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesAdjustmentSchema } from "@/lib/validations/finance";
+import { DuesAdjustmentStatus } from "@/generated/prisma";
+
+// GET /api/chapters/[chapterSlug]/finance/dues-adjustments - Get waivers, scholarships and discounts, optionally filtered by status
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const url = new URL(request.url);
+    const status = z.nativeEnum(DuesAdjustmentStatus).optional().parse(url.searchParams.get("status") ?? undefined);
+
+    const adjustments = await financeService.getDuesAdjustments(chapter.id, status);
+
+    return NextResponse.json(adjustments);
+  } catch (error) {
+    console.error("Error fetching dues adjustments:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch dues adjustments" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/dues-adjustments - Request a waiver, scholarship or discount on a member's dues
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesAdjustmentSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const adjustment = await financeService.requestDuesAdjustment({
+      ...validatedData,
+      requestedById: membership.userId,
+    });
+
+    return NextResponse.json(adjustment, { status: 201 });
+  } catch (error) {
+    console.error("Error requesting dues adjustment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to request dues adjustment" },
+      { status: 500 }
+    );
+  }
+}
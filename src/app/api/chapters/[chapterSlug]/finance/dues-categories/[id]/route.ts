@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesCategorySchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/dues-categories/[id] - Update a dues category
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and category ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesCategorySchema.omit({ chapterId: true }).partial().parse(body);
+
+    const category = await financeService.updateDuesCategory(id, chapter.id, validatedData, membership.userId);
+
+    return NextResponse.json(category);
+  } catch (error) {
+    console.error("Error updating dues category:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update dues category" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/dues-categories/[id] - Delete a dues category
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and category ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await financeService.deleteDuesCategory(id, chapter.id, membership.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting dues category:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete dues category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesCategoryAssignmentSchema } from "@/lib/validations/finance";
+
+// PUT /api/chapters/[chapterSlug]/finance/dues-categories/members - Move members into or out of a dues category
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesCategoryAssignmentSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const result = await financeService.assignDuesCategory(
+      chapter.id,
+      validatedData.memberIds,
+      validatedData.duesCategoryId,
+      membership.userId
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error assigning dues category:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to assign dues category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesCategorySchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/dues-categories - Get the chapter's member dues categories
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const categories = await financeService.getDuesCategories(chapter.id);
+
+    return NextResponse.json(categories);
+  } catch (error) {
+    console.error("Error fetching dues categories:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dues categories" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/dues-categories - Create a dues category
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesCategorySchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const category = await financeService.createDuesCategory(validatedData, membership.userId);
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    console.error("Error creating dues category:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create dues category" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesPaymentRecordSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/dues/[id]/payments - Get the payments made against a dues payment
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and dues payment ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const records = await financeService.getDuesPaymentRecords(id, chapter.id);
+
+    return NextResponse.json(records);
+  } catch (error) {
+    console.error("Error fetching dues payment records:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payments" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/dues/[id]/payments - Record a full or partial payment received outside Stripe
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and dues payment ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesPaymentRecordSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    // The service rejects payments larger than the remaining balance
+    const duesPayment = await financeService.recordDuesPayment(id, chapter.id, {
+      amount: validatedData.amount,
+      paidAt: validatedData.paidAt,
+      note: validatedData.note,
+      method: validatedData.method,
+      referenceNumber: validatedData.referenceNumber || null,
+      receivedById: validatedData.receivedById,
+      sendReceipt: validatedData.sendReceipt,
+      recordedById: membership.userId,
+    });
+
+    return NextResponse.json(duesPayment, { status: 201 });
+  } catch (error) {
+    console.error("Error recording dues payment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to record payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesRefundSchema } from "@/lib/validations/finance";
+
+// POST /api/chapters/[chapterSlug]/finance/dues/[id]/refunds - Refund all or part of a Stripe payment
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and dues payment ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesRefundSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    // The service rejects refunds larger than what is left of the payment
+    const refund = await financeService.refundDuesPayment(id, chapter.id, {
+      paymentRecordId: validatedData.paymentRecordId,
+      amount: validatedData.amount,
+      reason: validatedData.reason,
+      refundedById: membership.userId,
+    });
+
+    return NextResponse.json(refund, { status: 201 });
+  } catch (error) {
+    console.error("Error refunding dues payment:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to refund payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -98,7 +98,8 @@ export async function PATCH(
     const duesPayment = await financeService.updateDuesPayment(
       id,
       membership.chapter.id,
-      validatedData
+      validatedData,
+      session.user.id
     );
 
     return NextResponse.json(duesPayment);
@@ -111,7 +112,7 @@ export async function PATCH(
       );
     }
     return NextResponse.json(
-      { error: "Failed to update dues payment" },
+      { error: error instanceof Error ? error.message : "Failed to update dues payment" },
       { status: 500 }
     );
   }
@@ -151,13 +152,13 @@ export async function DELETE(
     }
     
     // Delete dues payment
-    await financeService.deleteDuesPayment(id, membership.chapter.id);
+    await financeService.deleteDuesPayment(id, membership.chapter.id, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting dues payment:", error);
     return NextResponse.json(
-      { error: "Failed to delete dues payment" },
+      { error: error instanceof Error ? error.message : "Failed to delete dues payment" },
       { status: 500 }
     );
   }
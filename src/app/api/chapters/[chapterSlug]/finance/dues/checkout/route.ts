@@ -6,6 +6,7 @@ import { financeService } from "@/lib/services/finance-service";
 import { authOptions } from "@/lib/auth";
 import { stripePaymentSchema } from "@/lib/validations/finance";
 import { prisma } from "@/lib/db";
+import { MembershipRole } from "@/generated/prisma";
 
 // POST /api/chapters/[chapterSlug]/finance/dues/checkout - Create a Stripe checkout session for a dues payment
 export async function POST(
@@ -52,6 +53,19 @@ export async function POST(
     if (!duesPayment) {
       return NextResponse.json({ error: "Dues payment not found" }, { status: 404 });
     }
+
+    // Regular members can only pay their own dues
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        chapterId: chapter.id,
+      },
+    });
+
+    const isAdmin = membership?.role === MembershipRole.ADMIN || membership?.role === MembershipRole.OWNER;
+    if (!isAdmin && duesPayment.userId !== session.user.id) {
+      return NextResponse.json({ error: "You can only pay your own dues" }, { status: 403 });
+    }
     
     // Validate with schema
     const validatedData = stripePaymentSchema.parse({
@@ -62,7 +76,8 @@ export async function POST(
     // Create checkout session
     const checkoutSession = await financeService.createStripeCheckoutSession(
       validatedData.duesPaymentId,
-      chapter.id
+      chapter.id,
+      validatedData.returnTo
     );
 
     return NextResponse.json(checkoutSession);
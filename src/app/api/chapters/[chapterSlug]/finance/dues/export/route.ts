@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesListQuerySchema, listExportFormatSchema } from "@/lib/validations/finance";
+import { duesPaymentsToTable, toExportFile } from "@/lib/finance/list-export";
+
+// GET /api/chapters/[chapterSlug]/finance/dues/export - Download dues payments as CSV or XLSX
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Same filters as the list, plus the file format
+    const url = new URL(request.url);
+    const filters = duesListQuerySchema.parse(Object.fromEntries(url.searchParams));
+    const exportFormat = listExportFormatSchema.parse(url.searchParams.get("format") ?? undefined);
+
+    const duesPayments = await financeService.getDuesPayments(chapter.id, filters);
+    const file = toExportFile(duesPaymentsToTable(duesPayments), exportFormat);
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting dues payments:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to export dues payments" },
+      { status: 500 }
+    );
+  }
+}
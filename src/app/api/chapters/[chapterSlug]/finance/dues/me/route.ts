@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// GET /api/chapters/[chapterSlug]/finance/dues/me - Get the current member's own dues payments
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+    const duesPayments = await financeService.getUserDuesPayments(membership.userId, chapter.id);
+
+    return NextResponse.json(duesPayments);
+  } catch (error) {
+    console.error("Error fetching member dues payments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dues payments" },
+      { status: 500 }
+    );
+  }
+}
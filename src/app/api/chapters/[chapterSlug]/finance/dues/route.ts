@@ -48,20 +48,26 @@ export async function GET(
     if (stats) {
       // Get dues payment stats
       const totalCollectedResult = await prisma.duesPayment.aggregate({
+        where: {
+          chapterId: chapter.id,
+        },
+        _sum: { amountPaid: true },
+      });
+
+      const totalPaidCount = await prisma.duesPayment.count({
         where: {
           chapterId: chapter.id,
           paidAt: { not: null },
         },
-        _sum: { amount: true },
-        _count: true,
       });
       
+      // Partial payments already made on unpaid dues are not pending any more
       const totalPendingResult = await prisma.duesPayment.aggregate({
         where: {
           chapterId: chapter.id,
           paidAt: null,
         },
-        _sum: { amount: true },
+        _sum: { amount: true, amountPaid: true },
         _count: true,
       });
       
@@ -82,9 +88,9 @@ export async function GET(
       });
       
       return NextResponse.json({
-        totalCollected: totalCollectedResult._sum.amount || 0,
-        totalPaidCount: totalCollectedResult._count,
-        totalPending: totalPendingResult._sum.amount || 0,
+        totalCollected: totalCollectedResult._sum.amountPaid || 0,
+        totalPaidCount,
+        totalPending: Math.max((totalPendingResult._sum.amount || 0) - (totalPendingResult._sum.amountPaid || 0), 0),
         totalPendingCount: totalPendingResult._count,
         recentPayments,
       });
@@ -95,23 +101,8 @@ export async function GET(
     if (userId) {
       duesPayments = await financeService.getUserDuesPayments(userId, chapter.id);
     } else if (status) {
-      const isPaid = status.toLowerCase() === 'paid';
-      duesPayments = await prisma.duesPayment.findMany({
-        where: {
-          chapterId: chapter.id,
-          paidAt: isPaid ? { not: null } : null,
-        },
-        orderBy: { dueDate: "desc" },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              image: true,
-            },
-          },
-        },
+      duesPayments = await financeService.getDuesPayments(chapter.id, {
+        status: status.toLowerCase() === 'paid' ? 'paid' : 'pending',
       });
     } else {
       duesPayments = await financeService.getDuesPayments(chapter.id);
@@ -176,7 +167,7 @@ export async function POST(
       });
       
       // Create bulk dues payments
-      const duesPayments = await financeService.createBulkDuesPayments(validatedData);
+      const duesPayments = await financeService.createBulkDuesPayments(validatedData, session.user.id);
       return NextResponse.json(duesPayments, { status: 201 });
     } else {
       // Validate with single schema
@@ -186,7 +177,7 @@ export async function POST(
       });
       
       // Create single dues payment
-      const duesPayment = await financeService.createDuesPayment(validatedData);
+      const duesPayment = await financeService.createDuesPayment(validatedData, session.user.id);
       return NextResponse.json(duesPayment, { status: 201 });
     }
   } catch (error) {
@@ -198,7 +189,7 @@ export async function POST(
       );
     }
     return NextResponse.json(
-      { error: "Failed to create dues payment" },
+      { error: error instanceof Error ? error.message : "Failed to create dues payment" },
       { status: 500 }
     );
   }
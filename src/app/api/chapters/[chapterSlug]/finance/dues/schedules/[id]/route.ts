@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesScheduleSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/dues/schedules/[id] - Get a dues schedule with its installments
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and schedule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const schedule = await financeService.getDuesSchedule(id, chapter.id);
+    if (!schedule) {
+      return NextResponse.json({ error: "Dues schedule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Error fetching dues schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dues schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/chapters/[chapterSlug]/finance/dues/schedules/[id] - Update a dues schedule
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and schedule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const existingSchedule = await financeService.getDuesSchedule(id, chapter.id);
+    if (!existingSchedule) {
+      return NextResponse.json({ error: "Dues schedule not found" }, { status: 404 });
+    }
+
+    // Parse request body; the chapter can never be changed
+    const body = await request.json();
+    const validatedData = duesScheduleSchema.omit({ chapterId: true }).partial().parse(body);
+
+    // Unpaid installments are re-synced with the new settings inside the service
+    const schedule = await financeService.updateDuesSchedule(id, chapter.id, validatedData, membership.userId);
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Error updating dues schedule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to update dues schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/dues/schedules/[id] - Delete a dues schedule and its unpaid installments
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and schedule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await financeService.deleteDuesSchedule(id, chapter.id, membership.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting dues schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete dues schedule" },
+      { status: 500 }
+    );
+  }
+}
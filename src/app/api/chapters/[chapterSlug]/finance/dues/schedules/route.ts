@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesScheduleSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/dues/schedules - Get all dues schedules for a chapter
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    // Schedules are chapter configuration, so only admins can view them
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const schedules = await financeService.getDuesSchedules(chapter.id);
+
+    return NextResponse.json(schedules);
+  } catch (error) {
+    console.error("Error fetching dues schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dues schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/dues/schedules - Create a dues schedule and generate its installments
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    // Creating a schedule bills every active member, so require ADMIN access
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesScheduleSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const schedule = await financeService.createDuesSchedule({
+      ...validatedData,
+      createdById: membership.userId,
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating dues schedule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to create dues schedule" },
+      { status: 500 }
+    );
+  }
+}
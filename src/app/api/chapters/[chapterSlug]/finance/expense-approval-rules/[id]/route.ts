@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { expenseApprovalService } from "@/lib/services/expense-approval-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { expenseApprovalRuleSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/expense-approval-rules/[id] - Replace an expense approval chain
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // The whole rule is sent so its steps can be replaced in one go
+    const body = await request.json();
+    const validatedData = expenseApprovalRuleSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const rule = await expenseApprovalService.updateApprovalRule(id, chapter.id, validatedData);
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error("Error updating expense approval rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update expense approval rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/expense-approval-rules/[id] - Delete an expense approval chain
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await expenseApprovalService.deleteApprovalRule(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting expense approval rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete expense approval rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { expenseApprovalService } from "@/lib/services/expense-approval-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { expenseApprovalRuleSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/expense-approval-rules - Get the chapter's expense approval chains
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const rules = await expenseApprovalService.getApprovalRules(chapter.id);
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error("Error fetching expense approval rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expense approval rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/expense-approval-rules - Create an expense approval chain
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = expenseApprovalRuleSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const rule = await expenseApprovalService.createApprovalRule(validatedData);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating expense approval rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create expense approval rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { expenseSchema } from "@/lib/validations/finance";
+import { prisma } from "@/lib/db";
+
+const receiptUploadSchema = expenseSchema.pick({ receiptFile: true }).required();
+
+// Only admins and the member who submitted the expense may change its receipt
+async function requireReceiptEditAccess(chapterSlug: string, expenseId: string) {
+  const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+  const expense = await prisma.expense.findFirst({
+    where: {
+      id: expenseId,
+      chapterId: chapter.id, // Ensure tenant isolation
+    },
+    select: { submittedById: true },
+  });
+
+  const isAdmin = membership.role === "ADMIN" || membership.role === "OWNER";
+
+  return {
+    membership,
+    chapter,
+    expense,
+    canEdit: !!expense && (isAdmin || expense.submittedById === membership.userId),
+  };
+}
+
+// GET /api/chapters/[chapterSlug]/finance/expenses/[id]/receipt - Download an expense's uploaded receipt
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and expense ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+    const receipt = await financeService.getExpenseReceipt(id, chapter.id);
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(receipt.body), {
+      headers: {
+        "Content-Type": receipt.contentType,
+        "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(receipt.fileName)}`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch receipt" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/expenses/[id]/receipt - Upload or replace an expense's receipt
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and expense ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter, expense, canEdit } = await requireReceiptEditAccess(chapterSlug, id);
+
+    if (!expense) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+    }
+
+    // Validate the file type and size
+    const formData = await request.formData();
+    const { receiptFile } = receiptUploadSchema.parse({
+      receiptFile: formData.get("file"),
+    });
+
+    const updatedExpense = await financeService.attachExpenseReceipt(id, chapter.id, receiptFile, membership.userId);
+
+    return NextResponse.json(updatedExpense);
+  } catch (error) {
+    console.error("Error uploading receipt:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to upload receipt" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/expenses/[id]/receipt - Remove an expense's uploaded receipt
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and expense ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter, expense, canEdit } = await requireReceiptEditAccess(chapterSlug, id);
+
+    if (!expense) {
+      return NextResponse.json({ error: "Expense not found" }, { status: 404 });
+    }
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Permission denied" }, { status: 403 });
+    }
+
+    await financeService.removeExpenseReceipt(id, chapter.id, membership.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error removing receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to remove receipt" },
+      { status: 500 }
+    );
+  }
+}
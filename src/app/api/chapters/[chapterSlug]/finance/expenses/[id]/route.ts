@@ -3,10 +3,11 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 
 import { financeService } from "@/lib/services/finance-service";
+import { expenseApprovalService } from "@/lib/services/expense-approval-service";
 import { authOptions } from "@/lib/auth";
 import { expenseSchema, expenseApprovalSchema } from "@/lib/validations/finance";
 import { prisma } from "@/lib/db";
-import { MembershipRole, ExpenseStatus } from "@/generated/prisma";
+import { MembershipRole, ExpenseApprovalDecision } from "@/generated/prisma";
 
 // GET /api/chapters/[chapterSlug]/finance/expenses/[id] - Get an expense by ID
 export async function GET(
@@ -104,23 +105,13 @@ export async function PATCH(
       return NextResponse.json({ error: "Access denied" }, { status: 403 });
     }
     
-    // Check permissions - Only admins/owners can approve/deny, or the submitter can edit their own expense
     const isAdmin = membership.role === MembershipRole.ADMIN || membership.role === MembershipRole.OWNER;
     const isSubmitter = expense.submittedById === session.user.id;
     
-    if (!isAdmin && !isSubmitter) {
-      return NextResponse.json({ error: "Permission denied" }, { status: 403 });
-    }
-    
     // Get the URL to check if it's an approval endpoint
     const url = new URL(request.url);
     const isApproval = url.searchParams.has("approve");
     
-    // Only admins can approve/deny expenses
-    if (isApproval && !isAdmin) {
-      return NextResponse.json({ error: "Only admins can approve/deny expenses" }, { status: 403 });
-    }
-    
     // Parse request body
     const body = await request.json();
     
@@ -132,15 +123,28 @@ export async function PATCH(
         chapterId: expense.chapterId,
       });
       
-      // Update expense with approval information
-      const updatedExpense = await financeService.updateExpense(id, expense.chapterId, {
-        status: validatedData.status,
-        approvedById: session.user.id,
-        approvedAt: new Date(),
-        ...(validatedData.status === "PAID" ? { paidAt: new Date() } : {}),
-      });
+      // Only admins pay out approved expenses
+      if (validatedData.status === "PAID") {
+        if (!isAdmin) {
+          return NextResponse.json({ error: "Only admins can mark expenses as paid" }, { status: 403 });
+        }
+        
+        const paidExpense = await expenseApprovalService.markExpensePaid(id, expense.chapterId, {}, session.user.id);
+        return NextResponse.json(paidExpense);
+      }
       
-      return NextResponse.json(updatedExpense);
+      // The approval chain decides who may approve or deny the current step
+      const reviewedExpense = await expenseApprovalService.reviewExpense(
+        id,
+        expense.chapterId,
+        {
+          decision: validatedData.status === "APPROVED" ? ExpenseApprovalDecision.APPROVED : ExpenseApprovalDecision.DENIED,
+          comment: validatedData.comment,
+        },
+        { userId: session.user.id, role: membership.role }
+      );
+      
+      return NextResponse.json(reviewedExpense);
     } else {
       // Regular update - only the submitter can edit their expense before approval
       // or admins can edit any expense
@@ -148,13 +152,16 @@ export async function PATCH(
         return NextResponse.json({ error: "Only the submitter can edit this expense" }, { status: 403 });
       }
       
-      // Non-admins can't change status
-      if (!isAdmin && body.status) {
-        return NextResponse.json({ error: "Only admins can change expense status" }, { status: 403 });
+      // Status changes go through the approval chain
+      if (body.status && body.status !== expense.status) {
+        return NextResponse.json(
+          { error: "Use the approval endpoint to change an expense's status" },
+          { status: 400 }
+        );
       }
       
       // Use safeParse for better type safety and error handling
-      const result = expenseSchema.partial().safeParse(body);
+      const result = expenseSchema.omit({ status: true }).partial().safeParse(body);
       
       if (!result.success) {
         return NextResponse.json(
@@ -169,18 +176,23 @@ export async function PATCH(
         title?: string;
         description?: string | null;
         amount?: number;
+        currency?: string;
         receiptUrl?: string | null;
-        status?: ExpenseStatus;
         budgetId?: string | null;
+        lineItemId?: string | null;
       };
       
       const updatedExpense = await financeService.updateExpense(
         id,
         expense.chapterId,
-        typedData
+        typedData,
+        session.user.id
       );
       
-      return NextResponse.json(updatedExpense);
+      // Flag budget overruns so the client can warn about them
+      const budgetWarnings = await financeService.getBudgetWarnings(expense.chapterId, updatedExpense);
+      
+      return NextResponse.json({ ...updatedExpense, budgetWarnings });
     }
   } catch (error) {
     console.error("Error updating expense:", error);
@@ -191,7 +203,7 @@ export async function PATCH(
       );
     }
     return NextResponse.json(
-      { error: "Failed to update expense" },
+      { error: error instanceof Error ? error.message : "Failed to update expense" },
       { status: 500 }
     );
   }
@@ -231,13 +243,13 @@ export async function DELETE(
     }
     
     // Delete expense
-    await financeService.deleteExpense(id, membership.chapter.id);
+    await financeService.deleteExpense(id, membership.chapter.id, session.user.id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting expense:", error);
     return NextResponse.json(
-      { error: "Failed to delete expense" },
+      { error: error instanceof Error ? error.message : "Failed to delete expense" },
       { status: 500 }
     );
   }
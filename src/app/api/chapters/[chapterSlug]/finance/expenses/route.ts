@@ -3,6 +3,7 @@ import { z } from "zod";
 
 import { financeService } from "@/lib/services/finance-service";
 import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { expenseListQuerySchema, expenseSchema } from "@/lib/validations/finance";
 
 // GET /api/chapters/[chapterSlug]/finance/expenses - Get all expenses for a chapter
 export async function GET(
@@ -36,45 +37,19 @@ export async function GET(
       return NextResponse.json(expenseStats);
     }
     
-    // Get query parameters for filtering
-    const statusFilter = url.searchParams.get("status");
-    const startDate = url.searchParams.get("startDate") ? new Date(url.searchParams.get("startDate") as string) : undefined;
-    const endDate = url.searchParams.get("endDate") ? new Date(url.searchParams.get("endDate") as string) : undefined;
-    const budgetId = url.searchParams.get("budgetId") || undefined;
-    
-    // Get all expenses for the chapter
-    // Since our financeService implementation might not support filtering directly,
-    // we'll get all expenses for the chapter and filter them in memory
-    const allExpenses = await financeService.getExpenses(chapter.id);
-    
-    // Using type inference from the financeService results
-    
-    // Apply filters in memory if needed
-    const expenses = allExpenses.filter((expense) => {
-      // Filter by status if provided
-      if (statusFilter && expense.status !== statusFilter) {
-        return false;
-      }
-      
-      // Filter by date range if provided
-      if (startDate && new Date(expense.submittedAt) < startDate) {
-        return false;
-      }
-      if (endDate && new Date(expense.submittedAt) > endDate) {
-        return false;
-      }
-      
-      // Filter by budget if provided
-      if (budgetId && expense.budgetId !== budgetId) {
-        return false;
-      }
-      
-      return true;
-    });
+    // Filter by status, submission date range and budget
+    const filters = expenseListQuerySchema.parse(Object.fromEntries(url.searchParams));
+    const expenses = await financeService.getExpenses(chapter.id, filters);
 
     return NextResponse.json(expenses);
   } catch (error) {
     console.error("Error fetching expenses:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to fetch expenses" },
       { status: 500 }
@@ -95,25 +70,34 @@ export async function POST(
     // For creating expenses, we require ADMIN access to ensure proper financial controls
     const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
 
-    // Parse and validate request body
-    const body = await request.json();
+    // Parse and validate request body; a receipt upload arrives as multipart form data
+    const isMultipart = request.headers.get("content-type")?.includes("multipart/form-data");
+    const body = isMultipart
+      ? Object.fromEntries((await request.formData()).entries())
+      : await request.json();
     
-    // Add additional required fields and validate types
-    const expenseData = {
-      title: String(body.title),
-      description: body.description ? String(body.description) : null,
-      amount: Number(body.amount),
-      receiptUrl: body.receiptUrl ? String(body.receiptUrl) : null,
-      status: body.status || 'PENDING',
-      chapterId: chapter.id,
-      budgetId: body.budgetId ? String(body.budgetId) : null,
-      submittedById: membership.userId, // Use userId from membership object
-    };
+    // Amounts arrive in minor units (cents) and must be whole numbers
+    // New expenses always start pending; the status only changes through the approval chain
+    const { receiptFile, ...validatedData } = expenseSchema.omit({ status: true }).parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
     
     // Create expense
-    const expense = await financeService.createExpense(expenseData);
+    const expense = await financeService.createExpense({
+      ...validatedData,
+      submittedById: membership.userId, // Use userId from membership object
+    });
+
+    // Submitting over budget is allowed, but the submitter is warned
+    const budgetWarnings = await financeService.getBudgetWarnings(chapter.id, expense);
+
+    if (receiptFile) {
+      const expenseWithReceipt = await financeService.attachExpenseReceipt(expense.id, chapter.id, receiptFile, membership.userId);
+      return NextResponse.json({ ...expense, ...expenseWithReceipt, budgetWarnings }, { status: 201 });
+    }
 
-    return NextResponse.json(expense, { status: 201 });
+    return NextResponse.json({ ...expense, budgetWarnings }, { status: 201 });
   } catch (error) {
     console.error("Error creating expense:", error);
     if (error instanceof z.ZodError) {
@@ -123,7 +107,7 @@ export async function POST(
       );
     }
     return NextResponse.json(
-      { error: "Failed to create expense" },
+      { error: error instanceof Error ? error.message : "Failed to create expense" },
       { status: 500 }
     );
   }
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { fiscalPeriodService } from "@/lib/services/fiscal-period-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { fiscalPeriodActionSchema, fiscalPeriodSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/fiscal-periods/[id] - Update, lock, unlock or close a fiscal period
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and period ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Get the URL to check if it's a status change
+    const url = new URL(request.url);
+    const isStatusChange = url.searchParams.has("status");
+
+    const body = await request.json();
+
+    if (isStatusChange) {
+      const { action } = fiscalPeriodActionSchema.parse(body);
+
+      const period =
+        action === "lock"
+          ? await fiscalPeriodService.lockPeriod(id, chapter.id, membership.userId)
+          : action === "unlock"
+            ? await fiscalPeriodService.unlockPeriod(id, chapter.id, membership.userId)
+            : await fiscalPeriodService.closePeriod(id, chapter.id, membership.userId);
+
+      return NextResponse.json(period);
+    }
+
+    const validatedData = fiscalPeriodSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const period = await fiscalPeriodService.updatePeriod(id, chapter.id, {
+      name: validatedData.name,
+      startDate: validatedData.startDate,
+      endDate: validatedData.endDate,
+    });
+
+    return NextResponse.json(period);
+  } catch (error) {
+    console.error("Error updating fiscal period:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update fiscal period" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/fiscal-periods/[id] - Delete an open fiscal period
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and period ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await fiscalPeriodService.deletePeriod(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting fiscal period:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete fiscal period" },
+      { status: 500 }
+    );
+  }
+}
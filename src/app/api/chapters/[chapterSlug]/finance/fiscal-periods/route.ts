@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { fiscalPeriodService } from "@/lib/services/fiscal-period-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { fiscalPeriodSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/fiscal-periods - Get the chapter's fiscal periods
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const periods = await fiscalPeriodService.getPeriods(chapter.id);
+
+    return NextResponse.json(periods);
+  } catch (error) {
+    console.error("Error fetching fiscal periods:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch fiscal periods" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/fiscal-periods - Create a fiscal period
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = fiscalPeriodSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const period = await fiscalPeriodService.createPeriod(validatedData);
+
+    return NextResponse.json(period, { status: 201 });
+  } catch (error) {
+    console.error("Error creating fiscal period:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create fiscal period" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reportService } from "@/lib/services/report-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { cashFlowForecastQuerySchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/forecast - Project the chapter balance over the coming months
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    let chapter;
+    try {
+      ({ chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    // Parse query parameters
+    const url = new URL(request.url);
+    const query = cashFlowForecastQuerySchema.parse({
+      months: url.searchParams.get("months") ?? undefined,
+    });
+
+    const forecast = await reportService.getCashFlowForecast(chapter.id, query.months);
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error("Error building cash-flow forecast:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to build cash-flow forecast" },
+      { status: 500 }
+    );
+  }
+}
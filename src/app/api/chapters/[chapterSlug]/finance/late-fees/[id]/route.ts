@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { lateFeeRuleSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/late-fees/[id] - Update a late fee rule
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse request body; the chapter can never be changed
+    const body = await request.json();
+    const validatedData = lateFeeRuleSchema.omit({ chapterId: true }).partial().parse(body);
+
+    // Changes only affect fees assessed from now on
+    const rule = await financeService.updateLateFeeRule(id, chapter.id, validatedData, membership.userId);
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error("Error updating late fee rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to update late fee rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/late-fees/[id] - Delete a late fee rule
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await financeService.deleteLateFeeRule(id, chapter.id, membership.userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting late fee rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete late fee rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// POST /api/chapters/[chapterSlug]/finance/late-fees/apply - Assess late fees on overdue dues now
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Assessment is idempotent, so running it before the scheduled job is safe
+    const result = await financeService.applyLateFees(chapter.id, new Date(), membership.userId);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error applying late fees:", error);
+    return NextResponse.json(
+      { error: "Failed to apply late fees" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { lateFeeRuleSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/late-fees - Get the chapter's late fee rules
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const rules = await financeService.getLateFeeRules(chapter.id);
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error("Error fetching late fee rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch late fee rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/late-fees - Create a late fee rule
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = lateFeeRuleSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const rule = await financeService.createLateFeeRule(validatedData, membership.userId);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating late fee rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to create late fee rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+const waiveLateFeeSchema = z.object({
+  lateFeeId: z.string().cuid("Invalid late fee ID"),
+});
+
+// POST /api/chapters/[chapterSlug]/finance/late-fees/waive - Waive a late fee on a dues payment
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { lateFeeId } = waiveLateFeeSchema.parse(body);
+
+    const lateFee = await financeService.waiveLateFee(lateFeeId, chapter.id, membership.userId);
+
+    return NextResponse.json(lateFee);
+  } catch (error) {
+    console.error("Error waiving late fee:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to waive late fee" },
+      { status: 500 }
+    );
+  }
+}
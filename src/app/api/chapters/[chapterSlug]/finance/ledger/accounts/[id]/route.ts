@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ledgerService } from "@/lib/services/ledger-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { ledgerAccountSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/ledger/accounts/[id] - Rename or deactivate an account
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and account ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = ledgerAccountSchema.omit({ chapterId: true }).partial().parse(body);
+
+    const account = await ledgerService.updateAccount(id, chapter.id, validatedData);
+
+    return NextResponse.json(account);
+  } catch (error) {
+    console.error("Error updating ledger account:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update account" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/ledger/accounts/[id] - Delete an unused custom account
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and account ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await ledgerService.deleteAccount(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting ledger account:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete account" },
+      { status: 500 }
+    );
+  }
+}
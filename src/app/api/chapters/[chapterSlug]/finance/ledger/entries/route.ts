@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ledgerService } from "@/lib/services/ledger-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { journalEntrySchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/ledger/entries - Get journal entries, optionally for one account
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const url = new URL(request.url);
+    const accountId = url.searchParams.get("accountId") || undefined;
+    const limit = url.searchParams.get("limit");
+
+    const entries = await ledgerService.getJournalEntries(chapter.id, {
+      accountId,
+      limit: limit ? parseInt(limit, 10) : 50,
+    });
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error("Error fetching journal entries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch journal entries" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/ledger/entries - Post a balanced manual journal entry
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = journalEntrySchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const entry = await ledgerService.createJournalEntry({
+      ...validatedData,
+      createdById: membership.userId,
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error("Error creating journal entry:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create journal entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { ledgerService } from "@/lib/services/ledger-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { ledgerTransferSchema } from "@/lib/validations/finance";
+
+// POST /api/chapters/[chapterSlug]/finance/ledger/transfers - Move money between two accounts
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = ledgerTransferSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const transaction = await ledgerService.createTransfer({
+      ...validatedData,
+      createdById: membership.userId,
+    });
+
+    return NextResponse.json(transaction, { status: 201 });
+  } catch (error) {
+    console.error("Error creating transfer:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create transfer" },
+      { status: 500 }
+    );
+  }
+}
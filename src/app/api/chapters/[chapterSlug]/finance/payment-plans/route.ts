@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { financeService } from "@/lib/services/finance-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { paymentPlanRequestSchema } from "@/lib/validations/finance";
+import { DuesPaymentPlanStatus } from "@/generated/prisma";
+
+// GET /api/chapters/[chapterSlug]/finance/payment-plans - Get payment plans, optionally filtered by status
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const url = new URL(request.url);
+    const status = z.nativeEnum(DuesPaymentPlanStatus).optional().parse(url.searchParams.get("status") ?? undefined);
+
+    const plans = await financeService.getPaymentPlans(chapter.id, status);
+
+    return NextResponse.json(plans);
+  } catch (error) {
+    console.error("Error fetching payment plans:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch payment plans" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/payment-plans - Request a payment plan for your own dues
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = paymentPlanRequestSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    // Members can only request plans for their own dues; the service enforces this
+    const plan = await financeService.requestPaymentPlan({
+      ...validatedData,
+      userId: membership.userId,
+    });
+
+    return NextResponse.json(plan, { status: 201 });
+  } catch (error) {
+    console.error("Error requesting payment plan:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to request payment plan" },
+      { status: 500 }
+    );
+  }
+}
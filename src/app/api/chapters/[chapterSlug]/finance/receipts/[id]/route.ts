@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { statementService } from "@/lib/services/statement-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { getReceiptFileName, paymentReceiptToPdf } from "@/lib/finance/statement-export";
+
+// GET /api/chapters/[chapterSlug]/finance/receipts/[id] - Download the PDF receipt for a dues payment
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and payment record ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+    // Members can only download receipts for their own payments
+    const isAdmin = membership.role === FinanceAccessRole.ADMIN || membership.role === FinanceAccessRole.OWNER;
+    const receipt = await statementService.getPaymentReceipt(id, chapter.id, isAdmin ? undefined : membership.userId);
+
+    if (!receipt) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(paymentReceiptToPdf(receipt)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${getReceiptFileName(receipt)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to generate receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { reconciliationService } from "@/lib/services/reconciliation-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// POST /api/chapters/[chapterSlug]/finance/reconciliation/[id]/rematch - Look for matches for unmatched lines again
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and import ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const matchedCount = await reconciliationService.rematchStatementImport(id, chapter.id);
+
+    return NextResponse.json({ matchedCount });
+  } catch (error) {
+    console.error("Error matching bank statement lines:", error);
+    return NextResponse.json(
+      { error: "Failed to match statement lines" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { reconciliationService } from "@/lib/services/reconciliation-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// GET /api/chapters/[chapterSlug]/finance/reconciliation/[id] - Get a bank statement with its lines and matches
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and import ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const statementImport = await reconciliationService.getStatementImport(id, chapter.id);
+
+    if (!statementImport) {
+      return NextResponse.json({ error: "Bank statement not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(statementImport);
+  } catch (error) {
+    console.error("Error fetching bank statement:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch bank statement" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/reconciliation/[id] - Delete an imported bank statement
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and import ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await reconciliationService.deleteStatementImport(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting bank statement:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete bank statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reconciliationService } from "@/lib/services/reconciliation-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { bankStatementLineActionSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/reconciliation/lines/[id] - Match, confirm, ignore or record a statement line
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and line ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = bankStatementLineActionSchema.parse(body);
+
+    let line;
+    switch (validatedData.action) {
+      case "match":
+        line = await reconciliationService.matchLine(id, chapter.id, validatedData, membership.userId);
+        break;
+      case "confirm":
+        line = await reconciliationService.confirmLine(id, chapter.id, membership.userId);
+        break;
+      case "ignore":
+        line = await reconciliationService.ignoreLine(id, chapter.id, membership.userId);
+        break;
+      case "create":
+        line = await reconciliationService.createTransactionForLine(id, chapter.id, validatedData, membership.userId);
+        break;
+    }
+
+    return NextResponse.json(line);
+  } catch (error) {
+    console.error("Error updating bank statement line:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update statement line" },
+      { status: 500 }
+    );
+  }
+}
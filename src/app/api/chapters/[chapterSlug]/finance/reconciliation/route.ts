@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reconciliationService } from "@/lib/services/reconciliation-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { bankStatementImportSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/reconciliation - Get imported bank statements
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const imports = await reconciliationService.getStatementImports(chapter.id);
+
+    return NextResponse.json(imports);
+  } catch (error) {
+    console.error("Error fetching bank statements:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch bank statements" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/reconciliation - Import a CSV or OFX bank statement
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // The statement is uploaded as a multipart form file
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Statement file is required" }, { status: 400 });
+    }
+
+    const validatedData = bankStatementImportSchema.parse({
+      fileName: file.name,
+      content: await file.text(),
+      currency: formData.get("currency") || undefined,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const statementImport = await reconciliationService.importStatement({
+      ...validatedData,
+      importedById: membership.userId,
+    });
+
+    return NextResponse.json(statementImport, { status: 201 });
+  } catch (error) {
+    console.error("Error importing bank statement:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to import bank statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reimbursementService } from "@/lib/services/reimbursement-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { reimbursementSettleSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/reimbursements/[id] - Mark a pending payout as paid or failed
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and reimbursement ID from params
+    const { chapterSlug, id } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = reimbursementSettleSchema.parse(body);
+
+    const reimbursement = await reimbursementService.settleReimbursement(id, chapter.id, validatedData, membership.userId);
+
+    return NextResponse.json(reimbursement);
+  } catch (error) {
+    console.error("Error settling reimbursement:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to settle reimbursement" },
+      { status: 500 }
+    );
+  }
+}
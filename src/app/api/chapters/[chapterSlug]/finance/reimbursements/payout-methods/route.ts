@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reimbursementService } from "@/lib/services/reimbursement-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { payoutMethodSchema } from "@/lib/validations/finance";
+
+// PUT /api/chapters/[chapterSlug]/finance/reimbursements/payout-methods - Save how a member is reimbursed
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = payoutMethodSchema.parse(body);
+
+    const payoutMethod = await reimbursementService.setPayoutMethod(chapter.id, validatedData.userId, {
+      method: validatedData.method,
+      details: validatedData.details,
+    });
+
+    return NextResponse.json(payoutMethod);
+  } catch (error) {
+    console.error("Error saving payout method:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save payout method" },
+      { status: 500 }
+    );
+  }
+}
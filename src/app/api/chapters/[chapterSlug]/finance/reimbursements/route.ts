@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reimbursementService } from "@/lib/services/reimbursement-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { reimbursementBatchSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/reimbursements - Get approved expenses waiting to be reimbursed
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const queue = await reimbursementService.getQueue(chapter.id);
+
+    return NextResponse.json(queue);
+  } catch (error) {
+    console.error("Error fetching reimbursement queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reimbursement queue" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/reimbursements - Reimburse a batch of approved expenses
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = reimbursementBatchSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const reimbursements = await reimbursementService.reimburseExpenses(chapter.id, membership.userId, {
+      expenseIds: validatedData.expenseIds,
+      reference: validatedData.reference,
+      paidAt: validatedData.paidAt,
+      method: validatedData.method,
+      issuePayout: validatedData.issuePayout,
+    });
+
+    return NextResponse.json(reimbursements, { status: 201 });
+  } catch (error) {
+    console.error("Error reimbursing expenses:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reimburse expenses" },
+      { status: 500 }
+    );
+  }
+}
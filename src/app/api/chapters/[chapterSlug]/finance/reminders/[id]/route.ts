@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { duesReminderService } from "@/lib/services/dues-reminder-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesReminderRuleSchema } from "@/lib/validations/finance";
+
+// PATCH /api/chapters/[chapterSlug]/finance/reminders/[id] - Update a dues reminder rule
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse request body; the chapter can never be changed
+    const body = await request.json();
+    const validatedData = duesReminderRuleSchema.omit({ chapterId: true }).partial().parse(body);
+
+    // Reminders already sent under this rule are not sent again
+    const rule = await duesReminderService.updateReminderRule(id, chapter.id, validatedData);
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error("Error updating dues reminder rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to update dues reminder rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/chapters/[chapterSlug]/finance/reminders/[id] - Delete a dues reminder rule
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string; id: string }> }
+) {
+  try {
+    // Get chapter slug and rule ID from params
+    const { chapterSlug, id } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    await duesReminderService.deleteReminderRule(id, chapter.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting dues reminder rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete dues reminder rule" },
+      { status: 500 }
+    );
+  }
+}
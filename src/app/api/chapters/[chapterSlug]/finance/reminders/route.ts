@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { duesReminderService } from "@/lib/services/dues-reminder-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { duesReminderRuleSchema } from "@/lib/validations/finance";
+
+// GET /api/chapters/[chapterSlug]/finance/reminders - Get the chapter's dues reminder rules
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const rules = await duesReminderService.getReminderRules(chapter.id);
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error("Error fetching dues reminder rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dues reminder rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/reminders - Create a dues reminder rule
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = duesReminderRuleSchema.parse({
+      ...body,
+      chapterId: chapter.id, // Set the correct chapter ID
+    });
+
+    const rule = await duesReminderService.createReminderRule(validatedData);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating dues reminder rule:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to create dues reminder rule" },
+      { status: 500 }
+    );
+  }
+}
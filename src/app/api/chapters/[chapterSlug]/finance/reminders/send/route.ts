@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { duesReminderService } from "@/lib/services/dues-reminder-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// POST /api/chapters/[chapterSlug]/finance/reminders/send - Send any dues reminders that are due now
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    // Each rule reminds a member once per dues payment, so running this before the scheduled job is safe
+    const result = await duesReminderService.sendReminders(chapter.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error sending dues reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send dues reminders" },
+      { status: 500 }
+    );
+  }
+}
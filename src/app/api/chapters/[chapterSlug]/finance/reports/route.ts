@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { reportService } from "@/lib/services/report-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { financialReportQuerySchema } from "@/lib/validations/finance";
+import { financialReportToCsv, financialReportToPdf, getReportFileName } from "@/lib/finance/report-export";
+
+// GET /api/chapters/[chapterSlug]/finance/reports - Generate a financial report as JSON, CSV or PDF
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    // Reports are a PRO plan feature
+    let chapter;
+    try {
+      ({ chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN, "advancedReporting"));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    // Parse query parameters
+    const url = new URL(request.url);
+    const query = financialReportQuerySchema.parse({
+      startDate: url.searchParams.get("startDate"),
+      endDate: url.searchParams.get("endDate"),
+      format: url.searchParams.get("format") ?? undefined,
+    });
+
+    const report = await reportService.getFinancialReport(chapter.id, query);
+
+    if (query.format === "csv") {
+      return new NextResponse(financialReportToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${getReportFileName(report, "csv")}"`,
+        },
+      });
+    }
+
+    if (query.format === "pdf") {
+      return new NextResponse(new Uint8Array(financialReportToPdf(report)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${getReportFileName(report, "pdf")}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error generating financial report:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to generate financial report" },
+      { status: 500 }
+    );
+  }
+}
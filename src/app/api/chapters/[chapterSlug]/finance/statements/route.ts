@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { statementService } from "@/lib/services/statement-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+import { memberStatementQuerySchema } from "@/lib/validations/finance";
+import { getStatementFileName, memberStatementToPdf } from "@/lib/finance/statement-export";
+
+// GET /api/chapters/[chapterSlug]/finance/statements - Download a member's yearly dues statement as a PDF
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.MEMBER);
+
+    // Parse query parameters
+    const url = new URL(request.url);
+    const query = memberStatementQuerySchema.parse({
+      year: url.searchParams.get("year") ?? undefined,
+      userId: url.searchParams.get("userId") ?? undefined,
+    });
+
+    // Members get their own statement; admins can download any member's
+    const isAdmin = membership.role === FinanceAccessRole.ADMIN || membership.role === FinanceAccessRole.OWNER;
+    if (query.userId && query.userId !== membership.userId && !isAdmin) {
+      return NextResponse.json({ error: "You can only download your own statement" }, { status: 403 });
+    }
+
+    const statement = await statementService.getMemberStatement(query.userId ?? membership.userId, chapter.id, query.year);
+
+    return new NextResponse(new Uint8Array(memberStatementToPdf(statement)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${getStatementFileName(statement)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error generating dues statement:", error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", issues: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to generate dues statement" },
+      { status: 500 }
+    );
+  }
+}
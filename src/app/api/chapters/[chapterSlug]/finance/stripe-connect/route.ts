@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { stripeConnectService } from "@/lib/services/stripe-connect-service";
+import { requireFinanceAccess, FinanceAccessRole } from "@/lib/finance/auth-check";
+
+// GET /api/chapters/[chapterSlug]/finance/stripe-connect - Get the chapter's Stripe account status, balance and payouts
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const account = await stripeConnectService.getAccount(chapter.id);
+
+    return NextResponse.json(account);
+  } catch (error) {
+    console.error("Error fetching Stripe account:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch Stripe account" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/chapters/[chapterSlug]/finance/stripe-connect - Get a link to Stripe onboarding, or with ?dashboard to the Stripe dashboard
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { chapter } = await requireFinanceAccess(chapterSlug, FinanceAccessRole.ADMIN);
+
+    const { searchParams } = new URL(request.url);
+    const link = searchParams.has("dashboard")
+      ? await stripeConnectService.createDashboardLink(chapter.id)
+      : await stripeConnectService.createOnboardingLink(chapter.id);
+
+    return NextResponse.json(link);
+  } catch (error) {
+    console.error("Error creating Stripe link:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create Stripe link" },
+      { status: 500 }
+    );
+  }
+}
@@ -45,6 +45,7 @@ export async function GET(
     const startDateParam = url.searchParams.get("startDate");
     const endDateParam = url.searchParams.get("endDate");
     const typeParam = url.searchParams.get("type");
+    const reconciledParam = url.searchParams.get("reconciled");
     const limitParam = url.searchParams.get("limit");
 
     // Build filters
@@ -52,10 +53,12 @@ export async function GET(
       startDate?: Date;
       endDate?: Date;
       type?: TransactionType;
+      reconciled?: boolean;
     } = {};
     if (startDateParam) filters.startDate = new Date(startDateParam);
     if (endDateParam) filters.endDate = new Date(endDateParam);
     if (typeParam) filters.type = typeParam as TransactionType;
+    if (reconciledParam) filters.reconciled = reconciledParam === "true";
 
     // Get transactions with filters
     let transactions = await financeService.getTransactions(chapter.id, filters);
@@ -120,7 +123,8 @@ export async function POST(
     
     // Create transaction
     const transaction = await financeService.createTransaction({
-      amount: Number(validatedData.amount),
+      amount: validatedData.amount,
+      currency: validatedData.currency,
       type: validatedData.type as TransactionType,
       description: typeof validatedData.description === 'string' ? validatedData.description : null,
       metadata: validatedData.metadata ? (validatedData.metadata as Prisma.InputJsonValue) : null,
@@ -128,7 +132,7 @@ export async function POST(
       expenseId: validatedData.expenseId as string|| null,
       duesPaymentId: validatedData.duesPaymentId as string || null,
       processedAt: new Date(),
-    });
+    }, session.user.id);
 
     return NextResponse.json(transaction, { status: 201 });
   } catch (error) {
@@ -140,7 +144,7 @@ export async function POST(
       );
     }
     return NextResponse.json(
-      { error: "Failed to create transaction" },
+      { error: error instanceof Error ? error.message : "Failed to create transaction" },
       { status: 500 }
     );
   }
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth-options";
 import { prisma } from "@/lib/db";
+import { financeService } from "@/lib/services/finance-service";
 
 // Function to check if user is admin of the chapter
 async function isChapterAdmin(userId: string, chapterId: string) {
@@ -107,6 +108,14 @@ export async function POST(
       },
     });
     
+    // Bill the new member for any active dues schedules that include new members
+    try {
+      await financeService.applyDuesSchedulesToMember(updatedMembership.userId, chapter.id);
+    } catch (error) {
+      // Approval has already succeeded, so don't fail the request over dues generation
+      console.error("Error applying dues schedules to approved member:", error);
+    }
+    
     // In a real implementation, you would send an email notification to the user
     
     return NextResponse.json({
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { ticketService } from "@/lib/services/ticket-service";
+import { requireFinanceAccess } from "@/lib/finance/auth-check";
+
+// GET /api/chapters/[chapterSlug]/tickets - List the event tickets the current member has bought
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ chapterSlug: string }> }
+) {
+  try {
+    // Get chapter slug from params
+    const { chapterSlug } = await params;
+
+    const { membership, chapter } = await requireFinanceAccess(chapterSlug);
+
+    const orders = await ticketService.getMyTickets(membership.userId, chapter.id);
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error("Error fetching tickets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tickets" },
+      { status: 500 }
+    );
+  }
+}
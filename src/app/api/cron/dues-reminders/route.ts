@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { duesReminderService } from "@/lib/services/dues-reminder-service";
+
+// GET /api/cron/dues-reminders - Send due reminders for every chapter (called by the scheduler)
+export async function GET(request: Request) {
+  // Scheduled jobs authenticate with the shared cron secret instead of a session
+  const authHeader = request.headers.get("authorization");
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await duesReminderService.sendRemindersForAllChapters();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running dues reminder job:", error);
+    return NextResponse.json(
+      { error: "Failed to send dues reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { financeService } from "@/lib/services/finance-service";
+
+// GET /api/cron/late-fees - Assess late fees for every chapter (called by the scheduler)
+export async function GET(request: Request) {
+  // Scheduled jobs authenticate with the shared cron secret instead of a session
+  const authHeader = request.headers.get("authorization");
+  if (!process.env.CRON_SECRET || authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await financeService.applyLateFeesForAllChapters();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running late fee job:", error);
+    return NextResponse.json(
+      { error: "Failed to apply late fees" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { campaignService } from '@/lib/services/campaign-service';
+import { donationCheckoutSchema } from '@/lib/validations/finance';
+
+// Start a Stripe checkout for a donation from a campaign's public page.
+// Donors don't need an account; signed-in donors are linked to their donation.
+export async function POST(request: NextRequest) {
+  try {
+    // Parse and validate the request body
+    const body = await request.json();
+    const validatedData = donationCheckoutSchema.parse(body);
+
+    const session = await getServerSession(authOptions);
+
+    const checkout = await campaignService.createDonationCheckout({
+      ...validatedData,
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(checkout);
+  } catch (error) {
+    console.error('Error creating donation checkout:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start donation' },
+      { status: 500 }
+    );
+  }
+}
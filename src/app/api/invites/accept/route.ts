@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { Prisma } from "@/generated/prisma";
 import { prisma } from "@/lib/db";
+import { financeService } from "@/lib/services/finance-service";
 import { hash } from "bcrypt";
 import { z } from "zod";
 
@@ -155,6 +156,15 @@ export async function POST(request: Request) {
       );
     }
 
+    // Invited members join directly, so bill them for any active dues schedules
+    if (result.membership.role !== "PENDING_MEMBER") {
+      try {
+        await financeService.applyDuesSchedulesToMember(result.user.id, invite.chapterId);
+      } catch (error) {
+        console.error("Error applying dues schedules to invited member:", error);
+      }
+    }
+
     return NextResponse.json({
       message: "Invite successfully accepted",
       userId: result.user.id,
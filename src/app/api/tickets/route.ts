@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { ticketService } from '@/lib/services/ticket-service';
+import { ticketCheckoutSchema } from '@/lib/validations/finance';
+import { getClientIp, isRateLimited } from '@/lib/rate-limit';
+
+// Checkouts each client can start per window; every one can send an email
+const CHECKOUT_LIMIT = 10;
+const CHECKOUT_WINDOW_MS = 10 * 60 * 1000;
+
+// Start a Stripe checkout for event tickets from the public events list or the portal.
+// Guests can buy paid tickets; free tickets need a signed-in member.
+export async function POST(request: NextRequest) {
+  try {
+    if (isRateLimited(`tickets:${getClientIp(request)}`, CHECKOUT_LIMIT, CHECKOUT_WINDOW_MS)) {
+      return NextResponse.json(
+        { error: 'Too many ticket requests. Please try again in a few minutes.' },
+        { status: 429 }
+      );
+    }
+
+    // Parse and validate the request body
+    const body = await request.json();
+    const validatedData = ticketCheckoutSchema.parse(body);
+
+    const session = await getServerSession(authOptions);
+
+    const checkout = await ticketService.createTicketCheckout({
+      ...validatedData,
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(checkout);
+  } catch (error) {
+    console.error('Error creating ticket checkout:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start ticket checkout' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,9 @@ import Stripe from "stripe";
 import stripe from "@/lib/stripe";
 import { prisma } from "@/lib/db";
 import { financeService } from "@/lib/services/finance-service";
+import { stripeConnectService } from "@/lib/services/stripe-connect-service";
+import { campaignService } from "@/lib/services/campaign-service";
+import { ticketService } from "@/lib/services/ticket-service";
 
 // Stripe webhook handler for subscription events
 export async function POST(request: NextRequest) {
@@ -48,6 +51,12 @@ export async function POST(request: NextRequest) {
       case "payment_intent.succeeded":
         await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
         break;
+      case "account.updated":
+        await handleAccountUpdated(event.data.object as Stripe.Account);
+        break;
+      case "charge.refunded":
+        await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
@@ -169,11 +178,35 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
   }
 }
 
-// Handle completed checkout sessions for dues payments
+// Handle completed checkout sessions for dues payments, donations and event tickets
 async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
   try {
     // Only process checkout sessions with successful payments
-    if (session.payment_status !== "paid" || !session.metadata?.duesPaymentId) {
+    if (session.payment_status !== "paid") {
+      return;
+    }
+
+    if (session.metadata?.campaignId) {
+      console.log(`Processing donation for session: ${session.id}`);
+
+      // Records the donation and its income transaction
+      await campaignService.processDonationCheckout(session.id);
+
+      console.log(`Successfully processed donation for session: ${session.id}`);
+      return;
+    }
+
+    if (session.metadata?.ticketTypeId) {
+      console.log(`Processing ticket order for session: ${session.id}`);
+
+      // Issues the tickets and records their income transaction
+      await ticketService.processTicketCheckout(session.id);
+
+      console.log(`Successfully processed ticket order for session: ${session.id}`);
+      return;
+    }
+
+    if (!session.metadata?.duesPaymentId) {
       return;
     }
 
@@ -192,6 +225,32 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
 // Handle successful payment intents (backup handler for webhooks)
 async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
   try {
+    // Donations are recorded once, whichever event arrives first
+    if (paymentIntent.metadata?.campaignId) {
+      await campaignService.recordDonation(
+        paymentIntent.id,
+        paymentIntent.amount, // Stripe amounts are already in minor units
+        paymentIntent.metadata,
+        paymentIntent.application_fee_amount
+      );
+
+      console.log(`Successfully processed donation payment intent: ${paymentIntent.id}`);
+      return;
+    }
+
+    // Tickets are issued once, whichever event arrives first
+    if (paymentIntent.metadata?.ticketTypeId) {
+      await ticketService.recordTicketOrder(
+        paymentIntent.id,
+        paymentIntent.amount, // Stripe amounts are already in minor units
+        paymentIntent.metadata,
+        paymentIntent.application_fee_amount
+      );
+
+      console.log(`Successfully processed ticket payment intent: ${paymentIntent.id}`);
+      return;
+    }
+
     // Check if this payment intent is for a dues payment by looking at the metadata
     if (!paymentIntent.metadata?.duesPaymentId || !paymentIntent.metadata?.chapterId) {
       // Not a dues payment or doesn't have necessary metadata
@@ -199,30 +258,21 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
     }
 
     const { duesPaymentId, chapterId } = paymentIntent.metadata;
-    
-    // Update the dues payment record
-    await prisma.duesPayment.update({
-      where: {
-        id: duesPaymentId,
-        chapterId, // Ensure tenant isolation
-      },
-      data: {
-        paidAt: new Date(),
-        stripePaymentId: paymentIntent.id,
-      },
-    });
 
-    // Create a transaction record for this payment
-    await prisma.transaction.create({
-      data: {
-        amount: paymentIntent.amount / 100, // Convert from cents to dollars
-        type: "DUES_PAYMENT",
-        description: `Dues payment processed via Stripe`,
-        chapterId,
-        duesPaymentId,
-        processedAt: new Date(),
-      },
+    // The checkout session handler may already have recorded this payment
+    const existingRecord = await prisma.duesPaymentRecord.findUnique({
+      where: { stripePaymentId: paymentIntent.id },
     });
+
+    if (!existingRecord) {
+      // Records the payment, its transactions and their ledger postings
+      await financeService.recordDuesPayment(duesPaymentId, chapterId, {
+        amount: paymentIntent.amount, // Stripe amounts are already in minor units
+        note: "Paid online",
+        stripePaymentId: paymentIntent.id,
+        platformFee: paymentIntent.application_fee_amount,
+      });
+    }
     
     console.log(`Successfully processed payment intent: ${paymentIntent.id}`);
   } catch (error) {
@@ -230,3 +280,38 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
     throw error;
   }
 }
+
+// Handle refunded charges, whether refunded from the dues list or the Stripe dashboard
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  try {
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      return;
+    }
+
+    // Refunds already recorded when they were issued are skipped
+    const refunds = await financeService.processStripeRefunds(charge.id, paymentIntentId);
+
+    console.log(`Processed ${refunds.length} refund(s) for charge: ${charge.id}`);
+  } catch (error) {
+    console.error(`Error processing refunded charge ${charge.id}:`, error);
+    throw error;
+  }
+}
+
+// Keep a chapter's Stripe Connect onboarding and payout status current
+async function handleAccountUpdated(account: Stripe.Account) {
+  try {
+    const chapter = await stripeConnectService.syncAccount(account);
+
+    if (chapter) {
+      console.log(`Updated Stripe account status for chapter: ${chapter.slug}`);
+    }
+  } catch (error) {
+    console.error(`Error updating Stripe account ${account.id}:`, error);
+    throw error;
+  }
+}
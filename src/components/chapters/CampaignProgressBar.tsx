@@ -0,0 +1,26 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import { CampaignProgress } from '@/lib/finance/campaigns';
+import { formatCurrency } from '@/lib/utils/format';
+
+interface CampaignProgressBarProps {
+  progress: CampaignProgress;
+  currency: string;
+}
+
+export function CampaignProgressBar({ progress, currency }: CampaignProgressBarProps) {
+  return (
+    <div className="space-y-2">
+      <Progress value={progress.percent} className="h-3" />
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">
+          {formatCurrency(progress.raised, currency)} raised
+        </span>
+        <span className="text-muted-foreground">
+          {progress.percent}% of {formatCurrency(progress.goal, currency)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CampaignProgressBar } from '@/components/chapters/CampaignProgressBar';
+import { CampaignProgress } from '@/lib/finance/campaigns';
+import { HeartHandshake } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface CampaignsSectionProps {
+  chapterSlug: string;
+  campaigns: Array<{
+    slug: string;
+    title: string;
+    description: string | null;
+    currency: string;
+    endDate: Date | null;
+    progress: CampaignProgress;
+  }>;
+}
+
+export function CampaignsSection({ chapterSlug, campaigns }: CampaignsSectionProps) {
+  // Chapters without an active campaign don't show the section at all
+  if (!campaigns.length) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full mb-8">
+      <CardHeader>
+        <CardTitle>Support Our Chapter</CardTitle>
+        <CardDescription>Help us reach our fundraising goals</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {campaigns.map((campaign) => (
+          <Card key={campaign.slug} className="overflow-hidden">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-xl">{campaign.title}</CardTitle>
+              {campaign.endDate && (
+                <CardDescription>Ends {format(new Date(campaign.endDate), 'MMMM d, yyyy')}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {campaign.description && (
+                <p className="text-sm text-muted-foreground line-clamp-3">{campaign.description}</p>
+              )}
+              <CampaignProgressBar progress={campaign.progress} currency={campaign.currency} />
+              <Button asChild>
+                <Link href={`/${chapterSlug}/donate/${campaign.slug}`}>
+                  <HeartHandshake className="h-4 w-4 mr-2" />
+                  Donate
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { toMinorUnits } from '@/lib/finance/money';
+import { formatCurrency } from '@/lib/utils/format';
+
+// Suggested amounts in minor units
+const PRESET_AMOUNTS = [2500, 5000, 10000, 25000];
+
+// Donation form schema; the amount is entered in whole currency units
+const donationFormSchema = z.object({
+  amount: z
+    .string()
+    .refine((value) => Number(value) >= 1, 'Donations must be at least 1.00'),
+  donorName: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  donorEmail: z.string().email('Invalid email address'),
+  message: z.string().max(500, 'Message is too long'),
+  isAnonymous: z.boolean(),
+});
+
+type DonationFormValues = z.infer<typeof donationFormSchema>;
+
+interface DonationFormProps {
+  chapterSlug: string;
+  campaignSlug: string;
+  currency: string;
+}
+
+export function DonationForm({ chapterSlug, campaignSlug, currency }: DonationFormProps) {
+  const form = useForm<DonationFormValues>({
+    resolver: zodResolver(donationFormSchema),
+    defaultValues: {
+      amount: '50',
+      donorName: '',
+      donorEmail: '',
+      message: '',
+      isAnonymous: false,
+    },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: async (data: DonationFormValues) => {
+      const response = await fetch('/api/donations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          amount: toMinorUnits(Number(data.amount), currency),
+          message: data.message || null,
+          chapterSlug,
+          campaignSlug,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to start donation');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      // Continue to Stripe to pay
+      window.location.href = data.url;
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  function onSubmit(data: DonationFormValues) {
+    mutate(data);
+  }
+
+  const amount = form.watch('amount');
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Make a Donation</CardTitle>
+        <CardDescription>Payments are processed securely by Stripe.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {PRESET_AMOUNTS.map((preset) => {
+                const value = String(preset / 100);
+                return (
+                  <Button
+                    key={preset}
+                    type="button"
+                    variant={amount === value ? 'default' : 'outline'}
+                    onClick={() => form.setValue('amount', value, { shouldValidate: true })}
+                  >
+                    {formatCurrency(preset, currency)}
+                  </Button>
+                );
+              })}
+            </div>
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount ({currency})</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="1" step="0.01" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="donorName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Your name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="donorEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="your.email@example.com" {...field} />
+                  </FormControl>
+                  <FormDescription>Used for your payment receipt and never shown publicly.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Leave a note of support..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isAnonymous"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Don&apos;t show my name on the donor list</FormLabel>
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Redirecting to payment...
+                </>
+              ) : (
+                'Donate'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCurrency, formatRelativeTime } from '@/lib/utils/format';
+
+interface DonorListProps {
+  currency: string;
+  donors: Array<{
+    id: string;
+    name: string; // Already "Anonymous" for donors who asked not to be named
+    amount: number;
+    message: string | null;
+    donatedAt: Date;
+  }>;
+}
+
+export function DonorList({ currency, donors }: DonorListProps) {
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Donors</CardTitle>
+        <CardDescription>
+          {donors.length
+            ? `${donors.length} ${donors.length === 1 ? 'person has' : 'people have'} given to this campaign`
+            : 'Be the first to give to this campaign.'}
+        </CardDescription>
+      </CardHeader>
+      {donors.length > 0 && (
+        <CardContent>
+          <ul className="divide-y">
+            {donors.map((donor) => (
+              <li key={donor.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex justify-between items-baseline gap-4">
+                  <span className="font-medium">{donor.name}</span>
+                  <span className="text-sm">{formatCurrency(donor.amount, currency)}</span>
+                </div>
+                {donor.message && (
+                  <p className="text-sm text-muted-foreground mt-1">{donor.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">{formatRelativeTime(donor.donatedAt)}</p>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,16 +1,48 @@
 'use client';
 
+import { useState } from 'react';
 import { Event, EventStatus } from '@/generated/prisma';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CalendarIcon, MapPinIcon, ClockIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TicketPurchaseForm } from '@/components/chapters/TicketPurchaseForm';
+import { EventTicketOption } from '@/lib/finance/event-tickets';
+import { formatCurrency } from '@/lib/utils/format';
+import { CalendarIcon, MapPinIcon, ClockIcon, Ticket } from 'lucide-react';
 import { format } from 'date-fns';
 
+type PublicEvent = Pick<Event, 'id' | 'title' | 'description' | 'location' | 'startDate' | 'endDate' | 'status'> & {
+  ticketTypes: EventTicketOption[];
+};
+
 interface EventsListProps {
-  events: Array<Pick<Event, 'id' | 'title' | 'description' | 'location' | 'startDate' | 'endDate' | 'status'>>;
+  chapterSlug: string;
+  events: PublicEvent[];
+}
+
+// "From $10.00" for the cheapest ticket still on sale
+function describeTicketPrices(ticketTypes: EventTicketOption[]) {
+  const onSale = ticketTypes.filter((ticketType) => ticketType.availability.isOnSale);
+  if (!onSale.length) {
+    return 'Sold out';
+  }
+  const cheapest = onSale.reduce((lowest, ticketType) => (ticketType.price < lowest.price ? ticketType : lowest));
+  if (cheapest.price === 0) {
+    return 'Free';
+  }
+  return `${onSale.length > 1 ? 'From ' : ''}${formatCurrency(cheapest.price, cheapest.currency)}`;
 }
 
-export function EventsList({ events }: EventsListProps) {
+export function EventsList({ chapterSlug, events }: EventsListProps) {
+  const [ticketEvent, setTicketEvent] = useState<PublicEvent | null>(null);
+
   if (!events.length) {
     return (
       <Card className="w-full mb-8">
@@ -55,10 +87,41 @@ export function EventsList({ events }: EventsListProps) {
                   <span>{event.location}</span>
                 </div>
               </div>
+              {event.ticketTypes.length > 0 && (
+                <div className="flex items-center justify-between mt-4">
+                  <span className="text-sm font-medium">{describeTicketPrices(event.ticketTypes)}</span>
+                  <Button
+                    size="sm"
+                    disabled={!event.ticketTypes.some((ticketType) => ticketType.availability.isOnSale)}
+                    onClick={() => setTicketEvent(event)}
+                  >
+                    <Ticket className="h-4 w-4 mr-2" />
+                    Get Tickets
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
       </CardContent>
+
+      <Dialog open={ticketEvent !== null} onOpenChange={(open) => !open && setTicketEvent(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tickets for {ticketEvent?.title}</DialogTitle>
+            <DialogDescription>
+              {ticketEvent && format(new Date(ticketEvent.startDate), "EEEE, MMMM d 'at' h:mm a")}. Payments are processed securely by Stripe.
+            </DialogDescription>
+          </DialogHeader>
+          {ticketEvent && (
+            <TicketPurchaseForm
+              chapterSlug={chapterSlug}
+              eventId={ticketEvent.id}
+              ticketTypes={ticketEvent.ticketTypes}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
@@ -0,0 +1,207 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useMutation } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/utils/format';
+import { EventTicketOption, MAX_TICKETS_PER_ORDER } from '@/lib/finance/event-tickets';
+import { format } from 'date-fns';
+
+// Ticket form schema
+const ticketFormSchema = z.object({
+  ticketTypeId: z.string().min(1, 'Choose a ticket'),
+  quantity: z.coerce
+    .number()
+    .int()
+    .min(1, 'Choose at least one ticket')
+    .max(MAX_TICKETS_PER_ORDER, `At most ${MAX_TICKETS_PER_ORDER} tickets per order`),
+  buyerName: z.string().min(1, 'Name is required').max(100, 'Name is too long'),
+  buyerEmail: z.string().email('Invalid email address'),
+});
+
+type TicketFormValues = z.infer<typeof ticketFormSchema>;
+
+interface TicketPurchaseFormProps {
+  chapterSlug: string;
+  eventId: string;
+  ticketTypes: EventTicketOption[];
+  isMember?: boolean; // Members-only and free tickets can only be chosen by signed-in members
+  defaultName?: string;
+  defaultEmail?: string;
+}
+
+export function TicketPurchaseForm({
+  chapterSlug,
+  eventId,
+  ticketTypes,
+  isMember = false,
+  defaultName = '',
+  defaultEmail = '',
+}: TicketPurchaseFormProps) {
+  const isMembersOnly = (ticketType: EventTicketOption) => ticketType.membersOnly || ticketType.price === 0;
+  const canBuy = (ticketType: EventTicketOption) =>
+    ticketType.availability.isOnSale && (isMember || !isMembersOnly(ticketType));
+
+  const form = useForm<TicketFormValues>({
+    resolver: zodResolver(ticketFormSchema),
+    defaultValues: {
+      ticketTypeId: ticketTypes.find(canBuy)?.id ?? '',
+      quantity: 1,
+      buyerName: defaultName,
+      buyerEmail: defaultEmail,
+    },
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: async (data: TicketFormValues) => {
+      const response = await fetch('/api/tickets', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          chapterSlug,
+          eventId,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to start ticket checkout');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      // Continue to Stripe to pay, or straight back for free tickets
+      window.location.href = data.url;
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const selected = ticketTypes.find((ticketType) => ticketType.id === form.watch('ticketTypeId'));
+  const quantity = Number(form.watch('quantity')) || 0;
+
+  if (!ticketTypes.some(canBuy)) {
+    return <p className="text-sm text-muted-foreground">No tickets are available for this event right now.</p>;
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="ticketTypeId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Ticket</FormLabel>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-2">
+                  {ticketTypes.map((ticketType) => (
+                    <FormItem
+                      key={ticketType.id}
+                      className="flex items-start space-x-3 space-y-0 rounded-lg border p-3"
+                    >
+                      <FormControl>
+                        <RadioGroupItem value={ticketType.id} disabled={!canBuy(ticketType)} className="mt-1" />
+                      </FormControl>
+                      <div className="flex-1">
+                        <FormLabel className="font-medium flex justify-between">
+                          <span>{ticketType.name}</span>
+                          <span>{ticketType.price === 0 ? 'Free' : formatCurrency(ticketType.price, ticketType.currency)}</span>
+                        </FormLabel>
+                        {ticketType.description && (
+                          <p className="text-xs text-muted-foreground mt-1">{ticketType.description}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {!ticketType.availability.isOnSale
+                            ? ticketType.availability.reason
+                            : isMembersOnly(ticketType) && !isMember
+                              ? ticketType.membersOnly
+                                ? 'Members only - sign in to the chapter portal to buy'
+                                : 'Free for members - sign in to the chapter portal to get tickets'
+                              : [
+                                  ticketType.availability.remaining !== null && `${ticketType.availability.remaining} left`,
+                                  ticketType.salesEndAt && `Until ${format(new Date(ticketType.salesEndAt), 'MMM d, h:mm a')}`,
+                                ].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                    </FormItem>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="quantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Quantity</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="1"
+                  max={Math.min(MAX_TICKETS_PER_ORDER, selected?.availability.remaining ?? MAX_TICKETS_PER_ORDER)}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="buyerName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Your name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="buyerEmail"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="your.email@example.com" {...field} />
+              </FormControl>
+              <FormDescription>Your tickets and their codes are sent here.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending || !selected}>
+          {isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Redirecting to payment...
+            </>
+          ) : selected && selected.price > 0 ? (
+            `Pay ${formatCurrency(selected.price * quantity, selected.currency)}`
+          ) : (
+            'Get Tickets'
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
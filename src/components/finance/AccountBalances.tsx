@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, ArrowRightLeft } from 'lucide-react';
+import { formatCurrency } from "@/lib/utils/format";
+import { toMinorUnits } from '@/lib/finance/money';
+import { LedgerAccountType } from '@/generated/prisma';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface AccountBalancesProps {
+  chapterSlug: string;
+  expanded?: boolean;
+}
+
+interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  isActive: boolean;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+const accountTypeLabels: Record<LedgerAccountType, string> = {
+  ASSET: 'Funds',
+  LIABILITY: 'Liabilities',
+  EQUITY: 'Equity',
+  INCOME: 'Income',
+  EXPENSE: 'Expenses',
+};
+
+export function AccountBalances({ chapterSlug, expanded = false }: AccountBalancesProps) {
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+  const [transferDescription, setTransferDescription] = useState('');
+
+  const { data: accounts, isLoading, error, refetch } = useQuery<LedgerAccount[]>({
+    queryKey: ['ledgerAccounts', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/ledger/accounts`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch account balances');
+      }
+      return res.json();
+    },
+  });
+
+  // Move money between two funds, e.g. operating to social
+  const transferMutation = useMutation({
+    mutationFn: async (data: { fromAccountId: string; toAccountId: string; amount: number; description: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/ledger/transfers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...data, description: data.description || undefined }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to create transfer');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Transfer recorded');
+      setTransferDialogOpen(false);
+      setFromAccountId('');
+      setToAccountId('');
+      setTransferAmount('');
+      setTransferDescription('');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Account Balances</CardTitle>
+          <CardDescription>Error loading account data</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load account balances. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // The overview only shows the funds; the ledger tab shows every account
+  const visibleTypes = expanded
+    ? (Object.keys(accountTypeLabels) as LedgerAccountType[])
+    : [LedgerAccountType.ASSET];
+  const fundAccounts = accounts?.filter(
+    (account) => account.type === LedgerAccountType.ASSET && account.isActive
+  ) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle>Account Balances</CardTitle>
+          <CardDescription>Balances from the chapter&apos;s general ledger</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setTransferDialogOpen(true)}
+          disabled={fundAccounts.length < 2}
+        >
+          <ArrowRightLeft className="mr-1 h-4 w-4" />
+          Transfer
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <div key={index} className="flex items-center justify-between">
+                <Skeleton className="h-4 w-[160px]" />
+                <Skeleton className="h-4 w-[80px]" />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleTypes.map((type) => {
+              const typeAccounts = accounts?.filter((account) => account.type === type) || [];
+
+              if (typeAccounts.length === 0) {
+                return null;
+              }
+
+              const total = typeAccounts.reduce((sum, account) => sum + account.balance, 0);
+
+              return (
+                <div key={type} className="space-y-2">
+                  {expanded && (
+                    <div className="flex items-center justify-between text-sm font-semibold">
+                      <span>{accountTypeLabels[type]}</span>
+                      <span>{formatCurrency(total)}</span>
+                    </div>
+                  )}
+                  {typeAccounts.map((account) => (
+                    <div key={account.id} className="flex items-center justify-between">
+                      <div>
+                        <div className={`font-medium ${account.isActive ? '' : 'text-muted-foreground line-through'}`}>
+                          {account.name}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{account.code}</div>
+                      </div>
+                      <div className={`font-medium ${account.balance < 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(account.balance)}
+                      </div>
+                    </div>
+                  ))}
+                  {!expanded && (
+                    <div className="flex items-center justify-between border-t pt-2 text-sm font-semibold">
+                      <span>Total Funds</span>
+                      <span>{formatCurrency(total)}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Transfer Dialog */}
+      <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer Funds</DialogTitle>
+            <DialogDescription>
+              Move money between the chapter&apos;s funds. Both sides are posted to the ledger.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={fromAccountId} onValueChange={setFromAccountId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fundAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({formatCurrency(account.balance)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={toAccountId} onValueChange={setToAccountId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fundAccounts
+                    .filter((account) => account.id !== fromAccountId)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-amount">Amount</Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={transferAmount}
+                onChange={(e) => setTransferAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-description">Description</Label>
+              <Input
+                id="transfer-description"
+                placeholder="Optional, e.g. spring formal deposit"
+                value={transferDescription}
+                onChange={(e) => setTransferDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransferDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                transferMutation.mutate({
+                  fromAccountId,
+                  toAccountId,
+                  amount: toMinorUnits(Number(transferAmount)), // The API expects cents
+                  description: transferDescription,
+                })
+              }
+              disabled={
+                transferMutation.isPending ||
+                !fromAccountId ||
+                !toAccountId ||
+                fromAccountId === toAccountId ||
+                !(Number(transferAmount) > 0)
+              }
+            >
+              {transferMutation.isPending ? 'Transferring...' : 'Transfer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
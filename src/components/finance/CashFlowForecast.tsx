@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { formatCurrency } from "@/lib/utils/format";
+import type { CashFlowForecast as Forecast, ForecastMonth } from '@/lib/finance/cash-flow-forecast';
+
+interface CashFlowForecastProps {
+  chapterSlug: string;
+}
+
+// Chart drawing area, in SVG units; the SVG scales to the card width
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+
+// "2026-10" -> "Oct 26"
+function monthLabel(month: string) {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+}
+
+function ForecastChart({ forecast }: { forecast: Forecast }) {
+  const months = forecast.months;
+  const outflow = (month: ForecastMonth) => month.budgetOutflow + month.expenseOutflow;
+
+  // Keep zero in view so a shortfall is always visible against it
+  const values = [
+    0,
+    forecast.openingBalance,
+    ...months.flatMap((month) => [month.closingBalance, month.duesInflow, -outflow(month)]),
+  ];
+  const top = Math.max(...values);
+  const bottom = Math.min(...values);
+  const range = top - bottom || 1;
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / months.length;
+  const barWidth = Math.min(slot / 3, 24);
+
+  const x = (index: number) => PADDING.left + slot * index + slot / 2;
+  const y = (value: number) => PADDING.top + ((top - value) / range) * plotHeight;
+
+  const balancePoints = months.map((month, index) => `${x(index)},${y(month.closingBalance)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Projected month-end balance with expected money in and out"
+    >
+      {/* Below-zero area */}
+      {bottom < 0 && (
+        <rect
+          x={PADDING.left}
+          y={y(0)}
+          width={plotWidth}
+          height={y(bottom) - y(0)}
+          className="fill-red-500/5"
+        />
+      )}
+
+      {months.map((month, index) => (
+        <g key={month.month}>
+          <title>
+            {`${monthLabel(month.month)}: in ${formatCurrency(month.duesInflow, forecast.currency)}, out ${formatCurrency(outflow(month), forecast.currency)}, balance ${formatCurrency(month.closingBalance, forecast.currency)}`}
+          </title>
+          <rect
+            x={x(index) - barWidth}
+            y={y(month.duesInflow)}
+            width={barWidth}
+            height={y(0) - y(month.duesInflow)}
+            className="fill-green-500/60"
+          />
+          <rect
+            x={x(index)}
+            y={y(0)}
+            width={barWidth}
+            height={y(-outflow(month)) - y(0)}
+            className="fill-red-500/60"
+          />
+          <text
+            x={x(index)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {monthLabel(month.month)}
+          </text>
+        </g>
+      ))}
+
+      {/* Zero line */}
+      <line
+        x1={PADDING.left}
+        x2={CHART_WIDTH - PADDING.right}
+        y1={y(0)}
+        y2={y(0)}
+        className="stroke-border"
+        strokeWidth={1}
+      />
+
+      {/* Projected balance */}
+      <polyline points={balancePoints} fill="none" className="stroke-primary" strokeWidth={2} />
+      {months.map((month, index) => (
+        <circle
+          key={month.month}
+          cx={x(index)}
+          cy={y(month.closingBalance)}
+          r={4}
+          className={month.closingBalance < 0 ? 'fill-red-500' : 'fill-primary'}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function CashFlowForecast({ chapterSlug }: CashFlowForecastProps) {
+  const [months, setMonths] = useState('6');
+
+  const { data: forecast, isLoading, error } = useQuery<Forecast>({
+    queryKey: ['cash-flow-forecast', chapterSlug, months],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/forecast?months=${months}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch cash-flow forecast');
+      }
+      return res.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Cash-Flow Forecast</CardTitle>
+          <CardDescription>Error loading forecast</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load the cash-flow forecast. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const shortfall = forecast?.months.find((month) => month.month === forecast.shortfallMonth);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Cash-Flow Forecast</CardTitle>
+            <CardDescription>
+              Projected balance from unpaid dues, active budgets and unpaid expenses
+            </CardDescription>
+          </div>
+          <Select value={months} onValueChange={setMonths}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3">3 months</SelectItem>
+              <SelectItem value="6">6 months</SelectItem>
+              <SelectItem value="12">12 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !forecast ? (
+          <Skeleton className="h-[240px] w-full" />
+        ) : (
+          <>
+            {shortfall && (
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  The balance is projected to fall to {formatCurrency(shortfall.closingBalance, forecast.currency)} by
+                  the end of {monthLabel(shortfall.month)}, reaching a low of{' '}
+                  {formatCurrency(forecast.lowestBalance, forecast.currency)}.
+                </p>
+              </div>
+            )}
+
+            <ForecastChart forecast={forecast} />
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full bg-primary" /> Month-end balance
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-green-500/60" /> Expected dues
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-red-500/60" /> Budgets and expenses
+              </span>
+            </div>
+
+            <div className="grid gap-4 grid-cols-3">
+              <div className="bg-muted/50 p-4 rounded-lg">
+                <div className="text-sm font-medium">Current Balance</div>
+                <div className="text-xl font-bold mt-2">
+                  {formatCurrency(forecast.openingBalance, forecast.currency)}
+                </div>
+              </div>
+              <div className="bg-muted/50 p-4 rounded-lg">
+                <div className="text-sm font-medium">Projected Balance</div>
+                <div className="text-xl font-bold mt-2">
+                  {formatCurrency(forecast.months[forecast.months.length - 1].closingBalance, forecast.currency)}
+                </div>
+              </div>
+              <div className="bg-muted/50 p-4 rounded-lg">
+                <div className="text-sm font-medium">Dues Collection Rate</div>
+                <div className="text-xl font-bold mt-2">{Math.round(forecast.collectionRate * 100)}%</div>
+                <div className="text-xs text-muted-foreground">Past 12 months, used to weight unpaid dues</div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
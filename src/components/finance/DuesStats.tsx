@@ -23,6 +23,7 @@ interface DuesPayment {
   paidAt: string | null;
   dueDate: string;
   amount: number;
+  currency: string;
 }
 
 interface DuesStatsData {
@@ -137,7 +138,7 @@ export function DuesStats({ chapterSlug, expanded = false }: DuesStatsProps) {
                         </div>
                         <div className="flex items-center gap-2">
                           <div className={`font-medium ${payment.paidAt ? 'text-green-600' : 'text-amber-600'}`}>
-                            {formatCurrency(payment.amount)}
+                            {formatCurrency(payment.amount, payment.currency)}
                           </div>
                           <div className={`text-xs rounded-full px-2 py-1 ${payment.paidAt ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}>
                             {payment.paidAt ? 'PAID' : 'PENDING'}
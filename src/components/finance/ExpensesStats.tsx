@@ -18,6 +18,7 @@ interface ExpenseItem {
   id: string;
   title: string;
   amount: number;
+  currency: string;
   status: 'PENDING' | 'APPROVED' | 'DENIED' | 'PAID';
   submittedBy: {
     name: string | null;
@@ -147,7 +148,7 @@ export function ExpensesStats({ chapterSlug, expanded = false }: ExpensesStatsPr
                         </div>
                         <div className="flex items-center gap-2">
                           <div className="font-medium">
-                            {formatCurrency(expense.amount)}
+                            {formatCurrency(expense.amount, expense.currency)}
                           </div>
                           <Badge variant="outline" className={statusColors[expense.status]}>
                             {expense.status}
@@ -0,0 +1,41 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+
+interface ExportMenuProps {
+  exportUrl: string; // Export endpoint with the list's current filters applied
+}
+
+export function ExportMenu({ exportUrl }: ExportMenuProps) {
+  const withFormat = (format: 'csv' | 'xlsx') => `${exportUrl}${exportUrl.includes('?') ? '&' : '?'}format=${format}`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a href={withFormat('csv')} download>
+            CSV
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={withFormat('xlsx')} download>
+            Excel (XLSX)
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
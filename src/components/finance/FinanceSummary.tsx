@@ -148,7 +148,11 @@ export function FinanceSummary({ chapterSlug }: FinanceSummaryProps) {
                 <div className="text-xl font-semibold mt-2">
                   {formatCurrency(summary?.unpaidDues?.amount || 0)}
                 </div>
-                <div className="text-sm text-muted-foreground">{summary?.unpaidDues?.count || 0} payments</div>
+                <div className="text-sm text-muted-foreground">
+                  {summary?.unpaidDues?.count || 0} payments
+                  {summary?.unpaidDues?.lateFees > 0 && ` + ${formatCurrency(summary.unpaidDues.lateFees)} late fees`}
+                  {summary?.unpaidDues?.partiallyPaidCount > 0 && ` · ${summary.unpaidDues.partiallyPaidCount} partially paid`}
+                </div>
               </>
             )}
           </div>
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Download, FileText, Lock } from 'lucide-react';
+import { formatCurrency } from "@/lib/utils/format";
+import type { FinancialReport, ReportLine } from '@/lib/finance/reports';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format, parse, startOfYear, subDays } from 'date-fns';
+
+interface FinancialReportsProps {
+  chapterSlug: string;
+}
+
+class ReportAccessError extends Error {}
+
+const toInputDate = (date: Date) => format(date, 'yyyy-MM-dd');
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const formatMonth = (month: string) => format(parse(month, 'yyyy-MM', new Date()), 'MMM yyyy');
+
+// Common reporting periods; semesters follow the calendar year
+function getPresets(today: Date) {
+  const year = today.getFullYear();
+  return [
+    { label: 'Year to date', startDate: startOfYear(today), endDate: today },
+    { label: 'Spring semester', startDate: new Date(year, 0, 1), endDate: new Date(year, 5, 30) },
+    { label: 'Fall semester', startDate: new Date(year, 6, 1), endDate: new Date(year, 11, 31) },
+    { label: 'Last 30 days', startDate: subDays(today, 30), endDate: today },
+  ];
+}
+
+function CategoryRows({ lines, currency, emptyLabel }: { lines: ReportLine[]; currency: string; emptyLabel: string }) {
+  if (lines.length === 0) {
+    return (
+      <TableRow>
+        <TableCell colSpan={2} className="text-muted-foreground">{emptyLabel}</TableCell>
+      </TableRow>
+    );
+  }
+
+  return (
+    <>
+      {lines.map((line) => (
+        <TableRow key={line.category}>
+          <TableCell>{line.category}</TableCell>
+          <TableCell className="text-right">{formatCurrency(line.amount, currency)}</TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+export function FinancialReports({ chapterSlug }: FinancialReportsProps) {
+  const presets = getPresets(new Date());
+  const [startDate, setStartDate] = useState(toInputDate(presets[0].startDate));
+  const [endDate, setEndDate] = useState(toInputDate(presets[0].endDate));
+
+  const query = new URLSearchParams({ startDate, endDate }).toString();
+  const reportUrl = `/api/chapters/${chapterSlug}/finance/reports?${query}`;
+
+  const { data: report, isLoading, error } = useQuery<FinancialReport>({
+    queryKey: ['financialReport', chapterSlug, startDate, endDate],
+    queryFn: async () => {
+      const res = await fetch(reportUrl);
+      if (res.status === 403) {
+        const errorData = await res.json();
+        throw new ReportAccessError(errorData.error);
+      }
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to generate report');
+      }
+      return res.json();
+    },
+    enabled: Boolean(startDate && endDate),
+    retry: (failureCount, error) => !(error instanceof ReportAccessError) && failureCount < 3,
+  });
+
+  if (error instanceof ReportAccessError) {
+    return (
+      <Alert>
+        <Lock className="h-4 w-4" />
+        <AlertTitle>Financial reports are not available</AlertTitle>
+        <AlertDescription>
+          Income statements, cash flow and collection reports are included in the Pro plan. Upgrade your chapter&apos;s plan to use them.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reporting Period</CardTitle>
+          <CardDescription>Choose the dates to report on, then download the report to share it.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <Button
+                key={preset.label}
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setStartDate(toInputDate(preset.startDate));
+                  setEndDate(toInputDate(preset.endDate));
+                }}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="report-start">From</Label>
+              <Input id="report-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-end">To</Label>
+              <Input id="report-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            {report && (
+              <div className="flex gap-2 sm:ml-auto">
+                <Button variant="outline" asChild>
+                  <a href={`${reportUrl}&format=csv`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download CSV
+                  </a>
+                </Button>
+                <Button variant="outline" asChild>
+                  <a href={`${reportUrl}&format=pdf`} target="_blank" rel="noopener noreferrer">
+                    <FileText className="mr-2 h-4 w-4" />
+                    PDF
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="flex items-center justify-center p-4">
+          <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+          <p>{error.message}</p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-[240px] w-full" />
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Income Statement</CardTitle>
+              <CardDescription>Money in and out by category. Transfers are not included.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Income</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <CategoryRows lines={report.incomeStatement.income} currency={report.currency} emptyLabel="No income in this period" />
+                  <TableRow className="font-medium">
+                    <TableCell>Total income</TableCell>
+                    <TableCell className="text-right">{formatCurrency(report.incomeStatement.totalIncome, report.currency)}</TableCell>
+                  </TableRow>
+                </TableBody>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Expenses</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <CategoryRows lines={report.incomeStatement.expenses} currency={report.currency} emptyLabel="No expenses in this period" />
+                  <TableRow className="font-medium">
+                    <TableCell>Total expenses</TableCell>
+                    <TableCell className="text-right">{formatCurrency(report.incomeStatement.totalExpenses, report.currency)}</TableCell>
+                  </TableRow>
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Net income</TableCell>
+                    <TableCell className={`text-right ${report.incomeStatement.netIncome < 0 ? 'text-destructive' : ''}`}>
+                      {formatCurrency(report.incomeStatement.netIncome, report.currency)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Cash Flow by Month</CardTitle>
+              <CardDescription>
+                Opening balance {formatCurrency(report.cashFlow.openingBalance, report.currency)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">In</TableHead>
+                    <TableHead className="text-right">Out</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.cashFlow.months.map((month) => (
+                    <TableRow key={month.month}>
+                      <TableCell>{formatMonth(month.month)}</TableCell>
+                      <TableCell className="text-right text-green-600">{formatCurrency(month.inflow, report.currency)}</TableCell>
+                      <TableCell className="text-right text-red-600">{formatCurrency(month.outflow, report.currency)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(month.closingBalance, report.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Dues Collection</CardTitle>
+              <CardDescription>Dues and late fees falling due in this period</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-baseline justify-between">
+                <span className="text-3xl font-bold">{formatPercent(report.duesCollection.rate)}</span>
+                <span className="text-sm text-muted-foreground">
+                  {report.duesCollection.paidCount} of {report.duesCollection.duesCount} paid in full
+                </span>
+              </div>
+              <Progress value={report.duesCollection.rate * 100} />
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Billed</div>
+                  <div className="font-medium">{formatCurrency(report.duesCollection.billed, report.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Collected</div>
+                  <div className="font-medium">{formatCurrency(report.duesCollection.collected, report.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Outstanding</div>
+                  <div className="font-medium">{formatCurrency(report.duesCollection.outstanding, report.currency)}</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Expense Categories</CardTitle>
+              <CardDescription>Paid expenses by budget line item or budget</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {report.topExpenseCategories.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No expenses were paid in this period.</p>
+              ) : (
+                report.topExpenseCategories.map((line) => (
+                  <div key={line.category} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{line.category}</span>
+                      <span className="font-medium">
+                        {formatCurrency(line.amount, report.currency)} · {formatPercent(line.share)}
+                      </span>
+                    </div>
+                    <Progress value={line.share * 100} />
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
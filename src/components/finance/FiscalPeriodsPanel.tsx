@@ -0,0 +1,439 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Eye, Lock, LockOpen, Plus, Trash2, BookCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { FiscalPeriodStatus, LedgerAccountType } from '@/generated/prisma';
+
+interface FiscalPeriodBalance {
+  id: string;
+  openingBalance: number;
+  closingBalance: number | null;
+  account: {
+    id: string;
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+  };
+}
+
+interface FiscalPeriod {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: FiscalPeriodStatus;
+  lockedAt: string | null;
+  closedAt: string | null;
+  closedBy: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  } | null;
+  balances: FiscalPeriodBalance[];
+}
+
+type PeriodAction = 'lock' | 'unlock' | 'close';
+
+// Form schema
+const fiscalPeriodFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: 'End date must be on or after the start date',
+  path: ['endDate'],
+});
+
+type FormValues = z.infer<typeof fiscalPeriodFormSchema>;
+
+interface FiscalPeriodsPanelProps {
+  chapterSlug: string;
+}
+
+const STATUS_BADGES: Record<FiscalPeriodStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  OPEN: { label: 'Open', variant: 'outline' },
+  LOCKED: { label: 'Locked', variant: 'secondary' },
+  CLOSED: { label: 'Closed', variant: 'default' },
+};
+
+export function FiscalPeriodsPanel({ chapterSlug }: FiscalPeriodsPanelProps) {
+  const [closingPeriod, setClosingPeriod] = useState<FiscalPeriod | null>(null);
+  const [viewingPeriod, setViewingPeriod] = useState<FiscalPeriod | null>(null);
+
+  // Fetch fiscal periods
+  const { data: periods, isLoading, error, refetch } = useQuery<FiscalPeriod[]>({
+    queryKey: ['fiscal-periods', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/fiscal-periods`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch fiscal periods');
+      }
+      return res.json();
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(fiscalPeriodFormSchema),
+    defaultValues: {
+      name: '',
+      startDate: '',
+      endDate: '',
+    },
+  });
+
+  // Create period mutation
+  const createPeriod = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/fiscal-periods`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to create fiscal period');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Fiscal period created');
+      form.reset();
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Lock, unlock or close a period
+  const changeStatus = useMutation({
+    mutationFn: async ({ periodId, action }: { periodId: string; action: PeriodAction }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/fiscal-periods/${periodId}?status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update fiscal period');
+      }
+      return res.json();
+    },
+    onSuccess: (_, { action }) => {
+      toast.success(
+        action === 'close'
+          ? 'Period closed and balances carried forward'
+          : action === 'lock'
+            ? 'Period locked'
+            : 'Period unlocked'
+      );
+      setClosingPeriod(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete period mutation
+  const deletePeriod = useMutation({
+    mutationFn: async (periodId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/fiscal-periods/${periodId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete fiscal period');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Fiscal period deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fiscal Periods</CardTitle>
+        <CardDescription>
+          Lock a semester or officer term to stop changes to its transactions, expenses and dues. Closing it
+          is final and carries the account balances forward to the next period.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load fiscal periods. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : periods?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No fiscal periods yet. Add one for each semester or officer term.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods?.map((period) => (
+                  <TableRow key={period.id}>
+                    <TableCell>
+                      <div className="font-medium">{period.name}</div>
+                      {period.closedAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Closed {formatDate(period.closedAt)}
+                          {period.closedBy && ` by ${period.closedBy.name ?? period.closedBy.email}`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(period.startDate)} – {formatDate(period.endDate)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGES[period.status].variant}>
+                        {STATUS_BADGES[period.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {period.balances.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="View Balances"
+                            onClick={() => setViewingPeriod(period)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {period.status === FiscalPeriodStatus.OPEN && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Lock Period"
+                            disabled={changeStatus.isPending}
+                            onClick={() => changeStatus.mutate({ periodId: period.id, action: 'lock' })}
+                          >
+                            <Lock className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {period.status === FiscalPeriodStatus.LOCKED && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Unlock Period"
+                            disabled={changeStatus.isPending}
+                            onClick={() => changeStatus.mutate({ periodId: period.id, action: 'unlock' })}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {period.status !== FiscalPeriodStatus.CLOSED && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Close Period"
+                            onClick={() => setClosingPeriod(period)}
+                          >
+                            <BookCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {period.status === FiscalPeriodStatus.OPEN && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete Period"
+                            disabled={deletePeriod.isPending}
+                            onClick={() => deletePeriod.mutate(period.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createPeriod.mutate(data))}
+            className="space-y-4 border-t pt-6"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Fall 2026" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" disabled={createPeriod.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Period
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+
+      <Dialog open={!!closingPeriod} onOpenChange={(open) => !open && setClosingPeriod(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close {closingPeriod?.name}?</DialogTitle>
+            <DialogDescription>
+              Transactions, expenses and dues in this period can no longer be changed or deleted, and it cannot
+              be reopened. Account balances at the end of the period become the opening balances of the next one.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClosingPeriod(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={changeStatus.isPending}
+              onClick={() => closingPeriod && changeStatus.mutate({ periodId: closingPeriod.id, action: 'close' })}
+            >
+              Close Period
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!viewingPeriod} onOpenChange={(open) => !open && setViewingPeriod(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{viewingPeriod?.name} Balances</DialogTitle>
+            <DialogDescription>
+              Opening balances are carried forward from the previous period; closing balances are recorded when
+              the period is closed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Opening</TableHead>
+                  <TableHead className="text-right">Closing</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewingPeriod?.balances.map((balance) => (
+                  <TableRow key={balance.id}>
+                    <TableCell>
+                      <span className="text-muted-foreground mr-2">{balance.account.code}</span>
+                      {balance.account.name}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(balance.openingBalance)}</TableCell>
+                    <TableCell className="text-right">
+                      {balance.closingBalance === null ? '—' : formatCurrency(balance.closingBalance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { Fragment } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle } from 'lucide-react';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface JournalEntriesProps {
+  chapterSlug: string;
+  limit?: number;
+}
+
+interface JournalEntry {
+  id: string;
+  date: string;
+  description: string;
+  currency: string;
+  transaction: {
+    id: string;
+    type: string;
+  } | null;
+  lines: {
+    id: string;
+    debit: number;
+    credit: number;
+    memo: string | null;
+    account: {
+      id: string;
+      code: string;
+      name: string;
+    };
+  }[];
+}
+
+export function JournalEntries({ chapterSlug, limit = 25 }: JournalEntriesProps) {
+  const { data: entries, isLoading, error } = useQuery<JournalEntry[]>({
+    queryKey: ['journalEntries', chapterSlug, limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/ledger/entries?limit=${limit}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch journal entries');
+      }
+      return res.json();
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>General Journal</CardTitle>
+          <CardDescription>Error loading journal entries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load journal entries. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>General Journal</CardTitle>
+        <CardDescription>Debits and credits posted for each transaction</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <Skeleton key={index} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : entries?.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No journal entries found.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries?.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow className="bg-muted/50">
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell colSpan={3}>
+                      <span className="font-medium">{entry.description}</span>
+                      {entry.transaction && (
+                        <Badge variant="outline" className="ml-2">
+                          {entry.transaction.type.replace('_', ' ')}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {entry.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell />
+                      <TableCell className={line.credit > 0 ? 'pl-8' : ''}>
+                        {line.account.code} · {line.account.name}
+                        {line.memo && (
+                          <span className="text-xs text-muted-foreground ml-2">{line.memo}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.debit > 0 ? formatCurrency(line.debit, entry.currency) : ''}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.credit > 0 ? formatCurrency(line.credit, entry.currency) : ''}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
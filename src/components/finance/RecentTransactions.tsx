@@ -8,6 +8,7 @@ import { AlertCircle, ChevronRight, ChevronDown, ChevronUp } from 'lucide-react'
 import { formatCurrency, formatDate } from "@/lib/utils/format";
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
+import { ExportMenu } from '@/components/finance/ExportMenu';
 import { Transaction, TransactionType } from '@/generated/prisma';
 
 interface RecentTransactionsProps {
@@ -21,6 +22,7 @@ const transactionTypeColors: Record<TransactionType, string> = {
   INCOME: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
   TRANSFER: 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100',
   REFUND: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100',
+  LATE_FEE: 'bg-orange-100 text-orange-800 dark:bg-orange-800 dark:text-orange-100',
   OTHER: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100',
 };
 
@@ -30,6 +32,7 @@ const transactionTypeIcons: Record<TransactionType, React.ReactNode> = {
   INCOME: <ChevronUp className="h-4 w-4 text-green-600" />,
   TRANSFER: <ChevronRight className="h-4 w-4 text-blue-600" />,
   REFUND: <ChevronUp className="h-4 w-4 text-yellow-600" />,
+  LATE_FEE: <ChevronUp className="h-4 w-4 text-orange-600" />,
   OTHER: <ChevronRight className="h-4 w-4 text-gray-600" />,
 };
 
@@ -69,12 +72,15 @@ export function RecentTransactions({ chapterSlug, limit = 5 }: RecentTransaction
           <CardTitle>Recent Transactions</CardTitle>
           <CardDescription>Latest financial activity</CardDescription>
         </div>
-        <Link href={`/${chapterSlug}/admin/finance/transactions`}>
-          <Button variant="ghost" size="sm">
-            View All
-            <ChevronRight className="ml-1 h-4 w-4" />
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <ExportMenu exportUrl={`/api/chapters/${chapterSlug}/finance/transactions/export`} />
+          <Link href={`/${chapterSlug}/admin/finance/transactions`}>
+            <Button variant="ghost" size="sm">
+              View All
+              <ChevronRight className="ml-1 h-4 w-4" />
+            </Button>
+          </Link>
+        </div>
       </CardHeader>
       <CardContent>
         {isLoading ? (
@@ -110,7 +116,7 @@ export function RecentTransactions({ chapterSlug, limit = 5 }: RecentTransaction
                 </div>
                 <div className="flex items-center gap-2">
                   <div className={`font-medium ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(transaction.amount)}
+                    {formatCurrency(transaction.amount, transaction.currency)}
                   </div>
                   <Badge variant="outline" className={transactionTypeColors[transaction.type as TransactionType]}>
                     {transaction.type.replace('_', ' ')}
@@ -145,6 +151,8 @@ function getTransactionDescription(transaction: Transaction): string {
       return 'Refund processed';
     case TransactionType.INCOME:
       return 'Income received';
+    case TransactionType.LATE_FEE:
+      return 'Late fee collected';
     case TransactionType.OTHER:
       return 'Other transaction';
     default:
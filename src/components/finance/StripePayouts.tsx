@@ -0,0 +1,188 @@
+'use client';
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, ExternalLink } from 'lucide-react';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import type { StripeConnectStatus } from '@/lib/finance/stripe-connect';
+import { toast } from 'sonner';
+
+interface StripePayoutsProps {
+  chapterSlug: string;
+}
+
+interface StripeAmount {
+  amount: number;
+  currency: string;
+}
+
+interface StripeAccount {
+  status: StripeConnectStatus;
+  requirementsDue: string[];
+  balance: {
+    available: StripeAmount[];
+    pending: StripeAmount[];
+  } | null;
+  payouts: {
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+    arrivalDate: string;
+  }[];
+}
+
+const statusLabels: Record<StripeConnectStatus, string> = {
+  NOT_CONNECTED: 'Not connected',
+  ONBOARDING: 'Setup incomplete',
+  RESTRICTED: 'Action needed',
+  ACTIVE: 'Active',
+};
+
+const statusDescriptions: Record<StripeConnectStatus, string> = {
+  NOT_CONNECTED: 'Connect a Stripe account so online dues payments are paid out to the chapter’s bank account. Until then they are collected by GreekDash.',
+  ONBOARDING: 'Finish setting up Stripe so online dues payments are paid out to the chapter’s bank account. Until then they are collected by GreekDash.',
+  RESTRICTED: 'Stripe needs more information before it can take payments or send payouts. Until then online dues payments are collected by GreekDash.',
+  ACTIVE: 'Online dues payments are paid out to the chapter’s bank account.',
+};
+
+const sumAmounts = (amounts: StripeAmount[]) => amounts.reduce((sum, { amount }) => sum + amount, 0);
+
+export function StripePayouts({ chapterSlug }: StripePayoutsProps) {
+  const { data: account, isLoading, error } = useQuery<StripeAccount>({
+    queryKey: ['stripeConnect', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/stripe-connect`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch Stripe account');
+      }
+      return res.json();
+    },
+  });
+
+  // Both links are single-use, so they are fetched on click and opened straight away
+  const linkMutation = useMutation({
+    mutationFn: async (destination: 'onboarding' | 'dashboard') => {
+      const query = destination === 'dashboard' ? '?dashboard' : '';
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/stripe-connect${query}`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to open Stripe');
+      }
+      return res.json() as Promise<{ url: string }>;
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Payouts</CardTitle>
+          <CardDescription>Error loading Stripe account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load payout details. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currency = account?.balance?.available[0]?.currency;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle>Payouts</CardTitle>
+          <CardDescription>Online dues payments through Stripe</CardDescription>
+        </div>
+        {account && (
+          <Badge variant={account.status === 'ACTIVE' ? 'default' : account.status === 'NOT_CONNECTED' ? 'outline' : 'destructive'}>
+            {statusLabels[account.status]}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || !account ? (
+          <div className="space-y-3">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-8 w-[160px]" />
+            <Skeleton className="h-4 w-[200px]" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{statusDescriptions[account.status]}</p>
+
+            {account.status === 'RESTRICTED' && account.requirementsDue.length > 0 && (
+              <p className="text-sm">
+                {account.requirementsDue.length} item{account.requirementsDue.length === 1 ? '' : 's'} due in Stripe
+              </p>
+            )}
+
+            {account.balance && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-sm text-muted-foreground">Available</div>
+                  <div className="text-2xl font-bold">{formatCurrency(sumAmounts(account.balance.available), currency)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-muted-foreground">Pending</div>
+                  <div className="text-2xl font-bold">{formatCurrency(sumAmounts(account.balance.pending), currency)}</div>
+                </div>
+              </div>
+            )}
+
+            {account.payouts.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">Recent payouts</div>
+                {account.payouts.map((payout) => (
+                  <div key={payout.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <div>{formatDate(payout.arrivalDate)}</div>
+                      <div className="text-xs capitalize text-muted-foreground">{payout.status.replace('_', ' ')}</div>
+                    </div>
+                    <div className="font-medium">{formatCurrency(payout.amount, payout.currency)}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {account.status === 'ACTIVE' || account.status === 'RESTRICTED' ? (
+              <div className="flex gap-2">
+                {account.status === 'RESTRICTED' && (
+                  <Button size="sm" onClick={() => linkMutation.mutate('onboarding')} disabled={linkMutation.isPending}>
+                    Update Details
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => linkMutation.mutate('dashboard')} disabled={linkMutation.isPending}>
+                  <ExternalLink className="mr-1 h-4 w-4" />
+                  Stripe Dashboard
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" onClick={() => linkMutation.mutate('onboarding')} disabled={linkMutation.isPending}>
+                {linkMutation.isPending
+                  ? 'Opening Stripe...'
+                  : account.status === 'ONBOARDING' ? 'Continue Setup' : 'Connect Stripe'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { formatCurrency } from "@/lib/utils/format";
+import { toMinorUnits } from '@/lib/finance/money';
+import type { BudgetUsage } from '@/lib/finance/budget-usage';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+
+interface BudgetLineItem {
+  id: string;
+  name: string;
+  description: string | null;
+  amount: number;
+  usage: BudgetUsage;
+}
+
+interface BudgetDetails {
+  id: string;
+  name: string;
+  amount: number;
+  currency: string;
+  usage: BudgetUsage;
+  unassignedUsage: BudgetUsage;
+  lineItems: BudgetLineItem[];
+}
+
+interface BudgetDetailProps {
+  chapterSlug: string;
+  budgetId: string;
+  onChange?: () => void;
+}
+
+// Bar for spent plus committed against the allocation, red once it is exceeded
+function UsageBar({ usage }: { usage: BudgetUsage }) {
+  const used = usage.spent + usage.committed;
+  const percent = usage.allocated > 0 ? Math.min((used / usage.allocated) * 100, 100) : used > 0 ? 100 : 0;
+
+  return (
+    <Progress
+      value={percent}
+      className={usage.isOverBudget ? '[&>div]:bg-destructive' : undefined}
+    />
+  );
+}
+
+export function BudgetDetail({ chapterSlug, budgetId, onChange }: BudgetDetailProps) {
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+
+  const { data: budget, isLoading, error, refetch } = useQuery<BudgetDetails>({
+    queryKey: ['budget', chapterSlug, budgetId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/budgets/${budgetId}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch budget');
+      }
+      return res.json();
+    },
+  });
+
+  const createLineItem = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/budget-line-items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ budgetId, name, amount: toMinorUnits(Number(amount)) }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to add line item');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Line item added');
+      setName('');
+      setAmount('');
+      refetch();
+      onChange?.();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const deleteLineItem = useMutation({
+    mutationFn: async (lineItemId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/budget-line-items/${lineItemId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete line item');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Line item deleted');
+      refetch();
+      onChange?.();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+        <p>Failed to load budget. Please try again later.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !budget) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const overBudgetItems = budget.lineItems.filter((item) => item.usage.isOverBudget);
+  const allocatedToLineItems = budget.lineItems.reduce((sum, item) => sum + item.amount, 0);
+  const rows = [
+    ...budget.lineItems,
+    // Expenses without a line item draw on whatever the line items leave over
+    ...(budget.unassignedUsage.spent + budget.unassignedUsage.committed + budget.unassignedUsage.pending > 0 ||
+    budget.lineItems.length === 0
+      ? [{ id: 'unassigned', name: budget.lineItems.length ? 'Unassigned' : 'Whole budget', description: null, amount: budget.unassignedUsage.allocated, usage: budget.unassignedUsage }]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      {(budget.usage.isOverBudget || overBudgetItems.length > 0) && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Over budget</AlertTitle>
+          <AlertDescription>
+            {budget.usage.isOverBudget
+              ? `Spent and committed expenses exceed this budget by ${formatCurrency(-budget.usage.remaining, budget.currency)}.`
+              : `Over allocation on ${overBudgetItems.map((item) => item.name).join(', ')}.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground">Allocated</div>
+          <div className="font-medium">{formatCurrency(budget.usage.allocated, budget.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Spent</div>
+          <div className="font-medium">{formatCurrency(budget.usage.spent, budget.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Committed</div>
+          <div className="font-medium">{formatCurrency(budget.usage.committed, budget.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Remaining</div>
+          <div className={`font-medium ${budget.usage.isOverBudget ? 'text-destructive' : ''}`}>
+            {formatCurrency(budget.usage.remaining, budget.currency)}
+          </div>
+        </div>
+      </div>
+      <UsageBar usage={budget.usage} />
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Line Item</TableHead>
+              <TableHead className="text-right">Allocated</TableHead>
+              <TableHead className="text-right">Spent</TableHead>
+              <TableHead className="text-right">Committed</TableHead>
+              <TableHead className="min-w-[120px]">Used</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium flex items-center gap-1">
+                    {item.name}
+                    {item.usage.isOverBudget && <AlertTriangle className="h-4 w-4 text-destructive" />}
+                  </div>
+                  {item.usage.pending > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatCurrency(item.usage.pending, budget.currency)} awaiting approval
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(item.amount, budget.currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.usage.spent, budget.currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(item.usage.committed, budget.currency)}</TableCell>
+                <TableCell>
+                  <UsageBar usage={item.usage} />
+                </TableCell>
+                <TableCell className="text-right">
+                  {item.id !== 'unassigned' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete Line Item"
+                      disabled={deleteLineItem.isPending}
+                      onClick={() => deleteLineItem.mutate(item.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <form
+        className="flex flex-col gap-2 sm:flex-row sm:items-end border-t pt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createLineItem.mutate();
+        }}
+      >
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="line-item-name">Line item</Label>
+          <Input id="line-item-name" placeholder="Food" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="space-y-2 sm:w-40">
+          <Label htmlFor="line-item-amount">Amount ($)</Label>
+          <Input
+            id="line-item-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={!name || !Number(amount) || createLineItem.isPending}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </form>
+      <p className="text-xs text-muted-foreground">
+        {formatCurrency(budget.amount - allocatedToLineItems, budget.currency)} of the budget is not allocated to a line item.
+      </p>
+    </div>
+  );
+}
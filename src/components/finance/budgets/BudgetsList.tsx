@@ -6,9 +6,12 @@ import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Pencil, Trash2, Eye, Filter } from 'lucide-react';
+import { AlertCircle, AlertTriangle, Pencil, Trash2, Eye, Filter } from 'lucide-react';
 import { formatCurrency } from "@/lib/utils/format";
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { BudgetDetail } from '@/components/finance/budgets/BudgetDetail';
+import type { BudgetUsage } from '@/lib/finance/budget-usage';
 import {
   Table,
   TableBody,
@@ -33,7 +36,9 @@ interface Budget {
   startDate: string | Date;
   endDate: string | Date;
   amount: number;
+  currency: string;
   status: BudgetStatus;
+  usage: BudgetUsage;
 }
 import {
   Dialog,
@@ -44,6 +49,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { ExportMenu } from '@/components/finance/ExportMenu';
 
 interface BudgetsListProps {
   chapterSlug: string;
@@ -58,6 +64,7 @@ const statusColors: Record<BudgetStatus, string> = {
 
 export function BudgetsList({ chapterSlug }: BudgetsListProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [detailBudgetId, setDetailBudgetId] = useState<string | null>(null);
   const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<BudgetStatus | 'ALL'>('ALL');
 
@@ -126,33 +133,38 @@ export function BudgetsList({ chapterSlug }: BudgetsListProps) {
         <CardContent className="p-0 sm:p-6">
           <div className="flex justify-between items-center mb-4 p-4 sm:p-0">
             <h3 className="text-lg font-medium">Budget Plans</h3>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm">
-                  <Filter className="h-4 w-4 mr-2" />
-                  {statusFilter === 'ALL' ? 'All Statuses' : statusFilter}
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => setStatusFilter('ALL')}>
-                  All Statuses
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('PLANNING')}>
-                  Planning
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('ACTIVE')}>
-                  Active
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('COMPLETED')}>
-                  Completed
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('ARCHIVED')}>
-                  Archived
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Filter className="h-4 w-4 mr-2" />
+                    {statusFilter === 'ALL' ? 'All Statuses' : statusFilter}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setStatusFilter('ALL')}>
+                    All Statuses
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('PLANNING')}>
+                    Planning
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('ACTIVE')}>
+                    Active
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('COMPLETED')}>
+                    Completed
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('ARCHIVED')}>
+                    Archived
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <ExportMenu
+                exportUrl={statusFilter === 'ALL' ? `/api/chapters/${chapterSlug}/finance/budgets/export` : `/api/chapters/${chapterSlug}/finance/budgets/export?status=${statusFilter}`}
+              />
+            </div>
           </div>
           
           {isLoading ? (
@@ -182,7 +194,8 @@ export function BudgetsList({ chapterSlug }: BudgetsListProps) {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Period</TableHead>
-                    <TableHead>Amount</TableHead>
+                    <TableHead>Allocated</TableHead>
+                    <TableHead>Spent / Committed</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -194,7 +207,17 @@ export function BudgetsList({ chapterSlug }: BudgetsListProps) {
                       <TableCell>
                         {new Date(budget.startDate).toLocaleDateString()} - {new Date(budget.endDate).toLocaleDateString()}
                       </TableCell>
-                      <TableCell>{formatCurrency(budget.amount)}</TableCell>
+                      <TableCell>{formatCurrency(budget.amount, budget.currency)}</TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Progress
+                          value={budget.amount > 0 ? Math.min(((budget.usage.spent + budget.usage.committed) / budget.amount) * 100, 100) : 0}
+                          className={budget.usage.isOverBudget ? '[&>div]:bg-destructive' : undefined}
+                        />
+                        <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          {budget.usage.isOverBudget && <AlertTriangle className="h-3 w-3 text-destructive" />}
+                          {formatCurrency(budget.usage.spent, budget.currency)} spent · {formatCurrency(budget.usage.committed, budget.currency)} committed
+                        </div>
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={statusColors[budget.status]}>
                           {budget.status}
@@ -202,11 +225,14 @@ export function BudgetsList({ chapterSlug }: BudgetsListProps) {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Link href={`/${chapterSlug}/admin/finance/budgets/${budget.id}`}>
-                            <Button variant="ghost" size="icon" title="View Details">
-                              <Eye className="h-4 w-4" />
-                            </Button>
-                          </Link>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="View Details"
+                            onClick={() => setDetailBudgetId(budget.id)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
                           <Link href={`/${chapterSlug}/admin/finance/budgets/${budget.id}/edit`}>
                             <Button variant="ghost" size="icon" title="Edit Budget">
                               <Pencil className="h-4 w-4" />
@@ -234,6 +260,23 @@ export function BudgetsList({ chapterSlug }: BudgetsListProps) {
         </CardContent>
       </Card>
 
+      {/* Budget Detail Dialog */}
+      <Dialog open={!!detailBudgetId} onOpenChange={(open) => !open && setDetailBudgetId(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {budgets?.find((budget: Budget) => budget.id === detailBudgetId)?.name || 'Budget'}
+            </DialogTitle>
+            <DialogDescription>
+              Allocated vs. spent vs. committed (approved but not yet paid), by line item.
+            </DialogDescription>
+          </DialogHeader>
+          {detailBudgetId && (
+            <BudgetDetail chapterSlug={chapterSlug} budgetId={detailBudgetId} onChange={refetch} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
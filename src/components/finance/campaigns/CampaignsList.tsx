@@ -0,0 +1,473 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format, parse } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, ExternalLink, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/money';
+import { CampaignProgress } from '@/lib/finance/campaigns';
+import { CampaignStatus } from '@/generated/prisma';
+
+interface Campaign {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  goalAmount: number;
+  currency: string;
+  status: CampaignStatus;
+  endDate: string | null;
+  donationCount: number;
+  progress: CampaignProgress;
+}
+
+interface CampaignDetail extends Campaign {
+  donations: {
+    id: string;
+    amount: number;
+    donorName: string;
+    donorEmail: string | null;
+    message: string | null;
+    isAnonymous: boolean;
+    donatedAt: string;
+  }[];
+}
+
+interface CampaignsListProps {
+  chapterSlug: string;
+}
+
+interface CampaignForm {
+  title: string;
+  slug: string;
+  description: string;
+  goalAmount: string; // Whole currency units as typed
+  status: CampaignStatus;
+  endDate: string;
+}
+
+const emptyForm: CampaignForm = {
+  title: '',
+  slug: '',
+  description: '',
+  goalAmount: '',
+  status: CampaignStatus.DRAFT,
+  endDate: '',
+};
+
+const statusColors: Record<CampaignStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100',
+  ACTIVE: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
+  ENDED: 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100',
+};
+
+export function CampaignsList({ chapterSlug }: CampaignsListProps) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [form, setForm] = useState<CampaignForm>(emptyForm);
+  const [donorsCampaignId, setDonorsCampaignId] = useState<string | null>(null);
+
+  const { data: campaigns, isLoading, error, refetch } = useQuery<Campaign[]>({
+    queryKey: ['campaigns', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/campaigns`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch campaigns');
+      }
+      return res.json();
+    },
+  });
+
+  // Donations, with donor emails, for the campaign whose donors are open
+  const { data: donorsCampaign, isLoading: isLoadingDonors } = useQuery<CampaignDetail>({
+    queryKey: ['campaign', chapterSlug, donorsCampaignId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/campaigns/${donorsCampaignId}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch donations');
+      }
+      return res.json();
+    },
+    enabled: !!donorsCampaignId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: {
+      title: string;
+      slug?: string;
+      description: string | null;
+      goalAmount: number;
+      status: CampaignStatus;
+      endDate: Date | null;
+    }) => {
+      const res = await fetch(
+        editingCampaign
+          ? `/api/chapters/${chapterSlug}/finance/campaigns/${editingCampaign.id}`
+          : `/api/chapters/${chapterSlug}/finance/campaigns`,
+        {
+          method: editingCampaign ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to save campaign');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(editingCampaign ? 'Campaign updated' : 'Campaign created');
+      setFormOpen(false);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (campaignId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/campaigns/${campaignId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete campaign');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Campaign deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const openCreateDialog = () => {
+    setEditingCampaign(null);
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEditDialog = (campaign: Campaign) => {
+    setEditingCampaign(campaign);
+    setForm({
+      title: campaign.title,
+      slug: campaign.slug,
+      description: campaign.description ?? '',
+      goalAmount: String(fromMinorUnits(campaign.goalAmount, campaign.currency)),
+      status: campaign.status,
+      endDate: campaign.endDate ? format(new Date(campaign.endDate), 'yyyy-MM-dd') : '',
+    });
+    setFormOpen(true);
+  };
+
+  const saveCampaign = () => {
+    saveMutation.mutate({
+      title: form.title,
+      slug: form.slug || undefined, // Worked out from the title when left blank
+      description: form.description || null,
+      goalAmount: toMinorUnits(Number(form.goalAmount), editingCampaign?.currency),
+      status: form.status,
+      endDate: form.endDate ? parse(form.endDate, 'yyyy-MM-dd', new Date()) : null,
+    });
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Error loading campaigns</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load campaigns. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Campaigns</CardTitle>
+            <CardDescription>Active campaigns are listed on your public chapter page.</CardDescription>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Campaign
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !campaigns ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : campaigns.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No campaigns yet. Create one to start taking donations.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[240px]">Progress</TableHead>
+                    <TableHead>Donations</TableHead>
+                    <TableHead>Ends</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaigns.map((campaign) => (
+                    <TableRow key={campaign.id}>
+                      <TableCell className="font-medium">{campaign.title}</TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[campaign.status]}>{campaign.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <Progress value={campaign.progress.percent} className="h-2" />
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(campaign.progress.raised, campaign.currency)} of{' '}
+                            {formatCurrency(campaign.progress.goal, campaign.currency)}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{campaign.donationCount}</TableCell>
+                      <TableCell>{campaign.endDate ? formatDate(campaign.endDate) : '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {campaign.status !== CampaignStatus.DRAFT && (
+                            <Button variant="ghost" size="icon" title="Open Donation Page" asChild>
+                              <Link href={`/${chapterSlug}/donate/${campaign.slug}`} target="_blank">
+                                <ExternalLink className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="View Donors"
+                            onClick={() => setDonorsCampaignId(campaign.id)}
+                          >
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditDialog(campaign)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {campaign.donationCount === 0 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Delete"
+                              disabled={deleteMutation.isPending}
+                              onClick={() => deleteMutation.mutate(campaign.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCampaign ? 'Edit Campaign' : 'New Campaign'}</DialogTitle>
+            <DialogDescription>
+              Donations are paid into your chapter&apos;s Stripe account and recorded as income for the campaign.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-title">Title</Label>
+              <Input
+                id="campaign-title"
+                placeholder="Spring Philanthropy Drive"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-slug">Page link</Label>
+              <Input
+                id="campaign-slug"
+                placeholder="Made from the title if left blank"
+                value={form.slug}
+                onChange={(e) => setForm({ ...form, slug: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                /{chapterSlug}/donate/{form.slug || '…'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-description">Description</Label>
+              <Textarea
+                id="campaign-description"
+                placeholder="What the money is for"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-goal">Goal</Label>
+                <Input
+                  id="campaign-goal"
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  value={form.goalAmount}
+                  onChange={(e) => setForm({ ...form, goalAmount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-end-date">End date</Label>
+                <Input
+                  id="campaign-end-date"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={form.status}
+                onValueChange={(value) => setForm({ ...form, status: value as CampaignStatus })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CampaignStatus.DRAFT}>Draft (not public)</SelectItem>
+                  <SelectItem value={CampaignStatus.ACTIVE}>Active (taking donations)</SelectItem>
+                  <SelectItem value={CampaignStatus.ENDED}>Ended</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={saveCampaign}
+              disabled={saveMutation.isPending || !form.title || !(Number(form.goalAmount) > 0)}
+            >
+              {saveMutation.isPending ? 'Saving...' : editingCampaign ? 'Save Changes' : 'Create Campaign'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Donors Dialog */}
+      <Dialog open={!!donorsCampaignId} onOpenChange={(open) => !open && setDonorsCampaignId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{donorsCampaign?.title ?? 'Donors'}</DialogTitle>
+            <DialogDescription>
+              Anonymous donors are only named here, never on the public page.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingDonors || !donorsCampaign ? (
+            <Skeleton className="h-24 w-full" />
+          ) : donorsCampaign.donations.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No donations yet.</p>
+          ) : (
+            <div className="max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Donor</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {donorsCampaign.donations.map((donation) => (
+                    <TableRow key={donation.id}>
+                      <TableCell>{formatDate(donation.donatedAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {donation.donorName}
+                          {donation.isAnonymous && <Badge variant="outline">Anonymous</Badge>}
+                        </div>
+                        {donation.donorEmail && (
+                          <div className="text-xs text-muted-foreground">{donation.donorEmail}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={donation.message ?? undefined}>
+                        {donation.message || '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(donation.amount, donorsCampaign.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
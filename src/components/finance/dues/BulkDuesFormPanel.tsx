@@ -22,6 +22,8 @@ import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
+import { toMinorUnits } from '@/lib/finance/money';
+import { formatCurrency } from '@/lib/utils/format';
 import {
   Popover,
   PopoverContent,
@@ -29,13 +31,19 @@ import {
 } from '@/components/ui/popover';
 
 // Form schema
-const bulkDuesSchema = z.object({
-  amount: z.coerce.number().positive('Amount must be positive'),
-  dueDate: z.date({
-    required_error: 'Due date is required',
-  }),
-  memberIds: z.array(z.string()).nonempty('Select at least one member'),
-});
+const bulkDuesSchema = z
+  .object({
+    amount: z.coerce.number().min(0, 'Amount must be positive'),
+    dueDate: z.date({
+      required_error: 'Due date is required',
+    }),
+    memberIds: z.array(z.string()).nonempty('Select at least one member'),
+    useCategoryAmounts: z.boolean(),
+  })
+  .refine((data) => data.useCategoryAmounts || data.amount > 0, {
+    message: 'Amount must be positive',
+    path: ['amount'],
+  });
 
 type FormValues = z.infer<typeof bulkDuesSchema>;
 
@@ -53,9 +61,17 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
       image?: string;
     };
     role?: string;
+    duesCategoryId?: string | null;
     // Add other member properties as needed
   }
 
+  interface DuesCategory {
+    id: string;
+    name: string;
+    defaultAmount: number;
+    currency: string;
+  }
+
   // Fetch chapter members
   const { data: members, isLoading: loadingMembers } = useQuery<ChapterMember[]>({
     queryKey: ['chapter-members', chapterSlug],
@@ -64,6 +80,19 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
       if (!res.ok) {
         throw new Error('Failed to fetch chapter members');
       }
+      const data = await res.json();
+      return data.members;
+    },
+  });
+
+  // Fetch dues categories so each member's default amount can be shown
+  const { data: categories } = useQuery<DuesCategory[]>({
+    queryKey: ['dues-categories', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-categories`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch dues categories');
+      }
       return res.json();
     },
   });
@@ -74,26 +103,31 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
     defaultValues: {
       amount: 0,
       memberIds: [] as unknown as [string, ...string[]], // Type cast for initialization
+      useCategoryAmounts: false,
     },
   });
 
+  const useCategoryAmounts = form.watch('useCategoryAmounts');
+
   // Create bulk dues mutation
   const createBulkDues = useMutation({
     mutationFn: async (data: FormValues) => {
-      const res = await fetch('/api/finance/dues', {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           ...data,
+          // The API expects cents; with category amounts it only covers members without a category
+          amount: data.amount > 0 ? toMinorUnits(data.amount) : undefined,
           memberIds: data.memberIds,
         }),
       });
       
       if (!res.ok) {
         const errorData = await res.json();
-        throw new Error(errorData.error || 'Failed to create dues payments');
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to create dues payments');
       }
       
       return res.json();
@@ -133,6 +167,9 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
     }
   };
 
+  const getMemberCategory = (member: ChapterMember) =>
+    categories?.find((category) => category.id === member.duesCategoryId);
+
   // Helper to get user initials for avatar
   const getInitials = (name: string) => {
     return name
@@ -159,7 +196,7 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Amount ($)</FormLabel>
+                    <FormLabel>{useCategoryAmounts ? 'Amount for members without a category ($)' : 'Amount ($)'}</FormLabel>
                     <FormControl>
                       <Input
                         placeholder="0.00"
@@ -217,6 +254,28 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
               />
             </div>
             
+            <FormField
+              control={form.control}
+              name="useCategoryAmounts"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Use each member&apos;s dues category amount</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      Members are charged their category&apos;s default amount. The amount above is only
+                      charged to members without a category.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <div className="space-y-4">
               <div className="flex justify-between items-center">
                 <FormLabel className="text-base">Select Members</FormLabel>
@@ -252,6 +311,7 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
                               control={form.control}
                               name="memberIds"
                               render={({ field }) => {
+                                const category = getMemberCategory(member);
                                 return (
                                   <FormItem
                                     key={member.userId}
@@ -279,6 +339,11 @@ export function BulkDuesFormPanel({ chapterSlug }: BulkDuesFormPanelProps) {
                                       <div>
                                         <div className="font-medium">{member.user.name}</div>
                                         <div className="text-sm text-muted-foreground">{member.user.email}</div>
+                                        {category && (
+                                          <div className="text-xs text-muted-foreground">
+                                            {category.name} &middot; {formatCurrency(category.defaultAmount, category.currency)}
+                                          </div>
+                                        )}
                                       </div>
                                     </div>
                                   </FormItem>
@@ -0,0 +1,280 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { DUES_ADJUSTMENT_TYPE_LABELS } from '@/lib/finance/dues-adjustments';
+import { DuesAdjustmentStatus, DuesAdjustmentType } from '@/generated/prisma';
+
+interface DuesAdjustment {
+  id: string;
+  type: DuesAdjustmentType;
+  amount: number;
+  reason: string;
+  status: DuesAdjustmentStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  duesPayment: {
+    id: string;
+    amount: number;
+    amountPaid: number;
+    currency: string;
+    dueDate: string;
+    paidAt: string | null;
+    user: {
+      id: string;
+      name: string | null;
+      email: string;
+    };
+  };
+  requestedBy: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+interface DuesAdjustmentsListProps {
+  chapterSlug: string;
+}
+
+const statusColors: Record<DuesAdjustmentStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100',
+  APPROVED: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
+  DENIED: 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100',
+};
+
+// Who the adjustment is for, e.g. "Hardship waiver of $50.00 for Jordan"
+function describeAdjustment(adjustment: DuesAdjustment) {
+  const member = adjustment.duesPayment.user.name || adjustment.duesPayment.user.email;
+  return `${DUES_ADJUSTMENT_TYPE_LABELS[adjustment.type]} of ${formatCurrency(adjustment.amount, adjustment.duesPayment.currency)} for ${member}`;
+}
+
+export function DuesAdjustmentsList({ chapterSlug }: DuesAdjustmentsListProps) {
+  const [reviewAdjustment, setReviewAdjustment] = useState<{ adjustment: DuesAdjustment; status: 'APPROVED' | 'DENIED' } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+
+  // Fetch waivers, scholarships and discounts
+  const { data: adjustments, isLoading, error, refetch } = useQuery<DuesAdjustment[]>({
+    queryKey: ['dues-adjustments', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-adjustments`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch dues adjustments');
+      }
+      return res.json();
+    },
+  });
+
+  // Approve or deny a request
+  const reviewMutation = useMutation({
+    mutationFn: async ({ adjustmentId, status, note }: { adjustmentId: string; status: 'APPROVED' | 'DENIED'; note: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-adjustments/${adjustmentId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, reviewNote: note || undefined }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to review adjustment');
+      }
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(variables.status === 'APPROVED' ? 'Adjustment approved' : 'Adjustment denied');
+      setReviewAdjustment(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load waivers. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Waivers &amp; Discounts</CardTitle>
+          <CardDescription>
+            Hardship waivers, scholarships and discounts lower what a member owes once approved. Admins cannot approve changes to their own dues.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : adjustments?.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No waivers or discounts have been requested.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Adjustment</TableHead>
+                    <TableHead>Dues</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adjustments?.map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {adjustment.duesPayment.user.name || adjustment.duesPayment.user.email}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Requested by {adjustment.requestedBy.name || adjustment.requestedBy.email} on {formatDate(adjustment.createdAt)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatCurrency(adjustment.amount, adjustment.duesPayment.currency)}</div>
+                        <div className="text-xs text-muted-foreground">{DUES_ADJUSTMENT_TYPE_LABELS[adjustment.type]}</div>
+                        <div className="text-xs text-muted-foreground italic mt-1">&ldquo;{adjustment.reason}&rdquo;</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{formatCurrency(adjustment.duesPayment.amount, adjustment.duesPayment.currency)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Due {formatDate(adjustment.duesPayment.dueDate)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusColors[adjustment.status]}>
+                          {adjustment.status}
+                        </Badge>
+                        {adjustment.reviewedBy && (
+                          <div className="text-xs text-muted-foreground mt-1">by {adjustment.reviewedBy.name}</div>
+                        )}
+                        {adjustment.reviewNote && (
+                          <div className="text-xs text-muted-foreground mt-1">{adjustment.reviewNote}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {adjustment.status === 'PENDING' && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Approve"
+                              className="text-green-600"
+                              onClick={() => {
+                                setReviewNote('');
+                                setReviewAdjustment({ adjustment, status: 'APPROVED' });
+                              }}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Deny"
+                              onClick={() => {
+                                setReviewNote('');
+                                setReviewAdjustment({ adjustment, status: 'DENIED' });
+                              }}
+                            >
+                              <X className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={reviewAdjustment !== null} onOpenChange={(open) => !open && setReviewAdjustment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewAdjustment?.status === 'APPROVED' ? 'Approve Adjustment' : 'Deny Adjustment'}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewAdjustment && (
+                reviewAdjustment.status === 'APPROVED'
+                  ? `${describeAdjustment(reviewAdjustment.adjustment)}. Their dues will be lowered by this amount.`
+                  : `${describeAdjustment(reviewAdjustment.adjustment)}. Their dues will stay the same.`
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Optional note"
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewAdjustment(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewAdjustment?.status === 'DENIED' ? 'destructive' : 'default'}
+              disabled={reviewMutation.isPending}
+              onClick={() => {
+                if (!reviewAdjustment) return;
+                reviewMutation.mutate({
+                  adjustmentId: reviewAdjustment.adjustment.id,
+                  status: reviewAdjustment.status,
+                  note: reviewNote,
+                });
+              }}
+            >
+              {reviewAdjustment?.status === 'APPROVED' ? 'Approve' : 'Deny'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,422 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from "@/lib/utils/format";
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/money';
+
+interface DuesCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  defaultAmount: number;
+  currency: string;
+  _count: { memberships: number };
+}
+
+interface ChapterMember {
+  userId: string;
+  duesCategoryId: string | null;
+  user: {
+    name: string | null;
+    email: string;
+  };
+}
+
+// Form schema
+const duesCategoryFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  defaultAmount: z.coerce.number().positive('Amount must be positive'),
+});
+
+type FormValues = z.infer<typeof duesCategoryFormSchema>;
+
+// Select value for members without a category; Select items can't have an empty value
+const NO_CATEGORY = 'none';
+
+interface DuesCategoriesPanelProps {
+  chapterSlug: string;
+}
+
+export function DuesCategoriesPanel({ chapterSlug }: DuesCategoriesPanelProps) {
+  const [editingCategory, setEditingCategory] = useState<DuesCategory | null>(null);
+
+  // Fetch dues categories
+  const { data: categories, isLoading, error, refetch } = useQuery<DuesCategory[]>({
+    queryKey: ['dues-categories', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-categories`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch dues categories');
+      }
+      return res.json();
+    },
+  });
+
+  // Fetch chapter members
+  const { data: members, isLoading: loadingMembers, refetch: refetchMembers } = useQuery<ChapterMember[]>({
+    queryKey: ['chapter-members', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/members`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch chapter members');
+      }
+      const data = await res.json();
+      return data.members;
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(duesCategoryFormSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+      defaultAmount: 0,
+    },
+  });
+
+  // Create or update a category
+  const saveCategory = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await fetch(
+        editingCategory
+          ? `/api/chapters/${chapterSlug}/finance/dues-categories/${editingCategory.id}`
+          : `/api/chapters/${chapterSlug}/finance/dues-categories`,
+        {
+          method: editingCategory ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ...data,
+            description: data.description || null,
+            defaultAmount: toMinorUnits(data.defaultAmount), // The API expects cents
+          }),
+        }
+      );
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to save dues category');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(editingCategory ? 'Dues category updated' : 'Dues category created');
+      setEditingCategory(null);
+      form.reset({ name: '', description: '', defaultAmount: 0 });
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete category mutation; its members are left without a category
+  const deleteCategory = useMutation({
+    mutationFn: async (categoryId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-categories/${categoryId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete dues category');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Dues category deleted');
+      refetch();
+      refetchMembers();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Move a member into another category
+  const assignCategory = useMutation({
+    mutationFn: async ({ userId, duesCategoryId }: { userId: string; duesCategoryId: string | null }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-categories/members`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ memberIds: [userId], duesCategoryId }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to assign dues category');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      refetch();
+      refetchMembers();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const startEditing = (category: DuesCategory) => {
+    setEditingCategory(category);
+    form.reset({
+      name: category.name,
+      description: category.description ?? '',
+      defaultAmount: fromMinorUnits(category.defaultAmount, category.currency),
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingCategory(null);
+    form.reset({ name: '', description: '', defaultAmount: 0 });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Dues Categories</CardTitle>
+          <CardDescription>
+            Charge different dues to new members, actives, seniors or members abroad. Bulk dues can use each
+            member&apos;s category amount.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error ? (
+            <div className="flex items-center justify-center p-4">
+              <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+              <p>Failed to load dues categories. Please try again later.</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 2 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : categories?.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              No dues categories yet. Every member is charged the same amount.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Default Amount</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories?.map((category) => (
+                    <TableRow key={category.id}>
+                      <TableCell>
+                        <div className="font-medium">{category.name}</div>
+                        {category.description && (
+                          <div className="text-xs text-muted-foreground">{category.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatCurrency(category.defaultAmount, category.currency)}</TableCell>
+                      <TableCell>{category._count.memberships}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit Category"
+                            onClick={() => startEditing(category)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete Category"
+                            disabled={deleteCategory.isPending}
+                            onClick={() => deleteCategory.mutate(category.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveCategory.mutate(data))} className="space-y-4 border-t pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Active members" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Amount ($)</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="0.01" min="0" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saveCategory.isPending}>
+                  {saveCategory.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : editingCategory ? (
+                    'Save Category'
+                  ) : (
+                    'Add Category'
+                  )}
+                </Button>
+                {editingCategory && (
+                  <Button type="button" variant="outline" onClick={cancelEditing}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Member Categories</CardTitle>
+          <CardDescription>Choose which dues category each member belongs to</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {loadingMembers ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : members?.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No members found</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead className="w-[240px]">Category</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members?.map((member) => (
+                    <TableRow key={member.userId}>
+                      <TableCell>
+                        <div className="font-medium">{member.user.name || member.user.email}</div>
+                        {member.user.name && (
+                          <div className="text-xs text-muted-foreground">{member.user.email}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={member.duesCategoryId ?? NO_CATEGORY}
+                          disabled={assignCategory.isPending}
+                          onValueChange={(value) =>
+                            assignCategory.mutate({
+                              userId: member.userId,
+                              duesCategoryId: value === NO_CATEGORY ? null : value,
+                            })
+                          }
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                            {categories?.map((category) => (
+                              <SelectItem key={category.id} value={category.id}>
+                                {category.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
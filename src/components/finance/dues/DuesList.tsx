@@ -3,15 +3,57 @@
 interface DuesPayment {
   id: string;
   amount: number;
+  amountPaid: number;
+  currency: string;
   dueDate: string;
   status: 'pending' | 'paid';
   paidAt: string | null;
+  installmentNumber?: number | null;
   user: {
     id: string;
     name: string | null;
     email: string;
     image?: string | null | undefined;
   };
+  schedule?: {
+    id: string;
+    name: string;
+    installmentCount: number;
+  } | null;
+  lateFees?: {
+    id: string;
+    amount: number;
+    assessedAt: string;
+  }[];
+  paymentRecords?: {
+    id: string;
+    amount: number;
+    paidAt: string;
+    stripePaymentId: string | null;
+    reviewReason: string | null;
+    refunds: { amount: number }[];
+  }[];
+  paymentPlans?: {
+    id: string;
+    status: 'PENDING' | 'APPROVED';
+    installmentCount: number;
+  }[];
+  adjustments?: {
+    id: string;
+    type: DuesAdjustmentType;
+    amount: number;
+  }[];
+}
+
+// Stripe payments on a dues payment that still have money left to refund
+function getRefundablePayments(payment: DuesPayment) {
+  return (payment.paymentRecords ?? [])
+    .filter((record) => record.stripePaymentId)
+    .map((record) => ({
+      ...record,
+      refundable: record.amount - record.refunds.reduce((sum, refund) => sum + refund.amount, 0),
+    }))
+    .filter((record) => record.refundable > 0);
 }
 
 import { useState } from 'react';
@@ -20,9 +62,25 @@ import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Filter, Eye, CreditCard, Trash2 } from 'lucide-react';
+import { AlertCircle, Filter, Eye, CreditCard, Trash2, X, Banknote, Undo2, BadgePercent } from 'lucide-react';
 import { formatCurrency } from "@/lib/utils/format";
+import { getDuesBalance } from '@/lib/finance/dues-balance';
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/money';
+import { OFFLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '@/lib/finance/payment-methods';
+import { DUES_ADJUSTMENT_TYPE_LABELS } from '@/lib/finance/dues-adjustments';
+import { DuesAdjustmentType, PaymentMethod } from '@/generated/prisma';
+import { format, parse } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -48,8 +106,27 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { ExportMenu } from '@/components/finance/ExportMenu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
+interface ChapterMember {
+  role: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  };
+}
+
+// What the reference number means for each way of paying
+const referenceLabels: Partial<Record<PaymentMethod, string>> = {
+  CHECK: 'Check number',
+  VENMO: 'Venmo transaction ID',
+  ZELLE: 'Zelle confirmation number',
+  BANK_TRANSFER: 'Transfer reference',
+  OTHER: 'Reference',
+};
+
 interface DuesListProps {
   chapterSlug: string;
   status?: 'pending' | 'paid';
@@ -61,6 +138,22 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
   const [selectedDuesId, setSelectedDuesId] = useState<string | null>(null);
   const [paymentProcessing, setPaymentProcessing] = useState(false);
   const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false);
+  const [recordAmount, setRecordAmount] = useState('');
+  const [recordNote, setRecordNote] = useState('');
+  const [recordMethod, setRecordMethod] = useState<PaymentMethod>(PaymentMethod.CASH);
+  const [recordReference, setRecordReference] = useState('');
+  const [recordReceivedById, setRecordReceivedById] = useState('');
+  const [recordDate, setRecordDate] = useState('');
+  const [recordSendReceipt, setRecordSendReceipt] = useState(true);
+  const [refundDialogOpen, setRefundDialogOpen] = useState(false);
+  const [refundRecordId, setRefundRecordId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [adjustmentDialogOpen, setAdjustmentDialogOpen] = useState(false);
+  const [adjustmentType, setAdjustmentType] = useState<DuesAdjustmentType>(DuesAdjustmentType.WAIVER);
+  const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentReason, setAdjustmentReason] = useState('');
   const [filterStatus, setFilterStatus] = useState<'pending' | 'paid' | 'all'>(status || 'all');
 
   // Fetch dues data
@@ -86,12 +179,149 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
         method: 'DELETE',
       });
       if (!res.ok) {
-        throw new Error('Failed to delete dues payment');
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete dues payment');
       }
       return res.json();
     },
   });
 
+  // Waive late fee mutation
+  const waiveLateFeeMutation = useMutation({
+    mutationFn: async (lateFeeId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees/waive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lateFeeId }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to waive late fee');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Late fee waived');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Officers who can have taken the money, fetched when recording a payment
+  const { data: members } = useQuery<ChapterMember[]>({
+    queryKey: ['members', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/members`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch members');
+      }
+      const data = await res.json();
+      return data.members;
+    },
+    enabled: recordDialogOpen,
+  });
+
+  // Record a full or partial payment received outside Stripe
+  const recordPaymentMutation = useMutation({
+    mutationFn: async ({ duesId, ...payment }: {
+      duesId: string;
+      amount: number;
+      paidAt: Date;
+      method: PaymentMethod;
+      referenceNumber: string;
+      receivedById: string;
+      note: string;
+      sendReceipt: boolean;
+    }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/${duesId}/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...payment,
+          referenceNumber: payment.referenceNumber || undefined,
+          receivedById: payment.receivedById || undefined,
+          note: payment.note || undefined,
+        }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to record payment');
+      }
+      return res.json();
+    },
+    onSuccess: (_, { sendReceipt }) => {
+      toast.success(sendReceipt ? 'Payment recorded and receipt sent' : 'Payment recorded');
+      setRecordDialogOpen(false);
+      setSelectedDuesId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Refund all or part of a Stripe payment
+  const refundMutation = useMutation({
+    mutationFn: async ({ duesId, paymentRecordId, amount, reason }: { duesId: string; paymentRecordId: string; amount: number; reason: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/${duesId}/refunds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ paymentRecordId, amount, reason: reason || undefined }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to refund payment');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Refund issued');
+      setRefundDialogOpen(false);
+      setSelectedDuesId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Request a waiver, scholarship or discount; it needs an admin's approval
+  const adjustmentMutation = useMutation({
+    mutationFn: async (adjustment: { duesPaymentId: string; type: DuesAdjustmentType; amount: number; reason: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues-adjustments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(adjustment),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to request adjustment');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Adjustment requested; it applies once approved');
+      setAdjustmentDialogOpen(false);
+      setSelectedDuesId(null);
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const selectedDues = duesPayments?.find((payment) => payment.id === selectedDuesId);
+  const refundablePayments = selectedDues ? getRefundablePayments(selectedDues) : [];
+  const selectedRefundPayment = refundablePayments.find((record) => record.id === refundRecordId);
+
   // Handle dues deletion
   const handleDelete = async () => {
     if (!selectedDuesId) return;
@@ -101,7 +331,7 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
       toast.success('Dues payment deleted successfully');
       refetch();
     } catch (error) {
-      toast.error('Error deleting dues payment');
+      toast.error(error instanceof Error ? error.message : 'Error deleting dues payment');
       console.error(error);
     } finally {
       setDeleteDialogOpen(false);
@@ -174,27 +404,32 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
         <CardContent className="p-0 sm:p-6">
           <div className="flex justify-between items-center mb-4 p-4 sm:p-0">
             <h3 className="text-lg font-medium">Dues Payments</h3>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm">
-                  <Filter className="h-4 w-4 mr-2" />
-                  {filterStatus === 'all' ? 'All' : filterStatus === 'pending' ? 'Pending' : 'Paid'}
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuLabel>Filter Status</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => setFilterStatus('all')}>
-                  All
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setFilterStatus('pending')}>
-                  Pending
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setFilterStatus('paid')}>
-                  Paid
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Filter className="h-4 w-4 mr-2" />
+                    {filterStatus === 'all' ? 'All' : filterStatus === 'pending' ? 'Pending' : 'Paid'}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Filter Status</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setFilterStatus('all')}>
+                    All
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setFilterStatus('pending')}>
+                    Pending
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setFilterStatus('paid')}>
+                    Paid
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <ExportMenu
+                exportUrl={filterStatus === 'all' ? `/api/chapters/${chapterSlug}/finance/dues/export` : `/api/chapters/${chapterSlug}/finance/dues/export?status=${filterStatus}`}
+              />
+            </div>
           </div>
           
           {isLoading ? (
@@ -241,18 +476,91 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
                           <span>{payment.user.name || payment.user.email}</span>
                         </div>
                       </TableCell>
-                      <TableCell>{formatCurrency(payment.amount)}</TableCell>
-                      <TableCell>{new Date(payment.dueDate).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div>{formatCurrency(payment.amount, payment.currency)}</div>
+                        {payment.lateFees && payment.lateFees.length > 0 && (
+                          <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+                            {payment.lateFees.map((fee) => (
+                              <div key={fee.id} className="flex items-center gap-1">
+                                <span className="text-destructive">
+                                  + {formatCurrency(fee.amount, payment.currency)} late fee
+                                </span>
+                                {!payment.paidAt && (
+                                  <button
+                                    type="button"
+                                    title="Waive Late Fee"
+                                    className="hover:text-foreground"
+                                    disabled={waiveLateFeeMutation.isPending}
+                                    onClick={() => waiveLateFeeMutation.mutate(fee.id)}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                            <div className="font-medium text-foreground">
+                              Total {formatCurrency(getDuesBalance(payment).total, payment.currency)}
+                            </div>
+                          </div>
+                        )}
+                        {payment.adjustments?.map((adjustment) => (
+                          <div key={adjustment.id} className="text-xs text-muted-foreground">
+                            after {formatCurrency(adjustment.amount, payment.currency)} {DUES_ADJUSTMENT_TYPE_LABELS[adjustment.type].toLowerCase()}
+                          </div>
+                        ))}
+                        {!payment.paidAt && payment.amountPaid > 0 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {formatCurrency(payment.amountPaid, payment.currency)} paid · {formatCurrency(getDuesBalance(payment).remaining, payment.currency)} left
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div>{new Date(payment.dueDate).toLocaleDateString()}</div>
+                        {payment.schedule && (
+                          <div className="text-xs text-muted-foreground">
+                            {payment.schedule.name} · {payment.installmentNumber}/{payment.schedule.installmentCount}
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={payment.paidAt 
                           ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100'
                           : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100'
                         }>
-                          {payment.paidAt ? 'PAID' : 'PENDING'}
+                          {payment.paidAt ? 'PAID' : payment.amountPaid > 0 ? 'PARTIAL' : 'PENDING'}
                         </Badge>
+                        {payment.paymentPlans?.some((plan) => plan.status === 'APPROVED') && (
+                          <Badge variant="outline" className="ml-1">Payment Plan</Badge>
+                        )}
+                        {payment.paymentRecords?.filter((record) => record.reviewReason).map((record) => (
+                          <div key={record.id} className="flex items-start gap-1 text-xs text-destructive mt-1">
+                            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                            <span>Needs review: {record.reviewReason}</span>
+                          </div>
+                        ))}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          {!payment.paidAt && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Record Payment"
+                              onClick={() => {
+                                setSelectedDuesId(payment.id);
+                                setRecordAmount(String(fromMinorUnits(getDuesBalance(payment).remaining, payment.currency)));
+                                setRecordNote('');
+                                setRecordMethod(PaymentMethod.CASH);
+                                setRecordReference('');
+                                setRecordReceivedById('');
+                                setRecordDate(format(new Date(), 'yyyy-MM-dd'));
+                                setRecordSendReceipt(true);
+                                setRecordDialogOpen(true);
+                              }}
+                            >
+                              <Banknote className="h-4 w-4" />
+                            </Button>
+                          )}
                           {!payment.paidAt && (
                             <Button 
                               variant="ghost" 
@@ -268,6 +576,42 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
                               <CreditCard className="h-4 w-4" />
                             </Button>
                           )}
+                          {!payment.paidAt && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Waive or Discount"
+                              onClick={() => {
+                                setSelectedDuesId(payment.id);
+                                setAdjustmentType(DuesAdjustmentType.WAIVER);
+                                setAdjustmentAmount(String(fromMinorUnits(
+                                  Math.min(payment.amount, getDuesBalance(payment).remaining),
+                                  payment.currency
+                                )));
+                                setAdjustmentReason('');
+                                setAdjustmentDialogOpen(true);
+                              }}
+                            >
+                              <BadgePercent className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {getRefundablePayments(payment).length > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Refund Payment"
+                              onClick={() => {
+                                const [latest] = getRefundablePayments(payment);
+                                setSelectedDuesId(payment.id);
+                                setRefundRecordId(latest.id);
+                                setRefundAmount(String(fromMinorUnits(latest.refundable, payment.currency)));
+                                setRefundReason('');
+                                setRefundDialogOpen(true);
+                              }}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Link href={`/${chapterSlug}/admin/finance/dues/${payment.id}`}>
                             <Button variant="ghost" size="icon" title="View Details">
                               <Eye className="h-4 w-4" />
@@ -315,6 +659,284 @@ export function DuesList({ chapterSlug, status }: DuesListProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Record Payment Dialog */}
+      <Dialog open={recordDialogOpen} onOpenChange={setRecordDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Record cash, a check or an app payment received for these dues. Enter less than the balance for a partial payment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="record-amount">Amount</Label>
+                <Input
+                  id="record-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={recordAmount}
+                  onChange={(e) => setRecordAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="record-date">Date received</Label>
+                <Input
+                  id="record-date"
+                  type="date"
+                  value={recordDate}
+                  onChange={(e) => setRecordDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={recordMethod} onValueChange={(value) => setRecordMethod(value as PaymentMethod)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OFFLINE_PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {referenceLabels[recordMethod] && (
+                <div className="space-y-2">
+                  <Label htmlFor="record-reference">{referenceLabels[recordMethod]}</Label>
+                  <Input
+                    id="record-reference"
+                    placeholder="Optional"
+                    value={recordReference}
+                    onChange={(e) => setRecordReference(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Received by</Label>
+              <Select value={recordReceivedById} onValueChange={setRecordReceivedById}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Who took the payment?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members
+                    ?.filter((member) => member.role === 'ADMIN' || member.role === 'OWNER')
+                    .map((member) => (
+                      <SelectItem key={member.user.id} value={member.user.id}>
+                        {member.user.name || member.user.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="record-note">Note</Label>
+              <Input
+                id="record-note"
+                placeholder="Optional, e.g. paid in cash at chapter meeting"
+                value={recordNote}
+                onChange={(e) => setRecordNote(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="record-send-receipt"
+                checked={recordSendReceipt}
+                onCheckedChange={(checked) => setRecordSendReceipt(checked === true)}
+              />
+              <Label htmlFor="record-send-receipt">Email the member a receipt</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecordDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!selectedDuesId) return;
+                const selectedPayment = duesPayments?.find((payment) => payment.id === selectedDuesId);
+                recordPaymentMutation.mutate({
+                  duesId: selectedDuesId,
+                  amount: toMinorUnits(Number(recordAmount), selectedPayment?.currency), // The API expects cents
+                  paidAt: parse(recordDate, 'yyyy-MM-dd', new Date()),
+                  method: recordMethod,
+                  referenceNumber: referenceLabels[recordMethod] ? recordReference : '',
+                  receivedById: recordReceivedById,
+                  note: recordNote,
+                  sendReceipt: recordSendReceipt,
+                });
+              }}
+              disabled={recordPaymentMutation.isPending || !(Number(recordAmount) > 0) || !recordDate}
+            >
+              {recordPaymentMutation.isPending ? 'Recording...' : 'Record Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Refund Dialog */}
+      <Dialog open={refundDialogOpen} onOpenChange={setRefundDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              Return money to the member through Stripe. The refunded amount is owed again unless you change or delete the dues.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {refundablePayments.length > 1 && (
+              <div className="space-y-2">
+                <Label>Payment</Label>
+                <Select
+                  value={refundRecordId ?? undefined}
+                  onValueChange={(value) => {
+                    const record = refundablePayments.find((payment) => payment.id === value);
+                    setRefundRecordId(value);
+                    if (record && selectedDues) {
+                      setRefundAmount(String(fromMinorUnits(record.refundable, selectedDues.currency)));
+                    }
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {refundablePayments.map((record) => (
+                      <SelectItem key={record.id} value={record.id}>
+                        {new Date(record.paidAt).toLocaleDateString()} · {formatCurrency(record.amount, selectedDues?.currency)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+              />
+              {selectedRefundPayment && (
+                <p className="text-xs text-muted-foreground">
+                  Up to {formatCurrency(selectedRefundPayment.refundable, selectedDues?.currency)} can be refunded from this payment
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Input
+                id="refund-reason"
+                placeholder="Optional, e.g. member withdrew before the semester"
+                value={refundReason}
+                onChange={(e) => setRefundReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (!selectedDuesId || !refundRecordId) return;
+                refundMutation.mutate({
+                  duesId: selectedDuesId,
+                  paymentRecordId: refundRecordId,
+                  amount: toMinorUnits(Number(refundAmount), selectedDues?.currency), // The API expects cents
+                  reason: refundReason,
+                });
+              }}
+              disabled={refundMutation.isPending || !(Number(refundAmount) > 0)}
+            >
+              {refundMutation.isPending ? 'Refunding...' : 'Issue Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Waiver / Discount Dialog */}
+      <Dialog open={adjustmentDialogOpen} onOpenChange={setAdjustmentDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive or Discount Dues</DialogTitle>
+            <DialogDescription>
+              Lower what {selectedDues?.user.name || selectedDues?.user.email || 'the member'} owes. The reduction is
+              applied once an admin approves it on the Waivers tab.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={adjustmentType} onValueChange={(value) => setAdjustmentType(value as DuesAdjustmentType)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(DuesAdjustmentType).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {DUES_ADJUSTMENT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-amount">Amount</Label>
+                <Input
+                  id="adjustment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-reason">Reason</Label>
+              <Input
+                id="adjustment-reason"
+                placeholder="e.g. Financial hardship this semester"
+                value={adjustmentReason}
+                onChange={(e) => setAdjustmentReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjustmentDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!selectedDuesId) return;
+                adjustmentMutation.mutate({
+                  duesPaymentId: selectedDuesId,
+                  type: adjustmentType,
+                  amount: toMinorUnits(Number(adjustmentAmount), selectedDues?.currency), // The API expects cents
+                  reason: adjustmentReason,
+                });
+              }}
+              disabled={adjustmentMutation.isPending || !(Number(adjustmentAmount) > 0) || !adjustmentReason.trim()}
+            >
+              {adjustmentMutation.isPending ? 'Requesting...' : 'Request Approval'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Payment Dialog */}
       <Dialog open={payDialogOpen} onOpenChange={setPayDialogOpen}>
         <DialogContent>
@@ -0,0 +1,420 @@
+'use client';
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/finance/dues-reminders';
+
+interface DuesReminderRule {
+  id: string;
+  name: string;
+  offsetDays: number;
+  sendEmail: boolean;
+  sendSms: boolean;
+  message: string | null;
+  isActive: boolean;
+}
+
+// Form schema
+const reminderRuleFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  offsetDays: z.coerce.number().int().min(-90).max(90),
+  sendEmail: z.boolean(),
+  sendSms: z.boolean(),
+  message: z.string().max(1000, 'Message is too long').optional(),
+}).refine((data) => data.sendEmail || data.sendSms, {
+  message: 'Choose at least one delivery method',
+  path: ['sendEmail'],
+});
+
+type FormValues = z.infer<typeof reminderRuleFormSchema>;
+
+interface DuesRemindersPanelProps {
+  chapterSlug: string;
+}
+
+// Describe when a rule fires, e.g. "7 days before due date"
+function describeOffset(offsetDays: number) {
+  if (offsetDays === 0) {
+    return 'On due date';
+  }
+
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? '' : 's'} ${offsetDays < 0 ? 'before due date' : 'overdue'}`;
+}
+
+export function DuesRemindersPanel({ chapterSlug }: DuesRemindersPanelProps) {
+  // Fetch reminder rules
+  const { data: rules, isLoading, error, refetch } = useQuery<DuesReminderRule[]>({
+    queryKey: ['dues-reminder-rules', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch reminder rules');
+      }
+      return res.json();
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(reminderRuleFormSchema),
+    defaultValues: {
+      name: '',
+      offsetDays: -7,
+      sendEmail: true,
+      sendSms: false,
+      message: '',
+    },
+  });
+
+  // Create rule mutation
+  const createRule = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to create reminder');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Reminder created');
+      form.reset();
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Create the standard set of reminders in one go
+  const createDefaults = useMutation({
+    mutationFn: async () => {
+      for (const preset of DEFAULT_REMINDER_OFFSETS) {
+        const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...preset, sendEmail: true, sendSms: true }),
+        });
+
+        if (!res.ok) {
+          throw new Error('Failed to create default reminders');
+        }
+      }
+    },
+    onSuccess: () => {
+      toast.success('Default reminders created');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Update rule mutation
+  const updateRule = useMutation({
+    mutationFn: async ({ ruleId, data }: { ruleId: string; data: Partial<DuesReminderRule> }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders/${ruleId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update reminder');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete rule mutation
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders/${ruleId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete reminder');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Reminder deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Send reminders immediately instead of waiting for the daily job
+  const sendNow = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reminders/send`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to send reminders');
+      }
+      return res.json() as Promise<{ remindersSent: number; emailsSent: number; smsSent: number; errors: string[] }>;
+    },
+    onSuccess: (result) => {
+      if (result.remindersSent === 0) {
+        toast.success('No reminders are due right now');
+      } else {
+        toast.success(`Sent ${result.emailsSent} emails and ${result.smsSent} text messages`);
+      }
+
+      if (result.errors.length > 0) {
+        toast.error(`${result.errors.length} messages could not be delivered`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Handle form submission
+  const onSubmit = (data: FormValues) => {
+    createRule.mutate(data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Dues Reminders</CardTitle>
+            <CardDescription>
+              Members with unpaid dues are reminded automatically. Text messages only go to members who allow SMS.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => sendNow.mutate()}
+            disabled={sendNow.isPending || !rules?.length}
+          >
+            {sendNow.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Send Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load reminders. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : rules?.length === 0 ? (
+          <div className="text-center py-4 space-y-3">
+            <p className="text-muted-foreground">
+              No reminders yet. Start with a reminder a week before, on the due date and three days overdue.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => createDefaults.mutate()}
+              disabled={createDefaults.isPending}
+            >
+              {createDefaults.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Default Reminders
+            </Button>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Channels</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules?.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{describeOffset(rule.offsetDays)}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {rule.sendEmail && <Badge variant="outline">Email</Badge>}
+                        {rule.sendSms && <Badge variant="outline">SMS</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={updateRule.isPending}
+                        onCheckedChange={(checked) => updateRule.mutate({ ruleId: rule.id, data: { isActive: checked } })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete Reminder"
+                        disabled={deleteRule.isPending}
+                        onClick={() => deleteRule.mutate(rule.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="One week before" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="offsetDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Days From Due Date</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" min="-90" max="90" />
+                    </FormControl>
+                    <FormDescription>
+                      Negative sends before the due date, 0 on the due date, positive after it
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Additional Message</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Optional note included in the email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-6">
+              <FormField
+                control={form.control}
+                name="sendEmail"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Email</FormLabel>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="sendSms"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>SMS</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Button type="submit" disabled={createRule.isPending}>
+              {createRule.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Reminder'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarIcon, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from "@/lib/utils/format";
+import { fromMinorUnits, toMinorUnits } from '@/lib/finance/money';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { DuesScheduleFrequency } from '@/generated/prisma';
+
+// Form schema
+const duesScheduleFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  totalAmount: z.coerce.number().positive('Amount must be positive'),
+  installmentCount: z.coerce.number().int().min(1, 'At least one installment').max(24, 'At most 24 installments'),
+  frequency: z.nativeEnum(DuesScheduleFrequency),
+  firstDueDate: z.date({
+    required_error: 'First due date is required',
+  }),
+  includeNewMembers: z.boolean(),
+});
+
+type FormValues = z.infer<typeof duesScheduleFormSchema>;
+
+export interface DuesScheduleFormValues {
+  id: string;
+  name: string;
+  description?: string | null;
+  totalAmount: number; // Minor units (cents)
+  installmentCount: number;
+  frequency: DuesScheduleFrequency;
+  firstDueDate: string | Date;
+  includeNewMembers: boolean;
+}
+
+interface DuesScheduleFormPanelProps {
+  chapterSlug: string;
+  schedule?: DuesScheduleFormValues; // When provided, the form edits this schedule
+  onSaved?: () => void;
+}
+
+const frequencyLabels: Record<DuesScheduleFrequency, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+};
+
+export function DuesScheduleFormPanel({ chapterSlug, schedule, onSaved }: DuesScheduleFormPanelProps) {
+  const queryClient = useQueryClient();
+  const isEditing = !!schedule;
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(duesScheduleFormSchema),
+    defaultValues: {
+      name: schedule?.name ?? '',
+      description: schedule?.description ?? '',
+      totalAmount: schedule ? fromMinorUnits(schedule.totalAmount) : 0,
+      installmentCount: schedule?.installmentCount ?? 1,
+      frequency: schedule?.frequency ?? DuesScheduleFrequency.MONTHLY,
+      firstDueDate: schedule ? new Date(schedule.firstDueDate) : undefined,
+      includeNewMembers: schedule?.includeNewMembers ?? true,
+    },
+  });
+
+  // Create or update schedule mutation
+  const saveSchedule = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const url = isEditing
+        ? `/api/chapters/${chapterSlug}/finance/dues/schedules/${schedule.id}`
+        : `/api/chapters/${chapterSlug}/finance/dues/schedules`;
+
+      const res = await fetch(url, {
+        method: isEditing ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          totalAmount: toMinorUnits(data.totalAmount), // The API expects cents
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to save dues schedule');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(isEditing ? 'Dues schedule updated' : 'Dues schedule created and installments generated');
+      queryClient.invalidateQueries({ queryKey: ['dues-schedules', chapterSlug] });
+      queryClient.invalidateQueries({ queryKey: ['dues', chapterSlug] });
+      if (!isEditing) {
+        form.reset();
+      }
+      onSaved?.();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Handle form submission
+  const onSubmit = (data: FormValues) => {
+    saveSchedule.mutate(data);
+  };
+
+  const totalAmount = form.watch('totalAmount');
+  const installmentCount = form.watch('installmentCount');
+  const perInstallment = installmentCount > 0 ? toMinorUnits(Number(totalAmount)) / Number(installmentCount) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isEditing ? 'Edit Dues Schedule' : 'Create Dues Schedule'}</CardTitle>
+        <CardDescription>
+          {isEditing
+            ? 'Unpaid installments are updated to match the new schedule. Paid installments are never changed.'
+            : 'Split dues into installments that are generated automatically for all active members'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Fall 2026 Dues" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="totalAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Amount ($)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="0.00"
+                        {...field}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="installmentCount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Installments</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" min="1" max="24" />
+                    </FormControl>
+                    <FormDescription>
+                      {perInstallment > 0 && `About ${formatCurrency(perInstallment)} per installment`}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Frequency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select frequency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(DuesScheduleFrequency).map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {frequencyLabels[frequency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="firstDueDate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>First Due Date</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn(
+                              "w-full pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value ? (
+                              format(field.value, "PPP")
+                            ) : (
+                              <span>Pick a date</span>
+                            )}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Optional notes for members" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="includeNewMembers"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Include new members</FormLabel>
+                    <FormDescription>
+                      Members approved later are billed for the installments that are still upcoming
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={saveSchedule.isPending}
+            >
+              {saveSchedule.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : isEditing ? (
+                'Save Schedule'
+              ) : (
+                'Create Schedule'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { AlertCircle, Pencil, Trash2 } from 'lucide-react';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { DuesScheduleFrequency } from '@/generated/prisma';
+import { DuesScheduleFormPanel } from './DuesScheduleFormPanel';
+
+interface DuesSchedule {
+  id: string;
+  name: string;
+  description?: string | null;
+  totalAmount: number;
+  currency: string;
+  installmentCount: number;
+  frequency: DuesScheduleFrequency;
+  firstDueDate: string;
+  isActive: boolean;
+  includeNewMembers: boolean;
+  _count: {
+    duesPayments: number;
+  };
+}
+
+interface DuesSchedulesListProps {
+  chapterSlug: string;
+}
+
+export function DuesSchedulesList({ chapterSlug }: DuesSchedulesListProps) {
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedScheduleId, setSelectedScheduleId] = useState<string | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<DuesSchedule | null>(null);
+
+  // Fetch dues schedules
+  const { data: schedules, isLoading, error, refetch } = useQuery<DuesSchedule[]>({
+    queryKey: ['dues-schedules', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/schedules`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch dues schedules');
+      }
+      return res.json();
+    },
+  });
+
+  // Toggle whether a schedule is active
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ scheduleId, isActive }: { scheduleId: string; isActive: boolean }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/schedules/${scheduleId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update dues schedule');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete schedule mutation
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/dues/schedules/${scheduleId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete dues schedule');
+      }
+      return res.json();
+    },
+  });
+
+  // Handle schedule deletion
+  const handleDelete = async () => {
+    if (!selectedScheduleId) return;
+
+    try {
+      await deleteScheduleMutation.mutateAsync(selectedScheduleId);
+      toast.success('Dues schedule deleted successfully');
+      refetch();
+    } catch (error) {
+      toast.error('Error deleting dues schedule');
+      console.error(error);
+    } finally {
+      setDeleteDialogOpen(false);
+      setSelectedScheduleId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load dues schedules. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardContent className="p-0 sm:p-6">
+          <div className="flex justify-between items-center mb-4 p-4 sm:p-0">
+            <h3 className="text-lg font-medium">Dues Schedules</h3>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <div key={index} className="flex items-center gap-4">
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ))}
+            </div>
+          ) : schedules?.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <h3 className="text-lg font-medium mb-2">No dues schedules yet</h3>
+              <p className="text-muted-foreground">
+                Create a schedule below to bill members in installments.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Installments</TableHead>
+                    <TableHead>First Due</TableHead>
+                    <TableHead>Generated</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules?.map((schedule) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell className="font-medium">
+                        <div>{schedule.name}</div>
+                        {schedule.includeNewMembers && (
+                          <Badge variant="outline" className="mt-1">Includes new members</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatCurrency(schedule.totalAmount, schedule.currency)}</TableCell>
+                      <TableCell>
+                        {schedule.installmentCount} × {schedule.frequency.toLowerCase()}
+                      </TableCell>
+                      <TableCell>{formatDate(schedule.firstDueDate)}</TableCell>
+                      <TableCell>{schedule._count.duesPayments} payments</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={schedule.isActive}
+                          disabled={toggleActiveMutation.isPending}
+                          onCheckedChange={(checked) =>
+                            toggleActiveMutation.mutate({ scheduleId: schedule.id, isActive: checked })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit Schedule"
+                            onClick={() => setEditingSchedule(schedule)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete Schedule"
+                            onClick={() => {
+                              setSelectedScheduleId(schedule.id);
+                              setDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Schedule Dialog */}
+      <Dialog open={!!editingSchedule} onOpenChange={(open) => !open && setEditingSchedule(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Dues Schedule</DialogTitle>
+          </DialogHeader>
+          {editingSchedule && (
+            <DuesScheduleFormPanel
+              chapterSlug={chapterSlug}
+              schedule={editingSchedule}
+              onSaved={() => setEditingSchedule(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Dues Schedule</DialogTitle>
+            <DialogDescription>
+              Unpaid installments generated by this schedule will be deleted. Paid installments are kept
+              but will no longer be linked to a schedule. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,441 @@
+'use client';
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Play, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from "@/lib/utils/format";
+import { toMinorUnits } from '@/lib/finance/money';
+import { LateFeeRecurrence, LateFeeType } from '@/generated/prisma';
+
+interface LateFeeRule {
+  id: string;
+  name: string;
+  graceDays: number;
+  feeType: LateFeeType;
+  amount: number;
+  recurrence: LateFeeRecurrence;
+  recurrenceDays: number | null;
+  maxApplications: number | null;
+  isActive: boolean;
+}
+
+// Form schema
+const lateFeeRuleFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  graceDays: z.coerce.number().int().min(0, 'Grace period cannot be negative'),
+  feeType: z.nativeEnum(LateFeeType),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  recurrence: z.nativeEnum(LateFeeRecurrence),
+  recurrenceDays: z.coerce.number().int().positive().optional(),
+  maxApplications: z.coerce.number().int().positive().optional(),
+}).refine(
+  (data) => data.recurrence === LateFeeRecurrence.ONE_TIME || !!data.recurrenceDays,
+  { message: 'Recurring fees need an interval', path: ['recurrenceDays'] }
+);
+
+type FormValues = z.infer<typeof lateFeeRuleFormSchema>;
+
+interface LateFeeRulesPanelProps {
+  chapterSlug: string;
+}
+
+// Describe a rule in one line, e.g. "$25.00 after 7 days, every 30 days (max 3)"
+function describeRule(rule: LateFeeRule) {
+  // PERCENTAGE rules are stored in basis points (500 = 5%)
+  const fee = rule.feeType === LateFeeType.PERCENTAGE ? `${rule.amount / 100}%` : formatCurrency(rule.amount);
+  const grace = rule.graceDays > 0 ? `after ${rule.graceDays} day grace period` : 'once overdue';
+
+  if (rule.recurrence === LateFeeRecurrence.RECURRING && rule.recurrenceDays) {
+    const cap = rule.maxApplications ? ` (max ${rule.maxApplications})` : '';
+    return `${fee} ${grace}, then every ${rule.recurrenceDays} days${cap}`;
+  }
+
+  return `${fee} ${grace}`;
+}
+
+export function LateFeeRulesPanel({ chapterSlug }: LateFeeRulesPanelProps) {
+  // Fetch late fee rules
+  const { data: rules, isLoading, error, refetch } = useQuery<LateFeeRule[]>({
+    queryKey: ['late-fee-rules', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch late fee rules');
+      }
+      return res.json();
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(lateFeeRuleFormSchema),
+    defaultValues: {
+      name: '',
+      graceDays: 0,
+      feeType: LateFeeType.FLAT,
+      amount: 0,
+      recurrence: LateFeeRecurrence.ONE_TIME,
+    },
+  });
+
+  const recurrence = form.watch('recurrence');
+
+  // Create rule mutation
+  const createRule = useMutation({
+    mutationFn: async (data: FormValues) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to create late fee rule');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Late fee rule created');
+      form.reset();
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Update rule mutation (used to toggle a rule on or off)
+  const updateRule = useMutation({
+    mutationFn: async ({ ruleId, isActive }: { ruleId: string; isActive: boolean }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees/${ruleId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update late fee rule');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete rule mutation
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees/${ruleId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete late fee rule');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Late fee rule deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Assess fees immediately instead of waiting for the daily job
+  const applyFees = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/late-fees/apply`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to apply late fees');
+      }
+      return res.json() as Promise<{ assessedCount: number }>;
+    },
+    onSuccess: (result) => {
+      toast.success(
+        result.assessedCount > 0
+          ? `Assessed ${result.assessedCount} late fee${result.assessedCount === 1 ? '' : 's'}`
+          : 'No new late fees to assess'
+      );
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Handle form submission; the API takes FLAT fees in cents and PERCENTAGE fees in basis points
+  const onSubmit = (data: FormValues) => {
+    createRule.mutate({
+      ...data,
+      amount: data.feeType === LateFeeType.PERCENTAGE ? Math.round(data.amount * 100) : toMinorUnits(data.amount),
+      recurrenceDays: data.recurrence === LateFeeRecurrence.RECURRING ? data.recurrenceDays : undefined,
+      maxApplications: data.recurrence === LateFeeRecurrence.RECURRING ? data.maxApplications : undefined,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Late Fees</CardTitle>
+            <CardDescription>
+              Fees are added automatically to unpaid dues once their grace period ends
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => applyFees.mutate()}
+            disabled={applyFees.isPending || !rules?.length}
+          >
+            {applyFees.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Apply Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load late fee rules. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : rules?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No late fee rules yet. Overdue dues will not be charged any fees.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules?.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{describeRule(rule)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={updateRule.isPending}
+                        onCheckedChange={(checked) => updateRule.mutate({ ruleId: rule.id, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete Rule"
+                        disabled={deleteRule.isPending}
+                        onClick={() => deleteRule.mutate(rule.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Standard late fee" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="graceDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Grace Period (days)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" min="0" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="feeType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fee Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={LateFeeType.FLAT}>Flat amount</SelectItem>
+                        <SelectItem value={LateFeeType.PERCENTAGE}>Percentage of dues</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {form.watch('feeType') === LateFeeType.PERCENTAGE ? 'Percent (%)' : 'Amount ($)'}
+                    </FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Recurrence</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={LateFeeRecurrence.ONE_TIME}>One time</SelectItem>
+                        <SelectItem value={LateFeeRecurrence.RECURRING}>Recurring</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {recurrence === LateFeeRecurrence.RECURRING && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="recurrenceDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat Every (days)</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} type="number" step="1" min="1" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxApplications"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum Fees</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} type="number" step="1" min="1" />
+                        </FormControl>
+                        <FormDescription>Leave blank for no limit</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </div>
+
+            <Button type="submit" disabled={createRule.isPending}>
+              {createRule.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Late Fee Rule'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, Check, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { getPaymentPlanInstallments, getNextPlanInstallment } from '@/lib/finance/payment-plans';
+import { DuesPaymentPlanStatus, DuesScheduleFrequency } from '@/generated/prisma';
+
+interface PaymentPlan {
+  id: string;
+  status: DuesPaymentPlanStatus;
+  totalAmount: number;
+  baseAmountPaid: number;
+  installmentCount: number;
+  frequency: DuesScheduleFrequency;
+  firstPaymentDate: string;
+  requestNote: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  duesPayment: {
+    id: string;
+    amount: number;
+    amountPaid: number;
+    currency: string;
+    dueDate: string;
+    paidAt: string | null;
+  };
+  requestedBy: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  reviewedBy: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+interface PaymentPlansListProps {
+  chapterSlug: string;
+}
+
+const statusColors: Record<DuesPaymentPlanStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100',
+  APPROVED: 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100',
+  DENIED: 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100',
+  COMPLETED: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
+  CANCELED: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100',
+};
+
+// Amount of each installment, e.g. "4 × $50.00 monthly"
+function describePlan(plan: PaymentPlan) {
+  const perInstallment = plan.totalAmount / plan.installmentCount;
+  return `${plan.installmentCount} × ${formatCurrency(perInstallment, plan.duesPayment.currency)} ${plan.frequency.toLowerCase()}`;
+}
+
+export function PaymentPlansList({ chapterSlug }: PaymentPlansListProps) {
+  const [reviewPlan, setReviewPlan] = useState<{ plan: PaymentPlan; status: 'APPROVED' | 'DENIED' } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+
+  // Fetch payment plans
+  const { data: plans, isLoading, error, refetch } = useQuery<PaymentPlan[]>({
+    queryKey: ['payment-plans', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/payment-plans`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch payment plans');
+      }
+      return res.json();
+    },
+  });
+
+  // Approve or deny a plan request
+  const reviewMutation = useMutation({
+    mutationFn: async ({ planId, status, note }: { planId: string; status: 'APPROVED' | 'DENIED'; note: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/payment-plans/${planId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, reviewNote: note || undefined }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to review payment plan');
+      }
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(variables.status === 'APPROVED' ? 'Payment plan approved' : 'Payment plan denied');
+      setReviewPlan(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load payment plans. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Plans</CardTitle>
+          <CardDescription>
+            Members can ask to split a dues balance into installments. Approved plans pause late fees and reminders.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0 sm:p-6 sm:pt-0">
+          {isLoading ? (
+            <div className="space-y-4 p-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : plans?.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No payment plans have been requested.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans?.map((plan) => {
+                    const installments = getPaymentPlanInstallments(
+                      { ...plan, firstPaymentDate: new Date(plan.firstPaymentDate) },
+                      plan.duesPayment.amountPaid
+                    );
+                    const paidCount = installments.filter((installment) => installment.isPaid).length;
+                    const nextInstallment = getNextPlanInstallment(installments);
+
+                    return (
+                      <TableRow key={plan.id}>
+                        <TableCell>
+                          <div className="font-medium">{plan.requestedBy.name || plan.requestedBy.email}</div>
+                          <div className="text-xs text-muted-foreground">
+                            Requested {formatDate(plan.createdAt)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{formatCurrency(plan.totalAmount, plan.duesPayment.currency)}</div>
+                          <div className="text-xs text-muted-foreground">{describePlan(plan)}</div>
+                          {plan.requestNote && (
+                            <div className="text-xs text-muted-foreground italic mt-1">&ldquo;{plan.requestNote}&rdquo;</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div>{paidCount}/{plan.installmentCount} paid</div>
+                          {plan.status === 'APPROVED' && nextInstallment && (
+                            <div className="text-xs text-muted-foreground">
+                              Next {formatCurrency(nextInstallment.amount - nextInstallment.amountPaid, plan.duesPayment.currency)} on {formatDate(nextInstallment.dueDate)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={statusColors[plan.status]}>
+                            {plan.status}
+                          </Badge>
+                          {plan.reviewNote && (
+                            <div className="text-xs text-muted-foreground mt-1">{plan.reviewNote}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {plan.status === 'PENDING' && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Approve Plan"
+                                className="text-green-600"
+                                onClick={() => {
+                                  setReviewNote('');
+                                  setReviewPlan({ plan, status: 'APPROVED' });
+                                }}
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Deny Plan"
+                                onClick={() => {
+                                  setReviewNote('');
+                                  setReviewPlan({ plan, status: 'DENIED' });
+                                }}
+                              >
+                                <X className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={reviewPlan !== null} onOpenChange={(open) => !open && setReviewPlan(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewPlan?.status === 'APPROVED' ? 'Approve Payment Plan' : 'Deny Payment Plan'}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewPlan && (
+                `${reviewPlan.plan.requestedBy.name || reviewPlan.plan.requestedBy.email} asked to pay ${describePlan(reviewPlan.plan)} starting ${formatDate(reviewPlan.plan.firstPaymentDate)}.`
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Optional note for the member"
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewPlan(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewPlan?.status === 'DENIED' ? 'destructive' : 'default'}
+              disabled={reviewMutation.isPending}
+              onClick={() => {
+                if (!reviewPlan) return;
+                reviewMutation.mutate({ planId: reviewPlan.plan.id, status: reviewPlan.status, note: reviewNote });
+              }}
+            >
+              {reviewPlan?.status === 'APPROVED' ? 'Approve' : 'Deny'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
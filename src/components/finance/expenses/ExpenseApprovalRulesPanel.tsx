@@ -0,0 +1,486 @@
+'use client';
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency } from "@/lib/utils/format";
+import { toMinorUnits } from '@/lib/finance/money';
+import { MembershipRole } from '@/generated/prisma';
+
+interface ApprovalStep {
+  order: number;
+  name: string;
+  approverRole: MembershipRole | null;
+  approverId: string | null;
+  approver: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  } | null;
+}
+
+interface ApprovalRule {
+  id: string;
+  name: string;
+  minAmount: number;
+  maxAmount: number | null;
+  isActive: boolean;
+  steps: ApprovalStep[];
+}
+
+// The API replaces the whole rule, steps included
+interface ApprovalRulePayload {
+  name: string;
+  minAmount: number;
+  maxAmount: number | null;
+  isActive: boolean;
+  steps: {
+    name: string;
+    approverId: string | null;
+    approverRole: MembershipRole | null;
+  }[];
+}
+
+interface ChapterMember {
+  role: MembershipRole;
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+  };
+}
+
+// Approvers are picked from one list, so roles and members share an encoded value
+const ROLE_PREFIX = 'role:';
+const USER_PREFIX = 'user:';
+
+const roleLabels: Partial<Record<MembershipRole, string>> = {
+  OWNER: 'Any owner',
+  ADMIN: 'Any admin',
+  MEMBER: 'Any member',
+};
+
+// Form schema
+const approvalRuleFormSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  minAmount: z.coerce.number().min(0, 'Minimum cannot be negative'),
+  maxAmount: z.coerce.number().positive('Maximum must be positive').optional(),
+  steps: z
+    .array(
+      z.object({
+        name: z.string().min(1, 'Step name is required'),
+        approver: z.string().min(1, 'Choose who approves this step'),
+      })
+    )
+    .min(1, 'Add at least one approval step'),
+}).refine(
+  (data) => data.maxAmount === undefined || data.maxAmount > data.minAmount,
+  { message: 'Maximum must be greater than the minimum', path: ['maxAmount'] }
+);
+
+type FormValues = z.infer<typeof approvalRuleFormSchema>;
+
+interface ExpenseApprovalRulesPanelProps {
+  chapterSlug: string;
+}
+
+// Describe an amount range, e.g. "$500.00 – under $2,000.00" or "$2,000.00 and up"
+function describeRange(rule: ApprovalRule) {
+  if (rule.maxAmount === null) {
+    return `${formatCurrency(rule.minAmount)} and up`;
+  }
+  return `${formatCurrency(rule.minAmount)} – under ${formatCurrency(rule.maxAmount)}`;
+}
+
+function describeApprover(step: ApprovalStep) {
+  if (step.approver) {
+    return step.approver.name || step.approver.email || 'Member';
+  }
+  return (step.approverRole && roleLabels[step.approverRole]) || 'Nobody';
+}
+
+function toRulePayload(rule: ApprovalRule): ApprovalRulePayload {
+  return {
+    name: rule.name,
+    minAmount: rule.minAmount,
+    maxAmount: rule.maxAmount,
+    isActive: rule.isActive,
+    steps: rule.steps.map((step) => ({
+      name: step.name,
+      approverId: step.approverId,
+      approverRole: step.approverRole,
+    })),
+  };
+}
+
+export function ExpenseApprovalRulesPanel({ chapterSlug }: ExpenseApprovalRulesPanelProps) {
+  // Fetch approval rules
+  const { data: rules, isLoading, error, refetch } = useQuery<ApprovalRule[]>({
+    queryKey: ['expense-approval-rules', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expense-approval-rules`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch approval chains');
+      }
+      return res.json();
+    },
+  });
+
+  // Fetch members that can be named as approvers
+  const { data: members } = useQuery<ChapterMember[]>({
+    queryKey: ['members', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/members`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch members');
+      }
+      const data = await res.json();
+      return data.members;
+    },
+  });
+
+  // Initialize form with react-hook-form
+  const form = useForm<FormValues>({
+    resolver: zodResolver(approvalRuleFormSchema),
+    defaultValues: {
+      name: '',
+      minAmount: 0,
+      steps: [{ name: 'Treasurer', approver: `${ROLE_PREFIX}${MembershipRole.ADMIN}` }],
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: 'steps',
+  });
+
+  // Create rule mutation
+  const createRule = useMutation({
+    mutationFn: async (data: ApprovalRulePayload) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expense-approval-rules`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to create approval chain');
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Approval chain created');
+      form.reset();
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Update rule mutation (used to toggle a rule on or off)
+  const updateRule = useMutation({
+    mutationFn: async (rule: ApprovalRule) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expense-approval-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRulePayload(rule)),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update approval chain');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Delete rule mutation
+  const deleteRule = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expense-approval-rules/${ruleId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to delete approval chain');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Approval chain deleted');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Handle form submission; the API takes amounts in cents
+  const onSubmit = (data: FormValues) => {
+    createRule.mutate({
+      name: data.name,
+      minAmount: toMinorUnits(data.minAmount),
+      maxAmount: data.maxAmount !== undefined ? toMinorUnits(data.maxAmount) : null,
+      isActive: true,
+      steps: data.steps.map((step) => ({
+        name: step.name,
+        approverId: step.approver.startsWith(USER_PREFIX) ? step.approver.slice(USER_PREFIX.length) : null,
+        approverRole: step.approver.startsWith(ROLE_PREFIX)
+          ? (step.approver.slice(ROLE_PREFIX.length) as MembershipRole)
+          : null,
+      })),
+    });
+  };
+
+  const approverCandidates = members?.filter((member) => member.role !== MembershipRole.PENDING_MEMBER) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Chains</CardTitle>
+        <CardDescription>
+          Expenses are approved step by step by the chain matching their amount. Without a matching chain, one admin
+          approval is enough. Nobody can approve two steps of the same expense.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load approval chains. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, index) => (
+              <Skeleton key={index} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : rules?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No approval chains yet. Every expense needs a single admin approval.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules?.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>{describeRange(rule)}</TableCell>
+                    <TableCell>
+                      <ol className="list-decimal pl-4 text-sm">
+                        {rule.steps.map((step) => (
+                          <li key={step.order}>
+                            {step.name} <span className="text-muted-foreground">({describeApprover(step)})</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        disabled={updateRule.isPending}
+                        onCheckedChange={(checked) => updateRule.mutate({ ...rule, isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete Chain"
+                        disabled={deleteRule.isPending}
+                        onClick={() => deleteRule.mutate(rule.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Large purchases" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="minAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="0.01" min="0" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Up To ($)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} type="number" step="0.01" min="0" />
+                    </FormControl>
+                    <FormDescription>Not included; leave blank for no limit</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <FormLabel>Steps</FormLabel>
+              {fields.map((stepField, index) => (
+                <div key={stepField.id} className="flex items-start gap-2">
+                  <span className="pt-2 text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input placeholder="Step name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`steps.${index}.approver`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="w-full">
+                              <SelectValue placeholder="Approver" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {[MembershipRole.ADMIN, MembershipRole.OWNER].map((role) => (
+                              <SelectItem key={role} value={`${ROLE_PREFIX}${role}`}>
+                                {roleLabels[role]}
+                              </SelectItem>
+                            ))}
+                            {approverCandidates.map((member) => (
+                              <SelectItem key={member.user.id} value={`${USER_PREFIX}${member.user.id}`}>
+                                {member.user.name || member.user.email}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    title="Remove Step"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({ name: '', approver: `${ROLE_PREFIX}${MembershipRole.ADMIN}` })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+            </div>
+
+            <Button type="submit" disabled={createRule.isPending}>
+              {createRule.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                'Add Approval Chain'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
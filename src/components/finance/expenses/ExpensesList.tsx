@@ -3,11 +3,24 @@
 import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import Link from 'next/link';
+import Image from 'next/image';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Pencil, Trash2, Eye, Filter, CheckCircle, XCircle } from 'lucide-react';
-import { formatCurrency } from "@/lib/utils/format";
+import { AlertCircle, Pencil, Trash2, Eye, Filter, CheckCircle, XCircle, Paperclip, FileText, ExternalLink, Banknote, Wallet } from 'lucide-react';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { receiptFileSchema, RECEIPT_CONTENT_TYPES } from '@/lib/validations/finance';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { BudgetWarning } from '@/lib/finance/budget-usage';
 import { Badge } from '@/components/ui/badge';
 import {
   Table,
@@ -25,14 +38,18 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { ExpenseStatus } from '@/generated/prisma';
+import { ExpenseApprovalDecision, ExpenseStatus, MembershipRole } from '@/generated/prisma';
 
 interface Expense {
   id: string;
   title: string;
   description?: string;
   amount: number;
+  currency: string;
   receiptUrl?: string;
+  receiptKey?: string | null;
+  receiptFileName?: string | null;
+  receiptContentType?: string | null;
   status: ExpenseStatus;
   submittedAt: Date;
   approvedAt?: Date;
@@ -41,6 +58,10 @@ interface Expense {
     id: string;
     name: string;
   } | null;
+  lineItem?: {
+    id: string;
+    name: string;
+  } | null;
   submittedBy: {
     id: string;
     name?: string | null;
@@ -52,6 +73,31 @@ interface Expense {
     name?: string | null;
     image?: string | null;
   } | null;
+  approvalRule?: {
+    id: string;
+    name: string;
+    steps: {
+      order: number;
+      name: string;
+      approverRole: MembershipRole | null;
+      approver: {
+        id: string;
+        name: string | null;
+      } | null;
+    }[];
+  } | null;
+  approvals: {
+    id: string;
+    stepOrder: number;
+    stepName: string;
+    decision: ExpenseApprovalDecision;
+    comment: string | null;
+    decidedAt: string;
+    decidedBy: {
+      id: string;
+      name: string | null;
+    };
+  }[];
 }
 import {
   Dialog,
@@ -62,6 +108,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { ExportMenu } from '@/components/finance/ExportMenu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
 interface ExpensesListProps {
@@ -75,11 +122,114 @@ const statusColors: Record<ExpenseStatus, string> = {
   PAID: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
 };
 
+interface BudgetOption {
+  id: string;
+  name: string;
+  lineItems?: { id: string; name: string }[];
+}
+
+// Value used by the selects for "no budget" / "no line item", which cannot be empty strings
+const NONE = 'none';
+
+// Toast each overrun reported by the API after an expense is saved
+function showBudgetWarnings(warnings: BudgetWarning[] | undefined, currency: string) {
+  warnings?.forEach((warning) => {
+    toast.warning(
+      `This puts ${warning.scope === 'lineItem' ? 'line item' : 'budget'} "${warning.name}" ${formatCurrency(warning.overBy, currency)} over its ${formatCurrency(warning.allocated, currency)} allocation`
+    );
+  });
+}
+
+// Where a pending expense is in its approval chain; expenses without a rule need one admin approval
+function getApprovalProgress(expense: Expense) {
+  const steps = expense.approvalRule?.steps.length
+    ? expense.approvalRule.steps
+    : [{ order: 1, name: 'Chapter admin', approverRole: null, approver: null }];
+  const approved = expense.approvals.filter((approval) => approval.decision === 'APPROVED');
+  const nextStep = steps.find((step) => !approved.some((approval) => approval.stepOrder === step.order));
+
+  return { steps, nextStep, approvedCount: approved.length };
+}
+
+// Small preview of an expense's receipt: the image itself, a PDF icon, or a link to an external receipt
+function ReceiptThumbnail({ chapterSlug, expense }: { chapterSlug: string; expense: Expense }) {
+  if (expense.receiptKey) {
+    const receiptPath = `/api/chapters/${chapterSlug}/finance/expenses/${expense.id}/receipt`;
+
+    return (
+      <a href={receiptPath} target="_blank" rel="noopener noreferrer" title={expense.receiptFileName || 'Receipt'}>
+        {expense.receiptContentType?.startsWith('image/') ? (
+          <Image
+            src={receiptPath}
+            alt={expense.receiptFileName || 'Receipt'}
+            width={40}
+            height={40}
+            unoptimized // Served from an authenticated route
+            className="h-10 w-10 rounded border object-cover"
+          />
+        ) : (
+          <div className="flex h-10 w-10 items-center justify-center rounded border bg-muted">
+            <FileText className="h-5 w-5 text-muted-foreground" />
+          </div>
+        )}
+      </a>
+    );
+  }
+
+  if (expense.receiptUrl) {
+    return (
+      <a href={expense.receiptUrl} target="_blank" rel="noopener noreferrer" title="External receipt">
+        <div className="flex h-10 w-10 items-center justify-center rounded border bg-muted">
+          <ExternalLink className="h-4 w-4 text-muted-foreground" />
+        </div>
+      </a>
+    );
+  }
+
+  return <span className="text-muted-foreground">—</span>;
+}
+
+// Decisions recorded so far, oldest first
+function ApprovalTrail({ expense }: { expense: Expense }) {
+  if (expense.approvals.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      {expense.approvals.map((approval) => (
+        <div key={approval.id}>
+          <div className="flex items-center gap-2">
+            {approval.decision === 'APPROVED' ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <XCircle className="h-4 w-4 text-destructive" />
+            )}
+            <span className="font-medium">{approval.stepName}</span>
+            <span className="text-muted-foreground">
+              {approval.decidedBy.name || 'Unknown'} · {formatDate(approval.decidedAt)}
+            </span>
+          </div>
+          {approval.comment && <p className="ml-6 text-muted-foreground">{approval.comment}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function ExpensesList({ chapterSlug }: ExpensesListProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [approveDialogOpen, setApproveDialogOpen] = useState(false);
   const [denyDialogOpen, setDenyDialogOpen] = useState(false);
+  const [paidDialogOpen, setPaidDialogOpen] = useState(false);
+  const [budgetDialogOpen, setBudgetDialogOpen] = useState(false);
+  const [budgetId, setBudgetId] = useState<string>(NONE);
+  const [lineItemId, setLineItemId] = useState<string>(NONE);
+  const [reviewComment, setReviewComment] = useState('');
   const [selectedExpenseId, setSelectedExpenseId] = useState<string | null>(null);
+  const [receiptDialogOpen, setReceiptDialogOpen] = useState(false);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<ExpenseStatus | 'ALL'>('ALL');
 
   // Fetch expenses data
@@ -105,7 +255,8 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
         method: 'DELETE',
       });
       if (!res.ok) {
-        throw new Error('Failed to delete expense');
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete expense');
       }
       return res.json();
     },
@@ -120,7 +271,7 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
       toast.success('Expense deleted successfully');
       refetch();
     } catch (error) {
-      toast.error('Error deleting expense');
+      toast.error(error instanceof Error ? error.message : 'Error deleting expense');
       console.error(error);
     } finally {
       setDeleteDialogOpen(false);
@@ -130,14 +281,15 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
 
   // Approve expense mutation
   const approveExpenseMutation = useMutation({
-    mutationFn: async (expenseId: string) => {
-      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}`, {
+    mutationFn: async ({ expenseId, comment }: { expenseId: string; comment: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}?approve`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'APPROVED' }),
+        body: JSON.stringify({ status: 'APPROVED', comment: comment || null }),
       });
       if (!res.ok) {
-        throw new Error('Failed to approve expense');
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to approve expense');
       }
       return res.json();
     },
@@ -148,28 +300,33 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
     if (!selectedExpenseId) return;
     
     try {
-      await approveExpenseMutation.mutateAsync(selectedExpenseId);
-      toast.success('Expense approved successfully');
+      const expense: Expense = await approveExpenseMutation.mutateAsync({
+        expenseId: selectedExpenseId,
+        comment: reviewComment.trim(),
+      });
+      toast.success(expense.status === 'APPROVED' ? 'Expense approved successfully' : 'Approval recorded');
       refetch();
     } catch (error) {
-      toast.error('Error approving expense');
+      toast.error(`Error: ${(error as Error).message}`);
       console.error(error);
     } finally {
       setApproveDialogOpen(false);
       setSelectedExpenseId(null);
+      setReviewComment('');
     }
   };
 
   // Reject expense mutation
   const rejectExpenseMutation = useMutation({
-    mutationFn: async (expenseId: string) => {
-      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}`, {
+    mutationFn: async ({ expenseId, comment }: { expenseId: string; comment: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}?approve`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: 'DENIED' }),
+        body: JSON.stringify({ status: 'DENIED', comment }),
       });
       if (!res.ok) {
-        throw new Error('Failed to reject expense');
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to reject expense');
       }
       return res.json();
     },
@@ -180,18 +337,164 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
     if (!selectedExpenseId) return;
     
     try {
-      await rejectExpenseMutation.mutateAsync(selectedExpenseId);
+      await rejectExpenseMutation.mutateAsync({
+        expenseId: selectedExpenseId,
+        comment: reviewComment.trim(),
+      });
       toast.success('Expense denied');
       refetch();
     } catch (error) {
-      toast.error('Error updating expense');
+      toast.error(`Error: ${(error as Error).message}`);
       console.error(error);
     } finally {
       setDenyDialogOpen(false);
       setSelectedExpenseId(null);
+      setReviewComment('');
+    }
+  };
+
+  // Pay out an approved expense
+  const markPaidMutation = useMutation({
+    mutationFn: async (expenseId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}?approve`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'PAID' }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to mark expense as paid');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Expense marked as paid');
+      setPaidDialogOpen(false);
+      setSelectedExpenseId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Budgets to assign expenses to
+  const { data: budgets } = useQuery<BudgetOption[]>({
+    queryKey: ['budgets', chapterSlug, 'ALL'],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/budgets`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch budgets');
+      }
+      return res.json();
+    },
+    enabled: budgetDialogOpen,
+  });
+
+  // Line items of the budget picked in the dialog
+  const { data: selectedBudget } = useQuery<BudgetOption>({
+    queryKey: ['budget', chapterSlug, budgetId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/budgets/${budgetId}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch budget');
+      }
+      return res.json();
+    },
+    enabled: budgetDialogOpen && budgetId !== NONE,
+  });
+
+  // Move an expense to a budget and line item
+  const assignBudgetMutation = useMutation({
+    mutationFn: async (expenseId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          budgetId: budgetId === NONE ? null : budgetId,
+          lineItemId: lineItemId === NONE ? null : lineItemId,
+        }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update expense budget');
+      }
+      return res.json();
+    },
+    onSuccess: (expense) => {
+      toast.success('Expense budget updated');
+      showBudgetWarnings(expense.budgetWarnings, expense.currency);
+      setBudgetDialogOpen(false);
+      setSelectedExpenseId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Upload or replace a receipt
+  const uploadReceiptMutation = useMutation({
+    mutationFn: async ({ expenseId, file }: { expenseId: string; file: File }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}/receipt`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to upload receipt');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Receipt uploaded');
+      setReceiptDialogOpen(false);
+      setReceiptFile(null);
+      setSelectedExpenseId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const removeReceiptMutation = useMutation({
+    mutationFn: async (expenseId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/expenses/${expenseId}/receipt`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to remove receipt');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Receipt removed');
+      setReceiptDialogOpen(false);
+      setSelectedExpenseId(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Check the file type and size before uploading
+  const handleReceiptFileChange = (file: File | null) => {
+    setReceiptFile(file);
+    if (!file) {
+      setReceiptError(null);
+      return;
     }
+    const result = receiptFileSchema.safeParse(file);
+    setReceiptError(result.success ? null : result.error.issues[0].message);
   };
 
+  const selectedExpense = expenses?.find((expense: Expense) => expense.id === selectedExpenseId) as Expense | undefined;
+
   // Helper to get user initials for avatar
   const getInitials = (name: string) => {
     return name
@@ -220,33 +523,38 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
         <CardContent className="p-0 sm:p-6">
           <div className="flex justify-between items-center mb-4 p-4 sm:p-0">
             <h3 className="text-lg font-medium">Expense Requests</h3>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm">
-                  <Filter className="h-4 w-4 mr-2" />
-                  {statusFilter === 'ALL' ? 'All Statuses' : statusFilter}
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={() => setStatusFilter('ALL')}>
-                  All Statuses
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('PENDING')}>
-                  Pending
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('APPROVED')}>
-                  Approved
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('PAID')}>
-                  Paid
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => setStatusFilter('DENIED')}>
-                  Denied
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Filter className="h-4 w-4 mr-2" />
+                    {statusFilter === 'ALL' ? 'All Statuses' : statusFilter}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Filter by Status</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setStatusFilter('ALL')}>
+                    All Statuses
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('PENDING')}>
+                    Pending
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('APPROVED')}>
+                    Approved
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('PAID')}>
+                    Paid
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter('DENIED')}>
+                    Denied
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <ExportMenu
+                exportUrl={statusFilter === 'ALL' ? `/api/chapters/${chapterSlug}/finance/expenses/export` : `/api/chapters/${chapterSlug}/finance/expenses/export?status=${statusFilter}`}
+              />
+            </div>
           </div>
           
           {isLoading ? (
@@ -277,6 +585,7 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
                     <TableHead>Title</TableHead>
                     <TableHead>Submitted By</TableHead>
                     <TableHead>Amount</TableHead>
+                    <TableHead>Receipt</TableHead>
                     <TableHead>Budget</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -295,12 +604,29 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
                           <span>{expense.submittedBy.name || expense.submittedBy.email}</span>
                         </div>
                       </TableCell>
-                      <TableCell>{formatCurrency(expense.amount)}</TableCell>
-                      <TableCell>{expense.budget?.name || 'N/A'}</TableCell>
+                      <TableCell>{formatCurrency(expense.amount, expense.currency)}</TableCell>
+                      <TableCell>
+                        <ReceiptThumbnail chapterSlug={chapterSlug} expense={expense} />
+                      </TableCell>
+                      <TableCell>
+                        <div>{expense.budget?.name || 'N/A'}</div>
+                        {expense.lineItem && (
+                          <div className="text-xs text-muted-foreground">{expense.lineItem.name}</div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className={statusColors[expense.status]}>
                           {expense.status}
                         </Badge>
+                        {expense.status === 'PENDING' && (() => {
+                          const { steps, nextStep, approvedCount } = getApprovalProgress(expense);
+                          return nextStep && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {steps.length > 1 && `${approvedCount} of ${steps.length} approved · `}
+                              Waiting on {nextStep.approver?.name || nextStep.name}
+                            </div>
+                          );
+                        })()}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -313,6 +639,7 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
                                 className="text-green-600"
                                 onClick={() => {
                                   setSelectedExpenseId(expense.id);
+                                  setReviewComment('');
                                   setApproveDialogOpen(true);
                                 }}
                               >
@@ -325,6 +652,7 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
                                 className="text-destructive"
                                 onClick={() => {
                                   setSelectedExpenseId(expense.id);
+                                  setReviewComment('');
                                   setDenyDialogOpen(true);
                                 }}
                               >
@@ -332,6 +660,45 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
                               </Button>
                             </>
                           )}
+                          {expense.status === 'APPROVED' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Mark as Paid"
+                              className="text-green-600"
+                              onClick={() => {
+                                setSelectedExpenseId(expense.id);
+                                setPaidDialogOpen(true);
+                              }}
+                            >
+                              <Banknote className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Assign Budget"
+                            onClick={() => {
+                              setSelectedExpenseId(expense.id);
+                              setBudgetId(expense.budget?.id ?? NONE);
+                              setLineItemId(expense.lineItem?.id ?? NONE);
+                              setBudgetDialogOpen(true);
+                            }}
+                          >
+                            <Wallet className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={expense.receiptKey ? 'Replace Receipt' : 'Upload Receipt'}
+                            onClick={() => {
+                              setSelectedExpenseId(expense.id);
+                              handleReceiptFileChange(null);
+                              setReceiptDialogOpen(true);
+                            }}
+                          >
+                            <Paperclip className="h-4 w-4" />
+                          </Button>
                           <Link href={`/${chapterSlug}/admin/finance/expenses/${expense.id}`}>
                             <Button variant="ghost" size="icon" title="View Details">
                               <Eye className="h-4 w-4" />
@@ -384,20 +751,147 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Budget Assignment Dialog */}
+      <Dialog open={budgetDialogOpen} onOpenChange={setBudgetDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Budget</DialogTitle>
+            <DialogDescription>
+              Charge this expense to a budget and, optionally, one of its line items.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Budget</Label>
+              <Select
+                value={budgetId}
+                onValueChange={(value) => {
+                  setBudgetId(value);
+                  setLineItemId(NONE);
+                }}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No budget</SelectItem>
+                  {budgets?.map((budget) => (
+                    <SelectItem key={budget.id} value={budget.id}>
+                      {budget.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {budgetId !== NONE && !!selectedBudget?.lineItems?.length && (
+              <div className="space-y-2">
+                <Label>Line item</Label>
+                <Select value={lineItemId} onValueChange={setLineItemId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No line item</SelectItem>
+                    {selectedBudget.lineItems.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBudgetDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedExpenseId && assignBudgetMutation.mutate(selectedExpenseId)}
+              disabled={assignBudgetMutation.isPending}
+            >
+              {assignBudgetMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receipt Upload Dialog */}
+      <Dialog open={receiptDialogOpen} onOpenChange={setReceiptDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedExpense?.receiptKey ? 'Replace Receipt' : 'Upload Receipt'}</DialogTitle>
+            <DialogDescription>
+              Attach a photo or PDF of the receipt, up to 10 MB.
+              {selectedExpense?.receiptFileName && ` Current file: ${selectedExpense.receiptFileName}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="receipt-file">Receipt</Label>
+            <Input
+              id="receipt-file"
+              type="file"
+              accept={RECEIPT_CONTENT_TYPES.join(',')}
+              onChange={(e) => handleReceiptFileChange(e.target.files?.[0] ?? null)}
+            />
+            {receiptError && <p className="text-sm text-destructive">{receiptError}</p>}
+          </div>
+          <DialogFooter>
+            {selectedExpense?.receiptKey && (
+              <Button
+                variant="outline"
+                className="text-destructive sm:mr-auto"
+                onClick={() => selectedExpenseId && removeReceiptMutation.mutate(selectedExpenseId)}
+                disabled={removeReceiptMutation.isPending}
+              >
+                Remove Receipt
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setReceiptDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                selectedExpenseId && receiptFile && uploadReceiptMutation.mutate({ expenseId: selectedExpenseId, file: receiptFile })
+              }
+              disabled={!receiptFile || !!receiptError || uploadReceiptMutation.isPending}
+            >
+              {uploadReceiptMutation.isPending ? 'Uploading...' : 'Upload'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Approve Confirmation Dialog */}
       <Dialog open={approveDialogOpen} onOpenChange={setApproveDialogOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Approve Expense</DialogTitle>
             <DialogDescription>
-              Are you sure you want to approve this expense?
+              {selectedExpense && getApprovalProgress(selectedExpense).nextStep
+                ? `Approve the "${getApprovalProgress(selectedExpense).nextStep?.name}" step of this expense?`
+                : 'Are you sure you want to approve this expense?'}
             </DialogDescription>
           </DialogHeader>
+          {selectedExpense && <ApprovalTrail expense={selectedExpense} />}
+          <div className="space-y-2">
+            <Label htmlFor="approve-comment">Comment (optional)</Label>
+            <Textarea
+              id="approve-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+            />
+          </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setApproveDialogOpen(false)}>
               Cancel
             </Button>
-            <Button variant="default" className="bg-green-600 hover:bg-green-700" onClick={handleApprove}>
+            <Button
+              variant="default"
+              className="bg-green-600 hover:bg-green-700"
+              onClick={handleApprove}
+              disabled={approveExpenseMutation.isPending}
+            >
               Approve
             </Button>
           </DialogFooter>
@@ -410,19 +904,58 @@ export function ExpensesList({ chapterSlug }: ExpensesListProps) {
           <DialogHeader>
             <DialogTitle>Deny Expense</DialogTitle>
             <DialogDescription>
-              Are you sure you want to deny this expense?
+              Denying ends the review. The submitter is emailed your reason.
             </DialogDescription>
           </DialogHeader>
+          {selectedExpense && <ApprovalTrail expense={selectedExpense} />}
+          <div className="space-y-2">
+            <Label htmlFor="deny-comment">Reason</Label>
+            <Textarea
+              id="deny-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+            />
+          </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setDenyDialogOpen(false)}>
               Cancel
             </Button>
-            <Button variant="destructive" onClick={handleDeny}>
+            <Button
+              variant="destructive"
+              onClick={handleDeny}
+              disabled={!reviewComment.trim() || rejectExpenseMutation.isPending}
+            >
               Deny
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Mark Paid Confirmation Dialog */}
+      <Dialog open={paidDialogOpen} onOpenChange={setPaidDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Expense as Paid</DialogTitle>
+            <DialogDescription>
+              {selectedExpense
+                ? `Record the ${formatCurrency(selectedExpense.amount, selectedExpense.currency)} payment to ${selectedExpense.submittedBy.name || selectedExpense.submittedBy.email}?`
+                : 'Record this expense as paid?'}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedExpense && <ApprovalTrail expense={selectedExpense} />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaidDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selectedExpenseId && markPaidMutation.mutate(selectedExpenseId)}
+              disabled={markPaidMutation.isPending}
+            >
+              {markPaidMutation.isPending ? 'Saving...' : 'Mark Paid'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
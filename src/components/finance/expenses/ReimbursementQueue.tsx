@@ -0,0 +1,579 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format, parse } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertCircle, Banknote, CheckCircle, Pencil, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { describePaymentMethod, OFFLINE_PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '@/lib/finance/payment-methods';
+import { PaymentMethod, ReimbursementStatus } from '@/generated/prisma';
+
+interface Payee {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface PayeeGroup {
+  payeeId: string;
+  currency: string;
+  total: number;
+  payee: Payee;
+  payoutMethod: {
+    method: PaymentMethod;
+    details: string | null;
+  } | null;
+  expenses: {
+    id: string;
+    title: string;
+    amount: number;
+    approvedAt: string | null;
+  }[];
+}
+
+interface Reimbursement {
+  id: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  payoutDetails: string | null;
+  reference: string | null;
+  status: ReimbursementStatus;
+  failureReason: string | null;
+  paidAt: string | null;
+  createdAt: string;
+  payee: Payee;
+  expenses: {
+    id: string;
+    title: string;
+  }[];
+}
+
+interface ReimbursementQueueData {
+  payees: PayeeGroup[];
+  reimbursements: Reimbursement[];
+}
+
+interface ReimbursementQueueProps {
+  chapterSlug: string;
+}
+
+// Where the payout goes for each method
+const detailsLabels: Partial<Record<PaymentMethod, string>> = {
+  CHECK: 'Mailing address',
+  VENMO: 'Venmo username',
+  ZELLE: 'Zelle email or phone',
+  BANK_TRANSFER: 'Bank details',
+  OTHER: 'Details',
+};
+
+const statusColors: Record<ReimbursementStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100',
+  PAID: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100',
+};
+
+// Value of the method select that keeps each member's own payout method
+const MEMBER_METHOD = 'member';
+
+const payeeName = (payee: Payee) => payee.name || payee.email || 'Member';
+
+export function ReimbursementQueue({ chapterSlug }: ReimbursementQueueProps) {
+  const [selectedExpenseIds, setSelectedExpenseIds] = useState<string[]>([]);
+  const [reimburseDialogOpen, setReimburseDialogOpen] = useState(false);
+  const [reference, setReference] = useState('');
+  const [paidDate, setPaidDate] = useState('');
+  const [batchMethod, setBatchMethod] = useState<string>(MEMBER_METHOD);
+  const [issuePayout, setIssuePayout] = useState(false);
+  const [payoutMethodPayee, setPayoutMethodPayee] = useState<PayeeGroup | null>(null);
+  const [payoutMethod, setPayoutMethod] = useState<PaymentMethod>(PaymentMethod.VENMO);
+  const [payoutDetails, setPayoutDetails] = useState('');
+
+  const { data, isLoading, error, refetch } = useQuery<ReimbursementQueueData>({
+    queryKey: ['reimbursements', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reimbursements`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch reimbursement queue');
+      }
+      return res.json();
+    },
+  });
+
+  // Reimburse the selected expenses, one payout per member
+  const reimburseMutation = useMutation({
+    mutationFn: async (payload: {
+      expenseIds: string[];
+      reference: string;
+      paidAt?: Date;
+      method?: PaymentMethod;
+      issuePayout: boolean;
+    }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reimbursements`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to reimburse expenses');
+      }
+      return res.json() as Promise<Reimbursement[]>;
+    },
+    onSuccess: (reimbursements) => {
+      const failed = reimbursements.filter((reimbursement) => reimbursement.status === ReimbursementStatus.FAILED);
+      if (failed.length > 0) {
+        toast.error(`${failed.length} payout${failed.length === 1 ? '' : 's'} failed and went back to the queue`);
+      } else {
+        toast.success(`${reimbursements.length} reimbursement${reimbursements.length === 1 ? '' : 's'} recorded`);
+      }
+      setReimburseDialogOpen(false);
+      setSelectedExpenseIds([]);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const payoutMethodMutation = useMutation({
+    mutationFn: async (payload: { userId: string; method: PaymentMethod; details: string }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reimbursements/payout-methods`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.issues?.[0]?.message || errorData.error || 'Failed to save payout method');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success('Payout method saved');
+      setPayoutMethodPayee(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  // Settle a payout the provider left pending
+  const settleMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: 'PAID' | 'FAILED' }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reimbursements/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update reimbursement');
+      }
+      return res.json();
+    },
+    onSuccess: (_, { status }) => {
+      toast.success(status === 'PAID' ? 'Reimbursement marked as paid' : 'Expenses returned to the queue');
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const toggleExpenses = (expenseIds: string[], checked: boolean) => {
+    setSelectedExpenseIds((current) =>
+      checked
+        ? [...new Set([...current, ...expenseIds])]
+        : current.filter((id) => !expenseIds.includes(id))
+    );
+  };
+
+  const openReimburseDialog = () => {
+    setReference('');
+    setPaidDate(format(new Date(), 'yyyy-MM-dd'));
+    setBatchMethod(MEMBER_METHOD);
+    setIssuePayout(false);
+    setReimburseDialogOpen(true);
+  };
+
+  const openPayoutMethodDialog = (group: PayeeGroup) => {
+    setPayoutMethod(group.payoutMethod?.method ?? PaymentMethod.VENMO);
+    setPayoutDetails(group.payoutMethod?.details ?? '');
+    setPayoutMethodPayee(group);
+  };
+
+  const selectedGroups = (data?.payees ?? [])
+    .map((group) => ({
+      ...group,
+      expenses: group.expenses.filter((expense) => selectedExpenseIds.includes(expense.id)),
+    }))
+    .filter((group) => group.expenses.length > 0);
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Reimbursements</CardTitle>
+          <CardDescription>Error loading reimbursement queue</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load reimbursements. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Reimbursement Queue</CardTitle>
+            <CardDescription>Approved expenses waiting to be paid back, grouped by who submitted them.</CardDescription>
+          </div>
+          <Button onClick={openReimburseDialog} disabled={selectedGroups.length === 0}>
+            <Banknote className="mr-2 h-4 w-4" />
+            Mark as Reimbursed{selectedExpenseIds.length > 0 && ` (${selectedExpenseIds.length})`}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !data ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : data.payees.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">Nothing to reimburse. Approved expenses show up here.</p>
+          ) : (
+            <div className="space-y-4">
+              {data.payees.map((group) => {
+                const expenseIds = group.expenses.map((expense) => expense.id);
+                const allSelected = expenseIds.every((id) => selectedExpenseIds.includes(id));
+
+                return (
+                  <div key={`${group.payeeId}:${group.currency}`} className="rounded-md border">
+                    <div className="flex items-center justify-between gap-4 border-b p-3">
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => toggleExpenses(expenseIds, checked === true)}
+                          aria-label={`Select all expenses from ${payeeName(group.payee)}`}
+                        />
+                        <div>
+                          <div className="font-medium">{payeeName(group.payee)}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {group.payoutMethod
+                              ? describePaymentMethod(group.payoutMethod.method, group.payoutMethod.details)
+                              : 'No payout method saved'}
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto px-2 py-0"
+                              onClick={() => openPayoutMethodDialog(group)}
+                            >
+                              <Pencil className="mr-1 h-3 w-3" />
+                              {group.payoutMethod ? 'Edit' : 'Add'}
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right font-semibold">{formatCurrency(group.total, group.currency)}</div>
+                    </div>
+                    <Table>
+                      <TableBody>
+                        {group.expenses.map((expense) => (
+                          <TableRow key={expense.id}>
+                            <TableCell className="w-10">
+                              <Checkbox
+                                checked={selectedExpenseIds.includes(expense.id)}
+                                onCheckedChange={(checked) => toggleExpenses([expense.id], checked === true)}
+                                aria-label={`Select ${expense.title}`}
+                              />
+                            </TableCell>
+                            <TableCell>{expense.title}</TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {expense.approvedAt ? `Approved ${formatDate(expense.approvedAt)}` : 'Approved'}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(expense.amount, group.currency)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Reimbursements</CardTitle>
+          <CardDescription>Payouts to members for their expenses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !data ? (
+            <Skeleton className="h-24 w-full" />
+          ) : data.reimbursements.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No reimbursements yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Expenses</TableHead>
+                    <TableHead>Paid By</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.reimbursements.map((reimbursement) => (
+                    <TableRow key={reimbursement.id}>
+                      <TableCell>{formatDate(reimbursement.paidAt ?? reimbursement.createdAt)}</TableCell>
+                      <TableCell>{payeeName(reimbursement.payee)}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {reimbursement.expenses.map((expense) => expense.title).join(', ') || '—'}
+                      </TableCell>
+                      <TableCell>{describePaymentMethod(reimbursement.method, reimbursement.payoutDetails)}</TableCell>
+                      <TableCell>{reimbursement.reference || '—'}</TableCell>
+                      <TableCell>
+                        <Badge className={statusColors[reimbursement.status]} title={reimbursement.failureReason ?? undefined}>
+                          {reimbursement.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(reimbursement.amount, reimbursement.currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {reimbursement.status === ReimbursementStatus.PENDING && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Mark Paid"
+                              disabled={settleMutation.isPending}
+                              onClick={() => settleMutation.mutate({ id: reimbursement.id, status: 'PAID' })}
+                            >
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Mark Failed"
+                              disabled={settleMutation.isPending}
+                              onClick={() => settleMutation.mutate({ id: reimbursement.id, status: 'FAILED' })}
+                            >
+                              <XCircle className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reimburse Dialog */}
+      <Dialog open={reimburseDialogOpen} onOpenChange={setReimburseDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark as Reimbursed</DialogTitle>
+            <DialogDescription>
+              Each member gets one reimbursement covering their selected expenses. The expenses are marked paid and
+              recorded in the books.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1 rounded-md border p-3 text-sm">
+              {selectedGroups.map((group) => (
+                <div key={`${group.payeeId}:${group.currency}`} className="flex justify-between">
+                  <span>
+                    {payeeName(group.payee)}{' '}
+                    <span className="text-muted-foreground">
+                      ({group.expenses.length} expense{group.expenses.length === 1 ? '' : 's'})
+                    </span>
+                  </span>
+                  <span className="font-medium">
+                    {formatCurrency(
+                      group.expenses.reduce((sum, expense) => sum + expense.amount, 0),
+                      group.currency
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={batchMethod} onValueChange={setBatchMethod}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={MEMBER_METHOD}>Each member’s payout method</SelectItem>
+                    {OFFLINE_PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reimburse-reference">Reference</Label>
+                <Input
+                  id="reimburse-reference"
+                  placeholder="Check number or batch ID"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                />
+              </div>
+            </div>
+            {!issuePayout && (
+              <div className="space-y-2">
+                <Label htmlFor="reimburse-date">Date paid</Label>
+                <Input
+                  id="reimburse-date"
+                  type="date"
+                  value={paidDate}
+                  onChange={(e) => setPaidDate(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="reimburse-issue-payout"
+                checked={issuePayout}
+                onCheckedChange={(checked) => setIssuePayout(checked === true)}
+              />
+              <Label htmlFor="reimburse-issue-payout">Send the payouts now instead of recording ones already made</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReimburseDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                reimburseMutation.mutate({
+                  expenseIds: selectedGroups.flatMap((group) => group.expenses.map((expense) => expense.id)),
+                  reference,
+                  paidAt: issuePayout ? undefined : parse(paidDate, 'yyyy-MM-dd', new Date()),
+                  method: batchMethod === MEMBER_METHOD ? undefined : (batchMethod as PaymentMethod),
+                  issuePayout,
+                })
+              }
+              disabled={reimburseMutation.isPending || (!issuePayout && !paidDate)}
+            >
+              {reimburseMutation.isPending ? 'Saving...' : issuePayout ? 'Send Payouts' : 'Mark as Reimbursed'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Payout Method Dialog */}
+      <Dialog open={payoutMethodPayee !== null} onOpenChange={(open) => !open && setPayoutMethodPayee(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Payout Method</DialogTitle>
+            <DialogDescription>
+              How {payoutMethodPayee ? payeeName(payoutMethodPayee.payee) : 'this member'} wants to be reimbursed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={payoutMethod} onValueChange={(value) => setPayoutMethod(value as PaymentMethod)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OFFLINE_PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {detailsLabels[payoutMethod] && (
+              <div className="space-y-2">
+                <Label htmlFor="payout-details">{detailsLabels[payoutMethod]}</Label>
+                <Input
+                  id="payout-details"
+                  value={payoutDetails}
+                  onChange={(e) => setPayoutDetails(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayoutMethodPayee(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!payoutMethodPayee) return;
+                payoutMethodMutation.mutate({
+                  userId: payoutMethodPayee.payeeId,
+                  method: payoutMethod,
+                  details: detailsLabels[payoutMethod] ? payoutDetails : '',
+                });
+              }}
+              disabled={payoutMethodMutation.isPending}
+            >
+              {payoutMethodMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useState } from 'react';
+import { StatementImportsList } from '@/components/finance/reconciliation/StatementImportsList';
+import { StatementLinesList } from '@/components/finance/reconciliation/StatementLinesList';
+
+interface BankReconciliationProps {
+  chapterSlug: string;
+}
+
+export function BankReconciliation({ chapterSlug }: BankReconciliationProps) {
+  const [selectedImportId, setSelectedImportId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <StatementImportsList
+        chapterSlug={chapterSlug}
+        selectedImportId={selectedImportId}
+        onSelect={setSelectedImportId}
+      />
+
+      {selectedImportId && (
+        <StatementLinesList key={selectedImportId} chapterSlug={chapterSlug} importId={selectedImportId} />
+      )}
+    </div>
+  );
+}
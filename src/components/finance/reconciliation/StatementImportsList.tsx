@@ -0,0 +1,223 @@
+'use client';
+
+interface StatementImport {
+  id: string;
+  fileName: string;
+  format: 'CSV' | 'OFX';
+  importedAt: string;
+  lineCount: number;
+  reconciledCount: number;
+  ignoredCount: number;
+  startDate: string | null;
+  endDate: string | null;
+  importedBy: {
+    id: string;
+    name: string | null;
+  } | null;
+}
+
+import { useRef, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, Trash2, Upload } from 'lucide-react';
+import { formatDate } from "@/lib/utils/format";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+
+interface StatementImportsListProps {
+  chapterSlug: string;
+  selectedImportId: string | null;
+  onSelect: (importId: string | null) => void;
+}
+
+export function StatementImportsList({ chapterSlug, selectedImportId, onSelect }: StatementImportsListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: imports, isLoading, error, refetch } = useQuery<StatementImport[]>({
+    queryKey: ['bankStatements', chapterSlug],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch bank statements');
+      }
+      return res.json();
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (statementFile: File) => {
+      const formData = new FormData();
+      formData.append('file', statementFile);
+
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to import bank statement');
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      const skipped = data.skippedCount > 0 ? `, ${data.skippedCount} already imported` : '';
+      toast.success(`Imported ${data.lineCount} lines and matched ${data.matchedCount}${skipped}`);
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      onSelect(data.id);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (importId: string) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation/${importId}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to delete bank statement');
+      }
+      return res.json();
+    },
+    onSuccess: (_, importId) => {
+      toast.success('Bank statement deleted');
+      if (importId === selectedImportId) {
+        onSelect(null);
+      }
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bank Statements</CardTitle>
+        <CardDescription>
+          Import a CSV or OFX export from the chapter&apos;s bank to reconcile it against recorded transactions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="statement-file">Statement file</Label>
+            <Input
+              id="statement-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.ofx,.qfx,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <Button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!file || importMutation.isPending}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+
+        {error ? (
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load bank statements. Please try again later.</p>
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : imports?.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No bank statements imported yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Progress</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {imports?.map((statementImport) => {
+                const handled = statementImport.reconciledCount + statementImport.ignoredCount;
+
+                return (
+                  <TableRow
+                    key={statementImport.id}
+                    className={`cursor-pointer ${statementImport.id === selectedImportId ? 'bg-muted' : ''}`}
+                    onClick={() => onSelect(statementImport.id)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{statementImport.fileName}</div>
+                      <Badge variant="outline">{statementImport.format}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {statementImport.startDate && statementImport.endDate
+                        ? `${formatDate(statementImport.startDate)} – ${formatDate(statementImport.endDate)}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="min-w-[140px]">
+                      <Progress value={statementImport.lineCount ? (handled / statementImport.lineCount) * 100 : 0} />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {handled} of {statementImport.lineCount} lines done
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDate(statementImport.importedAt)}</div>
+                      {statementImport.importedBy?.name && (
+                        <div className="text-xs text-muted-foreground">{statementImport.importedBy.name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete"
+                        disabled={statementImport.reconciledCount > 0 || deleteMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteMutation.mutate(statementImport.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
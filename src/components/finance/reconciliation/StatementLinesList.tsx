@@ -0,0 +1,445 @@
+'use client';
+
+interface StatementLine {
+  id: string;
+  date: string;
+  amount: number;
+  currency: string;
+  description: string;
+  reference: string | null;
+  status: BankStatementLineStatus;
+  matchedTransaction: {
+    id: string;
+    type: TransactionType;
+    description: string | null;
+  } | null;
+  matchedExpense: {
+    id: string;
+    title: string;
+    submittedBy: { id: string; name: string | null };
+  } | null;
+  matchedDuesPayment: {
+    id: string;
+    dueDate: string;
+    user: { id: string; name: string | null; email: string };
+  } | null;
+}
+
+interface UnreconciledTransaction {
+  id: string;
+  amount: number;
+  currency: string;
+  type: TransactionType;
+  description: string | null;
+  processedAt: string | null;
+  createdAt: string;
+}
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, Check, EyeOff, Link2, Plus, RefreshCw, Undo2 } from 'lucide-react';
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { BankStatementLineStatus, TransactionType } from '@/generated/prisma';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface StatementLinesListProps {
+  chapterSlug: string;
+  importId: string;
+}
+
+const lineStatusColors: Record<BankStatementLineStatus, string> = {
+  UNMATCHED: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100',
+  MATCHED: 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100',
+  RECONCILED: 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100',
+  IGNORED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100',
+};
+
+// Transfers are recorded from the ledger, so they cannot be created from a statement line
+const creatableTypes = Object.values(TransactionType).filter((type) => type !== TransactionType.TRANSFER);
+
+// Describe the record a line was matched to
+function describeMatch(line: StatementLine): string | null {
+  if (line.matchedTransaction) {
+    return `${line.matchedTransaction.type.replace('_', ' ')}: ${line.matchedTransaction.description || 'Transaction'}`;
+  }
+  if (line.matchedExpense) {
+    return `Expense: ${line.matchedExpense.title} (${line.matchedExpense.submittedBy.name || 'Unknown'})`;
+  }
+  if (line.matchedDuesPayment) {
+    const member = line.matchedDuesPayment.user.name || line.matchedDuesPayment.user.email;
+    return `Dues: ${member}, due ${formatDate(line.matchedDuesPayment.dueDate)}`;
+  }
+  return null;
+}
+
+export function StatementLinesList({ chapterSlug, importId }: StatementLinesListProps) {
+  const queryClient = useQueryClient();
+  const [selectedLine, setSelectedLine] = useState<StatementLine | null>(null);
+  const [matchDialogOpen, setMatchDialogOpen] = useState(false);
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [matchTransactionId, setMatchTransactionId] = useState('');
+  const [createType, setCreateType] = useState<TransactionType>(TransactionType.OTHER);
+  const [createDescription, setCreateDescription] = useState('');
+
+  const { data: statementImport, isLoading, error, refetch } = useQuery<{ id: string; fileName: string; lines: StatementLine[] }>({
+    queryKey: ['bankStatement', chapterSlug, importId],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation/${importId}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch bank statement');
+      }
+      return res.json();
+    },
+  });
+
+  // Transactions that can still be matched by hand
+  const { data: unreconciledTransactions } = useQuery<UnreconciledTransaction[]>({
+    queryKey: ['transactions', chapterSlug, 'unreconciled'],
+    queryFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/transactions?reconciled=false`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch transactions');
+      }
+      return res.json();
+    },
+    enabled: matchDialogOpen,
+  });
+
+  const refresh = () => {
+    refetch();
+    queryClient.invalidateQueries({ queryKey: ['bankStatements', chapterSlug] });
+    queryClient.invalidateQueries({ queryKey: ['transactions', chapterSlug] });
+  };
+
+  const lineMutation = useMutation({
+    mutationFn: async ({ lineId, body }: { lineId: string; body: Record<string, unknown> }) => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation/lines/${lineId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update statement line');
+      }
+      return res.json();
+    },
+    onSuccess: (_, { body }) => {
+      const messages: Record<string, string> = {
+        match: 'Match updated',
+        confirm: 'Line reconciled',
+        ignore: 'Line ignored',
+        create: 'Transaction created and reconciled',
+      };
+      toast.success(messages[body.action as string]);
+      setMatchDialogOpen(false);
+      setCreateDialogOpen(false);
+      setSelectedLine(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  const rematchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/chapters/${chapterSlug}/finance/reconciliation/${importId}/rematch`, {
+        method: 'POST',
+      });
+      if (!res.ok) {
+        throw new Error('Failed to match statement lines');
+      }
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast.success(`Matched ${data.matchedCount} more lines`);
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Error: ${error.message}`);
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center p-4">
+            <AlertCircle className="h-8 w-8 text-destructive mr-2" />
+            <p>Failed to load statement lines. Please try again later.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const candidateTransactions = unreconciledTransactions?.filter(
+    (transaction) => transaction.type !== TransactionType.TRANSFER && transaction.amount === selectedLine?.amount
+  ) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{statementImport?.fileName || 'Statement Lines'}</CardTitle>
+          <CardDescription>
+            Confirm suggested matches, match lines by hand, or record what the books are missing.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => rematchMutation.mutate()}
+          disabled={rematchMutation.isPending}
+        >
+          <RefreshCw className="mr-1 h-4 w-4" />
+          Find Matches
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Matched To</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statementImport?.lines.map((line) => {
+                const isOpen = line.status !== BankStatementLineStatus.RECONCILED;
+
+                return (
+                  <TableRow key={line.id}>
+                    <TableCell>{formatDate(line.date)}</TableCell>
+                    <TableCell>
+                      <div>{line.description}</div>
+                      {line.reference && (
+                        <div className="text-xs text-muted-foreground">{line.reference}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium ${line.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(line.amount, line.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={lineStatusColors[line.status]}>
+                        {line.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeMatch(line) || '—'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {line.status === BankStatementLineStatus.MATCHED && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Confirm"
+                          disabled={lineMutation.isPending}
+                          onClick={() => lineMutation.mutate({ lineId: line.id, body: { action: 'confirm' } })}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isOpen && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Match to Transaction"
+                            onClick={() => {
+                              setSelectedLine(line);
+                              setMatchTransactionId(line.matchedTransaction?.id || '');
+                              setMatchDialogOpen(true);
+                            }}
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Create Transaction"
+                            onClick={() => {
+                              setSelectedLine(line);
+                              setCreateType(line.amount >= 0 ? TransactionType.INCOME : TransactionType.EXPENSE);
+                              setCreateDescription(line.description);
+                              setCreateDialogOpen(true);
+                            }}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {line.status === BankStatementLineStatus.IGNORED ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Restore"
+                          disabled={lineMutation.isPending}
+                          onClick={() => lineMutation.mutate({ lineId: line.id, body: { action: 'match' } })}
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                      ) : isOpen && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Ignore"
+                          disabled={lineMutation.isPending}
+                          onClick={() => lineMutation.mutate({ lineId: line.id, body: { action: 'ignore' } })}
+                        >
+                          <EyeOff className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Match Dialog */}
+      <Dialog open={matchDialogOpen} onOpenChange={setMatchDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Match to Transaction</DialogTitle>
+            <DialogDescription>
+              Pick the unreconciled transaction for {selectedLine && formatCurrency(selectedLine.amount, selectedLine.currency)}.
+              Only transactions with the same amount are listed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Transaction</Label>
+            <Select value={matchTransactionId} onValueChange={setMatchTransactionId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder={candidateTransactions.length ? 'Select transaction' : 'No transactions with this amount'} />
+              </SelectTrigger>
+              <SelectContent>
+                {candidateTransactions.map((transaction) => (
+                  <SelectItem key={transaction.id} value={transaction.id}>
+                    {formatDate(transaction.processedAt || transaction.createdAt)} · {transaction.description || transaction.type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMatchDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                selectedLine &&
+                lineMutation.mutate({
+                  lineId: selectedLine.id,
+                  body: { action: 'match', transactionId: matchTransactionId },
+                })
+              }
+              disabled={!matchTransactionId || lineMutation.isPending}
+            >
+              Match
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create Transaction Dialog */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Transaction</DialogTitle>
+            <DialogDescription>
+              Record this bank line as a new transaction. It is posted to the ledger and reconciled straight away.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={createType} onValueChange={(value) => setCreateType(value as TransactionType)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {creatableTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="line-description">Description</Label>
+              <Input
+                id="line-description"
+                value={createDescription}
+                onChange={(e) => setCreateDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                selectedLine &&
+                lineMutation.mutate({
+                  lineId: selectedLine.id,
+                  body: { action: 'create', type: createType, description: createDescription },
+                })
+              }
+              disabled={lineMutation.isPending}
+            >
+              {lineMutation.isPending ? 'Creating...' : 'Create & Reconcile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -129,7 +129,11 @@ exports.Prisma.ChapterScalarFieldEnum = {
   primaryColor: 'primaryColor',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  stripeCustomerId: 'stripeCustomerId'
+  stripeCustomerId: 'stripeCustomerId',
+  stripeAccountId: 'stripeAccountId',
+  stripeDetailsSubmitted: 'stripeDetailsSubmitted',
+  stripeChargesEnabled: 'stripeChargesEnabled',
+  stripePayoutsEnabled: 'stripePayoutsEnabled'
 };
 
 exports.Prisma.UserScalarFieldEnum = {
@@ -149,7 +153,8 @@ exports.Prisma.MembershipScalarFieldEnum = {
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   userId: 'userId',
-  chapterId: 'chapterId'
+  chapterId: 'chapterId',
+  duesCategoryId: 'duesCategoryId'
 };
 
 exports.Prisma.SubscriptionScalarFieldEnum = {
@@ -229,6 +234,53 @@ exports.Prisma.EventRSVPScalarFieldEnum = {
   userId: 'userId'
 };
 
+exports.Prisma.EventAttendanceScalarFieldEnum = {
+  id: 'id',
+  method: 'method',
+  checkedInAt: 'checkedInAt',
+  eventId: 'eventId',
+  userId: 'userId',
+  checkedInById: 'checkedInById'
+};
+
+exports.Prisma.EventTicketTypeScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  price: 'price',
+  currency: 'currency',
+  quantity: 'quantity',
+  membersOnly: 'membersOnly',
+  salesEndAt: 'salesEndAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  eventId: 'eventId'
+};
+
+exports.Prisma.EventTicketOrderScalarFieldEnum = {
+  id: 'id',
+  quantity: 'quantity',
+  amount: 'amount',
+  currency: 'currency',
+  buyerName: 'buyerName',
+  buyerEmail: 'buyerEmail',
+  stripePaymentId: 'stripePaymentId',
+  createdAt: 'createdAt',
+  eventId: 'eventId',
+  ticketTypeId: 'ticketTypeId',
+  chapterId: 'chapterId',
+  userId: 'userId'
+};
+
+exports.Prisma.EventTicketScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  issuedAt: 'issuedAt',
+  orderId: 'orderId',
+  eventId: 'eventId',
+  ticketTypeId: 'ticketTypeId'
+};
+
 exports.Prisma.AuditLogScalarFieldEnum = {
   id: 'id',
   createdAt: 'createdAt',
@@ -265,39 +317,257 @@ exports.Prisma.BudgetScalarFieldEnum = {
   startDate: 'startDate',
   endDate: 'endDate',
   amount: 'amount',
+  currency: 'currency',
   status: 'status',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   chapterId: 'chapterId'
 };
 
+exports.Prisma.BudgetLineItemScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  amount: 'amount',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  budgetId: 'budgetId'
+};
+
 exports.Prisma.ExpenseScalarFieldEnum = {
   id: 'id',
   title: 'title',
   description: 'description',
   amount: 'amount',
+  currency: 'currency',
   receiptUrl: 'receiptUrl',
+  receiptKey: 'receiptKey',
+  receiptFileName: 'receiptFileName',
+  receiptContentType: 'receiptContentType',
+  receiptSize: 'receiptSize',
   status: 'status',
   submittedAt: 'submittedAt',
   approvedAt: 'approvedAt',
   paidAt: 'paidAt',
   chapterId: 'chapterId',
   budgetId: 'budgetId',
+  lineItemId: 'lineItemId',
   submittedById: 'submittedById',
-  approvedById: 'approvedById'
+  approvedById: 'approvedById',
+  approvalRuleId: 'approvalRuleId',
+  reimbursementId: 'reimbursementId'
+};
+
+exports.Prisma.PayoutMethodScalarFieldEnum = {
+  id: 'id',
+  method: 'method',
+  details: 'details',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId',
+  userId: 'userId'
+};
+
+exports.Prisma.ReimbursementScalarFieldEnum = {
+  id: 'id',
+  amount: 'amount',
+  currency: 'currency',
+  method: 'method',
+  payoutDetails: 'payoutDetails',
+  reference: 'reference',
+  status: 'status',
+  provider: 'provider',
+  providerPayoutId: 'providerPayoutId',
+  failureReason: 'failureReason',
+  paidAt: 'paidAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId',
+  payeeId: 'payeeId',
+  issuedById: 'issuedById'
+};
+
+exports.Prisma.ExpenseApprovalRuleScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  minAmount: 'minAmount',
+  maxAmount: 'maxAmount',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId'
+};
+
+exports.Prisma.ExpenseApprovalStepScalarFieldEnum = {
+  id: 'id',
+  order: 'order',
+  name: 'name',
+  approverRole: 'approverRole',
+  ruleId: 'ruleId',
+  approverId: 'approverId'
+};
+
+exports.Prisma.ExpenseApprovalScalarFieldEnum = {
+  id: 'id',
+  stepOrder: 'stepOrder',
+  stepName: 'stepName',
+  decision: 'decision',
+  comment: 'comment',
+  decidedAt: 'decidedAt',
+  expenseId: 'expenseId',
+  decidedById: 'decidedById'
 };
 
 exports.Prisma.DuesPaymentScalarFieldEnum = {
   id: 'id',
   amount: 'amount',
+  currency: 'currency',
   dueDate: 'dueDate',
   paidAt: 'paidAt',
   stripePaymentId: 'stripePaymentId',
   stripeInvoiceId: 'stripeInvoiceId',
+  installmentNumber: 'installmentNumber',
+  amountPaid: 'amountPaid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   chapterId: 'chapterId',
-  userId: 'userId'
+  userId: 'userId',
+  scheduleId: 'scheduleId'
+};
+
+exports.Prisma.DuesScheduleScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  totalAmount: 'totalAmount',
+  currency: 'currency',
+  installmentCount: 'installmentCount',
+  frequency: 'frequency',
+  firstDueDate: 'firstDueDate',
+  isActive: 'isActive',
+  includeNewMembers: 'includeNewMembers',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId',
+  createdById: 'createdById'
+};
+
+exports.Prisma.LateFeeRuleScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  graceDays: 'graceDays',
+  feeType: 'feeType',
+  amount: 'amount',
+  recurrence: 'recurrence',
+  recurrenceDays: 'recurrenceDays',
+  maxApplications: 'maxApplications',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId'
+};
+
+exports.Prisma.DuesLateFeeScalarFieldEnum = {
+  id: 'id',
+  amount: 'amount',
+  sequence: 'sequence',
+  assessedAt: 'assessedAt',
+  waivedAt: 'waivedAt',
+  duesPaymentId: 'duesPaymentId',
+  ruleId: 'ruleId'
+};
+
+exports.Prisma.DuesPaymentRecordScalarFieldEnum = {
+  id: 'id',
+  amount: 'amount',
+  paidAt: 'paidAt',
+  note: 'note',
+  method: 'method',
+  referenceNumber: 'referenceNumber',
+  stripePaymentId: 'stripePaymentId',
+  reviewReason: 'reviewReason',
+  createdAt: 'createdAt',
+  duesPaymentId: 'duesPaymentId',
+  recordedById: 'recordedById',
+  receivedById: 'receivedById'
+};
+
+exports.Prisma.DuesRefundScalarFieldEnum = {
+  id: 'id',
+  amount: 'amount',
+  reason: 'reason',
+  stripeRefundId: 'stripeRefundId',
+  refundedAt: 'refundedAt',
+  createdAt: 'createdAt',
+  paymentRecordId: 'paymentRecordId',
+  refundedById: 'refundedById'
+};
+
+exports.Prisma.DuesPaymentPlanScalarFieldEnum = {
+  id: 'id',
+  status: 'status',
+  totalAmount: 'totalAmount',
+  baseAmountPaid: 'baseAmountPaid',
+  installmentCount: 'installmentCount',
+  frequency: 'frequency',
+  firstPaymentDate: 'firstPaymentDate',
+  requestNote: 'requestNote',
+  reviewNote: 'reviewNote',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  duesPaymentId: 'duesPaymentId',
+  requestedById: 'requestedById',
+  reviewedById: 'reviewedById'
+};
+
+exports.Prisma.DuesCategoryScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  defaultAmount: 'defaultAmount',
+  currency: 'currency',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId'
+};
+
+exports.Prisma.DuesAdjustmentScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  amount: 'amount',
+  reason: 'reason',
+  status: 'status',
+  reviewNote: 'reviewNote',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  duesPaymentId: 'duesPaymentId',
+  requestedById: 'requestedById',
+  reviewedById: 'reviewedById'
+};
+
+exports.Prisma.DuesReminderRuleScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  offsetDays: 'offsetDays',
+  sendEmail: 'sendEmail',
+  sendSms: 'sendSms',
+  message: 'message',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId'
+};
+
+exports.Prisma.DuesReminderScalarFieldEnum = {
+  id: 'id',
+  sentAt: 'sentAt',
+  emailSent: 'emailSent',
+  smsSent: 'smsSent',
+  planInstallmentNumber: 'planInstallmentNumber',
+  duesPaymentId: 'duesPaymentId',
+  ruleId: 'ruleId'
 };
 
 exports.Prisma.ProfileScalarFieldEnum = {
@@ -318,14 +588,135 @@ exports.Prisma.ProfileScalarFieldEnum = {
 exports.Prisma.TransactionScalarFieldEnum = {
   id: 'id',
   amount: 'amount',
+  currency: 'currency',
   type: 'type',
   description: 'description',
   metadata: 'metadata',
   createdAt: 'createdAt',
   processedAt: 'processedAt',
+  reconciledAt: 'reconciledAt',
   chapterId: 'chapterId',
   expenseId: 'expenseId',
-  duesPaymentId: 'duesPaymentId'
+  duesPaymentId: 'duesPaymentId',
+  lateFeeId: 'lateFeeId',
+  duesPaymentRecordId: 'duesPaymentRecordId',
+  duesRefundId: 'duesRefundId',
+  bankStatementLineId: 'bankStatementLineId',
+  campaignId: 'campaignId',
+  donationId: 'donationId',
+  eventId: 'eventId',
+  ticketOrderId: 'ticketOrderId'
+};
+
+exports.Prisma.FundraisingCampaignScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  title: 'title',
+  description: 'description',
+  goalAmount: 'goalAmount',
+  currency: 'currency',
+  status: 'status',
+  endDate: 'endDate',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId',
+  createdById: 'createdById'
+};
+
+exports.Prisma.DonationScalarFieldEnum = {
+  id: 'id',
+  amount: 'amount',
+  currency: 'currency',
+  donorName: 'donorName',
+  donorEmail: 'donorEmail',
+  message: 'message',
+  isAnonymous: 'isAnonymous',
+  stripePaymentId: 'stripePaymentId',
+  donatedAt: 'donatedAt',
+  campaignId: 'campaignId',
+  chapterId: 'chapterId',
+  userId: 'userId'
+};
+
+exports.Prisma.LedgerAccountScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  name: 'name',
+  type: 'type',
+  description: 'description',
+  isSystem: 'isSystem',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId'
+};
+
+exports.Prisma.JournalEntryScalarFieldEnum = {
+  id: 'id',
+  date: 'date',
+  description: 'description',
+  currency: 'currency',
+  createdAt: 'createdAt',
+  chapterId: 'chapterId',
+  transactionId: 'transactionId',
+  createdById: 'createdById'
+};
+
+exports.Prisma.JournalLineScalarFieldEnum = {
+  id: 'id',
+  debit: 'debit',
+  credit: 'credit',
+  memo: 'memo',
+  entryId: 'entryId',
+  accountId: 'accountId'
+};
+
+exports.Prisma.BankStatementImportScalarFieldEnum = {
+  id: 'id',
+  fileName: 'fileName',
+  format: 'format',
+  importedAt: 'importedAt',
+  chapterId: 'chapterId',
+  importedById: 'importedById'
+};
+
+exports.Prisma.BankStatementLineScalarFieldEnum = {
+  id: 'id',
+  date: 'date',
+  amount: 'amount',
+  currency: 'currency',
+  description: 'description',
+  reference: 'reference',
+  status: 'status',
+  reconciledAt: 'reconciledAt',
+  importId: 'importId',
+  chapterId: 'chapterId',
+  matchedTransactionId: 'matchedTransactionId',
+  matchedExpenseId: 'matchedExpenseId',
+  matchedDuesPaymentId: 'matchedDuesPaymentId',
+  reconciledById: 'reconciledById'
+};
+
+exports.Prisma.FiscalPeriodScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  status: 'status',
+  lockedAt: 'lockedAt',
+  closedAt: 'closedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  chapterId: 'chapterId',
+  closedById: 'closedById'
+};
+
+exports.Prisma.FiscalPeriodBalanceScalarFieldEnum = {
+  id: 'id',
+  openingBalance: 'openingBalance',
+  closingBalance: 'closingBalance',
+  periodId: 'periodId',
+  accountId: 'accountId'
 };
 
 exports.Prisma.MessageLogScalarFieldEnum = {
@@ -399,6 +790,11 @@ exports.RSVPStatus = exports.$Enums.RSVPStatus = {
   MAYBE: 'MAYBE'
 };
 
+exports.AttendanceMethod = exports.$Enums.AttendanceMethod = {
+  QR_CODE: 'QR_CODE',
+  MANUAL: 'MANUAL'
+};
+
 exports.BudgetStatus = exports.$Enums.BudgetStatus = {
   PLANNING: 'PLANNING',
   ACTIVE: 'ACTIVE',
@@ -413,15 +809,105 @@ exports.ExpenseStatus = exports.$Enums.ExpenseStatus = {
   PAID: 'PAID'
 };
 
+exports.PaymentMethod = exports.$Enums.PaymentMethod = {
+  STRIPE: 'STRIPE',
+  CASH: 'CASH',
+  CHECK: 'CHECK',
+  VENMO: 'VENMO',
+  ZELLE: 'ZELLE',
+  BANK_TRANSFER: 'BANK_TRANSFER',
+  OTHER: 'OTHER'
+};
+
+exports.ReimbursementStatus = exports.$Enums.ReimbursementStatus = {
+  PENDING: 'PENDING',
+  PAID: 'PAID',
+  FAILED: 'FAILED'
+};
+
+exports.ExpenseApprovalDecision = exports.$Enums.ExpenseApprovalDecision = {
+  APPROVED: 'APPROVED',
+  DENIED: 'DENIED'
+};
+
+exports.DuesScheduleFrequency = exports.$Enums.DuesScheduleFrequency = {
+  WEEKLY: 'WEEKLY',
+  MONTHLY: 'MONTHLY',
+  QUARTERLY: 'QUARTERLY'
+};
+
+exports.LateFeeType = exports.$Enums.LateFeeType = {
+  FLAT: 'FLAT',
+  PERCENTAGE: 'PERCENTAGE'
+};
+
+exports.LateFeeRecurrence = exports.$Enums.LateFeeRecurrence = {
+  ONE_TIME: 'ONE_TIME',
+  RECURRING: 'RECURRING'
+};
+
+exports.DuesPaymentPlanStatus = exports.$Enums.DuesPaymentPlanStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  DENIED: 'DENIED',
+  COMPLETED: 'COMPLETED',
+  CANCELED: 'CANCELED'
+};
+
+exports.DuesAdjustmentType = exports.$Enums.DuesAdjustmentType = {
+  WAIVER: 'WAIVER',
+  SCHOLARSHIP: 'SCHOLARSHIP',
+  DISCOUNT: 'DISCOUNT'
+};
+
+exports.DuesAdjustmentStatus = exports.$Enums.DuesAdjustmentStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  DENIED: 'DENIED'
+};
+
 exports.TransactionType = exports.$Enums.TransactionType = {
   DUES_PAYMENT: 'DUES_PAYMENT',
   EXPENSE: 'EXPENSE',
   INCOME: 'INCOME',
   TRANSFER: 'TRANSFER',
   REFUND: 'REFUND',
+  LATE_FEE: 'LATE_FEE',
   OTHER: 'OTHER'
 };
 
+exports.CampaignStatus = exports.$Enums.CampaignStatus = {
+  DRAFT: 'DRAFT',
+  ACTIVE: 'ACTIVE',
+  ENDED: 'ENDED'
+};
+
+exports.LedgerAccountType = exports.$Enums.LedgerAccountType = {
+  ASSET: 'ASSET',
+  LIABILITY: 'LIABILITY',
+  EQUITY: 'EQUITY',
+  INCOME: 'INCOME',
+  EXPENSE: 'EXPENSE'
+};
+
+exports.BankStatementFormat = exports.$Enums.BankStatementFormat = {
+  CSV: 'CSV',
+  OFX: 'OFX'
+};
+
+exports.BankStatementLineStatus = exports.$Enums.BankStatementLineStatus = {
+  UNMATCHED: 'UNMATCHED',
+  MATCHED: 'MATCHED',
+  RECONCILED: 'RECONCILED',
+  IGNORED: 'IGNORED'
+};
+
+exports.FiscalPeriodStatus = exports.$Enums.FiscalPeriodStatus = {
+  OPEN: 'OPEN',
+  LOCKED: 'LOCKED',
+  CLOSED: 'CLOSED'
+};
+
 exports.Prisma.ModelName = {
   Chapter: 'Chapter',
   User: 'User',
@@ -433,14 +919,43 @@ exports.Prisma.ModelName = {
   Invite: 'Invite',
   Event: 'Event',
   EventRSVP: 'EventRSVP',
+  EventAttendance: 'EventAttendance',
+  EventTicketType: 'EventTicketType',
+  EventTicketOrder: 'EventTicketOrder',
+  EventTicket: 'EventTicket',
   AuditLog: 'AuditLog',
   GalleryImage: 'GalleryImage',
   ContactMessage: 'ContactMessage',
   Budget: 'Budget',
+  BudgetLineItem: 'BudgetLineItem',
   Expense: 'Expense',
+  PayoutMethod: 'PayoutMethod',
+  Reimbursement: 'Reimbursement',
+  ExpenseApprovalRule: 'ExpenseApprovalRule',
+  ExpenseApprovalStep: 'ExpenseApprovalStep',
+  ExpenseApproval: 'ExpenseApproval',
   DuesPayment: 'DuesPayment',
+  DuesSchedule: 'DuesSchedule',
+  LateFeeRule: 'LateFeeRule',
+  DuesLateFee: 'DuesLateFee',
+  DuesPaymentRecord: 'DuesPaymentRecord',
+  DuesRefund: 'DuesRefund',
+  DuesPaymentPlan: 'DuesPaymentPlan',
+  DuesCategory: 'DuesCategory',
+  DuesAdjustment: 'DuesAdjustment',
+  DuesReminderRule: 'DuesReminderRule',
+  DuesReminder: 'DuesReminder',
   Profile: 'Profile',
   Transaction: 'Transaction',
+  FundraisingCampaign: 'FundraisingCampaign',
+  Donation: 'Donation',
+  LedgerAccount: 'LedgerAccount',
+  JournalEntry: 'JournalEntry',
+  JournalLine: 'JournalLine',
+  BankStatementImport: 'BankStatementImport',
+  BankStatementLine: 'BankStatementLine',
+  FiscalPeriod: 'FiscalPeriod',
+  FiscalPeriodBalance: 'FiscalPeriodBalance',
   MessageLog: 'MessageLog'
 };
 
@@ -22,7 +22,53 @@ export type AuditAction =
   | 'event.updated'
   | 'event.deleted'
   | 'event.rsvp_created'
-  | 'event.rsvp_updated';
+  | 'event.rsvp_updated'
+
+  // Finance related
+  | 'budget.created'
+  | 'budget.updated'
+  | 'budget.deleted'
+  | 'budget_line_item.created'
+  | 'budget_line_item.updated'
+  | 'budget_line_item.deleted'
+  | 'expense.created'
+  | 'expense.updated'
+  | 'expense.deleted'
+  | 'dues.created'
+  | 'dues.updated'
+  | 'dues.deleted'
+  | 'dues.payment_recorded'
+  | 'dues.refunded'
+  | 'dues.late_fee_assessed'
+  | 'dues.late_fee_waived'
+  | 'payment_plan.requested'
+  | 'payment_plan.reviewed'
+  | 'payment_plan.canceled'
+  | 'dues_category.created'
+  | 'dues_category.updated'
+  | 'dues_category.deleted'
+  | 'dues_category.assigned'
+  | 'dues_adjustment.requested'
+  | 'dues_adjustment.reviewed'
+  | 'dues_schedule.created'
+  | 'dues_schedule.updated'
+  | 'dues_schedule.deleted'
+  | 'late_fee_rule.created'
+  | 'late_fee_rule.updated'
+  | 'late_fee_rule.deleted'
+  | 'transaction.created'
+  | 'transfer.created'
+  | 'journal_entry.created'
+  | 'reconciliation.matched'
+  | 'reconciliation.confirmed'
+  | 'reconciliation.ignored'
+  | 'reimbursement.created'
+  | 'reimbursement.settled'
+  | 'donation.recorded'
+  | 'ticket_order.recorded'
+  | 'fiscal_period.locked'
+  | 'fiscal_period.unlocked'
+  | 'fiscal_period.closed';
 
 export type AuditTargetType = 
   | 'user'
@@ -31,7 +77,58 @@ export type AuditTargetType =
   | 'event'
   | 'rsvp'
   | 'invite'
-  | 'subscription';
+  | 'subscription'
+  | FinanceAuditTargetType;
+
+// Target types of finance changes, used to filter the audit log down to money
+export const FINANCE_AUDIT_TARGET_TYPES = [
+  'budget',
+  'budget_line_item',
+  'expense',
+  'dues_payment',
+  'payment_plan',
+  'dues_category',
+  'dues_adjustment',
+  'dues_schedule',
+  'late_fee_rule',
+  'late_fee',
+  'transaction',
+  'journal_entry',
+  'statement_line',
+  'reimbursement',
+  'donation',
+  'ticket_order',
+  'fiscal_period',
+] as const;
+
+export type FinanceAuditTargetType = (typeof FINANCE_AUDIT_TARGET_TYPES)[number];
+
+export type AuditCategory = 'finance';
+
+type AuditSnapshot = Record<string, string | number | boolean | null>;
+
+// Fields that change on every write and would only add noise to a diff
+const IGNORED_SNAPSHOT_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * Scalar fields of a record as they should be stored in an audit entry.
+ * Relations and other nested values are left out; dates become ISO strings.
+ */
+function toAuditSnapshot(record: object): AuditSnapshot {
+  const snapshot: AuditSnapshot = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (IGNORED_SNAPSHOT_FIELDS.has(key)) continue;
+
+    if (value instanceof Date) {
+      snapshot[key] = value.toISOString();
+    } else if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      snapshot[key] = value as string | number | boolean | null;
+    }
+  }
+
+  return snapshot;
+}
 
 /**
  * Create an audit log entry
@@ -44,7 +141,7 @@ export async function logAuditEntry({
   targetId,
   metadata,
 }: {
-  userId: string;
+  userId: string | null; // Null when Stripe, not a member, made the change
   chapterId: string;
   action: AuditAction;
   targetType: AuditTargetType;
@@ -71,6 +168,55 @@ export async function logAuditEntry({
   }
 }
 
+/**
+ * Create an audit log entry for a finance change. Creates store the new
+ * values, deletes the old ones and updates only the fields that changed.
+ */
+export async function logFinanceAuditEntry({
+  userId,
+  chapterId,
+  action,
+  targetType,
+  targetId,
+  before,
+  after,
+  metadata,
+}: {
+  userId: string | null;
+  chapterId: string;
+  action: AuditAction;
+  targetType: FinanceAuditTargetType;
+  targetId?: string;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+}) {
+  const beforeSnapshot = before ? toAuditSnapshot(before) : undefined;
+  const afterSnapshot = after ? toAuditSnapshot(after) : undefined;
+
+  if (beforeSnapshot && afterSnapshot) {
+    for (const key of Object.keys({ ...beforeSnapshot, ...afterSnapshot })) {
+      if (beforeSnapshot[key] === afterSnapshot[key]) {
+        delete beforeSnapshot[key];
+        delete afterSnapshot[key];
+      }
+    }
+  }
+
+  await logAuditEntry({
+    userId,
+    chapterId,
+    action,
+    targetType,
+    targetId,
+    metadata: {
+      ...metadata,
+      ...(beforeSnapshot && { before: beforeSnapshot }),
+      ...(afterSnapshot && { after: afterSnapshot }),
+    },
+  });
+}
+
 /**
  * Get audit logs with pagination and filtering options
  */
@@ -79,6 +225,7 @@ export async function getAuditLogs({
   userId,
   action,
   targetType,
+  category,
   page = 1,
   limit = 20,
   fromDate,
@@ -88,6 +235,7 @@ export async function getAuditLogs({
   userId?: string;
   action?: string;
   targetType?: string;
+  category?: AuditCategory;
   page?: number;
   limit?: number;
   fromDate?: Date;
@@ -100,7 +248,7 @@ export async function getAuditLogs({
     chapterId: string;
     userId?: string;
     action?: string;
-    targetType?: string;
+    targetType?: string | { in: string[] };
     createdAt?: {
       gte?: Date;
       lte?: Date;
@@ -109,7 +257,11 @@ export async function getAuditLogs({
   
   if (userId) where.userId = userId;
   if (action) where.action = action;
-  if (targetType) where.targetType = targetType;
+  if (targetType) {
+    where.targetType = targetType;
+  } else if (category === 'finance') {
+    where.targetType = { in: [...FINANCE_AUDIT_TARGET_TYPES] };
+  }
   
   // Add date range filtering if provided
   if (fromDate || toDate) {
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getCheckInCode, readCheckInCode } from "@/lib/check-in-codes";
+
+describe("check-in codes", () => {
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = "test-secret";
+  });
+
+  it("reads back the member a code was issued to", () => {
+    const code = getCheckInCode("event", "member");
+
+    expect(readCheckInCode(code, "event")).toBe("member");
+    expect(readCheckInCode(` ${code}\n`, "event")).toBe("member");
+  });
+
+  it("rejects a code issued for another event", () => {
+    const code = getCheckInCode("other-event", "member");
+
+    expect(readCheckInCode(code, "event")).toBeNull();
+  });
+
+  it("rejects a code changed to name another member", () => {
+    const [eventId, , signature] = getCheckInCode("event", "member").split(".");
+
+    expect(readCheckInCode(`${eventId}.someone-else.${signature}`, "event")).toBeNull();
+  });
+
+  it("rejects a tampered or malformed signature", () => {
+    const code = getCheckInCode("event", "member");
+
+    expect(readCheckInCode(`${code.slice(0, -1)}${code.endsWith("A") ? "B" : "A"}`, "event")).toBeNull();
+    expect(readCheckInCode(`${code}.extra`, "event")).toBeNull();
+    expect(readCheckInCode("event.member", "event")).toBeNull();
+  });
+
+  it("rejects codes signed with a different secret", () => {
+    const code = getCheckInCode("event", "member");
+    process.env.NEXTAUTH_SECRET = "rotated-secret";
+
+    expect(readCheckInCode(code, "event")).toBeNull();
+  });
+});
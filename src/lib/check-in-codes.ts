@@ -0,0 +1,45 @@
+/**
+ * Codes members show at the door to check in to an event, signed with the
+ * app secret so they can't be made up
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+function signCheckIn(eventId: string, userId: string): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is not configured");
+  }
+
+  return createHmac("sha256", secret)
+    .update(`check-in:${eventId}:${userId}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+/**
+ * A member's check-in code for an event, e.g. "<eventId>.<userId>.<signature>".
+ * The signature stops codes being made up for other members.
+ */
+export function getCheckInCode(eventId: string, userId: string): string {
+  return `${eventId}.${userId}.${signCheckIn(eventId, userId)}`;
+}
+
+/**
+ * The member a scanned check-in code belongs to, or null when the code was
+ * not issued for this event
+ */
+export function readCheckInCode(code: string, eventId: string): string | null {
+  const [codeEventId, userId, signature, ...rest] = code.trim().split(".");
+  if (!codeEventId || !userId || !signature || rest.length || codeEventId !== eventId) {
+    return null;
+  }
+
+  const expected = Buffer.from(signCheckIn(eventId, userId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return userId;
+}
@@ -9,6 +9,14 @@ export enum FinanceAccessRole {
   OWNER = "OWNER"
 }
 
+// Finance features that subscription plans switch on
+export type FinanceFeature =
+  | "basicFinance"
+  | "budgeting"
+  | "expenseTracking"
+  | "duesCollection"
+  | "advancedReporting";
+
 // Define the membership return type
 export interface Subscription {
   id: string;
@@ -43,11 +51,13 @@ export interface ChapterMembership {
 /**
  * Require chapter access with finance permissions
  * This function checks if the current user has access to the chapter's finance features
- * based on their role and the subscription plan.
+ * based on their role and the subscription plan. Pass a feature to also require
+ * the plan to include it.
  */
 export async function requireFinanceAccess(
   chapterSlug: string, 
-  requiredRole: FinanceAccessRole = FinanceAccessRole.MEMBER
+  requiredRole: FinanceAccessRole = FinanceAccessRole.MEMBER,
+  feature?: FinanceFeature
 ): Promise<{ membership: ChapterMembership; chapter: Chapter }> {
   // Get the current session
   const session = await getServerSession(authOptions);
@@ -86,9 +96,9 @@ export async function requireFinanceAccess(
   const { chapter } = membership;
   
   // Check subscription for finance feature access
-  if (!hasFinanceFeatureAccess(chapter.subscription?.plan || "FREE", requiredRole)) {
+  if (!hasFinanceFeatureAccess(chapter.subscription?.plan || "FREE", requiredRole, feature)) {
     throw new Error(
-      requiredRole === FinanceAccessRole.MEMBER
+      requiredRole === FinanceAccessRole.MEMBER || feature
         ? "This feature is not available on your current plan"
         : `You need ${requiredRole} permissions and an appropriate subscription plan to access this feature`
     );
@@ -100,7 +110,7 @@ export async function requireFinanceAccess(
 /**
  * Check if the chapter's subscription plan includes the requested finance feature
  */
-function hasFinanceFeatureAccess(plan: string, requiredRole: FinanceAccessRole): boolean {
+function hasFinanceFeatureAccess(plan: string, requiredRole: FinanceAccessRole, feature?: FinanceFeature): boolean {
   // Define which features are available in each plan
   const planFeatures: Record<string, Record<string, boolean>> = {
     FREE: {
@@ -124,6 +134,11 @@ function hasFinanceFeatureAccess(plan: string, requiredRole: FinanceAccessRole):
     },
   };
 
+  // Features such as advanced reporting must be included in the plan whatever the role
+  if (feature && !planFeatures[plan]?.[feature]) {
+    return false;
+  }
+
   // Basic finance access is available to all users on all plans
   if (requiredRole === FinanceAccessRole.MEMBER && planFeatures[plan]?.basicFinance) {
     return true;
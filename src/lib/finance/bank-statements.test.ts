@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { BankStatementFormat } from "@/generated/prisma";
+import { parseBankStatement, scoreStatementMatch } from "@/lib/finance/bank-statements";
+
+describe("parseBankStatement", () => {
+  it("reads a CSV with a signed amount column", () => {
+    const csv = [
+      "Date,Description,Amount,Reference",
+      '03/02/2026,"Dues, Jane Doe","$1,234.56",TX1',
+      "2026-03-04,Pizza Palace,-45.10,",
+    ].join("\n");
+
+    const { format, lines } = parseBankStatement("march.csv", csv);
+
+    expect(format).toBe(BankStatementFormat.CSV);
+    expect(lines).toEqual([
+      { date: new Date(2026, 2, 2), amount: 123456, currency: "USD", description: "Dues, Jane Doe", reference: "TX1" },
+      { date: new Date("2026-03-04"), amount: -4510, currency: "USD", description: "Pizza Palace", reference: undefined },
+    ]);
+  });
+
+  it("reads separate debit and credit columns and bracketed amounts", () => {
+    const csv = [
+      "Posted Date,Payee,Debit,Credit",
+      "03/05/26,Hall rental,(200.00),",
+      "03/06/26,Member deposit,,75.00",
+    ].join("\r\n");
+
+    const { lines } = parseBankStatement("statement.csv", csv);
+
+    expect(lines.map((line) => line.amount)).toEqual([-20000, 7500]);
+    expect(lines[0].date).toEqual(new Date(2026, 2, 5));
+  });
+
+  it("skips balance rows and other lines without a date or an amount", () => {
+    const csv = [
+      "Date,Description,Amount",
+      "Opening balance,,500.00",
+      "03/02/2026,Zero row,0.00",
+      "03/03/2026,Dues,100.00",
+    ].join("\n");
+
+    expect(parseBankStatement("statement.csv", csv).lines).toHaveLength(1);
+  });
+
+  it("needs a date column and an amount column", () => {
+    expect(() => parseBankStatement("statement.csv", "Description,Amount\nDues,100.00")).toThrow(
+      "CSV statement needs a date column"
+    );
+  });
+
+  it("reads OFX transactions with unclosed SGML elements", () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>",
+      "<CURDEF>USD",
+      "<BANKTRANLIST>",
+      "<STMTTRN>",
+      "<TRNTYPE>CREDIT",
+      "<DTPOSTED>20260302120000[-5:EST]",
+      "<TRNAMT>150.00",
+      "<FITID>abc123",
+      "<NAME>Jane Doe",
+      "<MEMO>Spring dues",
+      "<STMTTRN>",
+      "<TRNTYPE>DEBIT",
+      "<DTPOSTED>20260303",
+      "<TRNAMT>-20.5",
+      "<FITID>abc124",
+      "</BANKTRANLIST>",
+    ].join("\n");
+
+    const { format, lines } = parseBankStatement("export.txt", ofx);
+
+    expect(format).toBe(BankStatementFormat.OFX);
+    expect(lines).toEqual([
+      { date: new Date(2026, 2, 2), amount: 15000, currency: "USD", description: "Jane Doe - Spring dues", reference: "abc123" },
+      { date: new Date(2026, 2, 3), amount: -2050, currency: "USD", description: "Bank transaction", reference: "abc124" },
+    ]);
+  });
+
+  it("rejects a statement without any transactions", () => {
+    expect(() => parseBankStatement("empty.csv", "Date,Description,Amount\n")).toThrow(
+      "No transactions were found in the statement"
+    );
+  });
+});
+
+describe("scoreStatementMatch", () => {
+  const line = { date: new Date(2026, 2, 2), amount: 15000, description: "Deposit Jane Doe dues" };
+
+  it("only matches equal amounts within the match window", () => {
+    expect(scoreStatementMatch(line, { ...line, amount: 14999 })).toBeNull();
+    expect(scoreStatementMatch(line, { ...line, date: new Date(2026, 2, 8) })).toBeNull();
+  });
+
+  it("scores closer dates and shared words higher", () => {
+    const sameDay = scoreStatementMatch(line, { ...line, description: "Other" });
+    const later = scoreStatementMatch(line, { ...line, date: new Date(2026, 2, 4), description: "Other" });
+    const named = scoreStatementMatch(line, { ...line, description: "Dues from Jane Doe" });
+
+    expect(sameDay).toBe(100);
+    expect(later).toBe(80);
+    expect(named).toBe(115);
+  });
+});
@@ -0,0 +1,252 @@
+import { BankStatementFormat } from "@/generated/prisma";
+import { DEFAULT_CURRENCY, toMinorUnits } from "@/lib/finance/money";
+import { differenceInCalendarDays } from "date-fns";
+
+export interface ParsedStatementLine {
+  date: Date;
+  amount: number; // Minor units (cents); negative for money leaving the account
+  currency: string;
+  description: string;
+  reference?: string;
+}
+
+// How far apart the bank date and the recorded date may be and still match
+export const MATCH_WINDOW_DAYS = 5;
+
+/**
+ * OFX files start with an OFXHEADER block or an <OFX> tag; everything else is
+ * treated as CSV
+ */
+export function detectStatementFormat(fileName: string, content: string): BankStatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /OFXHEADER|<OFX>/i.test(content.slice(0, 1000))) {
+    return BankStatementFormat.OFX;
+  }
+
+  return BankStatementFormat.CSV;
+}
+
+export function parseBankStatement(
+  fileName: string,
+  content: string,
+  currency: string = DEFAULT_CURRENCY
+): { format: BankStatementFormat; lines: ParsedStatementLine[] } {
+  const format = detectStatementFormat(fileName, content);
+  const lines = format === BankStatementFormat.OFX
+    ? parseOfxStatement(content)
+    : parseCsvStatement(content, currency);
+
+  if (lines.length === 0) {
+    throw new Error("No transactions were found in the statement");
+  }
+
+  return { format, lines };
+}
+
+/**
+ * Split one CSV row into cells, honouring quoted cells with commas and
+ * doubled quotes inside them
+ */
+function splitCsvRow(row: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse a decimal amount as banks print it: "$1,234.56", "-12.00" or "(12.00)"
+ */
+function parseStatementAmount(value: string, currency: string): number | null {
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith("-");
+  const cleaned = value.replace(/[^0-9.]/g, "");
+
+  if (!cleaned) {
+    return null;
+  }
+
+  const amount = toMinorUnits(parseFloat(cleaned), currency);
+  return negative ? -amount : amount;
+}
+
+function parseStatementDate(value: string): Date | null {
+  // US banks export MM/DD/YYYY; ISO dates parse natively
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  const date = us
+    ? new Date(Number(us[3].length === 2 ? `20${us[3]}` : us[3]), Number(us[1]) - 1, Number(us[2]))
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a CSV export. The header row must name a date column, a description
+ * column and either a signed amount column or separate debit and credit
+ * columns.
+ */
+export function parseCsvStatement(content: string, currency: string = DEFAULT_CURRENCY): ParsedStatementLine[] {
+  const rows = content
+    .split(/\r?\n/)
+    .filter((row) => row.trim().length > 0)
+    .map(splitCsvRow);
+
+  if (rows.length < 2) {
+    return [];
+  }
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const findColumn = (pattern: RegExp) => header.findIndex((cell) => pattern.test(cell));
+
+  const dateColumn = findColumn(/date/);
+  const descriptionColumn = findColumn(/description|memo|payee|details|name/);
+  const amountColumn = findColumn(/^amount$|^amount \(|^value$/);
+  const debitColumn = findColumn(/debit|withdrawal/);
+  const creditColumn = findColumn(/credit|deposit/);
+  const referenceColumn = findColumn(/reference|transaction id|^id$|check/);
+
+  if (dateColumn === -1 || (amountColumn === -1 && debitColumn === -1 && creditColumn === -1)) {
+    throw new Error("CSV statement needs a date column and an amount, debit or credit column");
+  }
+
+  const lines: ParsedStatementLine[] = [];
+
+  for (const row of rows.slice(1)) {
+    const date = parseStatementDate(row[dateColumn] ?? "");
+
+    let amount: number | null = null;
+    if (amountColumn !== -1) {
+      amount = parseStatementAmount(row[amountColumn] ?? "", currency);
+    } else {
+      const debit = debitColumn !== -1 ? parseStatementAmount(row[debitColumn] ?? "", currency) : null;
+      const credit = creditColumn !== -1 ? parseStatementAmount(row[creditColumn] ?? "", currency) : null;
+      if (debit || credit) {
+        amount = (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+      }
+    }
+
+    // Skip totals, opening balance rows and anything else that is not a dated movement
+    if (!date || !amount) {
+      continue;
+    }
+
+    lines.push({
+      date,
+      amount,
+      currency,
+      description: (descriptionColumn !== -1 ? row[descriptionColumn] : "") || "Bank transaction",
+      reference: referenceColumn !== -1 && row[referenceColumn] ? row[referenceColumn] : undefined,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Read a single OFX field. SGML-style OFX 1.x leaves elements unclosed, so the
+ * value runs to the next tag or line break.
+ */
+function getOfxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match?.[1].trim() || undefined;
+}
+
+/**
+ * OFX dates are YYYYMMDD optionally followed by a time and timezone
+ */
+function parseOfxDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+export function parseOfxStatement(content: string): ParsedStatementLine[] {
+  const currency = getOfxField(content, "CURDEF") || DEFAULT_CURRENCY;
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const lines: ParsedStatementLine[] = [];
+
+  for (const block of blocks) {
+    const date = parseOfxDate(getOfxField(block, "DTPOSTED") ?? "");
+    const rawAmount = getOfxField(block, "TRNAMT");
+
+    if (!date || !rawAmount) {
+      continue;
+    }
+
+    const amount = toMinorUnits(parseFloat(rawAmount), currency);
+
+    if (!amount) {
+      continue;
+    }
+
+    const name = getOfxField(block, "NAME");
+    const memo = getOfxField(block, "MEMO");
+
+    lines.push({
+      date,
+      amount,
+      currency,
+      description: [name, memo].filter(Boolean).join(" - ") || "Bank transaction",
+      reference: getOfxField(block, "FITID"),
+    });
+  }
+
+  return lines;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 2)
+  );
+}
+
+/**
+ * Score how well a recorded amount, date and description match a statement
+ * line. Amounts must be equal; closer dates and shared words in the
+ * description score higher. Returns null when the two cannot be the same
+ * movement.
+ */
+export function scoreStatementMatch(
+  line: { date: Date; amount: number; description: string },
+  candidate: { date: Date; amount: number; description: string }
+): number | null {
+  if (line.amount !== candidate.amount) {
+    return null;
+  }
+
+  const days = Math.abs(differenceInCalendarDays(line.date, candidate.date));
+
+  if (days > MATCH_WINDOW_DAYS) {
+    return null;
+  }
+
+  const lineTokens = tokenize(line.description);
+  const candidateTokens = tokenize(candidate.description);
+  const sharedTokens = Array.from(candidateTokens).filter((token) => lineTokens.has(token)).length;
+
+  return 100 - days * 10 + Math.min(sharedTokens, 5) * 5;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { ExpenseStatus } from "@/generated/prisma";
+import { getBudgetUsage, getOverBudgetWarnings } from "@/lib/finance/budget-usage";
+
+describe("getBudgetUsage", () => {
+  it("counts paid and approved expenses against the allocation and reports pending ones apart", () => {
+    expect(getBudgetUsage(50000, [
+      { amount: 20000, status: ExpenseStatus.PAID },
+      { amount: 10000, status: ExpenseStatus.APPROVED },
+      { amount: 5000, status: ExpenseStatus.PENDING },
+      { amount: 90000, status: ExpenseStatus.DENIED },
+    ])).toEqual({
+      allocated: 50000,
+      spent: 20000,
+      committed: 10000,
+      pending: 5000,
+      remaining: 20000,
+      isOverBudget: false,
+    });
+  });
+
+  it("goes negative once the budget is overspent", () => {
+    const usage = getBudgetUsage(10000, [{ amount: 12500, status: ExpenseStatus.PAID }]);
+
+    expect(usage.remaining).toBe(-2500);
+    expect(usage.isOverBudget).toBe(true);
+  });
+});
+
+describe("getOverBudgetWarnings", () => {
+  const budget = {
+    name: "Spring formal",
+    amount: 100000,
+    expenses: [
+      { id: "venue", amount: 60000, status: ExpenseStatus.PAID, lineItemId: "venue" },
+      { id: "dj", amount: 15000, status: ExpenseStatus.PENDING, lineItemId: "music" },
+      { id: "denied", amount: 50000, status: ExpenseStatus.DENIED, lineItemId: "music" },
+    ],
+    lineItems: [
+      { id: "venue", name: "Venue", amount: 60000 },
+      { id: "music", name: "Music", amount: 20000 },
+    ],
+  };
+
+  it("warns when pending expenses would push the budget and line item over", () => {
+    expect(getOverBudgetWarnings(budget, { amount: 30000, lineItemId: "music" })).toEqual([
+      { scope: "budget", name: "Spring formal", allocated: 100000, projected: 105000, overBy: 5000 },
+      { scope: "lineItem", name: "Music", allocated: 20000, projected: 45000, overBy: 25000 },
+    ]);
+  });
+
+  it("doesn't count an edited expense twice", () => {
+    expect(getOverBudgetWarnings(budget, { id: "dj", amount: 20000, lineItemId: "music" })).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { ExpenseStatus } from "@/generated/prisma";
+
+export interface BudgetUsage {
+  allocated: number; // Amount set aside
+  spent: number;     // Paid expenses
+  committed: number; // Approved expenses not yet paid
+  pending: number;   // Expenses still awaiting approval
+  remaining: number; // Allocated minus spent and committed; negative when over budget
+  isOverBudget: boolean;
+}
+
+/**
+ * Compare an allocation with the expenses charged to it. Denied expenses are
+ * ignored and pending ones are reported separately, since they may never be
+ * approved. All amounts are in minor units (cents).
+ */
+export function getBudgetUsage(
+  allocated: number,
+  expenses: { amount: number; status: ExpenseStatus }[]
+): BudgetUsage {
+  const sumOf = (status: ExpenseStatus) =>
+    expenses.filter((expense) => expense.status === status).reduce((sum, expense) => sum + expense.amount, 0);
+
+  const spent = sumOf(ExpenseStatus.PAID);
+  const committed = sumOf(ExpenseStatus.APPROVED);
+  const remaining = allocated - spent - committed;
+
+  return {
+    allocated,
+    spent,
+    committed,
+    pending: sumOf(ExpenseStatus.PENDING),
+    remaining,
+    isOverBudget: remaining < 0,
+  };
+}
+
+export interface BudgetWarning {
+  scope: "budget" | "lineItem";
+  name: string;
+  allocated: number;
+  projected: number; // Spent, committed and pending, including the new expense
+  overBy: number;
+}
+
+/**
+ * Warnings for an expense that would push its budget or line item past the
+ * allocation once everything pending is approved
+ */
+export function getOverBudgetWarnings(
+  budget: {
+    name: string;
+    amount: number;
+    expenses: { id: string; amount: number; status: ExpenseStatus; lineItemId: string | null }[];
+    lineItems: { id: string; name: string; amount: number }[];
+  },
+  expense: { id?: string; amount: number; lineItemId?: string | null }
+): BudgetWarning[] {
+  // Leave out the expense itself so an edit is not counted twice
+  const others = budget.expenses.filter(
+    (other) => other.id !== expense.id && other.status !== ExpenseStatus.DENIED
+  );
+  const projectedFor = (charged: { amount: number }[]) =>
+    charged.reduce((sum, other) => sum + other.amount, 0) + expense.amount;
+
+  const warnings: BudgetWarning[] = [];
+
+  const budgetProjected = projectedFor(others);
+  if (budgetProjected > budget.amount) {
+    warnings.push({
+      scope: "budget",
+      name: budget.name,
+      allocated: budget.amount,
+      projected: budgetProjected,
+      overBy: budgetProjected - budget.amount,
+    });
+  }
+
+  const lineItem = budget.lineItems.find((item) => item.id === expense.lineItemId);
+  if (lineItem) {
+    const lineItemProjected = projectedFor(others.filter((other) => other.lineItemId === lineItem.id));
+    if (lineItemProjected > lineItem.amount) {
+      warnings.push({
+        scope: "lineItem",
+        name: lineItem.name,
+        allocated: lineItem.amount,
+        projected: lineItemProjected,
+        overBy: lineItemProjected - lineItem.amount,
+      });
+    }
+  }
+
+  return warnings;
+}
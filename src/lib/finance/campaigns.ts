@@ -0,0 +1,52 @@
+import { CampaignStatus } from "@/generated/prisma";
+import { endOfDay } from "date-fns";
+
+export interface CampaignProgress {
+  goal: number; // Minor units
+  raised: number;
+  remaining: number; // Zero once the goal is met
+  percent: number; // 0-100, capped at 100 for the progress bar
+}
+
+/**
+ * URL-safe slug for a campaign's donation page, e.g. "Spring Philanthropy 5K!" -> "spring-philanthropy-5k"
+ */
+export function toCampaignSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[̀-ͯ]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+}
+
+/**
+ * How far a campaign is towards its goal
+ */
+export function getCampaignProgress(goal: number, raised: number): CampaignProgress {
+  return {
+    goal,
+    raised,
+    remaining: Math.max(goal - raised, 0),
+    percent: goal > 0 ? Math.min(Math.round((raised / goal) * 100), 100) : 0,
+  };
+}
+
+/**
+ * Campaigns take donations while active, up to the end of their end date
+ */
+export function isAcceptingDonations(
+  campaign: { status: CampaignStatus; endDate: Date | null },
+  now: Date = new Date()
+): boolean {
+  return campaign.status === CampaignStatus.ACTIVE && (!campaign.endDate || now <= endOfDay(campaign.endDate));
+}
+
+/**
+ * Name shown on the public donor list
+ */
+export function getDonorDisplayName(donation: { donorName: string; isAnonymous: boolean }): string {
+  return donation.isAnonymous ? "Anonymous" : donation.donorName;
+}
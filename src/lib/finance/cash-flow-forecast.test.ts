@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { buildCashFlowForecast, ForecastInput } from "@/lib/finance/cash-flow-forecast";
+
+const today = new Date(2026, 2, 15);
+
+const input: ForecastInput = {
+  currency: "USD",
+  openingBalance: 10000,
+  collectionRate: 0.8,
+  monthCount: 3,
+  unpaidDues: [
+    { dueDate: new Date(2026, 0, 1), remaining: 10000 }, // Overdue, expected this month
+    { dueDate: new Date(2026, 4, 1), remaining: 5000 },
+    { dueDate: new Date(2026, 6, 1), remaining: 5000 }, // After the forecast
+  ],
+  budgets: [
+    { startDate: new Date(2026, 2, 1), endDate: new Date(2026, 5, 30), remaining: 10001 },
+    { startDate: new Date(2026, 0, 1), endDate: new Date(2026, 1, 28), remaining: 3000 }, // Ended last month
+    { startDate: new Date(2026, 2, 1), endDate: new Date(2026, 5, 30), remaining: -500 }, // Overspent
+  ],
+  unpaidExpenses: [{ amount: 15000 }, { amount: 5000 }],
+};
+
+describe("buildCashFlowForecast", () => {
+  it("projects dues, budgets and unpaid expenses month by month", () => {
+    const forecast = buildCashFlowForecast(input, today);
+
+    expect(forecast.months).toEqual([
+      { month: "2026-03", duesInflow: 8000, budgetOutflow: 5501, expenseOutflow: 20000, net: -17501, closingBalance: -7501 },
+      { month: "2026-04", duesInflow: 0, budgetOutflow: 2500, expenseOutflow: 0, net: -2500, closingBalance: -10001 },
+      { month: "2026-05", duesInflow: 4000, budgetOutflow: 2500, expenseOutflow: 0, net: 1500, closingBalance: -8501 },
+    ]);
+  });
+
+  it("reports the lowest balance and the first month it goes below zero", () => {
+    const forecast = buildCashFlowForecast(input, today);
+
+    expect(forecast.lowestBalance).toBe(-10001);
+    expect(forecast.shortfallMonth).toBe("2026-03");
+  });
+
+  it("has no shortfall while the balance stays positive", () => {
+    const forecast = buildCashFlowForecast({ ...input, openingBalance: 50000 }, today);
+
+    expect(forecast.lowestBalance).toBe(29999);
+    expect(forecast.shortfallMonth).toBeNull();
+  });
+});
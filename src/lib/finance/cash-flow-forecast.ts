@@ -0,0 +1,99 @@
+import { addMonths, eachMonthOfInterval, format, max, startOfMonth } from "date-fns";
+
+export interface ForecastMonth {
+  month: string;         // yyyy-MM
+  duesInflow: number;    // Unpaid dues falling due, weighted by the collection rate
+  budgetOutflow: number; // Share of active budgets' unspent allocations
+  expenseOutflow: number; // Pending and approved expenses not yet paid
+  net: number;
+  closingBalance: number;
+}
+
+export interface CashFlowForecast {
+  currency: string;
+  openingBalance: number;
+  collectionRate: number; // Share of billed dues historically collected, 0-1
+  months: ForecastMonth[];
+  lowestBalance: number;
+  shortfallMonth: string | null; // First month the balance drops below zero
+}
+
+export interface ForecastInput {
+  currency: string;
+  openingBalance: number;
+  collectionRate: number;
+  monthCount: number; // How many months to project, starting with the current one
+  unpaidDues: { dueDate: Date; remaining: number }[];
+  budgets: { startDate: Date; endDate: Date; remaining: number }[];
+  unpaidExpenses: { amount: number }[];
+}
+
+/**
+ * Project the balance month by month. Overdue dues are expected this month;
+ * unpaid expenses are expected to be paid this month; what is left of each
+ * budget is spread evenly over its remaining months, and any part falling
+ * after the forecast is left out. All amounts are in minor units (cents).
+ */
+export function buildCashFlowForecast(input: ForecastInput, today: Date = new Date()): CashFlowForecast {
+  const firstMonth = startOfMonth(today);
+  const monthStarts = eachMonthOfInterval({ start: firstMonth, end: addMonths(firstMonth, input.monthCount - 1) });
+  const monthKeys = monthStarts.map((monthStart) => format(monthStart, "yyyy-MM"));
+
+  const duesInflow = new Map<string, number>();
+  const budgetOutflow = new Map<string, number>();
+  const add = (totals: Map<string, number>, month: string, amount: number) =>
+    totals.set(month, (totals.get(month) ?? 0) + amount);
+
+  for (const dues of input.unpaidDues) {
+    const month = format(max([dues.dueDate, firstMonth]), "yyyy-MM");
+    add(duesInflow, month, Math.round(dues.remaining * input.collectionRate));
+  }
+
+  for (const budget of input.budgets) {
+    if (budget.remaining <= 0) continue;
+    const budgetMonths = eachMonthOfInterval({
+      start: max([budget.startDate, firstMonth]),
+      end: max([budget.endDate, firstMonth]),
+    }).map((monthStart) => format(monthStart, "yyyy-MM"));
+
+    // Spread in whole cents, putting the leftover in the first month
+    const share = Math.floor(budget.remaining / budgetMonths.length);
+    budgetMonths.forEach((month, index) =>
+      add(budgetOutflow, month, share + (index === 0 ? budget.remaining - share * budgetMonths.length : 0))
+    );
+  }
+
+  const expenseOutflow = input.unpaidExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+  let balance = input.openingBalance;
+  let lowestBalance = balance;
+  let shortfallMonth: string | null = null;
+
+  const months = monthKeys.map((month, index) => {
+    const inflow = duesInflow.get(month) ?? 0;
+    const outflow = (budgetOutflow.get(month) ?? 0) + (index === 0 ? expenseOutflow : 0);
+    balance += inflow - outflow;
+    lowestBalance = Math.min(lowestBalance, balance);
+    if (balance < 0 && shortfallMonth === null) {
+      shortfallMonth = month;
+    }
+
+    return {
+      month,
+      duesInflow: inflow,
+      budgetOutflow: budgetOutflow.get(month) ?? 0,
+      expenseOutflow: index === 0 ? expenseOutflow : 0,
+      net: inflow - outflow,
+      closingBalance: balance,
+    };
+  });
+
+  return {
+    currency: input.currency,
+    openingBalance: input.openingBalance,
+    collectionRate: input.collectionRate,
+    months,
+    lowestBalance,
+    shortfallMonth,
+  };
+}
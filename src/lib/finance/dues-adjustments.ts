@@ -0,0 +1,35 @@
+import { DuesAdjustmentType } from "@/generated/prisma";
+
+export const DUES_ADJUSTMENT_TYPE_LABELS: Record<DuesAdjustmentType, string> = {
+  WAIVER: "Hardship waiver",
+  SCHOLARSHIP: "Scholarship",
+  DISCOUNT: "Discount",
+};
+
+/**
+ * Dues amount for each member when creating dues in bulk: the member's
+ * category default, or the fallback amount for members without a category.
+ * Members with neither are returned in `missing`.
+ */
+export function getBulkDuesAmounts(
+  memberIds: string[],
+  categories: { userId: string; duesCategory: { defaultAmount: number; currency: string } | null }[],
+  fallback?: { amount?: number; currency?: string }
+) {
+  const amounts: { userId: string; amount: number; currency?: string }[] = [];
+  const missing: string[] = [];
+
+  for (const userId of memberIds) {
+    const category = categories.find((membership) => membership.userId === userId)?.duesCategory;
+
+    if (category) {
+      amounts.push({ userId, amount: category.defaultAmount, currency: category.currency });
+    } else if (fallback?.amount) {
+      amounts.push({ userId, amount: fallback.amount, currency: fallback.currency });
+    } else {
+      missing.push(userId);
+    }
+  }
+
+  return { amounts, missing };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { allocateDuesPayment, allocateDuesRefund, getDuesBalance, getUnpaidDues } from "@/lib/finance/dues-balance";
+
+describe("getDuesBalance", () => {
+  it("adds late fees to the total and never goes below zero", () => {
+    expect(getDuesBalance({ amount: 10000, amountPaid: 4000, lateFees: [{ amount: 500 }] })).toEqual({
+      total: 10500,
+      paid: 4000,
+      remaining: 6500,
+    });
+    expect(getDuesBalance({ amount: 10000, amountPaid: 12000 }).remaining).toBe(0);
+  });
+});
+
+describe("getUnpaidDues", () => {
+  it("counts only what went to the dues, not to late fees", () => {
+    // 6000 paid in total, 500 of it on a late fee
+    expect(getUnpaidDues({ amount: 10000, amountPaid: 6000, lateFees: [{ amountPaid: 500 }] })).toBe(4500);
+  });
+});
+
+describe("allocateDuesPayment", () => {
+  const duesPayment = {
+    amount: 10000,
+    amountPaid: 0,
+    lateFees: [
+      { id: "first", amount: 500, amountPaid: 0 },
+      { id: "second", amount: 500, amountPaid: 0 },
+    ],
+  };
+
+  it("pays the dues before any late fee", () => {
+    expect(allocateDuesPayment(duesPayment, 4000)).toEqual({ toDues: 4000, toLateFees: [] });
+  });
+
+  it("pays late fees in the order they were assessed once the dues are covered", () => {
+    expect(allocateDuesPayment(duesPayment, 10700)).toEqual({
+      toDues: 10000,
+      toLateFees: [
+        { lateFeeId: "first", amount: 500 },
+        { lateFeeId: "second", amount: 200 },
+      ],
+    });
+  });
+
+  it("continues a partial payment where the last one stopped", () => {
+    const partiallyPaid = {
+      amount: 10000,
+      amountPaid: 10300,
+      lateFees: [
+        { id: "first", amount: 500, amountPaid: 300 },
+        { id: "second", amount: 500, amountPaid: 0 },
+      ],
+    };
+
+    expect(allocateDuesPayment(partiallyPaid, 400)).toEqual({
+      toDues: 0,
+      toLateFees: [
+        { lateFeeId: "first", amount: 200 },
+        { lateFeeId: "second", amount: 200 },
+      ],
+    });
+  });
+
+  it("refills the dues first after a refund left paid late fees ahead of them", () => {
+    // 10500 was paid, then 3000 of the dues portion was refunded
+    const refunded = {
+      amount: 10000,
+      amountPaid: 7500,
+      lateFees: [{ id: "first", amount: 500, amountPaid: 500 }],
+    };
+
+    expect(allocateDuesPayment(refunded, 3000)).toEqual({ toDues: 3000, toLateFees: [] });
+  });
+
+  it("does not allocate more than is owed", () => {
+    const allocation = allocateDuesPayment(duesPayment, 20000);
+    const allocated = allocation.toDues + allocation.toLateFees.reduce((sum, fee) => sum + fee.amount, 0);
+
+    expect(allocated).toBe(11000);
+  });
+});
+
+describe("allocateDuesRefund", () => {
+  // A payment of 10800 that covered 10000 of dues and two late fees
+  const portions = {
+    dues: 10000,
+    lateFees: [
+      { lateFeeId: "first", amount: 500 },
+      { lateFeeId: "second", amount: 300 },
+    ],
+  };
+
+  it("takes the most recent late fee back first", () => {
+    expect(allocateDuesRefund(portions, 200)).toEqual({
+      fromDues: 0,
+      fromLateFees: [{ lateFeeId: "second", amount: 200 }],
+    });
+  });
+
+  it("takes back the late fees before the dues", () => {
+    expect(allocateDuesRefund(portions, 1000)).toEqual({
+      fromDues: 200,
+      fromLateFees: [
+        { lateFeeId: "second", amount: 300 },
+        { lateFeeId: "first", amount: 500 },
+      ],
+    });
+  });
+
+  it("splits a full refund back into the portions that were paid", () => {
+    const refund = allocateDuesRefund(portions, 10800);
+
+    expect(refund.fromDues).toBe(10000);
+    expect(refund.fromLateFees.reduce((sum, fee) => sum + fee.amount, 0)).toBe(800);
+  });
+
+  it("never takes more than a portion holds", () => {
+    expect(allocateDuesRefund({ dues: 3000, lateFees: [] }, 5000)).toEqual({ fromDues: 3000, fromLateFees: [] });
+  });
+});
@@ -0,0 +1,124 @@
+export interface DuesBalance {
+  total: number;     // Dues amount plus unwaived late fees
+  paid: number;      // Amount paid so far
+  remaining: number; // What is still owed, never negative
+}
+
+/**
+ * Work out the running balance of a dues payment. All amounts are in minor
+ * units (cents).
+ */
+export function getDuesBalance(duesPayment: {
+  amount: number;
+  amountPaid: number;
+  lateFees?: { amount: number }[];
+}): DuesBalance {
+  const total =
+    duesPayment.amount +
+    (duesPayment.lateFees ?? []).reduce((sum, fee) => sum + fee.amount, 0);
+
+  return {
+    total,
+    paid: duesPayment.amountPaid,
+    remaining: Math.max(total - duesPayment.amountPaid, 0),
+  };
+}
+
+/**
+ * What is still owed on the dues themselves, leaving out late fees. Worked
+ * out from what has gone to the dues, since a refund may leave paid late
+ * fees ahead of them.
+ */
+export function getUnpaidDues(duesPayment: {
+  amount: number;
+  amountPaid: number;
+  lateFees: { amountPaid: number }[];
+}): number {
+  const feesPaid = duesPayment.lateFees.reduce((sum, fee) => sum + fee.amountPaid, 0);
+  return Math.max(duesPayment.amount - (duesPayment.amountPaid - feesPaid), 0);
+}
+
+export interface DuesPaymentAllocation {
+  toDues: number;
+  toLateFees: { lateFeeId: string; amount: number }[];
+}
+
+/**
+ * Split a payment between the dues amount and its late fees. Payments go to
+ * the dues first, then to late fees in the order they were assessed. Late
+ * fees must include any that have been paid so refunds are accounted for.
+ */
+export function allocateDuesPayment(
+  duesPayment: {
+    amount: number;
+    amountPaid: number;
+    lateFees: { id: string; amount: number; amountPaid: number }[];
+  },
+  paymentAmount: number
+): DuesPaymentAllocation {
+  let remaining = paymentAmount;
+
+  const toDues = Math.min(remaining, getUnpaidDues(duesPayment));
+  remaining -= toDues;
+
+  const toLateFees: DuesPaymentAllocation["toLateFees"] = [];
+
+  for (const fee of duesPayment.lateFees) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const feeOwed = Math.max(fee.amount - fee.amountPaid, 0);
+    const toFee = Math.min(remaining, feeOwed);
+
+    if (toFee > 0) {
+      toLateFees.push({ lateFeeId: fee.id, amount: toFee });
+      remaining -= toFee;
+    }
+  }
+
+  return {
+    toDues,
+    toLateFees,
+  };
+}
+
+export interface DuesRefundAllocation {
+  fromDues: number;
+  fromLateFees: { lateFeeId: string; amount: number }[];
+}
+
+/**
+ * Split a refund of a single payment between the portions it paid, taking
+ * late fees back first (most recent first) and then the dues, the reverse of
+ * how the payment was allocated. Portions are net of earlier refunds.
+ */
+export function allocateDuesRefund(
+  portions: {
+    dues: number;
+    lateFees: { lateFeeId: string; amount: number }[];
+  },
+  refundAmount: number
+): DuesRefundAllocation {
+  let remaining = refundAmount;
+
+  const fromLateFees: DuesRefundAllocation["fromLateFees"] = [];
+
+  for (const fee of [...portions.lateFees].reverse()) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const fromFee = Math.min(remaining, fee.amount);
+
+    if (fromFee > 0) {
+      fromLateFees.push({ lateFeeId: fee.lateFeeId, amount: fromFee });
+      remaining -= fromFee;
+    }
+  }
+
+  return {
+    fromDues: Math.min(remaining, portions.dues),
+    fromLateFees,
+  };
+}
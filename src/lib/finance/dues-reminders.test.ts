@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DuesScheduleFrequency } from "@/generated/prisma";
+import { getOverduePlanInstallments, isReminderDue } from "@/lib/finance/dues-reminders";
+import { getPaymentPlanInstallments } from "@/lib/finance/payment-plans";
+
+const plan = {
+  totalAmount: 30000,
+  baseAmountPaid: 5000, // Paid before the plan was requested
+  installmentCount: 3,
+  frequency: DuesScheduleFrequency.MONTHLY,
+  firstPaymentDate: new Date("2026-03-01T12:00:00Z"),
+};
+
+describe("isReminderDue", () => {
+  const dueDate = new Date("2026-03-01T12:00:00Z");
+
+  it("fires on the rule's day and for a few days after a missed run", () => {
+    expect(isReminderDue({ offsetDays: 3 }, dueDate, new Date("2026-03-03T12:00:00Z"))).toBe(false);
+    expect(isReminderDue({ offsetDays: 3 }, dueDate, new Date("2026-03-04T12:00:00Z"))).toBe(true);
+    expect(isReminderDue({ offsetDays: 3 }, dueDate, new Date("2026-03-06T12:00:00Z"))).toBe(true);
+    expect(isReminderDue({ offsetDays: 3 }, dueDate, new Date("2026-03-07T12:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getOverduePlanInstallments", () => {
+  it("returns missed installments but not upcoming ones", () => {
+    const installments = getPaymentPlanInstallments(plan, 5000);
+    const overdue = getOverduePlanInstallments(installments, new Date("2026-04-05T12:00:00Z"));
+
+    expect(overdue.map((installment) => installment.installmentNumber)).toEqual([1, 2]);
+  });
+
+  it("leaves out installments covered by payments made on the plan", () => {
+    // 15000 paid since the plan started covers the first installment and half the second
+    const installments = getPaymentPlanInstallments(plan, 5000 + 15000);
+    const overdue = getOverduePlanInstallments(installments, new Date("2026-04-05T12:00:00Z"));
+
+    expect(overdue).toHaveLength(1);
+    expect(overdue[0].installmentNumber).toBe(2);
+    expect(overdue[0].amount - overdue[0].amountPaid).toBe(5000);
+  });
+
+  it("does not treat an installment due today as overdue", () => {
+    const installments = getPaymentPlanInstallments(plan, 5000);
+
+    expect(getOverduePlanInstallments(installments, new Date("2026-03-01T18:00:00Z"))).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { differenceInCalendarDays } from "date-fns";
+import { PaymentPlanInstallment } from "@/lib/finance/payment-plans";
+
+// How many days late a reminder may still go out if the job missed its day
+export const REMINDER_CATCH_UP_DAYS = 3;
+
+// Offsets offered when a chapter sets up reminders for the first time
+export const DEFAULT_REMINDER_OFFSETS = [
+  { name: "One week before", offsetDays: -7 },
+  { name: "Due date", offsetDays: 0 },
+  { name: "Three days overdue", offsetDays: 3 },
+];
+
+/**
+ * Days between the due date and the given date. Negative while the dues are
+ * still upcoming, zero on the due date and positive once overdue.
+ */
+export function getDaysFromDueDate(dueDate: Date, asOf: Date = new Date()): number {
+  return differenceInCalendarDays(asOf, dueDate);
+}
+
+/**
+ * Whether a reminder rule should fire for dues with the given due date. Rules
+ * that were missed (e.g. the job did not run) still fire for a few days so a
+ * single skipped run does not drop reminders.
+ */
+export function isReminderDue(
+  rule: { offsetDays: number },
+  dueDate: Date,
+  asOf: Date = new Date()
+): boolean {
+  const daysLate = getDaysFromDueDate(dueDate, asOf) - rule.offsetDays;
+
+  return daysLate >= 0 && daysLate < REMINDER_CATCH_UP_DAYS;
+}
+
+/**
+ * Describe when dues are due relative to today, e.g. "is due in 7 days" or
+ * "was due 3 days ago"
+ */
+export function describeDueTiming(daysFromDue: number): string {
+  if (daysFromDue === 0) {
+    return "is due today";
+  }
+
+  if (daysFromDue === -1) {
+    return "is due tomorrow";
+  }
+
+  if (daysFromDue === 1) {
+    return "was due yesterday";
+  }
+
+  return daysFromDue < 0
+    ? `is due in ${Math.abs(daysFromDue)} days`
+    : `was due ${daysFromDue} days ago`;
+}
+
+/**
+ * Short text version of a dues reminder for SMS
+ */
+export function buildDuesReminderSms(data: {
+  chapterName: string;
+  amount: string;
+  dueTiming: string;
+  paymentLink: string;
+}): string {
+  return `${data.chapterName}: your dues payment of ${data.amount} ${data.dueTiming}. Pay online: ${data.paymentLink}`;
+}
+
+/**
+ * Installments of a payment plan that have fallen due without being paid.
+ * Plans follow dates the member agreed to, so members on a plan are only
+ * reminded once an installment is overdue.
+ */
+export function getOverduePlanInstallments(
+  installments: PaymentPlanInstallment[],
+  asOf: Date = new Date()
+): PaymentPlanInstallment[] {
+  return installments.filter(
+    (installment) => !installment.isPaid && getDaysFromDueDate(installment.dueDate, asOf) > 0
+  );
+}
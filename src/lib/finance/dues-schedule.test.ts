@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { DuesScheduleFrequency } from "@/generated/prisma";
+import { calculateInstallments, getInstallmentChanges } from "@/lib/finance/dues-schedule";
+
+const schedule = {
+  totalAmount: 10000,
+  installmentCount: 3,
+  frequency: DuesScheduleFrequency.MONTHLY,
+  firstDueDate: new Date("2026-01-15T00:00:00Z"),
+};
+
+describe("calculateInstallments", () => {
+  it("puts the remainder on the last installment", () => {
+    const installments = calculateInstallments(schedule);
+
+    expect(installments.map((installment) => installment.amount)).toEqual([3333, 3333, 3334]);
+    expect(installments.reduce((sum, installment) => sum + installment.amount, 0)).toBe(10000);
+  });
+
+  it("spaces due dates by the schedule frequency", () => {
+    const installments = calculateInstallments({ ...schedule, frequency: DuesScheduleFrequency.QUARTERLY });
+
+    expect(installments.map((installment) => installment.dueDate.toISOString().slice(0, 10))).toEqual([
+      "2026-01-15",
+      "2026-04-15",
+      "2026-07-15",
+    ]);
+  });
+});
+
+describe("getInstallmentChanges", () => {
+  const installments = calculateInstallments(schedule);
+  const now = new Date("2026-02-20T00:00:00Z"); // The first two installments are past due
+
+  it("creates every installment for a member who has none", () => {
+    const changes = getInstallmentChanges(installments, [], ["member"], { now });
+
+    expect(changes.filter((change) => change.type === "create")).toHaveLength(3);
+  });
+
+  it("does not back-bill past-due installments when skipping them", () => {
+    const changes = getInstallmentChanges(installments, [], ["late-joiner"], { now, skipPastDue: true });
+
+    expect(changes).toEqual([
+      {
+        type: "create",
+        userId: "late-joiner",
+        installmentNumber: 3,
+        amount: 3334,
+        dueDate: installments[2].dueDate,
+      },
+    ]);
+  });
+
+  it("updates unpaid installments and leaves paid ones alone", () => {
+    const existing = [
+      { id: "paid", userId: "member", installmentNumber: 1, dueDate: installments[0].dueDate, paidAt: now, amountPaid: 3333, adjusted: 0 },
+      { id: "unpaid", userId: "member", installmentNumber: 2, dueDate: installments[1].dueDate, paidAt: null, amountPaid: 0, adjusted: 0 },
+    ];
+
+    const changes = getInstallmentChanges(installments, existing, ["member"], { now, skipPastDue: true });
+
+    expect(changes).toEqual([
+      { type: "update", id: "unpaid", amount: 3333, dueDate: installments[1].dueDate },
+      {
+        type: "create",
+        userId: "member",
+        installmentNumber: 3,
+        amount: 3334,
+        dueDate: installments[2].dueDate,
+      },
+    ]);
+  });
+
+  it("does not reprice a partially paid installment below what was collected", () => {
+    const existing = [
+      { id: "partial", userId: "member", installmentNumber: 3, dueDate: installments[2].dueDate, paidAt: null, amountPaid: 3000, adjusted: 0 },
+    ];
+    const cheaper = calculateInstallments({ ...schedule, totalAmount: 6000 });
+
+    const changes = getInstallmentChanges(cheaper, existing, ["member"], { now, skipPastDue: true });
+
+    expect(changes).toEqual([]);
+  });
+
+  it("keeps an approved waiver when repricing an installment", () => {
+    const existing = [
+      { id: "waived", userId: "member", installmentNumber: 3, dueDate: installments[2].dueDate, paidAt: null, amountPaid: 0, adjusted: 1000 },
+    ];
+    const pricier = calculateInstallments({ ...schedule, totalAmount: 12000 });
+
+    const changes = getInstallmentChanges(pricier, existing, ["member"], { now, skipPastDue: true });
+
+    expect(changes).toEqual([{ type: "update", id: "waived", amount: 3000, dueDate: installments[2].dueDate }]);
+  });
+
+  it("does not reprice a waived installment below zero", () => {
+    const existing = [
+      { id: "waived", userId: "member", installmentNumber: 3, dueDate: installments[2].dueDate, paidAt: null, amountPaid: 0, adjusted: 3000 },
+    ];
+    const cheaper = calculateInstallments({ ...schedule, totalAmount: 6000 });
+
+    const changes = getInstallmentChanges(cheaper, existing, ["member"], { now, skipPastDue: true });
+
+    expect(changes).toEqual([{ type: "update", id: "waived", amount: 0, dueDate: installments[2].dueDate }]);
+  });
+
+  it("leaves installments in frozen periods alone", () => {
+    const existing = [
+      { id: "frozen", userId: "member", installmentNumber: 1, dueDate: installments[0].dueDate, paidAt: null, amountPaid: 0, adjusted: 0 },
+    ];
+    const isFrozen = (date: Date) => date < new Date("2026-02-01T00:00:00Z");
+
+    const changes = getInstallmentChanges(installments, existing, ["member"], { now, isFrozen });
+
+    expect(changes.map((change) => change.type === "update" ? change.id : change.installmentNumber)).toEqual([2, 3]);
+  });
+});
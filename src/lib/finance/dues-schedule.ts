@@ -0,0 +1,130 @@
+import { addMonths, addWeeks } from "date-fns";
+import { DuesScheduleFrequency } from "@/generated/prisma";
+
+export interface DuesInstallment {
+  installmentNumber: number;
+  amount: number; // Minor units (cents)
+  dueDate: Date;
+}
+
+/**
+ * Get the due date of a given installment (1-based) of a schedule
+ */
+export function getInstallmentDueDate(
+  firstDueDate: Date,
+  frequency: DuesScheduleFrequency,
+  installmentNumber: number
+): Date {
+  const offset = installmentNumber - 1;
+
+  switch (frequency) {
+    case DuesScheduleFrequency.WEEKLY:
+      return addWeeks(firstDueDate, offset);
+    case DuesScheduleFrequency.QUARTERLY:
+      return addMonths(firstDueDate, offset * 3);
+    case DuesScheduleFrequency.MONTHLY:
+    default:
+      return addMonths(firstDueDate, offset);
+  }
+}
+
+/**
+ * Split a schedule's total amount (in minor units) into its installments.
+ * The last installment absorbs any remainder so the installments always add
+ * up to the schedule total.
+ */
+export function calculateInstallments(schedule: {
+  totalAmount: number;
+  installmentCount: number;
+  frequency: DuesScheduleFrequency;
+  firstDueDate: Date;
+}): DuesInstallment[] {
+  const baseAmount = Math.floor(schedule.totalAmount / schedule.installmentCount);
+
+  return Array.from({ length: schedule.installmentCount }, (_, index) => {
+    const installmentNumber = index + 1;
+    const isLast = installmentNumber === schedule.installmentCount;
+    const amount = isLast
+      ? schedule.totalAmount - baseAmount * (schedule.installmentCount - 1)
+      : baseAmount;
+
+    return {
+      installmentNumber,
+      amount,
+      dueDate: getInstallmentDueDate(schedule.firstDueDate, schedule.frequency, installmentNumber),
+    };
+  });
+}
+
+// A dues payment a schedule has already generated
+export interface ScheduledDuesPayment {
+  id: string;
+  userId: string;
+  installmentNumber: number | null;
+  dueDate: Date;
+  paidAt: Date | null;
+  amountPaid: number;
+  adjusted: number; // Total of approved waivers and discounts
+}
+
+export type InstallmentChange =
+  | { type: "update"; id: string; amount: number; dueDate: Date }
+  | { type: "create"; userId: string; installmentNumber: number; amount: number; dueDate: Date };
+
+/**
+ * Work out how the given members' dues payments must change to match a
+ * schedule's installments. Installments that have been paid, even in part,
+ * are left alone, as are those in locked or closed periods. Approved waivers
+ * and discounts still apply to a repriced installment. With `skipPastDue`,
+ * members who joined late are not billed for installments already past due.
+ */
+export function getInstallmentChanges(
+  installments: DuesInstallment[],
+  existing: ScheduledDuesPayment[],
+  userIds: string[],
+  options: { skipPastDue?: boolean; isFrozen?: (date: Date) => boolean; now?: Date } = {}
+): InstallmentChange[] {
+  const { skipPastDue = false, isFrozen = () => false, now = new Date() } = options;
+  const changes: InstallmentChange[] = [];
+
+  for (const userId of userIds) {
+    for (const installment of installments) {
+      const current = existing.find(
+        (payment) =>
+          payment.userId === userId &&
+          payment.installmentNumber === installment.installmentNumber
+      );
+
+      if (current) {
+        if (
+          !current.paidAt &&
+          current.amountPaid === 0 &&
+          !isFrozen(current.dueDate) &&
+          !isFrozen(installment.dueDate)
+        ) {
+          changes.push({
+            type: "update",
+            id: current.id,
+            amount: Math.max(installment.amount - current.adjusted, 0),
+            dueDate: installment.dueDate,
+          });
+        }
+        continue;
+      }
+
+      if ((skipPastDue && installment.dueDate < now) || isFrozen(installment.dueDate)) {
+        continue;
+      }
+
+      changes.push({
+        type: "create",
+        userId,
+        installmentNumber: installment.installmentNumber,
+        amount: installment.amount,
+        dueDate: installment.dueDate,
+      });
+    }
+  }
+
+  return changes;
+}
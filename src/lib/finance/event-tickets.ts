@@ -0,0 +1,54 @@
+import { EventStatus } from "@/generated/prisma";
+
+// Most tickets a buyer can get in one order
+export const MAX_TICKETS_PER_ORDER = 10;
+
+export interface TicketAvailability {
+  remaining: number | null; // Null when there is no limit
+  isOnSale: boolean;
+  reason?: string; // Why the ticket can't be bought, for buyers
+}
+
+/**
+ * Whether a ticket type can still be bought and how many are left. Both the
+ * ticket type's quantity and the event's capacity, shared by all ticket
+ * types, are limits.
+ */
+export function getTicketAvailability(
+  ticketType: { quantity: number | null; salesEndAt: Date | null; sold: number },
+  event: { status: EventStatus; endDate: Date; capacity: number | null; ticketsSold: number },
+  now: Date = new Date()
+): TicketAvailability {
+  const limits = [
+    ticketType.quantity !== null ? ticketType.quantity - ticketType.sold : null,
+    event.capacity !== null ? event.capacity - event.ticketsSold : null,
+  ].filter((limit): limit is number => limit !== null);
+  const remaining = limits.length ? Math.max(Math.min(...limits), 0) : null;
+
+  if (event.status === EventStatus.CANCELED) {
+    return { remaining, isOnSale: false, reason: "This event was canceled" };
+  }
+  if (event.status === EventStatus.COMPLETED || now > event.endDate) {
+    return { remaining, isOnSale: false, reason: "This event has ended" };
+  }
+  if (ticketType.salesEndAt && now > ticketType.salesEndAt) {
+    return { remaining, isOnSale: false, reason: "Sales have ended" };
+  }
+  if (remaining === 0) {
+    return { remaining, isOnSale: false, reason: "Sold out" };
+  }
+
+  return { remaining, isOnSale: true };
+}
+
+// A ticket type as shown to buyers
+export interface EventTicketOption {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number; // Minor units
+  currency: string;
+  membersOnly: boolean;
+  salesEndAt: Date | null;
+  availability: TicketAvailability;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ExpenseApprovalDecision, MembershipRole } from "@/generated/prisma";
+import {
+  approvalRangesOverlap,
+  canDecideApprovalStep,
+  findApprovalRule,
+  getNextApprovalStep,
+} from "@/lib/finance/expense-approvals";
+
+const rules = [
+  { id: "small", minAmount: 0, maxAmount: 10000, isActive: true },
+  { id: "large", minAmount: 10000, maxAmount: null, isActive: true },
+  { id: "retired", minAmount: 50000, maxAmount: null, isActive: false },
+];
+
+const steps = [
+  { order: 2, name: "Treasurer", approverId: "treasurer", approverRole: null },
+  { order: 1, name: "Chapter admin", approverId: null, approverRole: MembershipRole.ADMIN },
+];
+
+describe("findApprovalRule", () => {
+  it("includes the minimum of a range and excludes its maximum", () => {
+    expect(findApprovalRule(rules, 9999)?.id).toBe("small");
+    expect(findApprovalRule(rules, 10000)?.id).toBe("large");
+  });
+
+  it("ignores inactive rules", () => {
+    expect(findApprovalRule(rules, 60000)?.id).toBe("large");
+    expect(findApprovalRule(rules.slice(2), 60000)).toBeUndefined();
+  });
+});
+
+describe("approvalRangesOverlap", () => {
+  it("lets one range start where another ends", () => {
+    expect(approvalRangesOverlap(rules[0], rules[1])).toBe(false);
+    expect(approvalRangesOverlap(rules[1], { minAmount: 20000, maxAmount: 30000 })).toBe(true);
+  });
+});
+
+describe("getNextApprovalStep", () => {
+  it("waits on steps in order until each has been approved", () => {
+    expect(getNextApprovalStep(steps, [])?.order).toBe(1);
+    expect(
+      getNextApprovalStep(steps, [{ stepOrder: 1, decision: ExpenseApprovalDecision.APPROVED, decidedById: "admin" }])?.order
+    ).toBe(2);
+    expect(
+      getNextApprovalStep(steps, [
+        { stepOrder: 1, decision: ExpenseApprovalDecision.APPROVED, decidedById: "admin" },
+        { stepOrder: 2, decision: ExpenseApprovalDecision.APPROVED, decidedById: "treasurer" },
+      ])
+    ).toBeUndefined();
+  });
+});
+
+describe("canDecideApprovalStep", () => {
+  it("lets owners decide admin steps but not plain members", () => {
+    expect(canDecideApprovalStep(steps[1], { userId: "owner", role: MembershipRole.OWNER }, [])).toBe(true);
+    expect(canDecideApprovalStep(steps[1], { userId: "member", role: MembershipRole.MEMBER }, [])).toBe(false);
+  });
+
+  it("only lets the named approver decide a named step", () => {
+    expect(canDecideApprovalStep(steps[0], { userId: "treasurer", role: MembershipRole.MEMBER }, [])).toBe(true);
+    expect(canDecideApprovalStep(steps[0], { userId: "owner", role: MembershipRole.OWNER }, [])).toBe(false);
+  });
+
+  it("never lets one person approve two steps", () => {
+    const approvals = [{ stepOrder: 1, decision: ExpenseApprovalDecision.APPROVED, decidedById: "treasurer" }];
+
+    expect(canDecideApprovalStep(steps[0], { userId: "treasurer", role: MembershipRole.ADMIN }, approvals)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { ExpenseApprovalDecision, MembershipRole } from "@/generated/prisma";
+
+export interface ApprovalStep {
+  order: number;
+  name: string;
+  approverId: string | null;
+  approverRole: MembershipRole | null;
+}
+
+export interface ApprovalRecord {
+  stepOrder: number;
+  decision: ExpenseApprovalDecision;
+  decidedById: string;
+}
+
+// Used when no approval rule covers an expense: any chapter admin can approve it
+export const DEFAULT_APPROVAL_STEPS: ApprovalStep[] = [
+  {
+    order: 1,
+    name: "Chapter admin",
+    approverId: null,
+    approverRole: MembershipRole.ADMIN,
+  },
+];
+
+/**
+ * Pick the active rule whose amount range covers the expense. Ranges include
+ * their minimum and exclude their maximum; a missing maximum has no limit.
+ */
+export function findApprovalRule<
+  T extends { minAmount: number; maxAmount: number | null; isActive: boolean }
+>(rules: T[], amount: number): T | undefined {
+  return rules
+    .filter((rule) => rule.isActive)
+    .filter((rule) => amount >= rule.minAmount && (rule.maxAmount === null || amount < rule.maxAmount))
+    .sort((a, b) => b.minAmount - a.minAmount)[0];
+}
+
+/**
+ * Whether two amount ranges share any amount
+ */
+export function approvalRangesOverlap(
+  a: { minAmount: number; maxAmount: number | null },
+  b: { minAmount: number; maxAmount: number | null }
+): boolean {
+  const aEndsBeforeB = a.maxAmount !== null && a.maxAmount <= b.minAmount;
+  const bEndsBeforeA = b.maxAmount !== null && b.maxAmount <= a.minAmount;
+  return !aEndsBeforeB && !bEndsBeforeA;
+}
+
+/**
+ * The step waiting for a decision, or undefined once every step has approved
+ */
+export function getNextApprovalStep(steps: ApprovalStep[], approvals: ApprovalRecord[]) {
+  return [...steps]
+    .sort((a, b) => a.order - b.order)
+    .find(
+      (step) =>
+        !approvals.some(
+          (approval) => approval.stepOrder === step.order && approval.decision === ExpenseApprovalDecision.APPROVED
+        )
+    );
+}
+
+/**
+ * Whether a member may decide a step. Named approvers must match exactly; role
+ * steps accept that role or above. Nobody may approve two steps of the same
+ * expense, so a two-step chain always needs two people.
+ */
+export function canDecideApprovalStep(
+  step: ApprovalStep,
+  reviewer: { userId: string; role: string },
+  approvals: ApprovalRecord[]
+): boolean {
+  const alreadyApproved = approvals.some(
+    (approval) =>
+      approval.decidedById === reviewer.userId && approval.decision === ExpenseApprovalDecision.APPROVED
+  );
+
+  if (alreadyApproved) {
+    return false;
+  }
+
+  if (step.approverId) {
+    return step.approverId === reviewer.userId;
+  }
+
+  switch (step.approverRole) {
+    case MembershipRole.OWNER:
+      return reviewer.role === MembershipRole.OWNER;
+    case MembershipRole.ADMIN:
+      return reviewer.role === MembershipRole.ADMIN || reviewer.role === MembershipRole.OWNER;
+    case MembershipRole.MEMBER:
+      return reviewer.role !== MembershipRole.PENDING_MEMBER;
+    default:
+      return false;
+  }
+}
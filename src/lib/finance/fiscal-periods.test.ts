@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { LedgerAccountType } from "@/generated/prisma";
+import { findPeriodForDate, getCarryForwardBalances, periodsOverlap } from "@/lib/finance/fiscal-periods";
+import { LEDGER_ACCOUNT_CODES } from "@/lib/finance/ledger";
+
+const spring = { startDate: new Date(2026, 0, 1), endDate: new Date(2026, 5, 30) };
+const fall = { startDate: new Date(2026, 6, 1), endDate: new Date(2026, 11, 31) };
+
+describe("findPeriodForDate", () => {
+  it("counts the whole first and last day of a period", () => {
+    expect(findPeriodForDate([spring, fall], new Date(2026, 5, 30, 23, 59))).toBe(spring);
+    expect(findPeriodForDate([spring, fall], new Date(2026, 6, 1, 0, 0))).toBe(fall);
+    expect(findPeriodForDate([spring, fall], new Date(2027, 0, 1))).toBeUndefined();
+  });
+});
+
+describe("periodsOverlap", () => {
+  it("treats periods sharing a single day as overlapping", () => {
+    expect(periodsOverlap(spring, fall)).toBe(false);
+    expect(periodsOverlap(spring, { startDate: new Date(2026, 5, 30), endDate: new Date(2026, 8, 30) })).toBe(true);
+  });
+});
+
+describe("getCarryForwardBalances", () => {
+  const closing = [
+    { accountId: "cash", code: LEDGER_ACCOUNT_CODES.OPERATING_CASH, type: LedgerAccountType.ASSET, balance: 52000 },
+    { accountId: "equity", code: LEDGER_ACCOUNT_CODES.CHAPTER_EQUITY, type: LedgerAccountType.EQUITY, balance: 40000 },
+    { accountId: "dues", code: LEDGER_ACCOUNT_CODES.DUES_INCOME, type: LedgerAccountType.INCOME, balance: 15000 },
+    { accountId: "late-fees", code: LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME, type: LedgerAccountType.INCOME, balance: 1000 },
+    { accountId: "expenses", code: LEDGER_ACCOUNT_CODES.OPERATING_EXPENSES, type: LedgerAccountType.EXPENSE, balance: 4000 },
+  ];
+
+  it("zeroes income and expenses and moves the net result into chapter equity", () => {
+    expect(getCarryForwardBalances(closing)).toEqual([
+      { accountId: "cash", openingBalance: 52000 },
+      { accountId: "equity", openingBalance: 52000 }, // 40000 + 16000 income - 4000 expenses
+      { accountId: "dues", openingBalance: 0 },
+      { accountId: "late-fees", openingBalance: 0 },
+      { accountId: "expenses", openingBalance: 0 },
+    ]);
+  });
+
+  it("takes a net loss out of chapter equity", () => {
+    const balances = getCarryForwardBalances([
+      { accountId: "equity", code: LEDGER_ACCOUNT_CODES.CHAPTER_EQUITY, type: LedgerAccountType.EQUITY, balance: 10000 },
+      { accountId: "expenses", code: LEDGER_ACCOUNT_CODES.OPERATING_EXPENSES, type: LedgerAccountType.EXPENSE, balance: 2500 },
+    ]);
+
+    expect(balances[0]).toEqual({ accountId: "equity", openingBalance: 7500 });
+  });
+});
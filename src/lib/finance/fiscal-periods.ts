@@ -0,0 +1,52 @@
+import { LedgerAccountType } from "@/generated/prisma";
+import { LEDGER_ACCOUNT_CODES } from "@/lib/finance/ledger";
+import { endOfDay, startOfDay } from "date-fns";
+
+export interface PeriodRange {
+  startDate: Date;
+  endDate: Date; // Inclusive
+}
+
+/**
+ * The period a date falls in, counting whole days at both ends
+ */
+export function findPeriodForDate<T extends PeriodRange>(periods: T[], date: Date): T | undefined {
+  return periods.find(
+    (period) => date >= startOfDay(period.startDate) && date <= endOfDay(period.endDate)
+  );
+}
+
+/**
+ * Whether two periods share any day
+ */
+export function periodsOverlap(a: PeriodRange, b: PeriodRange): boolean {
+  return startOfDay(a.startDate) <= endOfDay(b.endDate) && startOfDay(b.startDate) <= endOfDay(a.endDate);
+}
+
+/**
+ * Opening balances for the period after one closing with these balances.
+ * Asset, liability and equity balances carry over as they are; income and
+ * expense accounts start again from zero, with the net result moved into
+ * chapter equity.
+ */
+export function getCarryForwardBalances(
+  closing: { accountId: string; code: string; type: LedgerAccountType; balance: number }[]
+): { accountId: string; openingBalance: number }[] {
+  const netIncome = closing.reduce((sum, account) => {
+    if (account.type === LedgerAccountType.INCOME) return sum + account.balance;
+    if (account.type === LedgerAccountType.EXPENSE) return sum - account.balance;
+    return sum;
+  }, 0);
+
+  return closing.map((account) => {
+    if (account.type === LedgerAccountType.INCOME || account.type === LedgerAccountType.EXPENSE) {
+      return { accountId: account.accountId, openingBalance: 0 };
+    }
+
+    return {
+      accountId: account.accountId,
+      openingBalance:
+        account.code === LEDGER_ACCOUNT_CODES.CHAPTER_EQUITY ? account.balance + netIncome : account.balance,
+    };
+  });
+}
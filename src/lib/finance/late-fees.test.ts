@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { LateFeeRecurrence, LateFeeType } from "@/generated/prisma";
+import { calculateLateFeeAmount, getLateFeeAssessments } from "@/lib/finance/late-fees";
+
+const rule = {
+  graceDays: 5,
+  feeType: LateFeeType.FLAT,
+  amount: 1500,
+  recurrence: LateFeeRecurrence.ONE_TIME,
+  recurrenceDays: null,
+  maxApplications: null,
+};
+
+const duesPayment = { amount: 10000, dueDate: new Date(2026, 0, 1) };
+
+describe("calculateLateFeeAmount", () => {
+  it("charges flat fees as they are and rounds percentage fees", () => {
+    expect(calculateLateFeeAmount(rule, 10000)).toBe(1500);
+    // 2.5% of $123.45 is $3.08625
+    expect(calculateLateFeeAmount({ feeType: LateFeeType.PERCENTAGE, amount: 250 }, 12345)).toBe(309);
+  });
+});
+
+describe("getLateFeeAssessments", () => {
+  it("charges nothing until the grace period is over", () => {
+    expect(getLateFeeAssessments(rule, duesPayment, new Date(2026, 0, 6))).toEqual([]);
+    expect(getLateFeeAssessments(rule, duesPayment, new Date(2026, 0, 7))).toEqual([{ sequence: 1, amount: 1500 }]);
+  });
+
+  it("charges a one-time fee once however late the payment is", () => {
+    expect(getLateFeeAssessments(rule, duesPayment, new Date(2026, 5, 1))).toHaveLength(1);
+  });
+
+  it("charges a recurring fee again every period, up to the maximum", () => {
+    const recurring = { ...rule, recurrence: LateFeeRecurrence.RECURRING, recurrenceDays: 7, maxApplications: 3 };
+
+    // Grace ends on Jan 6; fees on Jan 7 and Jan 14
+    expect(getLateFeeAssessments(recurring, duesPayment, new Date(2026, 0, 13))).toHaveLength(1);
+    expect(getLateFeeAssessments(recurring, duesPayment, new Date(2026, 0, 14))).toEqual([
+      { sequence: 1, amount: 1500 },
+      { sequence: 2, amount: 1500 },
+    ]);
+    expect(getLateFeeAssessments(recurring, duesPayment, new Date(2026, 5, 1))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,67 @@
+import { differenceInCalendarDays } from "date-fns";
+import { LateFeeRecurrence, LateFeeType } from "@/generated/prisma";
+
+export interface LateFeeAssessment {
+  sequence: number;
+  amount: number; // Minor units (cents)
+}
+
+// Basis points in 100%, PERCENTAGE rules store their rate in basis points
+const BASIS_POINTS = 10000;
+
+/**
+ * Calculate the fee for a single application of a rule against a dues amount.
+ * Both the dues amount and FLAT fees are in minor units; PERCENTAGE fees are
+ * rounded to the nearest minor unit.
+ */
+export function calculateLateFeeAmount(
+  rule: { feeType: LateFeeType; amount: number },
+  duesAmount: number
+): number {
+  if (rule.feeType === LateFeeType.PERCENTAGE) {
+    return Math.round((duesAmount * rule.amount) / BASIS_POINTS);
+  }
+
+  return rule.amount;
+}
+
+/**
+ * Work out every fee a rule should have produced for an unpaid dues payment
+ * as of the given date. Returns an empty list while the payment is still
+ * within its grace period.
+ */
+export function getLateFeeAssessments(
+  rule: {
+    graceDays: number;
+    feeType: LateFeeType;
+    amount: number;
+    recurrence: LateFeeRecurrence;
+    recurrenceDays: number | null;
+    maxApplications: number | null;
+  },
+  duesPayment: { amount: number; dueDate: Date },
+  asOf: Date = new Date()
+): LateFeeAssessment[] {
+  const daysPastGrace = differenceInCalendarDays(asOf, duesPayment.dueDate) - rule.graceDays;
+
+  if (daysPastGrace <= 0) {
+    return [];
+  }
+
+  let applications = 1;
+
+  if (rule.recurrence === LateFeeRecurrence.RECURRING && rule.recurrenceDays && rule.recurrenceDays > 0) {
+    applications = 1 + Math.floor((daysPastGrace - 1) / rule.recurrenceDays);
+
+    if (rule.maxApplications) {
+      applications = Math.min(applications, rule.maxApplications);
+    }
+  }
+
+  const amount = calculateLateFeeAmount(rule, duesPayment.amount);
+
+  return Array.from({ length: applications }, (_, index) => ({
+    sequence: index + 1,
+    amount,
+  }));
+}
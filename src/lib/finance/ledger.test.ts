@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { LedgerAccountType, TransactionType } from "@/generated/prisma";
+import { allocateDuesRefund } from "@/lib/finance/dues-balance";
+import { getAccountBalance, getTransactionPostingCodes, isBalanced, LEDGER_ACCOUNT_CODES } from "@/lib/finance/ledger";
+
+describe("isBalanced", () => {
+  it("needs equal debits and credits over at least two lines", () => {
+    expect(isBalanced([
+      { accountId: "cash", debit: 5000, credit: 0 },
+      { accountId: "social", debit: 0, credit: 3000 },
+      { accountId: "house", debit: 0, credit: 2000 },
+    ])).toBe(true);
+    expect(isBalanced([
+      { accountId: "cash", debit: 5000, credit: 0 },
+      { accountId: "social", debit: 0, credit: 4999 },
+    ])).toBe(false);
+    expect(isBalanced([{ accountId: "cash", debit: 0, credit: 0 }])).toBe(false);
+  });
+
+  it("rejects lines on both sides, on neither side or with fractional amounts", () => {
+    expect(isBalanced([
+      { accountId: "cash", debit: 100, credit: 100 },
+      { accountId: "social", debit: 0, credit: 0 },
+    ])).toBe(false);
+    expect(isBalanced([
+      { accountId: "cash", debit: 0.5, credit: 0 },
+      { accountId: "social", debit: 0, credit: 0.5 },
+    ])).toBe(false);
+    expect(isBalanced([
+      { accountId: "cash", debit: -100, credit: 0 },
+      { accountId: "social", debit: 0, credit: -100 },
+    ])).toBe(false);
+  });
+});
+
+describe("getAccountBalance", () => {
+  it("is positive on the account's normal side", () => {
+    const totals = { debit: 7000, credit: 2000 };
+
+    expect(getAccountBalance(LedgerAccountType.ASSET, totals)).toBe(5000);
+    expect(getAccountBalance(LedgerAccountType.EXPENSE, totals)).toBe(5000);
+    expect(getAccountBalance(LedgerAccountType.INCOME, totals)).toBe(-5000);
+    expect(getAccountBalance(LedgerAccountType.EQUITY, { debit: 0, credit: 3000 })).toBe(3000);
+  });
+});
+
+describe("getTransactionPostingCodes", () => {
+  it("credits the matching income account for money coming in", () => {
+    expect(getTransactionPostingCodes({ type: TransactionType.DUES_PAYMENT, amount: 10000 })).toEqual({
+      debit: LEDGER_ACCOUNT_CODES.OPERATING_CASH,
+      credit: LEDGER_ACCOUNT_CODES.DUES_INCOME,
+    });
+    expect(getTransactionPostingCodes({ type: TransactionType.LATE_FEE, amount: 500, lateFeeId: "fee" })).toEqual({
+      debit: LEDGER_ACCOUNT_CODES.OPERATING_CASH,
+      credit: LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME,
+    });
+  });
+
+  it("takes a refund covering dues and a late fee back out of each income account", () => {
+    // A payment of 10500 covered 10000 of dues and a 500 late fee; all of it is refunded
+    const refund = allocateDuesRefund({ dues: 10000, lateFees: [{ lateFeeId: "fee", amount: 500 }] }, 10500);
+    const transactions = [
+      { type: TransactionType.REFUND, amount: -refund.fromDues },
+      ...refund.fromLateFees.map((lateFee) => ({
+        type: TransactionType.REFUND,
+        amount: -lateFee.amount,
+        lateFeeId: lateFee.lateFeeId,
+      })),
+    ];
+
+    const lines = transactions.map((transaction) => ({
+      amount: Math.abs(transaction.amount),
+      ...getTransactionPostingCodes(transaction),
+    }));
+
+    expect(lines).toEqual([
+      { amount: 10000, debit: LEDGER_ACCOUNT_CODES.DUES_INCOME, credit: LEDGER_ACCOUNT_CODES.OPERATING_CASH },
+      { amount: 500, debit: LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME, credit: LEDGER_ACCOUNT_CODES.OPERATING_CASH },
+    ]);
+  });
+
+  it("leaves transfers to name their own accounts", () => {
+    expect(getTransactionPostingCodes({ type: TransactionType.TRANSFER, amount: 1000 })).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import { LedgerAccountType, TransactionType } from "@/generated/prisma";
+
+// Codes of the accounts every chapter's chart of accounts starts with
+export const LEDGER_ACCOUNT_CODES = {
+  OPERATING_CASH: "1000",
+  SOCIAL_FUND: "1100",
+  PHILANTHROPY_FUND: "1200",
+  HOUSE_FUND: "1300",
+  CHAPTER_EQUITY: "3000",
+  DUES_INCOME: "4000",
+  LATE_FEE_INCOME: "4100",
+  OTHER_INCOME: "4900",
+  OPERATING_EXPENSES: "5000",
+} as const;
+
+export const DEFAULT_CHART_OF_ACCOUNTS: {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  description: string;
+}[] = [
+  {
+    code: LEDGER_ACCOUNT_CODES.OPERATING_CASH,
+    name: "Operating Account",
+    type: LedgerAccountType.ASSET,
+    description: "Main bank account; dues are deposited here and expenses are paid from it",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.SOCIAL_FUND,
+    name: "Social Fund",
+    type: LedgerAccountType.ASSET,
+    description: "Money set aside for socials and events",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.PHILANTHROPY_FUND,
+    name: "Philanthropy Fund",
+    type: LedgerAccountType.ASSET,
+    description: "Money raised or set aside for philanthropy",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.HOUSE_FUND,
+    name: "House Fund",
+    type: LedgerAccountType.ASSET,
+    description: "Money set aside for the chapter house",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.CHAPTER_EQUITY,
+    name: "Chapter Equity",
+    type: LedgerAccountType.EQUITY,
+    description: "Opening balances and retained funds",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.DUES_INCOME,
+    name: "Dues Income",
+    type: LedgerAccountType.INCOME,
+    description: "Member dues collected, net of refunds",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME,
+    name: "Late Fee Income",
+    type: LedgerAccountType.INCOME,
+    description: "Late fees collected on overdue dues",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.OTHER_INCOME,
+    name: "Other Income",
+    type: LedgerAccountType.INCOME,
+    description: "Donations, fundraising and other income",
+  },
+  {
+    code: LEDGER_ACCOUNT_CODES.OPERATING_EXPENSES,
+    name: "Operating Expenses",
+    type: LedgerAccountType.EXPENSE,
+    description: "Approved chapter expenses",
+  },
+];
+
+/**
+ * ASSET and EXPENSE accounts grow with debits; LIABILITY, EQUITY and INCOME
+ * accounts grow with credits
+ */
+export function isDebitNormal(type: LedgerAccountType): boolean {
+  return type === LedgerAccountType.ASSET || type === LedgerAccountType.EXPENSE;
+}
+
+/**
+ * Balance of an account from its total debits and credits, positive when the
+ * account is on its normal side
+ */
+export function getAccountBalance(
+  type: LedgerAccountType,
+  totals: { debit: number; credit: number }
+): number {
+  return isDebitNormal(type) ? totals.debit - totals.credit : totals.credit - totals.debit;
+}
+
+export interface JournalLineInput {
+  accountId: string;
+  debit: number;  // Minor units (cents)
+  credit: number; // Minor units (cents)
+  memo?: string | null;
+}
+
+/**
+ * A journal entry is balanced when total debits equal total credits and every
+ * line moves money on exactly one side
+ */
+export function isBalanced(lines: JournalLineInput[]): boolean {
+  if (lines.length < 2) {
+    return false;
+  }
+
+  const validLines = lines.every(
+    (line) =>
+      Number.isInteger(line.debit) &&
+      Number.isInteger(line.credit) &&
+      line.debit >= 0 &&
+      line.credit >= 0 &&
+      (line.debit > 0) !== (line.credit > 0)
+  );
+
+  const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+  const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+
+  return validLines && debits === credits;
+}
+
+/**
+ * Which default accounts a transaction posts to. Money coming in debits the
+ * operating account and credits the matching income account; money going out
+ * (a negative amount) does the reverse. Refunds of a late fee come out of late
+ * fee income, like the fee went in. Transfers name their own accounts so they
+ * have no default posting.
+ */
+export function getTransactionPostingCodes(transaction: {
+  type: TransactionType;
+  amount: number;
+  lateFeeId?: string | null;
+}): { debit: string; credit: string } | null {
+  const { type, amount } = transaction;
+  const counterAccount: Record<TransactionType, string | null> = {
+    DUES_PAYMENT: LEDGER_ACCOUNT_CODES.DUES_INCOME,
+    LATE_FEE: LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME,
+    INCOME: LEDGER_ACCOUNT_CODES.OTHER_INCOME,
+    REFUND: transaction.lateFeeId ? LEDGER_ACCOUNT_CODES.LATE_FEE_INCOME : LEDGER_ACCOUNT_CODES.DUES_INCOME,
+    EXPENSE: LEDGER_ACCOUNT_CODES.OPERATING_EXPENSES,
+    OTHER: amount >= 0 ? LEDGER_ACCOUNT_CODES.OTHER_INCOME : LEDGER_ACCOUNT_CODES.OPERATING_EXPENSES,
+    TRANSFER: null,
+  };
+
+  const counter = counterAccount[type];
+
+  if (!counter || amount === 0) {
+    return null;
+  }
+
+  return amount > 0
+    ? { debit: LEDGER_ACCOUNT_CODES.OPERATING_CASH, credit: counter }
+    : { debit: counter, credit: LEDGER_ACCOUNT_CODES.OPERATING_CASH };
+}
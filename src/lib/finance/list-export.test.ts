@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { ExpenseStatus, PaymentMethod, TransactionType } from "@/generated/prisma";
+import { duesPaymentsToTable, expensesToTable, toExportFile, transactionsToTable } from "@/lib/finance/list-export";
+
+const member = { name: "Jane Doe", email: "jane@example.com" };
+
+describe("duesPaymentsToTable", () => {
+  it("writes amounts as decimals with late fees, refunds and what is still owed", () => {
+    const table = duesPaymentsToTable([
+      {
+        amount: 10000,
+        amountPaid: 6000,
+        currency: "USD",
+        dueDate: new Date(2026, 1, 1),
+        paidAt: null,
+        installmentNumber: 2,
+        user: member,
+        schedule: { name: "Spring dues", installmentCount: 3 },
+        lateFees: [{ amount: 500 }],
+        paymentRecords: [
+          { method: PaymentMethod.CHECK, referenceNumber: "1042", refunds: [{ amount: 1000 }] },
+          { method: PaymentMethod.STRIPE, referenceNumber: null, refunds: [] },
+        ],
+      },
+    ]);
+
+    expect(table.name).toBe("dues");
+    expect(table.rows[1]).toEqual([
+      "Jane Doe",
+      "jane@example.com",
+      "Spring dues · 2/3",
+      "2026-02-01",
+      "USD",
+      100,
+      5,
+      60,
+      10,
+      45,
+      "Partially paid",
+      "",
+      "Check #1042; Card (Stripe)",
+    ]);
+  });
+});
+
+describe("expensesToTable", () => {
+  it("leaves blanks for expenses that are not budgeted, approved or paid yet", () => {
+    const { rows } = expensesToTable([
+      {
+        title: "Pizza",
+        description: null,
+        amount: 4510,
+        currency: "USD",
+        status: ExpenseStatus.PENDING,
+        submittedAt: new Date(2026, 2, 4),
+        approvedAt: null,
+        paidAt: null,
+        receiptUrl: null,
+        receiptKey: "receipts/pizza.pdf",
+        submittedBy: member,
+        approvedBy: null,
+        budget: null,
+        lineItem: null,
+      },
+    ]);
+
+    expect(rows[1]).toEqual([
+      "2026-03-04", "Pizza", null, "Jane Doe", "jane@example.com", "", "", "USD", 45.1, "PENDING", "", "", "", "Yes",
+    ]);
+  });
+});
+
+describe("toExportFile", () => {
+  const table = transactionsToTable([
+    {
+      id: "tx_1",
+      amount: -2000,
+      currency: "USD",
+      type: TransactionType.REFUND,
+      description: "-Refund, spring dues",
+      createdAt: new Date(2026, 2, 6),
+      processedAt: new Date(2026, 2, 5),
+      reconciledAt: null,
+      expense: null,
+      duesPayment: { user: member },
+    },
+  ]);
+
+  it("writes CSV named after the list and today's date", () => {
+    const file = toExportFile(table, "csv");
+
+    expect(file.fileName).toMatch(/^transactions-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(file.contentType).toBe("text/csv; charset=utf-8");
+    expect(file.body).toBe(
+      "Date,Type,Description,Member,Expense,Currency,Amount,Reconciled on,Transaction ID\r\n" +
+      "2026-03-05,REFUND,\"'-Refund, spring dues\",Jane Doe,,USD,-20,,tx_1\r\n"
+    );
+  });
+
+  it("writes XLSX as a zip package", () => {
+    const file = toExportFile(table, "xlsx");
+
+    expect(file.fileName).toMatch(/\.xlsx$/);
+    expect(Array.from((file.body as Uint8Array).slice(0, 2))).toEqual([0x50, 0x4b]); // "PK"
+  });
+});
@@ -0,0 +1,231 @@
+import { BudgetStatus, ExpenseStatus, PaymentMethod, TransactionType } from "@/generated/prisma";
+import { toCsv } from "@/lib/utils/csv";
+import { toXlsx } from "@/lib/utils/xlsx";
+import { fromMinorUnits } from "@/lib/finance/money";
+import { getDuesBalance } from "@/lib/finance/dues-balance";
+import { getDuesLabel } from "@/lib/finance/statements";
+import { describePaymentMethod } from "@/lib/finance/payment-methods";
+import { BudgetUsage } from "@/lib/finance/budget-usage";
+import { format } from "date-fns";
+
+export type ListExportFormat = "csv" | "xlsx";
+
+type Cell = string | number | boolean | null;
+
+// A finance list ready to be written out; the first row is the header
+export interface ExportTable {
+  name: string; // Used for the file and sheet name, e.g. "expenses"
+  rows: Cell[][];
+}
+
+export interface ExportFile {
+  body: string | Uint8Array;
+  contentType: string;
+  fileName: string;
+}
+
+interface ExportUser {
+  name: string | null;
+  email: string | null;
+}
+
+// Dates without a time so spreadsheets read them as dates
+const day = (date: Date | null | undefined) => (date ? format(date, "yyyy-MM-dd") : "");
+
+/**
+ * Write a table as CSV or XLSX, named after the list and today's date,
+ * e.g. "expenses-2026-10-18.xlsx"
+ */
+export function toExportFile(table: ExportTable, exportFormat: ListExportFormat): ExportFile {
+  const fileName = `${table.name}-${day(new Date())}.${exportFormat}`;
+
+  if (exportFormat === "xlsx") {
+    return {
+      body: new Uint8Array(toXlsx(table.name, table.rows)),
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      fileName,
+    };
+  }
+
+  return {
+    body: toCsv(table.rows),
+    contentType: "text/csv; charset=utf-8",
+    fileName,
+  };
+}
+
+/**
+ * Dues with what was billed, paid, refunded and is still owed. Amounts are
+ * plain decimals so spreadsheets can total them.
+ */
+export function duesPaymentsToTable(
+  duesPayments: {
+    amount: number;
+    amountPaid: number;
+    currency: string;
+    dueDate: Date;
+    paidAt: Date | null;
+    installmentNumber: number | null;
+    user: ExportUser;
+    schedule: { name: string; installmentCount: number } | null;
+    lateFees: { amount: number }[];
+    paymentRecords: {
+      method: PaymentMethod;
+      referenceNumber: string | null;
+      refunds: { amount: number }[];
+    }[];
+  }[]
+): ExportTable {
+  return {
+    name: "dues",
+    rows: [
+      ["Member", "Email", "Dues", "Due date", "Currency", "Amount", "Late fees", "Paid", "Refunded", "Remaining", "Status", "Paid in full on", "Payment methods"],
+      ...duesPayments.map((duesPayment) => {
+        const amount = (value: number) => fromMinorUnits(value, duesPayment.currency);
+        const balance = getDuesBalance(duesPayment);
+        const refunded = duesPayment.paymentRecords
+          .flatMap((record) => record.refunds)
+          .reduce((sum, refund) => sum + refund.amount, 0);
+
+        return [
+          duesPayment.user.name,
+          duesPayment.user.email,
+          getDuesLabel(duesPayment),
+          day(duesPayment.dueDate),
+          duesPayment.currency,
+          amount(duesPayment.amount),
+          amount(balance.total - duesPayment.amount),
+          amount(balance.paid),
+          amount(refunded),
+          amount(balance.remaining),
+          duesPayment.paidAt ? "Paid" : balance.paid > 0 ? "Partially paid" : "Pending",
+          day(duesPayment.paidAt),
+          duesPayment.paymentRecords
+            .map((record) => describePaymentMethod(record.method, record.referenceNumber))
+            .join("; "),
+        ];
+      }),
+    ],
+  };
+}
+
+/**
+ * Expenses with who submitted and approved them and where they were budgeted
+ */
+export function expensesToTable(
+  expenses: {
+    title: string;
+    description: string | null;
+    amount: number;
+    currency: string;
+    status: ExpenseStatus;
+    submittedAt: Date;
+    approvedAt: Date | null;
+    paidAt: Date | null;
+    receiptUrl: string | null;
+    receiptKey: string | null;
+    submittedBy: ExportUser;
+    approvedBy: ExportUser | null;
+    budget: { name: string } | null;
+    lineItem: { name: string } | null;
+  }[]
+): ExportTable {
+  return {
+    name: "expenses",
+    rows: [
+      ["Submitted", "Title", "Description", "Submitted by", "Email", "Budget", "Line item", "Currency", "Amount", "Status", "Approved on", "Approved by", "Paid on", "Receipt"],
+      ...expenses.map((expense) => [
+        day(expense.submittedAt),
+        expense.title,
+        expense.description,
+        expense.submittedBy.name,
+        expense.submittedBy.email,
+        expense.budget?.name ?? "",
+        expense.lineItem?.name ?? "",
+        expense.currency,
+        fromMinorUnits(expense.amount, expense.currency),
+        expense.status,
+        day(expense.approvedAt),
+        expense.approvedBy?.name ?? expense.approvedBy?.email ?? "",
+        day(expense.paidAt),
+        expense.receiptKey || expense.receiptUrl ? "Yes" : "No",
+      ]),
+    ],
+  };
+}
+
+/**
+ * Budgets with allocated vs. spent, committed and pending amounts
+ */
+export function budgetsToTable(
+  budgets: {
+    name: string;
+    status: BudgetStatus;
+    startDate: Date;
+    endDate: Date;
+    currency: string;
+    usage: BudgetUsage;
+    _count: { lineItems: number };
+  }[]
+): ExportTable {
+  return {
+    name: "budgets",
+    rows: [
+      ["Name", "Status", "Start", "End", "Currency", "Allocated", "Spent", "Committed", "Pending", "Remaining", "Over budget", "Line items"],
+      ...budgets.map((budget) => {
+        const amount = (value: number) => fromMinorUnits(value, budget.currency);
+
+        return [
+          budget.name,
+          budget.status,
+          day(budget.startDate),
+          day(budget.endDate),
+          budget.currency,
+          amount(budget.usage.allocated),
+          amount(budget.usage.spent),
+          amount(budget.usage.committed),
+          amount(budget.usage.pending),
+          amount(budget.usage.remaining),
+          budget.usage.isOverBudget ? "Yes" : "No",
+          budget._count.lineItems,
+        ];
+      }),
+    ],
+  };
+}
+
+/**
+ * Transactions with the member or expense they came from
+ */
+export function transactionsToTable(
+  transactions: {
+    id: string;
+    amount: number;
+    currency: string;
+    type: TransactionType;
+    description: string | null;
+    createdAt: Date;
+    processedAt: Date | null;
+    reconciledAt: Date | null;
+    expense: { title: string } | null;
+    duesPayment: { user: ExportUser } | null;
+  }[]
+): ExportTable {
+  return {
+    name: "transactions",
+    rows: [
+      ["Date", "Type", "Description", "Member", "Expense", "Currency", "Amount", "Reconciled on", "Transaction ID"],
+      ...transactions.map((transaction) => [
+        day(transaction.processedAt ?? transaction.createdAt),
+        transaction.type,
+        transaction.description,
+        transaction.duesPayment?.user.name ?? transaction.duesPayment?.user.email ?? "",
+        transaction.expense?.title ?? "",
+        transaction.currency,
+        fromMinorUnits(transaction.amount, transaction.currency),
+        day(transaction.reconciledAt),
+        transaction.id,
+      ]),
+    ],
+  };
+}
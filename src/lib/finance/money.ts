@@ -0,0 +1,31 @@
+/**
+ * Money is stored as integer minor units (cents for USD) alongside an ISO 4217
+ * currency code. These helpers convert between minor units and the decimal
+ * amounts people type into forms.
+ */
+
+export const DEFAULT_CURRENCY = "USD";
+
+/**
+ * Number of decimal places a currency uses, e.g. 2 for USD and 0 for JPY
+ */
+export function getCurrencyExponent(currency: string = DEFAULT_CURRENCY): number {
+  return (
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).resolvedOptions()
+      .maximumFractionDigits ?? 2
+  );
+}
+
+/**
+ * Convert a decimal amount (e.g. 12.34) to integer minor units (e.g. 1234)
+ */
+export function toMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  return Math.round(amount * 10 ** getCurrencyExponent(currency));
+}
+
+/**
+ * Convert integer minor units (e.g. 1234) to a decimal amount (e.g. 12.34)
+ */
+export function fromMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  return amount / 10 ** getCurrencyExponent(currency);
+}
@@ -0,0 +1,43 @@
+import { PaymentMethod } from "@/generated/prisma";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  STRIPE: "Card (Stripe)",
+  CASH: "Cash",
+  CHECK: "Check",
+  VENMO: "Venmo",
+  ZELLE: "Zelle",
+  BANK_TRANSFER: "Bank transfer",
+  OTHER: "Other",
+};
+
+// Methods an admin can record by hand; Stripe payments are recorded by webhook
+export const OFFLINE_PAYMENT_METHODS = [
+  PaymentMethod.CASH,
+  PaymentMethod.CHECK,
+  PaymentMethod.VENMO,
+  PaymentMethod.ZELLE,
+  PaymentMethod.BANK_TRANSFER,
+  PaymentMethod.OTHER,
+] as const;
+
+/**
+ * Shape of Transaction.metadata for transactions created from a dues payment
+ */
+export type PaymentTransactionMetadata = {
+  paymentMethod: PaymentMethod;
+  referenceNumber?: string;
+  receivedById?: string;
+};
+
+/**
+ * How a payment was made, e.g. "Check #1042" or "Cash"
+ */
+export function describePaymentMethod(method: PaymentMethod, referenceNumber?: string | null): string {
+  const label = PAYMENT_METHOD_LABELS[method];
+
+  if (!referenceNumber) {
+    return label;
+  }
+
+  return method === PaymentMethod.CHECK ? `${label} #${referenceNumber}` : `${label} (${referenceNumber})`;
+}
@@ -0,0 +1,51 @@
+import { DuesScheduleFrequency } from "@/generated/prisma";
+import { calculateInstallments } from "@/lib/finance/dues-schedule";
+
+export interface PaymentPlanInstallment {
+  installmentNumber: number;
+  amount: number;     // Minor units (cents)
+  dueDate: Date;
+  amountPaid: number; // Minor units (cents)
+  isPaid: boolean;
+}
+
+/**
+ * Break a payment plan into its installments and mark how much of each has
+ * been covered. Payments made after the plan was requested are applied to the
+ * installments in order.
+ */
+export function getPaymentPlanInstallments(
+  plan: {
+    totalAmount: number;
+    baseAmountPaid: number;
+    installmentCount: number;
+    frequency: DuesScheduleFrequency;
+    firstPaymentDate: Date;
+  },
+  duesAmountPaid: number
+): PaymentPlanInstallment[] {
+  let paid = Math.max(duesAmountPaid - plan.baseAmountPaid, 0);
+
+  return calculateInstallments({
+    totalAmount: plan.totalAmount,
+    installmentCount: plan.installmentCount,
+    frequency: plan.frequency,
+    firstDueDate: new Date(plan.firstPaymentDate),
+  }).map((installment) => {
+    const covered = Math.min(paid, installment.amount);
+    paid -= covered;
+
+    return {
+      ...installment,
+      amountPaid: covered,
+      isPaid: covered >= installment.amount,
+    };
+  });
+}
+
+/**
+ * The installment a member should pay next, or undefined once the plan is covered
+ */
+export function getNextPlanInstallment(installments: PaymentPlanInstallment[]) {
+  return installments.find((installment) => !installment.isPaid);
+}
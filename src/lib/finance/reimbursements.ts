@@ -0,0 +1,37 @@
+export interface ReimbursableExpense {
+  id: string;
+  amount: number; // Minor units
+  currency: string;
+  submittedById: string;
+}
+
+export interface ReimbursementGroup<T extends ReimbursableExpense> {
+  payeeId: string;
+  currency: string;
+  total: number;
+  expenses: T[];
+}
+
+/**
+ * Group approved expenses into one payout per submitter. Expenses in different
+ * currencies can't share a payout, so a submitter gets one group per currency.
+ */
+export function groupExpensesByPayee<T extends ReimbursableExpense>(expenses: T[]): ReimbursementGroup<T>[] {
+  const groups = new Map<string, ReimbursementGroup<T>>();
+
+  for (const expense of expenses) {
+    const key = `${expense.submittedById}:${expense.currency}`;
+    const group = groups.get(key) ?? {
+      payeeId: expense.submittedById,
+      currency: expense.currency,
+      total: 0,
+      expenses: [],
+    };
+
+    group.total += expense.amount;
+    group.expenses.push(expense);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
@@ -0,0 +1,159 @@
+import { PdfDocument } from "@/lib/pdf";
+import { toCsv } from "@/lib/utils/csv";
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { fromMinorUnits } from "@/lib/finance/money";
+import { FinancialReport } from "@/lib/finance/reports";
+import { format, parse } from "date-fns";
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const formatMonth = (month: string) => format(parse(month, "yyyy-MM", new Date()), "MMM yyyy");
+
+/**
+ * File name for a downloaded report, e.g. "financial-report-2026-01-01-to-2026-06-30.csv"
+ */
+export function getReportFileName(report: FinancialReport, extension: "csv" | "pdf") {
+  const day = (date: Date) => format(date, "yyyy-MM-dd");
+  return `financial-report-${day(report.startDate)}-to-${day(report.endDate)}.${extension}`;
+}
+
+/**
+ * One CSV with a section per report. Amounts are plain decimals so
+ * spreadsheets can total them.
+ */
+export function financialReportToCsv(report: FinancialReport): string {
+  const amount = (value: number) => fromMinorUnits(value, report.currency);
+  const { incomeStatement, cashFlow, duesCollection } = report;
+
+  return toCsv([
+    [`${report.chapterName} financial report`],
+    ["Period", formatDate(report.startDate), formatDate(report.endDate)],
+    ["Currency", report.currency],
+    [],
+    ["Income statement"],
+    ["Section", "Category", "Amount"],
+    ...incomeStatement.income.map((line) => ["Income", line.category, amount(line.amount)]),
+    ["Income", "Total income", amount(incomeStatement.totalIncome)],
+    ...incomeStatement.expenses.map((line) => ["Expenses", line.category, amount(line.amount)]),
+    ["Expenses", "Total expenses", amount(incomeStatement.totalExpenses)],
+    ["", "Net income", amount(incomeStatement.netIncome)],
+    [],
+    ["Cash flow"],
+    ["Month", "Money in", "Money out", "Net", "Closing balance"],
+    ["Opening balance", "", "", "", amount(cashFlow.openingBalance)],
+    ...cashFlow.months.map((month) => [
+      month.month,
+      amount(month.inflow),
+      amount(month.outflow),
+      amount(month.net),
+      amount(month.closingBalance),
+    ]),
+    [],
+    ["Dues collection"],
+    ["Billed", "Collected", "Outstanding", "Collection rate", "Dues", "Paid in full"],
+    [
+      amount(duesCollection.billed),
+      amount(duesCollection.collected),
+      amount(duesCollection.outstanding),
+      formatPercent(duesCollection.rate),
+      duesCollection.duesCount,
+      duesCollection.paidCount,
+    ],
+    [],
+    ["Top expense categories"],
+    ["Category", "Amount", "Share"],
+    ...report.topExpenseCategories.map((line) => [line.category, amount(line.amount), formatPercent(line.share)]),
+  ]);
+}
+
+/**
+ * Printable PDF of the report
+ */
+export function financialReportToPdf(report: FinancialReport): Buffer {
+  const money = (value: number) => formatCurrency(value, report.currency);
+  const { incomeStatement, cashFlow, duesCollection } = report;
+  const pdf = new PdfDocument(`${report.chapterName} financial report`);
+
+  pdf.text(report.chapterName, { size: 18, bold: true });
+  pdf.text("Financial Report", { size: 13 });
+  pdf.muted(`${formatDate(report.startDate)} – ${formatDate(report.endDate)} · Generated ${formatDate(report.generatedAt)}`);
+  pdf.moveDown(6);
+  pdf.rule();
+
+  pdf.heading("Income Statement");
+  pdf.table(
+    [
+      { header: "Income", width: 0.7 },
+      { header: "Amount", width: 0.3, align: "right" },
+    ],
+    [
+      ...incomeStatement.income.map((line) => [line.category, money(line.amount)]),
+      ["Total income", money(incomeStatement.totalIncome)],
+    ],
+    { boldLastRow: true }
+  );
+  pdf.table(
+    [
+      { header: "Expenses", width: 0.7 },
+      { header: "Amount", width: 0.3, align: "right" },
+    ],
+    [
+      ...incomeStatement.expenses.map((line) => [line.category, money(line.amount)]),
+      ["Total expenses", money(incomeStatement.totalExpenses)],
+    ],
+    { boldLastRow: true }
+  );
+  pdf.text(`Net income: ${money(incomeStatement.netIncome)}`, { bold: true, align: "right" });
+
+  pdf.heading("Cash Flow by Month");
+  pdf.muted(`Opening balance: ${money(cashFlow.openingBalance)}`);
+  pdf.moveDown(4);
+  pdf.table(
+    [
+      { header: "Month", width: 0.24 },
+      { header: "Money in", width: 0.19, align: "right" },
+      { header: "Money out", width: 0.19, align: "right" },
+      { header: "Net", width: 0.19, align: "right" },
+      { header: "Balance", width: 0.19, align: "right" },
+    ],
+    cashFlow.months.map((month) => [
+      formatMonth(month.month),
+      money(month.inflow),
+      money(month.outflow),
+      money(month.net),
+      money(month.closingBalance),
+    ])
+  );
+
+  pdf.heading("Dues Collection");
+  pdf.table(
+    [
+      { header: "Billed", width: 0.25, align: "right" },
+      { header: "Collected", width: 0.25, align: "right" },
+      { header: "Outstanding", width: 0.25, align: "right" },
+      { header: "Collection rate", width: 0.25, align: "right" },
+    ],
+    [[
+      money(duesCollection.billed),
+      money(duesCollection.collected),
+      money(duesCollection.outstanding),
+      formatPercent(duesCollection.rate),
+    ]]
+  );
+  pdf.muted(`${duesCollection.paidCount} of ${duesCollection.duesCount} dues falling due in this period are paid in full.`);
+
+  pdf.heading("Top Expense Categories");
+  if (report.topExpenseCategories.length === 0) {
+    pdf.muted("No expenses were paid in this period.");
+  } else {
+    pdf.table(
+      [
+        { header: "Category", width: 0.55 },
+        { header: "Amount", width: 0.25, align: "right" },
+        { header: "Share", width: 0.2, align: "right" },
+      ],
+      report.topExpenseCategories.map((line) => [line.category, money(line.amount), formatPercent(line.share)])
+    );
+  }
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { TransactionType } from "@/generated/prisma";
+import {
+  buildIncomeStatement,
+  buildMonthlyCashFlow,
+  getDuesCollection,
+  getTopExpenseCategories,
+  ReportTransaction,
+  UNCATEGORIZED,
+} from "@/lib/finance/reports";
+
+const formal = { budget: { name: "Spring formal" }, lineItem: { name: "Venue" } };
+const social = { budget: { name: "Socials" }, lineItem: null };
+
+const transactions: ReportTransaction[] = [
+  { amount: 30000, type: TransactionType.DUES_PAYMENT, date: new Date(2026, 0, 10) },
+  { amount: 500, type: TransactionType.LATE_FEE, date: new Date(2026, 0, 20) },
+  { amount: -12000, type: TransactionType.EXPENSE, date: new Date(2026, 0, 15), expense: formal },
+  { amount: -3000, type: TransactionType.EXPENSE, date: new Date(2026, 2, 1), expense: social },
+  { amount: -1000, type: TransactionType.EXPENSE, date: new Date(2026, 2, 2), expense: null },
+  { amount: -2000, type: TransactionType.REFUND, date: new Date(2026, 2, 5) },
+  { amount: -5000, type: TransactionType.TRANSFER, date: new Date(2026, 2, 6) },
+];
+
+describe("buildIncomeStatement", () => {
+  it("groups income by type and expenses by line item, then budget, leaving out transfers", () => {
+    expect(buildIncomeStatement(transactions)).toEqual({
+      income: [
+        { category: "Dues", amount: 30000 },
+        { category: "Late fees", amount: 500 },
+      ],
+      expenses: [
+        { category: "Venue", amount: 12000 },
+        { category: "Socials", amount: 3000 },
+        { category: "Refunds", amount: 2000 },
+        { category: UNCATEGORIZED, amount: 1000 },
+      ],
+      totalIncome: 30500,
+      totalExpenses: 18000,
+      netIncome: 12500,
+    });
+  });
+});
+
+describe("buildMonthlyCashFlow", () => {
+  it("carries the balance through every month, including quiet ones", () => {
+    const months = buildMonthlyCashFlow(transactions, { startDate: new Date(2026, 0, 1), endDate: new Date(2026, 2, 31) }, 10000);
+
+    expect(months).toEqual([
+      { month: "2026-01", inflow: 30500, outflow: 12000, net: 18500, closingBalance: 28500 },
+      { month: "2026-02", inflow: 0, outflow: 0, net: 0, closingBalance: 28500 },
+      { month: "2026-03", inflow: 0, outflow: 6000, net: -6000, closingBalance: 22500 },
+    ]);
+  });
+});
+
+describe("getDuesCollection", () => {
+  it("bills late fees with the dues and counts partial payments as collected", () => {
+    expect(getDuesCollection([
+      { amount: 10000, amountPaid: 10500, paidAt: new Date(), lateFees: [{ amount: 500 }] },
+      { amount: 10000, amountPaid: 2500, paidAt: null, lateFees: [] },
+    ])).toEqual({
+      billed: 20500,
+      collected: 13000,
+      outstanding: 7500,
+      rate: 13000 / 20500,
+      duesCount: 2,
+      paidCount: 1,
+    });
+    expect(getDuesCollection([]).rate).toBe(0);
+  });
+});
+
+describe("getTopExpenseCategories", () => {
+  it("shares out expense spending only, largest first", () => {
+    expect(getTopExpenseCategories(transactions, 2)).toEqual([
+      { category: "Venue", amount: 12000, share: 0.75 },
+      { category: "Socials", amount: 3000, share: 0.1875 },
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+import { TransactionType } from "@/generated/prisma";
+import { eachMonthOfInterval, format } from "date-fns";
+
+export const TRANSACTION_CATEGORY_LABELS: Record<TransactionType, string> = {
+  DUES_PAYMENT: "Dues",
+  EXPENSE: "Expenses",
+  INCOME: "Other income",
+  TRANSFER: "Transfers",
+  REFUND: "Refunds",
+  LATE_FEE: "Late fees",
+  OTHER: "Other",
+};
+
+// Used for paid expenses that were never put on a budget
+export const UNCATEGORIZED = "Uncategorized";
+
+export interface ReportTransaction {
+  amount: number;
+  type: TransactionType;
+  date: Date; // When the money moved: processedAt, falling back to createdAt
+  expense?: {
+    budget: { name: string } | null;
+    lineItem: { name: string } | null;
+  } | null;
+}
+
+export interface ReportLine {
+  category: string;
+  amount: number;
+}
+
+export interface IncomeStatement {
+  income: ReportLine[];
+  expenses: ReportLine[];
+  totalIncome: number;
+  totalExpenses: number;
+  netIncome: number;
+}
+
+export interface CashFlowMonth {
+  month: string; // yyyy-MM
+  inflow: number;
+  outflow: number;
+  net: number;
+  closingBalance: number;
+}
+
+export interface DuesCollection {
+  billed: number;      // Dues plus unwaived late fees falling due in the range
+  collected: number;
+  outstanding: number;
+  rate: number;        // collected / billed, 0-1
+  duesCount: number;
+  paidCount: number;
+}
+
+export interface ExpenseCategoryShare extends ReportLine {
+  share: number; // Fraction of all expenses, 0-1
+}
+
+export interface FinancialReport {
+  chapterName: string;
+  currency: string;
+  startDate: Date;
+  endDate: Date;
+  generatedAt: Date;
+  incomeStatement: IncomeStatement;
+  cashFlow: {
+    openingBalance: number;
+    months: CashFlowMonth[];
+  };
+  duesCollection: DuesCollection;
+  topExpenseCategories: ExpenseCategoryShare[];
+}
+
+/**
+ * Expense category of an outgoing transaction: its budget line item, then its
+ * budget, then the transaction type for money out that is not an expense
+ */
+export function getExpenseCategory(transaction: ReportTransaction): string {
+  if (transaction.type === TransactionType.EXPENSE) {
+    return transaction.expense?.lineItem?.name || transaction.expense?.budget?.name || UNCATEGORIZED;
+  }
+  return TRANSACTION_CATEGORY_LABELS[transaction.type];
+}
+
+// Sum amounts per category, largest first
+function groupByCategory(entries: { category: string; amount: number }[]): ReportLine[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(entry.category, (totals.get(entry.category) ?? 0) + entry.amount);
+  }
+  return [...totals.entries()]
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Income by transaction type and expenses by category. Transfers move money
+ * between the chapter's own accounts and are left out.
+ */
+export function buildIncomeStatement(transactions: ReportTransaction[]): IncomeStatement {
+  const counted = transactions.filter((transaction) => transaction.type !== TransactionType.TRANSFER);
+
+  const income = groupByCategory(
+    counted
+      .filter((transaction) => transaction.amount > 0)
+      .map((transaction) => ({ category: TRANSACTION_CATEGORY_LABELS[transaction.type], amount: transaction.amount }))
+  );
+  const expenses = groupByCategory(
+    counted
+      .filter((transaction) => transaction.amount < 0)
+      .map((transaction) => ({ category: getExpenseCategory(transaction), amount: -transaction.amount }))
+  );
+
+  const totalIncome = income.reduce((sum, line) => sum + line.amount, 0);
+  const totalExpenses = expenses.reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    netIncome: totalIncome - totalExpenses,
+  };
+}
+
+/**
+ * Money in and out per calendar month, with the balance carried from the
+ * opening balance. Months without activity are included.
+ */
+export function buildMonthlyCashFlow(
+  transactions: ReportTransaction[],
+  range: { startDate: Date; endDate: Date },
+  openingBalance: number
+): CashFlowMonth[] {
+  let balance = openingBalance;
+
+  return eachMonthOfInterval({ start: range.startDate, end: range.endDate }).map((monthStart) => {
+    const month = format(monthStart, "yyyy-MM");
+    const inMonth = transactions.filter(
+      (transaction) => transaction.type !== TransactionType.TRANSFER && format(transaction.date, "yyyy-MM") === month
+    );
+
+    const inflow = inMonth.filter((t) => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
+    const outflow = inMonth.filter((t) => t.amount < 0).reduce((sum, t) => sum - t.amount, 0);
+    balance += inflow - outflow;
+
+    return {
+      month,
+      inflow,
+      outflow,
+      net: inflow - outflow,
+      closingBalance: balance,
+    };
+  });
+}
+
+/**
+ * How much of the dues falling due in the range has been collected
+ */
+export function getDuesCollection(
+  duesPayments: { amount: number; amountPaid: number; paidAt: Date | null; lateFees: { amount: number }[] }[]
+): DuesCollection {
+  const billed = duesPayments.reduce(
+    (sum, dues) => sum + dues.amount + dues.lateFees.reduce((fees, fee) => fees + fee.amount, 0),
+    0
+  );
+  const collected = duesPayments.reduce((sum, dues) => sum + dues.amountPaid, 0);
+
+  return {
+    billed,
+    collected,
+    outstanding: Math.max(billed - collected, 0),
+    rate: billed > 0 ? collected / billed : 0,
+    duesCount: duesPayments.length,
+    paidCount: duesPayments.filter((dues) => dues.paidAt !== null).length,
+  };
+}
+
+/**
+ * The largest expense categories with their share of all expense spending.
+ * Refunds and other money out are not expenses and are left out.
+ */
+export function getTopExpenseCategories(
+  transactions: ReportTransaction[],
+  limit = 5
+): ExpenseCategoryShare[] {
+  const categories = groupByCategory(
+    transactions
+      .filter((transaction) => transaction.type === TransactionType.EXPENSE && transaction.amount < 0)
+      .map((transaction) => ({ category: getExpenseCategory(transaction), amount: -transaction.amount }))
+  );
+  const total = categories.reduce((sum, line) => sum + line.amount, 0);
+
+  return categories.slice(0, limit).map((line) => ({
+    ...line,
+    share: total > 0 ? line.amount / total : 0,
+  }));
+}
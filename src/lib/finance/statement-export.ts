@@ -0,0 +1,147 @@
+import { PdfDocument } from "@/lib/pdf";
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { describePaymentMethod } from "@/lib/finance/payment-methods";
+import { MemberStatement, PaymentReceipt, StatementBranding, StatementEntry } from "@/lib/finance/statements";
+
+const entryLabels: Record<StatementEntry["kind"], string> = {
+  DUES: "Dues",
+  LATE_FEE: "Late fees",
+  PAYMENT: "Payments",
+  REFUND: "Refunds",
+};
+
+// Full-width band in the chapter's color with its name, at the top of the first page
+function drawBrandHeader(pdf: PdfDocument, chapter: StatementBranding, title: string) {
+  const margin = 50;
+  pdf.rect(0, 0, pdf.contentWidth + margin * 2, 72, chapter.primaryColor);
+  pdf.textAt(margin, 20, chapter.name, { size: 18, bold: true, color: "#ffffff" });
+  pdf.textAt(margin, 44, title, { size: 11, color: "#ffffff" });
+  pdf.moveDown(40);
+}
+
+function memberName(member: { name: string | null; email: string | null }) {
+  return member.name ?? member.email ?? "Member";
+}
+
+/**
+ * File name for a downloaded receipt, e.g. "receipt-3F9K2LQX.pdf"
+ */
+export function getReceiptFileName(receipt: PaymentReceipt) {
+  return `receipt-${receipt.receiptNumber}.pdf`;
+}
+
+/**
+ * File name for a downloaded statement, e.g. "dues-statement-2026.pdf"
+ */
+export function getStatementFileName(statement: MemberStatement) {
+  return `dues-statement-${statement.year}.pdf`;
+}
+
+/**
+ * Printable receipt for a single payment
+ */
+export function paymentReceiptToPdf(receipt: PaymentReceipt): Buffer {
+  const money = (value: number) => formatCurrency(value, receipt.currency);
+  const pdf = new PdfDocument(`${receipt.chapter.name} receipt ${receipt.receiptNumber}`);
+
+  drawBrandHeader(pdf, receipt.chapter, "Payment Receipt");
+
+  pdf.text(`Receipt ${receipt.receiptNumber}`, { bold: true });
+  pdf.muted(`Issued ${formatDate(receipt.generatedAt)}`);
+  pdf.moveDown(6);
+
+  pdf.heading("Received From", receipt.chapter.primaryColor);
+  pdf.text(memberName(receipt.member));
+  if (receipt.member.name && receipt.member.email) {
+    pdf.muted(receipt.member.email);
+  }
+
+  pdf.heading("Payment", receipt.chapter.primaryColor);
+  pdf.table(
+    [
+      { header: "Description", width: 0.7 },
+      { header: "Amount", width: 0.3, align: "right" },
+    ],
+    [
+      [receipt.duesLabel, money(receipt.amount)],
+      ...(receipt.refunded > 0 ? [["Refunded", `-${money(receipt.refunded)}`]] : []),
+      ["Total paid", money(receipt.amount - receipt.refunded)],
+    ],
+    { boldLastRow: true }
+  );
+
+  pdf.table(
+    [
+      { header: "Paid on", width: 0.3 },
+      { header: "Paid by", width: 0.4 },
+      { header: "Remaining balance", width: 0.3, align: "right" },
+    ],
+    [[
+      formatDate(receipt.paidAt),
+      describePaymentMethod(receipt.method, receipt.referenceNumber),
+      money(receipt.balanceRemaining),
+    ]]
+  );
+
+  pdf.moveDown(12);
+  pdf.muted(`Thank you for your payment to ${receipt.chapter.name}.`);
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Printable statement of a member's dues, fees, payments and refunds for a year
+ */
+export function memberStatementToPdf(statement: MemberStatement): Buffer {
+  const money = (value: number) => formatCurrency(value, statement.currency);
+  const pdf = new PdfDocument(`${statement.chapter.name} dues statement ${statement.year}`);
+
+  drawBrandHeader(pdf, statement.chapter, `Dues Statement ${statement.year}`);
+
+  pdf.text(memberName(statement.member), { bold: true });
+  if (statement.member.name && statement.member.email) {
+    pdf.muted(statement.member.email);
+  }
+  pdf.muted(`January 1 – December 31, ${statement.year} · Generated ${formatDate(statement.generatedAt)}`);
+  pdf.moveDown(6);
+
+  pdf.heading("Summary", statement.chapter.primaryColor);
+  pdf.table(
+    [
+      { header: "", width: 0.7 },
+      { header: "Amount", width: 0.3, align: "right" },
+    ],
+    [
+      ["Balance at start of year", money(statement.openingBalance)],
+      ...(Object.keys(entryLabels) as StatementEntry["kind"][]).map((kind) => [
+        entryLabels[kind],
+        money(statement.totals[kind]),
+      ]),
+      ["Balance at end of year", money(statement.closingBalance)],
+    ],
+    { boldLastRow: true }
+  );
+
+  pdf.heading("Activity", statement.chapter.primaryColor);
+  if (statement.lines.length === 0) {
+    pdf.muted("No dues, fees, payments or refunds this year.");
+  } else {
+    pdf.table(
+      [
+        { header: "Date", width: 0.17 },
+        { header: "Description", width: 0.47 },
+        { header: "Amount", width: 0.18, align: "right" },
+        { header: "Balance", width: 0.18, align: "right" },
+      ],
+      statement.lines.map((line) => [
+        formatDate(line.date),
+        line.description,
+        money(line.amount),
+        money(line.balance),
+      ])
+    );
+    pdf.muted("Negative amounts are payments; positive amounts are dues, fees and refunds added to your balance.");
+  }
+
+  return pdf.toBuffer();
+}
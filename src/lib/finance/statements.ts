@@ -0,0 +1,102 @@
+import { PaymentMethod } from "@/generated/prisma";
+import { endOfYear, startOfYear } from "date-fns";
+
+// Used when a chapter has not picked a brand color, or picked an invalid one
+export const DEFAULT_BRAND_COLOR = "#4f46e5";
+
+export interface StatementBranding {
+  name: string;
+  primaryColor: string; // Hex, e.g. "#4f46e5"
+}
+
+export interface StatementMember {
+  name: string | null;
+  email: string | null;
+}
+
+export interface PaymentReceipt {
+  receiptNumber: string;
+  chapter: StatementBranding;
+  member: StatementMember;
+  duesLabel: string;
+  amount: number; // Minor units
+  currency: string;
+  paidAt: Date;
+  method: PaymentMethod;
+  referenceNumber: string | null;
+  refunded: number; // Refunded from this payment so far
+  balanceRemaining: number; // Still owed on the dues it paid
+  generatedAt: Date;
+}
+
+// Something that changed what a member owes: dues and late fees add to the
+// balance, payments reduce it and refunds add back to it
+export interface StatementEntry {
+  date: Date;
+  description: string;
+  amount: number; // Minor units; positive adds to what the member owes
+  kind: "DUES" | "LATE_FEE" | "PAYMENT" | "REFUND";
+}
+
+export interface StatementLine extends StatementEntry {
+  balance: number;
+}
+
+export interface MemberStatement {
+  chapter: StatementBranding;
+  member: StatementMember;
+  year: number;
+  currency: string;
+  openingBalance: number;
+  totals: Record<StatementEntry["kind"], number>;
+  closingBalance: number;
+  lines: StatementLine[];
+  generatedAt: Date;
+}
+
+/**
+ * The chapter's primary color if it is a usable hex color, otherwise the GreekDash default
+ */
+export function getBrandColor(primaryColor: string | null | undefined): string {
+  return primaryColor && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(primaryColor) ? primaryColor : DEFAULT_BRAND_COLOR;
+}
+
+/**
+ * Name shown for a dues item, e.g. "Fall 2026 Dues · 2/4"
+ */
+export function getDuesLabel(duesPayment: {
+  installmentNumber: number | null;
+  schedule: { name: string; installmentCount: number } | null;
+}): string {
+  if (duesPayment.schedule) {
+    return `${duesPayment.schedule.name} · ${duesPayment.installmentNumber}/${duesPayment.schedule.installmentCount}`;
+  }
+  return "Member dues";
+}
+
+/**
+ * A year's statement lines with a running balance. Everything dated before the
+ * year is rolled into the opening balance.
+ */
+export function buildStatement(entries: StatementEntry[], year: number) {
+  const start = startOfYear(new Date(year, 0, 1));
+  const end = endOfYear(start);
+
+  const openingBalance = entries
+    .filter((entry) => entry.date < start)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const totals: MemberStatement["totals"] = { DUES: 0, LATE_FEE: 0, PAYMENT: 0, REFUND: 0 };
+  let balance = openingBalance;
+
+  const lines = entries
+    .filter((entry) => entry.date >= start && entry.date <= end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map((entry) => {
+      balance += entry.amount;
+      totals[entry.kind] += Math.abs(entry.amount);
+      return { ...entry, balance };
+    });
+
+  return { openingBalance, totals, closingBalance: balance, lines };
+}
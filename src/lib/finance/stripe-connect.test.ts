@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { getChapterTransferOptions } from "@/lib/finance/stripe-connect";
+
+describe("getChapterTransferOptions", () => {
+  it("transfers payments to a chapter that can take charges", () => {
+    expect(getChapterTransferOptions({ stripeAccountId: "acct_chapter", stripeChargesEnabled: true }, 10000)).toEqual({
+      transfer_data: { destination: "acct_chapter" },
+    });
+  });
+
+  it("keeps payments on the platform account until onboarding is finished", () => {
+    expect(getChapterTransferOptions({ stripeAccountId: null, stripeChargesEnabled: false }, 10000)).toEqual({});
+    expect(getChapterTransferOptions({ stripeAccountId: "acct_chapter", stripeChargesEnabled: false }, 10000)).toEqual({});
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Chapters are paid through their own Stripe Connect account. Dues, donations
+ * and tickets are charged on the platform account and transferred to the
+ * chapter's account, less an optional platform fee set with
+ * STRIPE_PLATFORM_FEE_PERCENT (e.g. "2.5"). Until a chapter can take charges,
+ * payments stay on the platform account.
+ */
+
+export type StripeConnectStatus =
+  | "NOT_CONNECTED" // No Stripe account yet
+  | "ONBOARDING" // Account created, onboarding not finished
+  | "RESTRICTED" // Onboarding finished, Stripe needs more information
+  | "ACTIVE"; // Charges and payouts enabled
+
+/**
+ * Where a chapter is in Stripe onboarding
+ */
+export function getStripeConnectStatus(chapter: {
+  stripeAccountId: string | null;
+  stripeDetailsSubmitted: boolean;
+  stripeChargesEnabled: boolean;
+  stripePayoutsEnabled: boolean;
+}): StripeConnectStatus {
+  if (!chapter.stripeAccountId) return "NOT_CONNECTED";
+  if (!chapter.stripeDetailsSubmitted) return "ONBOARDING";
+  if (!chapter.stripeChargesEnabled || !chapter.stripePayoutsEnabled) return "RESTRICTED";
+  return "ACTIVE";
+}
+
+/**
+ * The platform's cut of a payment in minor units; zero when no fee is configured
+ */
+export function getPlatformFee(amount: number): number {
+  const percent = Number(process.env.STRIPE_PLATFORM_FEE_PERCENT ?? 0);
+
+  if (!Number.isFinite(percent) || percent <= 0) {
+    return 0;
+  }
+
+  return Math.round((amount * percent) / 100);
+}
+
+/**
+ * Payment intent options that send a payment on to the chapter's account;
+ * empty until the chapter can take charges, so no transfer or fee is made
+ */
+export function getChapterTransferOptions(
+  chapter: { stripeAccountId: string | null; stripeChargesEnabled: boolean },
+  amount: number
+): { transfer_data?: { destination: string }; application_fee_amount?: number } {
+  if (!chapter.stripeAccountId || !chapter.stripeChargesEnabled) {
+    return {};
+  }
+
+  const platformFee = getPlatformFee(amount);
+
+  return {
+    transfer_data: { destination: chapter.stripeAccountId },
+    ...(platformFee > 0 && { application_fee_amount: platformFee }),
+  };
+}
@@ -3,8 +3,18 @@ import { Resend } from 'resend';
 // Initialize Resend with API key
 export const resend = new Resend(process.env.RESEND_API_KEY);
 
+// Escape user-entered text, such as names and notes, before it goes into an email's HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Define email template types for type safety
-export type EmailTemplate = 'passwordReset' | 'chapterInvite' | 'memberApproval' | 'chapterBroadcast';
+export type EmailTemplate = 'passwordReset' | 'chapterInvite' | 'memberApproval' | 'chapterBroadcast' | 'duesReminder' | 'expenseStatusUpdate' | 'paymentReceipt' | 'eventTickets';
 
 // Email templates
 export const emailTemplates = {
@@ -152,6 +162,192 @@ export const emailTemplates = {
       This is an official message from your chapter administrators on GreekDash.
     `
   }),
+  
+  // Dues payment reminder
+  duesReminder: (
+    chapterName: string,
+    memberName: string,
+    amount: string,
+    dueDate: string,
+    dueTiming: string,
+    paymentLink: string,
+    note?: string
+  ) => ({
+    subject: `Dues reminder: ${amount} ${dueTiming} - ${chapterName}`,
+    react: null,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4f46e5;">Dues Reminder</h2>
+        <p>Hello ${escapeHtml(memberName) || 'there'},</p>
+        <p>Your <strong>${escapeHtml(chapterName)}</strong> dues payment of <strong>${amount}</strong> ${dueTiming} (due ${dueDate}).</p>
+        ${note ? `<div style="border-left: 4px solid #4f46e5; padding-left: 15px; margin: 20px 0;">${escapeHtml(note).replace(/\n/g, '<br>')}</div>` : ''}
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${paymentLink}" style="background-color: #4f46e5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">Pay Dues</a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #4f46e5;">${paymentLink}</p>
+        <p>If you have already paid, you can ignore this reminder.</p>
+        <p>Thank you,<br>The GreekDash Team</p>
+      </div>
+    `,
+    text: `
+      Dues Reminder from ${chapterName}
+      
+      Hello ${memberName || 'there'},
+      
+      Your ${chapterName} dues payment of ${amount} ${dueTiming} (due ${dueDate}).
+      ${note ? `\n      ${note}\n` : ''}
+      To pay your dues, visit:
+      
+      ${paymentLink}
+      
+      If you have already paid, you can ignore this reminder.
+      
+      Thank you,
+      The GreekDash Team
+    `
+  }),
+  
+  // Expense approval status change
+  expenseStatusUpdate: (
+    chapterName: string,
+    memberName: string,
+    expenseTitle: string,
+    amount: string,
+    statusMessage: string,
+    expenseLink: string,
+    comment?: string
+  ) => ({
+    subject: `Your expense "${expenseTitle}" ${statusMessage} - ${chapterName}`,
+    react: null,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4f46e5;">Expense Update</h2>
+        <p>Hello ${escapeHtml(memberName) || 'there'},</p>
+        <p>Your <strong>${escapeHtml(chapterName)}</strong> expense <strong>${escapeHtml(expenseTitle)}</strong> for <strong>${amount}</strong> ${statusMessage}.</p>
+        ${comment ? `<div style="border-left: 4px solid #4f46e5; padding-left: 15px; margin: 20px 0;">${escapeHtml(comment).replace(/\n/g, '<br>')}</div>` : ''}
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${expenseLink}" style="background-color: #4f46e5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">View Expense</a>
+        </div>
+        <p>Thank you,<br>The GreekDash Team</p>
+      </div>
+    `,
+    text: `
+      Expense Update from ${chapterName}
+      
+      Hello ${memberName || 'there'},
+      
+      Your ${chapterName} expense "${expenseTitle}" for ${amount} ${statusMessage}.
+      ${comment ? `\n      ${comment}\n` : ''}
+      View the expense at:
+      
+      ${expenseLink}
+      
+      Thank you,
+      The GreekDash Team
+    `
+  }),
+
+  // Receipt for a dues payment, in the chapter's brand color
+  paymentReceipt: (
+    chapterName: string,
+    memberName: string,
+    amount: string,
+    paidDate: string,
+    paymentMethod: string,
+    balanceRemaining: string,
+    receiptLink: string,
+    brandColor: string,
+    note?: string
+  ) => ({
+    subject: `Payment receipt - ${chapterName}`,
+    react: null,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: ${brandColor};">${escapeHtml(chapterName)} Payment Receipt</h2>
+        <p>Hello ${escapeHtml(memberName) || 'there'},</p>
+        <p><strong>${escapeHtml(chapterName)}</strong> received your dues payment. Keep this email for your records.</p>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+          <tr><td style="padding: 8px 0; color: #6b7280;">Amount</td><td style="padding: 8px 0; text-align: right;"><strong>${amount}</strong></td></tr>
+          <tr><td style="padding: 8px 0; color: #6b7280;">Date</td><td style="padding: 8px 0; text-align: right;">${paidDate}</td></tr>
+          <tr><td style="padding: 8px 0; color: #6b7280;">Paid by</td><td style="padding: 8px 0; text-align: right;">${escapeHtml(paymentMethod)}</td></tr>
+          <tr><td style="padding: 8px 0; color: #6b7280;">Remaining balance</td><td style="padding: 8px 0; text-align: right;">${balanceRemaining}</td></tr>
+        </table>
+        ${note ? `<div style="border-left: 4px solid ${brandColor}; padding-left: 15px; margin: 20px 0;">${escapeHtml(note).replace(/\n/g, '<br>')}</div>` : ''}
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${receiptLink}" style="background-color: ${brandColor}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">Download PDF Receipt</a>
+        </div>
+        <p>Thank you,<br>The GreekDash Team</p>
+      </div>
+    `,
+    text: `
+      Payment Receipt from ${chapterName}
+      
+      Hello ${memberName || 'there'},
+      
+      ${chapterName} received your dues payment. Keep this email for your records.
+      
+      Amount: ${amount}
+      Date: ${paidDate}
+      Paid by: ${paymentMethod}
+      Remaining balance: ${balanceRemaining}
+      ${note ? `\n      ${note}\n` : ''}
+      Download a PDF receipt at:
+      
+      ${receiptLink}
+      
+      Thank you,
+      The GreekDash Team
+    `
+  }),
+
+  // Tickets bought for an event, with the codes to show at the door
+  eventTickets: (
+    chapterName: string,
+    buyerName: string,
+    eventTitle: string,
+    eventDate: string,
+    eventLocation: string,
+    ticketTypeName: string,
+    ticketCodes: string[],
+    brandColor: string
+  ) => ({
+    subject: `Your tickets for ${eventTitle}`,
+    react: null,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: ${brandColor};">${escapeHtml(eventTitle)}</h2>
+        <p>Hello ${escapeHtml(buyerName) || 'there'},</p>
+        <p>Here ${ticketCodes.length === 1 ? 'is your ticket' : `are your ${ticketCodes.length} tickets`} for <strong>${escapeHtml(eventTitle)}</strong>, hosted by <strong>${escapeHtml(chapterName)}</strong>.</p>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+          <tr><td style="padding: 8px 0; color: #6b7280;">When</td><td style="padding: 8px 0; text-align: right;">${eventDate}</td></tr>
+          <tr><td style="padding: 8px 0; color: #6b7280;">Where</td><td style="padding: 8px 0; text-align: right;">${escapeHtml(eventLocation)}</td></tr>
+          <tr><td style="padding: 8px 0; color: #6b7280;">Ticket</td><td style="padding: 8px 0; text-align: right;">${escapeHtml(ticketTypeName)}</td></tr>
+        </table>
+        <p>Show ${ticketCodes.length === 1 ? 'this code' : 'these codes'} at the door:</p>
+        ${ticketCodes.map((code) => `<p style="font-family: monospace; font-size: 20px; font-weight: bold; letter-spacing: 2px; border-left: 4px solid ${brandColor}; padding-left: 15px;">${code}</p>`).join('')}
+        <p>Thank you,<br>The GreekDash Team</p>
+      </div>
+    `,
+    text: `
+      Your tickets for ${eventTitle}
+      
+      Hello ${buyerName || 'there'},
+      
+      Here ${ticketCodes.length === 1 ? 'is your ticket' : `are your ${ticketCodes.length} tickets`} for ${eventTitle}, hosted by ${chapterName}.
+      
+      When: ${eventDate}
+      Where: ${eventLocation}
+      Ticket: ${ticketTypeName}
+      
+      Show ${ticketCodes.length === 1 ? 'this code' : 'these codes'} at the door:
+      
+      ${ticketCodes.join('\n      ')}
+      
+      Thank you,
+      The GreekDash Team
+    `
+  }),
 };
 
 // Interface for email data
@@ -174,6 +370,31 @@ interface EmailData {
   subject?: string;
   message?: string;
   senderName?: string;
+  
+  // For dues reminders
+  amount?: string;
+  dueDate?: string;
+  dueTiming?: string;
+  paymentLink?: string;
+  
+  // For expense status updates
+  expenseTitle?: string;
+  statusMessage?: string;
+  expenseLink?: string;
+  
+  // For payment receipts
+  paidDate?: string;
+  paymentMethod?: string;
+  balanceRemaining?: string;
+  receiptLink?: string;
+  brandColor?: string;
+  
+  // For event tickets
+  eventTitle?: string;
+  eventDate?: string;
+  eventLocation?: string;
+  ticketTypeName?: string;
+  ticketCodes?: string[];
 }
 
 /**
@@ -215,6 +436,53 @@ export async function sendEmail(to: string, template: EmailTemplate, data: Email
           data.senderName || 'Chapter Admin'
         );
         break;
+      case 'duesReminder':
+        emailContent = emailTemplates.duesReminder(
+          data.chapterName || '',
+          data.memberName || '',
+          data.amount || '',
+          data.dueDate || '',
+          data.dueTiming || 'is due',
+          data.paymentLink || '',
+          data.message
+        );
+        break;
+      case 'expenseStatusUpdate':
+        emailContent = emailTemplates.expenseStatusUpdate(
+          data.chapterName || '',
+          data.memberName || '',
+          data.expenseTitle || '',
+          data.amount || '',
+          data.statusMessage || 'was updated',
+          data.expenseLink || '',
+          data.message
+        );
+        break;
+      case 'paymentReceipt':
+        emailContent = emailTemplates.paymentReceipt(
+          data.chapterName || '',
+          data.memberName || '',
+          data.amount || '',
+          data.paidDate || '',
+          data.paymentMethod || '',
+          data.balanceRemaining || '',
+          data.receiptLink || '',
+          data.brandColor || '#4f46e5',
+          data.message
+        );
+        break;
+      case 'eventTickets':
+        emailContent = emailTemplates.eventTickets(
+          data.chapterName || '',
+          data.name || '',
+          data.eventTitle || '',
+          data.eventDate || '',
+          data.eventLocation || '',
+          data.ticketTypeName || '',
+          data.ticketCodes || [],
+          data.brandColor || '#4f46e5'
+        );
+        break;
       default:
         throw new Error(`Unknown email template: ${template}`);
     }
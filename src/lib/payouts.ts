@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { PaymentMethod } from '@/generated/prisma';
+
+/**
+ * Sends expense reimbursements to members. The backend is chosen with
+ * PAYOUT_DRIVER: "local" (default outside production) is a stub for
+ * development that settles every payout straight away without moving any
+ * money, so it is never used in production.
+ */
+export interface PayoutProvider {
+  readonly name: string;
+  createPayout(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+export interface PayoutRequest {
+  reference: string; // Our reimbursement ID; providers should treat it as an idempotency key
+  amount: number; // Minor units
+  currency: string;
+  method: PaymentMethod;
+  destination: string | null; // Handle, email or address from the member's payout method
+  payee: {
+    name: string | null;
+    email: string | null;
+  };
+  description: string;
+}
+
+export interface PayoutResult {
+  id: string; // The provider's payout ID
+  status: 'PENDING' | 'PAID' | 'FAILED';
+  failureReason?: string;
+}
+
+/**
+ * Pretends to send the payout and reports it as paid
+ */
+export class LocalPayoutProvider implements PayoutProvider {
+  readonly name = 'local';
+
+  async createPayout(request: PayoutRequest): Promise<PayoutResult> {
+    console.log(
+      `[payouts] ${request.reference}: ${request.amount} ${request.currency} via ${request.method} to ${request.destination ?? request.payee.email ?? 'payee'}`
+    );
+
+    return { id: `local_${randomUUID()}`, status: 'PAID' };
+  }
+}
+
+let payoutProvider: PayoutProvider | null = null;
+
+export function getPayoutProvider(): PayoutProvider {
+  if (payoutProvider) {
+    return payoutProvider;
+  }
+
+  const driver = process.env.PAYOUT_DRIVER || 'local';
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown payout driver "${driver}"`);
+  }
+
+  // The stub would mark reimbursements paid without anyone being paid
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Payouts are not set up; record the reimbursement as paid outside GreekDash instead');
+  }
+
+  payoutProvider = new LocalPayoutProvider();
+
+  return payoutProvider;
+}
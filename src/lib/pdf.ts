@@ -0,0 +1,304 @@
+/**
+ * Minimal PDF writer for generated documents such as financial reports and
+ * receipts. It lays text and simple tables out top to bottom on US Letter
+ * pages using the built-in Helvetica fonts, so no font files or third-party
+ * packages are needed.
+ */
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string; // Hex, e.g. "#4f46e5"
+  align?: "left" | "center" | "right";
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // Fraction of the content width; columns should add up to 1
+  align?: "left" | "right";
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 1.4;
+const DEFAULT_FONT_SIZE = 10;
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+
+// Glyph widths (1/1000 em) of ASCII 32-126 in Helvetica and Helvetica-Bold
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+/**
+ * Width of text in points
+ */
+export function measureText(text: string, size = DEFAULT_FONT_SIZE, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Encode text as a PDF string literal in WinAnsiEncoding
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      encoded += `\\${char}`; // ( ) and \ must be escaped
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (code >= 0x80 && code <= 0xff) {
+      encoded += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      encoded += "?";
+    }
+  }
+  return `(${encoded})`;
+}
+
+function toRgb(hex: string): string {
+  const value = hex.replace("#", "");
+  const full = value.length === 3 ? value.split("").map((c) => c + c).join("") : value;
+  const channels = [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16) / 255);
+  return channels.every((channel) => !Number.isNaN(channel))
+    ? channels.map((channel) => channel.toFixed(3)).join(" ")
+    : "0 0 0";
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private cursorY = MARGIN; // Distance from the top of the page
+
+  constructor(private readonly title: string) {
+    this.addPage();
+  }
+
+  get contentWidth() {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.cursorY = MARGIN;
+  }
+
+  // Start a new page when the next block would run past the bottom margin
+  ensureSpace(height: number) {
+    if (this.cursorY + height > PAGE_HEIGHT - MARGIN) {
+      this.addPage();
+    }
+  }
+
+  moveDown(points: number) {
+    this.cursorY += points;
+  }
+
+  /**
+   * Draw a single line of text with its top at y, measured from the top of the page
+   */
+  textAt(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? DEFAULT_FONT_SIZE;
+    const baseline = PAGE_HEIGHT - y - size;
+    this.ops.push(
+      `BT /${options.bold ? "F2" : "F1"} ${size} Tf ${toRgb(options.color ?? TEXT_COLOR)} rg ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  /**
+   * Write text at the cursor, wrapped to the content width
+   */
+  text(text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? DEFAULT_FONT_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+
+    for (const line of this.wrap(text, this.contentWidth, size, options.bold)) {
+      this.ensureSpace(lineHeight);
+      const width = measureText(line, size, options.bold);
+      const x =
+        options.align === "right"
+          ? MARGIN + this.contentWidth - width
+          : options.align === "center"
+            ? MARGIN + (this.contentWidth - width) / 2
+            : MARGIN;
+      this.textAt(x, this.cursorY, line, options);
+      this.cursorY += lineHeight;
+    }
+  }
+
+  muted(text: string, options: PdfTextOptions = {}) {
+    this.text(text, { ...options, color: MUTED_COLOR });
+  }
+
+  heading(text: string, color?: string) {
+    this.ensureSpace(40);
+    this.moveDown(8);
+    this.text(text, { size: 13, bold: true, color });
+    this.moveDown(2);
+  }
+
+  // Horizontal line across the content width at the cursor
+  rule(color = "#d1d5db") {
+    const y = PAGE_HEIGHT - this.cursorY;
+    this.ops.push(`${toRgb(color)} RG 0.75 w ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+    this.moveDown(6);
+  }
+
+  // Filled rectangle, positioned from the top of the page
+  rect(x: number, y: number, width: number, height: number, color: string) {
+    this.ops.push(`${toRgb(color)} rg ${x} ${(PAGE_HEIGHT - y - height).toFixed(2)} ${width} ${height} re f`);
+  }
+
+  /**
+   * Draw a table at the cursor. Cells are truncated to fit their column and
+   * the header repeats when the table continues on a new page.
+   */
+  table(columns: PdfTableColumn[], rows: string[][], options: { boldLastRow?: boolean; headerColor?: string } = {}) {
+    const size = 9;
+    const rowHeight = size * 1.9;
+    const padding = 4;
+
+    const drawRow = (cells: string[], bold: boolean, color?: string) => {
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const width = column.width * this.contentWidth;
+        const text = this.truncate(cells[index] ?? "", width - padding * 2, size, bold);
+        const textX =
+          column.align === "right" ? x + width - padding - measureText(text, size, bold) : x + padding;
+        this.textAt(textX, this.cursorY + (rowHeight - size) / 2, text, { size, bold, color });
+        x += width;
+      });
+      this.cursorY += rowHeight;
+    };
+
+    const drawHeader = () => {
+      this.rect(MARGIN, this.cursorY, this.contentWidth, rowHeight, "#f3f4f6");
+      drawRow(
+        columns.map((column) => column.header),
+        true,
+        options.headerColor
+      );
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    rows.forEach((row, index) => {
+      if (this.cursorY + rowHeight > PAGE_HEIGHT - MARGIN) {
+        this.addPage();
+        drawHeader();
+      }
+      const isLast = index === rows.length - 1;
+      if (isLast && options.boldLastRow) {
+        this.rule();
+        this.moveDown(-6);
+      }
+      drawRow(row, isLast && !!options.boldLastRow);
+    });
+
+    this.moveDown(6);
+  }
+
+  private wrap(text: string, width: number, size: number, bold?: boolean): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(" ")) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, size, bold) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  private truncate(text: string, width: number, size: number, bold: boolean): string {
+    if (measureText(text, size, bold) <= width) {
+      return text;
+    }
+    let truncated = text;
+    while (truncated.length > 0 && measureText(`${truncated}…`, size, bold) > width) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated}…`;
+  }
+
+  /**
+   * Serialise the document. Page numbers are added to every page footer.
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds = { regular: 3, bold: 4 };
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+    const infoId = 5 + this.pages.length * 2;
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+    objects[fontIds.regular] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[fontIds.bold] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    this.pages.forEach((ops, index) => {
+      const footer = `Page ${index + 1} of ${this.pages.length}`;
+      const content = [
+        ...ops,
+        `BT /F1 8 Tf ${toRgb(MUTED_COLOR)} rg ${(PAGE_WIDTH - MARGIN - measureText(footer, 8)).toFixed(2)} ${MARGIN / 2} Td ${encodeText(footer)} Tj ET`,
+      ].join("\n");
+
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[infoId] = `<< /Title ${encodeText(this.title)} /Producer (GreekDash) >>`;
+
+    // Every byte below is ASCII, so string lengths are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
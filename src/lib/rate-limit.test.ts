@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getClientIp, isRateLimited } from "@/lib/rate-limit";
+
+describe("isRateLimited", () => {
+  it("allows requests up to the limit within a window", () => {
+    const now = Date.now();
+
+    expect(isRateLimited("test:within", 2, 60000, now)).toBe(false);
+    expect(isRateLimited("test:within", 2, 60000, now + 1)).toBe(false);
+    expect(isRateLimited("test:within", 2, 60000, now + 2)).toBe(true);
+  });
+
+  it("starts counting again once the window is over", () => {
+    const now = Date.now();
+
+    isRateLimited("test:reset", 1, 60000, now);
+    expect(isRateLimited("test:reset", 1, 60000, now + 1)).toBe(true);
+    expect(isRateLimited("test:reset", 1, 60000, now + 60000)).toBe(false);
+  });
+
+  it("counts each key on its own", () => {
+    const now = Date.now();
+
+    isRateLimited("test:first", 1, 60000, now);
+    expect(isRateLimited("test:second", 1, 60000, now)).toBe(false);
+  });
+});
+
+describe("getClientIp", () => {
+  it("uses the address the proxy appended, not ones the client sent", () => {
+    const request = new Request("https://example.com", {
+      headers: { "x-forwarded-for": "10.0.0.1, 203.0.113.7" },
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+
+  it("falls back to the real IP header without a forwarded address", () => {
+    const request = new Request("https://example.com", {
+      headers: { "x-real-ip": "203.0.113.7" },
+    });
+
+    expect(getClientIp(request)).toBe("203.0.113.7");
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Fixed-window rate limiting for public endpoints. Counts are kept in memory,
+ * so each server instance limits on its own.
+ */
+
+type RateLimitWindow = {
+  count: number;
+  resetAt: number;
+};
+
+const windows = new Map<string, RateLimitWindow>();
+
+/**
+ * Count a request against a key and report whether it is over the limit
+ * @param key What to limit by, e.g. the endpoint and the client's IP address
+ * @param limit Requests allowed per window
+ * @param windowMs Length of the window in milliseconds
+ */
+export function isRateLimited(key: string, limit: number, windowMs: number, now = Date.now()): boolean {
+  const window = windows.get(key);
+
+  if (!window || window.resetAt <= now) {
+    // Drop expired windows now and then so the map doesn't grow forever
+    if (windows.size > 10000) {
+      for (const [windowKey, { resetAt }] of windows) {
+        if (resetAt <= now) windows.delete(windowKey);
+      }
+    }
+
+    windows.set(key, { count: 1, resetAt: now + windowMs });
+    return false;
+  }
+
+  window.count++;
+  return window.count > limit;
+}
+
+/**
+ * The client's IP address as reported by the proxy in front of the app. The
+ * proxy appends the address it saw to X-Forwarded-For; anything before it
+ * came from the client and can't be trusted.
+ */
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+
+  return forwardedFor?.split(",").pop()?.trim() || request.headers.get("x-real-ip") || "unknown";
+}
@@ -0,0 +1,194 @@
+import { db } from "@/lib/db";
+import { AttendanceMethod, EventStatus, MembershipRole, Prisma, RSVPStatus } from "@/generated/prisma";
+import QRCode from "qrcode";
+import { getCheckInCode, readCheckInCode } from "@/lib/check-in-codes";
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+} satisfies Prisma.UserSelect;
+
+// Roles of members who can be checked in to chapter events
+const CHECK_IN_ROLES: MembershipRole[] = [
+  MembershipRole.MEMBER,
+  MembershipRole.ADMIN,
+  MembershipRole.OWNER,
+];
+
+async function getChapterEvent(eventId: string, chapterId: string) {
+  const event = await db.event.findFirst({
+    where: {
+      id: eventId,
+      chapterId, // Ensure tenant isolation
+    },
+  });
+
+  if (!event) {
+    throw new Error("Event not found");
+  }
+
+  return event;
+}
+
+/**
+ * Attendance Service
+ * Who actually showed up to an event, recorded at the door apart from RSVPs
+ */
+export const attendanceService = {
+  /**
+   * Check-in Codes
+   */
+  getMyCheckInCode: async (eventId: string, chapterId: string, userId: string) => {
+    const event = await getChapterEvent(eventId, chapterId);
+    const code = getCheckInCode(event.id, userId);
+
+    const attendance = await db.eventAttendance.findUnique({
+      where: { userId_eventId: { userId, eventId: event.id } },
+      select: { checkedInAt: true },
+    });
+
+    return {
+      code,
+      qrCode: await QRCode.toDataURL(code, { margin: 1, width: 240 }),
+      checkedInAt: attendance?.checkedInAt ?? null,
+    };
+  },
+
+  /**
+   * Attendance
+   */
+  // Every member of the chapter with their RSVP and whether they were checked in
+  getAttendance: async (eventId: string, chapterId: string) => {
+    const event = await getChapterEvent(eventId, chapterId);
+
+    const [memberships, rsvps, attendances] = await Promise.all([
+      db.membership.findMany({
+        where: {
+          chapterId, // Ensure tenant isolation
+          role: { in: CHECK_IN_ROLES },
+        },
+        include: { user: { select: userSelect } },
+      }),
+      db.eventRSVP.findMany({
+        where: { eventId: event.id },
+        select: { userId: true, status: true },
+      }),
+      db.eventAttendance.findMany({
+        where: { eventId: event.id },
+        include: {
+          user: { select: userSelect },
+          checkedInBy: { select: { id: true, name: true } },
+        },
+      }),
+    ]);
+
+    const rsvpByUser = new Map(rsvps.map((rsvp) => [rsvp.userId, rsvp.status]));
+    const attendanceByUser = new Map(attendances.map((attendance) => [attendance.userId, attendance]));
+
+    // Members who left the chapter since being checked in are still listed
+    const users = new Map(memberships.map((membership) => [membership.user.id, membership.user]));
+    attendances.forEach((attendance) => users.set(attendance.user.id, attendance.user));
+
+    const members = Array.from(users.values())
+      .map((user) => {
+        const attendance = attendanceByUser.get(user.id);
+        return {
+          user,
+          rsvpStatus: rsvpByUser.get(user.id) ?? null,
+          attendance: attendance
+            ? {
+                id: attendance.id,
+                method: attendance.method,
+                checkedInAt: attendance.checkedInAt,
+                checkedInBy: attendance.checkedInBy,
+              }
+            : null,
+        };
+      })
+      .sort((a, b) => (a.user.name ?? a.user.email ?? "").localeCompare(b.user.name ?? b.user.email ?? ""));
+
+    const going = members.filter((member) => member.rsvpStatus === RSVPStatus.GOING);
+
+    return {
+      members,
+      summary: {
+        going: going.length,
+        attended: attendances.length,
+        goingAndAttended: going.filter((member) => member.attendance).length,
+        noShows: going.filter((member) => !member.attendance).length,
+        walkIns: members.filter((member) => member.attendance && member.rsvpStatus !== RSVPStatus.GOING).length,
+      },
+    };
+  },
+
+  // Check a member in, either from their scanned code or picked by an admin
+  checkIn: async (
+    eventId: string,
+    chapterId: string,
+    data: { code?: string; userId?: string },
+    checkedInById: string
+  ) => {
+    const event = await getChapterEvent(eventId, chapterId);
+
+    if (event.status === EventStatus.CANCELED) {
+      throw new Error("This event was canceled");
+    }
+
+    const userId = data.code ? readCheckInCode(data.code, event.id) : data.userId;
+    if (!userId) {
+      throw new Error("This check-in code is not valid for this event");
+    }
+
+    const membership = await db.membership.findFirst({
+      where: {
+        chapterId, // Ensure tenant isolation
+        userId,
+        role: { in: CHECK_IN_ROLES },
+      },
+      include: { user: { select: userSelect } },
+    });
+
+    if (!membership) {
+      throw new Error("This person is not a member of the chapter");
+    }
+
+    // Scanning a code twice is harmless; the first check-in is kept
+    const existing = await db.eventAttendance.findUnique({
+      where: { userId_eventId: { userId, eventId: event.id } },
+    });
+
+    if (existing) {
+      return { attendance: existing, user: membership.user, alreadyCheckedIn: true };
+    }
+
+    const attendance = await db.eventAttendance.create({
+      data: {
+        eventId: event.id,
+        userId,
+        method: data.code ? AttendanceMethod.QR_CODE : AttendanceMethod.MANUAL,
+        checkedInById,
+      },
+    });
+
+    return { attendance, user: membership.user, alreadyCheckedIn: false };
+  },
+
+  // Undo a check-in made by mistake
+  removeCheckIn: async (eventId: string, chapterId: string, userId: string) => {
+    const event = await getChapterEvent(eventId, chapterId);
+
+    const attendance = await db.eventAttendance.findUnique({
+      where: { userId_eventId: { userId, eventId: event.id } },
+    });
+
+    if (!attendance) {
+      throw new Error("This member was not checked in");
+    }
+
+    return db.eventAttendance.delete({
+      where: { id: attendance.id },
+    });
+  },
+};
@@ -0,0 +1,488 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { CampaignStatus, Prisma, TransactionType } from "@/generated/prisma";
+import stripe from "@/lib/stripe";
+import { getChapterTransferOptions } from "@/lib/finance/stripe-connect";
+import { getCampaignProgress, getDonorDisplayName, isAcceptingDonations, toCampaignSlug } from "@/lib/finance/campaigns";
+import { postTransactionToLedger } from "@/lib/services/ledger-service";
+import { assertPeriodsOpen } from "@/lib/services/fiscal-period-service";
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Total raised per campaign, keyed by campaign ID
+ */
+async function getRaisedTotals(campaignIds: string[]) {
+  const totals = await db.donation.groupBy({
+    by: ["campaignId"],
+    where: { campaignId: { in: campaignIds } },
+    _sum: { amount: true },
+    _count: { _all: true },
+  });
+
+  return new Map(
+    totals.map((total) => [
+      total.campaignId,
+      { raised: total._sum.amount ?? 0, donationCount: total._count._all },
+    ])
+  );
+}
+
+/**
+ * Campaign Service
+ * Fundraising campaigns with public donation pages paid through Stripe
+ */
+export const campaignService = {
+  /**
+   * Campaigns
+   */
+  getCampaigns: async (chapterId: string) => {
+    const campaigns = await db.fundraisingCampaign.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+      },
+      orderBy: { createdAt: "desc" },
+      include: {
+        createdBy: { select: userSelect },
+      },
+    });
+
+    const totals = await getRaisedTotals(campaigns.map((campaign) => campaign.id));
+
+    return campaigns.map((campaign) => {
+      const { raised = 0, donationCount = 0 } = totals.get(campaign.id) ?? {};
+      return {
+        ...campaign,
+        donationCount,
+        progress: getCampaignProgress(campaign.goalAmount, raised),
+      };
+    });
+  },
+
+  getCampaign: async (campaignId: string, chapterId: string) => {
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        id: campaignId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        createdBy: { select: userSelect },
+        donations: {
+          orderBy: { donatedAt: "desc" },
+          include: {
+            user: { select: userSelect },
+          },
+        },
+      },
+    });
+
+    if (!campaign) {
+      return null;
+    }
+
+    const raised = campaign.donations.reduce((sum, donation) => sum + donation.amount, 0);
+
+    return {
+      ...campaign,
+      donationCount: campaign.donations.length,
+      progress: getCampaignProgress(campaign.goalAmount, raised),
+    };
+  },
+
+  createCampaign: async (
+    chapterId: string,
+    createdById: string,
+    data: {
+      title: string;
+      slug?: string;
+      description?: string | null;
+      goalAmount: number;
+      currency?: string;
+      status: CampaignStatus;
+      endDate?: Date | null;
+    }
+  ) => {
+    const slug = data.slug || toCampaignSlug(data.title);
+
+    if (!slug) {
+      throw new Error("Campaign link must contain letters or numbers");
+    }
+
+    const existing = await db.fundraisingCampaign.findUnique({
+      where: { chapterId_slug: { chapterId, slug } },
+    });
+
+    if (existing) {
+      throw new Error("A campaign with this link already exists");
+    }
+
+    return db.fundraisingCampaign.create({
+      data: {
+        slug,
+        title: data.title,
+        description: data.description || null,
+        goalAmount: data.goalAmount,
+        currency: data.currency,
+        status: data.status,
+        endDate: data.endDate ?? null,
+        chapterId,
+        createdById,
+      },
+    });
+  },
+
+  updateCampaign: async (
+    campaignId: string,
+    chapterId: string,
+    data: {
+      title?: string;
+      slug?: string;
+      description?: string | null;
+      goalAmount?: number;
+      currency?: string;
+      status?: CampaignStatus;
+      endDate?: Date | null;
+    }
+  ) => {
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        id: campaignId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        _count: { select: { donations: true } },
+      },
+    });
+
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    if (data.currency && data.currency !== campaign.currency && campaign._count.donations > 0) {
+      throw new Error("The currency of a campaign that has received donations cannot be changed");
+    }
+
+    if (data.slug && data.slug !== campaign.slug) {
+      const existing = await db.fundraisingCampaign.findUnique({
+        where: { chapterId_slug: { chapterId, slug: data.slug } },
+      });
+
+      if (existing) {
+        throw new Error("A campaign with this link already exists");
+      }
+    }
+
+    return db.fundraisingCampaign.update({
+      where: { id: campaign.id },
+      data: {
+        title: data.title,
+        slug: data.slug,
+        description: data.description,
+        goalAmount: data.goalAmount,
+        currency: data.currency,
+        status: data.status,
+        endDate: data.endDate,
+      },
+    });
+  },
+
+  // Campaigns that have received donations are ended instead, so the income keeps its source
+  deleteCampaign: async (campaignId: string, chapterId: string) => {
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        id: campaignId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        _count: { select: { donations: true } },
+      },
+    });
+
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    if (campaign._count.donations > 0) {
+      throw new Error("Campaigns that have received donations cannot be deleted; end the campaign instead");
+    }
+
+    return db.fundraisingCampaign.delete({
+      where: { id: campaign.id },
+    });
+  },
+
+  /**
+   * Public donation pages
+   */
+  // Active campaigns shown on the chapter's public page
+  getPublicCampaigns: async (chapterId: string) => {
+    const campaigns = await db.fundraisingCampaign.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        status: CampaignStatus.ACTIVE,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const totals = await getRaisedTotals(campaigns.map((campaign) => campaign.id));
+
+    return campaigns
+      .filter((campaign) => isAcceptingDonations(campaign))
+      .map((campaign) => ({
+        slug: campaign.slug,
+        title: campaign.title,
+        description: campaign.description,
+        currency: campaign.currency,
+        endDate: campaign.endDate,
+        progress: getCampaignProgress(campaign.goalAmount, totals.get(campaign.id)?.raised ?? 0),
+      }));
+  },
+
+  // A campaign's donation page. Drafts are not public; donor emails are never exposed.
+  getPublicCampaign: async (chapterSlug: string, campaignSlug: string) => {
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        slug: campaignSlug,
+        status: { not: CampaignStatus.DRAFT },
+        chapter: { slug: chapterSlug },
+      },
+      include: {
+        chapter: {
+          select: { id: true, name: true, slug: true },
+        },
+        donations: {
+          orderBy: { donatedAt: "desc" },
+        },
+      },
+    });
+
+    if (!campaign) {
+      return null;
+    }
+
+    const raised = campaign.donations.reduce((sum, donation) => sum + donation.amount, 0);
+
+    return {
+      slug: campaign.slug,
+      title: campaign.title,
+      description: campaign.description,
+      currency: campaign.currency,
+      endDate: campaign.endDate,
+      chapter: { name: campaign.chapter.name, slug: campaign.chapter.slug },
+      isAcceptingDonations: isAcceptingDonations(campaign),
+      progress: getCampaignProgress(campaign.goalAmount, raised),
+      donors: campaign.donations.map((donation) => ({
+        id: donation.id,
+        name: getDonorDisplayName(donation),
+        amount: donation.amount,
+        message: donation.message,
+        donatedAt: donation.donatedAt,
+      })),
+    };
+  },
+
+  /**
+   * Stripe Donations
+   */
+  // Anyone can donate, signed in or not; the chapter receives the money through
+  // Stripe Connect once it can take charges
+  createDonationCheckout: async (data: {
+    chapterSlug: string;
+    campaignSlug: string;
+    amount: number;
+    donorName: string;
+    donorEmail: string;
+    message?: string | null;
+    isAnonymous: boolean;
+    userId?: string | null;
+  }) => {
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        slug: data.campaignSlug,
+        chapter: { slug: data.chapterSlug },
+      },
+      include: { chapter: true },
+    });
+
+    if (!campaign || campaign.status === CampaignStatus.DRAFT) {
+      throw new Error("Campaign not found");
+    }
+
+    if (!isAcceptingDonations(campaign)) {
+      throw new Error("This campaign is no longer accepting donations");
+    }
+
+    // Stripe metadata values are strings of at most 500 characters
+    const metadata = {
+      campaignId: campaign.id,
+      chapterId: campaign.chapterId,
+      donorName: data.donorName,
+      donorEmail: data.donorEmail,
+      isAnonymous: data.isAnonymous ? "true" : "false",
+      ...(data.message && { message: data.message }),
+      ...(data.userId && { userId: data.userId }),
+    };
+    const pageUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/${campaign.chapter.slug}/donate/${campaign.slug}`;
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      customer_email: data.donorEmail,
+      metadata,
+      payment_intent_data: {
+        metadata,
+        ...getChapterTransferOptions(campaign.chapter, data.amount),
+      },
+      line_items: [
+        {
+          price_data: {
+            currency: campaign.currency.toLowerCase(),
+            product_data: {
+              name: `${campaign.chapter.name} - ${campaign.title}`,
+              description: "Donation",
+            },
+            unit_amount: data.amount, // Already in minor units
+          },
+          quantity: 1,
+        },
+      ],
+      mode: "payment",
+      success_url: `${pageUrl}?donated=1`,
+      cancel_url: pageUrl,
+    });
+
+    return { sessionId: session.id, url: session.url };
+  },
+
+  // Record a completed donation with its income transaction. Webhooks can be
+  // delivered more than once; each Stripe payment is recorded only once.
+  recordDonation: async (
+    stripePaymentId: string,
+    amount: number,
+    metadata: Record<string, string>,
+    platformFee?: number | null
+  ) => {
+    const { campaignId, chapterId } = metadata;
+
+    if (!campaignId || !chapterId) {
+      throw new Error("Missing metadata in Stripe payment");
+    }
+
+    const existing = await db.donation.findUnique({
+      where: { stripePaymentId },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const campaign = await db.fundraisingCampaign.findFirst({
+      where: {
+        id: campaignId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    const donatedAt = new Date();
+    const isAnonymous = metadata.isAnonymous === "true";
+    const donorName = metadata.donorName || "Anonymous";
+
+    const donation = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      await assertPeriodsOpen(tx, chapterId, [donatedAt], "This donation");
+
+      const donation = await tx.donation.create({
+        data: {
+          amount,
+          currency: campaign.currency,
+          donorName,
+          donorEmail: metadata.donorEmail || null,
+          message: metadata.message || null,
+          isAnonymous,
+          stripePaymentId,
+          donatedAt,
+          campaignId: campaign.id,
+          chapterId,
+          userId: metadata.userId || null,
+        },
+      });
+
+      // The books always name the donor, even when the public page doesn't
+      const transaction = await tx.transaction.create({
+        data: {
+          amount,
+          currency: campaign.currency,
+          type: TransactionType.INCOME,
+          description: `Donation to ${campaign.title} from ${donorName}`,
+          chapterId,
+          campaignId: campaign.id,
+          donationId: donation.id,
+          processedAt: donatedAt,
+        },
+      });
+
+      await postTransactionToLedger(tx, transaction);
+
+      if (platformFee) {
+        const feeTransaction = await tx.transaction.create({
+          data: {
+            amount: -platformFee, // Negative amount for outgoing fee
+            currency: campaign.currency,
+            type: TransactionType.EXPENSE,
+            description: `Platform fee on donation from ${donorName}`,
+            chapterId,
+            campaignId: campaign.id,
+            donationId: donation.id,
+            processedAt: donatedAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, feeTransaction);
+      }
+
+      return donation;
+    });
+
+    // Guest donors have no account, so their donations are logged without one
+    await logFinanceAuditEntry({
+      userId: donation.userId,
+      chapterId,
+      action: "donation.recorded",
+      targetType: "donation",
+      targetId: donation.id,
+      after: donation,
+      metadata: { campaignId: campaign.id, ...(platformFee && { platformFee }) },
+    });
+
+    return donation;
+  },
+
+  // Process a completed donation checkout from the Stripe webhook
+  processDonationCheckout: async (sessionId: string) => {
+    const session = await stripe.checkout.sessions.retrieve(sessionId, {
+      expand: ["payment_intent"],
+    });
+
+    const paymentIntent = typeof session.payment_intent === "string" ? null : session.payment_intent;
+    const paymentIntentId = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      throw new Error("Payment intent not found");
+    }
+
+    return campaignService.recordDonation(
+      paymentIntentId,
+      session.amount_total ?? 0, // Stripe amounts are already in minor units
+      session.metadata ?? {},
+      paymentIntent?.application_fee_amount
+    );
+  },
+};
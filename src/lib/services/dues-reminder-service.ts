@@ -0,0 +1,331 @@
+import { db } from "@/lib/db";
+import { sendEmail } from "@/lib/mail";
+import { sendSms } from "@/lib/sms";
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import {
+  buildDuesReminderSms,
+  describeDueTiming,
+  getDaysFromDueDate,
+  getOverduePlanInstallments,
+  isReminderDue,
+  REMINDER_CATCH_UP_DAYS,
+} from "@/lib/finance/dues-reminders";
+import { getDuesBalance } from "@/lib/finance/dues-balance";
+import { getPaymentPlanInstallments } from "@/lib/finance/payment-plans";
+import { DuesPaymentPlanStatus } from "@/generated/prisma";
+import { addDays } from "date-fns";
+
+/**
+ * Dues reminder service. Kept apart from the finance service because it pulls
+ * in the email and SMS providers.
+ */
+export const duesReminderService = {
+  /**
+   * Reminder Rules
+   */
+  getReminderRules: async (chapterId: string) => {
+    return db.duesReminderRule.findMany({
+      where: { chapterId },
+      orderBy: { offsetDays: "asc" },
+    });
+  },
+
+  createReminderRule: async (data: {
+    name: string;
+    offsetDays: number;
+    sendEmail?: boolean;
+    sendSms?: boolean;
+    message?: string | null;
+    isActive?: boolean;
+    chapterId: string;
+  }) => {
+    return db.duesReminderRule.create({
+      data,
+    });
+  },
+
+  updateReminderRule: async (
+    ruleId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      offsetDays?: number;
+      sendEmail?: boolean;
+      sendSms?: boolean;
+      message?: string | null;
+      isActive?: boolean;
+    }
+  ) => {
+    return db.duesReminderRule.update({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+      data,
+    });
+  },
+
+  deleteReminderRule: async (ruleId: string, chapterId: string) => {
+    return db.duesReminderRule.delete({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+  },
+
+  /**
+   * Sending
+   */
+  // Send every reminder that has come due for the chapter's unpaid dues
+  sendReminders: async (chapterId: string, asOf: Date = new Date()) => {
+    const chapter = await db.chapter.findUnique({
+      where: { id: chapterId },
+      select: { id: true, name: true, slug: true },
+    });
+
+    if (!chapter) {
+      throw new Error("Chapter not found");
+    }
+
+    const rules = await db.duesReminderRule.findMany({
+      where: {
+        chapterId,
+        isActive: true,
+      },
+    });
+
+    const result = { remindersSent: 0, emailsSent: 0, smsSent: 0, errors: [] as string[] };
+
+    if (rules.length === 0) {
+      return result;
+    }
+
+    // Only dues whose due date falls inside the widest rule window can match
+    const offsets = rules.map((rule) => rule.offsetDays);
+    const earliestDueDate = addDays(asOf, -Math.max(...offsets) - REMINDER_CATCH_UP_DAYS);
+    const latestDueDate = addDays(asOf, -Math.min(...offsets) + 1);
+
+    const userSelect = {
+      id: true,
+      name: true,
+      email: true,
+      profiles: {
+        where: { chapterId },
+        select: { phone: true, smsEnabled: true },
+      },
+    };
+
+    const unpaidDues = await db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        paidAt: null,
+        dueDate: {
+          gte: earliestDueDate,
+          lt: latestDueDate,
+        },
+        // Dues on an approved payment plan follow the plan's dates instead
+        paymentPlans: {
+          none: { status: DuesPaymentPlanStatus.APPROVED },
+        },
+      },
+      include: {
+        user: { select: userSelect },
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+        reminders: {
+          where: { planInstallmentNumber: 0 },
+          select: { ruleId: true },
+        },
+      },
+    });
+
+    // Plan installments can fall due long after the dues did, so all dues on a plan are checked
+    const plannedDues = await db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        paidAt: null,
+        paymentPlans: {
+          some: { status: DuesPaymentPlanStatus.APPROVED },
+        },
+      },
+      include: {
+        user: { select: userSelect },
+        paymentPlans: {
+          where: { status: DuesPaymentPlanStatus.APPROVED },
+          orderBy: { reviewedAt: "desc" },
+          take: 1,
+        },
+        reminders: {
+          where: { planInstallmentNumber: { gt: 0 } },
+          select: { ruleId: true, planInstallmentNumber: true },
+        },
+      },
+    });
+
+    // Each reminder is about the dues themselves (installment 0) or one missed plan installment
+    const targets = [
+      ...unpaidDues.map((duesPayment) => ({
+        duesPaymentId: duesPayment.id,
+        planInstallmentNumber: 0,
+        dueDate: duesPayment.dueDate,
+        remaining: getDuesBalance(duesPayment).remaining,
+        currency: duesPayment.currency,
+        user: duesPayment.user,
+        rules,
+        sentRuleIds: duesPayment.reminders.map((reminder) => reminder.ruleId),
+      })),
+      ...plannedDues.flatMap((duesPayment) =>
+        getOverduePlanInstallments(
+          getPaymentPlanInstallments(duesPayment.paymentPlans[0], duesPayment.amountPaid),
+          asOf
+        ).map((installment) => ({
+          duesPaymentId: duesPayment.id,
+          planInstallmentNumber: installment.installmentNumber,
+          dueDate: installment.dueDate,
+          remaining: installment.amount - installment.amountPaid,
+          currency: duesPayment.currency,
+          user: duesPayment.user,
+          rules: rules.filter((rule) => rule.offsetDays > 0),
+          sentRuleIds: duesPayment.reminders
+            .filter((reminder) => reminder.planInstallmentNumber === installment.installmentNumber)
+            .map((reminder) => reminder.ruleId),
+        }))
+      ),
+    ];
+
+    const paymentLink = `${process.env.NEXTAUTH_URL || "http://localhost:3000"}/${chapter.slug}/portal/dues`;
+
+    for (const target of targets) {
+      // Send at most one reminder per dues payment or plan installment per run, preferring the latest rule
+      const dueRule = target.rules
+        .filter((rule) => isReminderDue(rule, target.dueDate, asOf))
+        .filter((rule) => !target.sentRuleIds.includes(rule.id))
+        .sort((a, b) => b.offsetDays - a.offsetDays)[0];
+
+      if (!dueRule) {
+        continue;
+      }
+
+      const amount = formatCurrency(target.remaining, target.currency);
+      const dueTiming = describeDueTiming(getDaysFromDueDate(target.dueDate, asOf));
+      const profile = target.user.profiles[0];
+      const description = target.planInstallmentNumber
+        ? `Payment plan installment ${target.planInstallmentNumber} reminder`
+        : "Dues reminder";
+
+      let emailSent = false;
+      let smsSent = false;
+
+      if (dueRule.sendEmail && target.user.email) {
+        const emailResult = await sendEmail(target.user.email, "duesReminder", {
+          chapterName: chapter.name,
+          memberName: target.user.name || "",
+          amount,
+          dueDate: formatDate(target.dueDate),
+          dueTiming,
+          paymentLink,
+          message: dueRule.message || undefined,
+        });
+
+        emailSent = emailResult.success;
+
+        // Log the email in the database
+        await db.messageLog.create({
+          data: {
+            messageId: emailResult.info?.id || `email-${Date.now()}-${target.duesPaymentId}`,
+            type: "EMAIL",
+            recipient: target.user.email,
+            content: `${description}: ${amount} ${dueTiming}`,
+            status: emailResult.success ? "sent" : "failed",
+            chapterId,
+          },
+        });
+
+        if (emailResult.success) {
+          result.emailsSent++;
+        } else {
+          result.errors.push(`Failed to send email to ${target.user.email}`);
+        }
+      }
+
+      // SMS is only sent to members who have opted in; sendSms logs the message itself
+      if (dueRule.sendSms && profile?.phone && profile.smsEnabled) {
+        const smsResult = await sendSms({
+          to: profile.phone,
+          body: buildDuesReminderSms({ chapterName: chapter.name, amount, dueTiming, paymentLink }),
+          chapterSlug: chapter.slug,
+        });
+
+        smsSent = smsResult.success;
+
+        if (smsResult.success) {
+          result.smsSent++;
+        } else {
+          result.errors.push(`Failed to send SMS to ${profile.phone}: ${smsResult.error}`);
+        }
+      }
+
+      // Record the reminder even when nothing could be delivered so it is not retried every run
+      await db.duesReminder.create({
+        data: {
+          duesPaymentId: target.duesPaymentId,
+          planInstallmentNumber: target.planInstallmentNumber,
+          ruleId: dueRule.id,
+          sentAt: asOf,
+          emailSent,
+          smsSent,
+        },
+      });
+
+      // Earlier rules that were skipped in favour of this one are marked as handled too
+      const skippedRules = target.rules.filter(
+        (rule) =>
+          rule.offsetDays < dueRule.offsetDays &&
+          !target.sentRuleIds.includes(rule.id)
+      );
+
+      if (skippedRules.length > 0) {
+        await db.duesReminder.createMany({
+          data: skippedRules.map((rule) => ({
+            duesPaymentId: target.duesPaymentId,
+            planInstallmentNumber: target.planInstallmentNumber,
+            ruleId: rule.id,
+            sentAt: asOf,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      result.remindersSent++;
+    }
+
+    return result;
+  },
+
+  // Run reminders for every chapter with an active reminder rule
+  sendRemindersForAllChapters: async (asOf: Date = new Date()) => {
+    const chapters = await db.chapter.findMany({
+      where: {
+        duesReminderRules: {
+          some: { isActive: true },
+        },
+      },
+      select: { id: true },
+    });
+
+    const totals = { chapterCount: chapters.length, remindersSent: 0, emailsSent: 0, smsSent: 0, errors: [] as string[] };
+
+    for (const chapter of chapters) {
+      const result = await duesReminderService.sendReminders(chapter.id, asOf);
+      totals.remindersSent += result.remindersSent;
+      totals.emailsSent += result.emailsSent;
+      totals.smsSent += result.smsSent;
+      totals.errors.push(...result.errors);
+    }
+
+    return totals;
+  },
+};
@@ -0,0 +1,340 @@
+import { db } from "@/lib/db";
+import { sendEmail } from "@/lib/mail";
+import { afterCommit, CallerTransaction, financeService } from "@/lib/services/finance-service";
+import { formatCurrency } from "@/lib/utils/format";
+import {
+  approvalRangesOverlap,
+  canDecideApprovalStep,
+  DEFAULT_APPROVAL_STEPS,
+  getNextApprovalStep,
+} from "@/lib/finance/expense-approvals";
+import { ExpenseApprovalDecision, ExpenseStatus, MembershipRole, Prisma } from "@/generated/prisma";
+
+type ApprovalRuleInput = {
+  name: string;
+  minAmount: number;
+  maxAmount?: number | null;
+  isActive?: boolean;
+  steps: {
+    name: string;
+    approverId?: string | null;
+    approverRole?: MembershipRole | null;
+  }[];
+};
+
+// Active rules may not share amounts, otherwise an expense could match two chains
+async function assertNoOverlappingRule(chapterId: string, rule: ApprovalRuleInput, ruleId?: string) {
+  if (rule.isActive === false) {
+    return;
+  }
+
+  const activeRules = await db.expenseApprovalRule.findMany({
+    where: {
+      chapterId,
+      isActive: true,
+      ...(ruleId && { id: { not: ruleId } }),
+    },
+  });
+
+  const overlapping = activeRules.find((other) =>
+    approvalRangesOverlap({ minAmount: rule.minAmount, maxAmount: rule.maxAmount ?? null }, other)
+  );
+
+  if (overlapping) {
+    throw new Error(`Amount range overlaps the "${overlapping.name}" approval chain`);
+  }
+}
+
+// Named approvers must belong to the chapter
+async function assertApproversAreMembers(chapterId: string, rule: ApprovalRuleInput) {
+  const approverIds = [...new Set(rule.steps.map((step) => step.approverId).filter((id): id is string => !!id))];
+
+  if (approverIds.length === 0) {
+    return;
+  }
+
+  const memberCount = await db.membership.count({
+    where: {
+      chapterId,
+      userId: { in: approverIds },
+      role: { not: MembershipRole.PENDING_MEMBER },
+    },
+  });
+
+  if (memberCount !== approverIds.length) {
+    throw new Error("Every approver must be a member of the chapter");
+  }
+}
+
+const toStepRows = (steps: ApprovalRuleInput["steps"]) =>
+  steps.map((step, index) => ({
+    order: index + 1,
+    name: step.name,
+    approverId: step.approverId || null,
+    approverRole: step.approverId ? null : step.approverRole || null,
+  }));
+
+const ruleInclude = {
+  steps: {
+    orderBy: { order: "asc" },
+    include: {
+      approver: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+  },
+} satisfies Prisma.ExpenseApprovalRuleInclude;
+
+// Tell the submitter their expense moved on; failures are logged, not thrown
+async function notifySubmitter(
+  expense: {
+    id: string;
+    title: string;
+    amount: number;
+    currency: string;
+    chapterId: string;
+    submittedBy: { name: string | null; email: string | null };
+  },
+  statusMessage: string,
+  comment?: string | null
+) {
+  if (!expense.submittedBy.email) {
+    return;
+  }
+
+  const chapter = await db.chapter.findUnique({
+    where: { id: expense.chapterId },
+    select: { name: true, slug: true },
+  });
+
+  if (!chapter) {
+    return;
+  }
+
+  const expenseLink = `${process.env.NEXTAUTH_URL || "http://localhost:3000"}/${chapter.slug}/admin/finance/expenses`;
+
+  const emailResult = await sendEmail(expense.submittedBy.email, "expenseStatusUpdate", {
+    chapterName: chapter.name,
+    memberName: expense.submittedBy.name || "",
+    expenseTitle: expense.title,
+    amount: formatCurrency(expense.amount, expense.currency),
+    statusMessage,
+    expenseLink,
+    message: comment || undefined,
+  });
+
+  // Log the email in the database
+  await db.messageLog.create({
+    data: {
+      messageId: emailResult.info?.id || `email-${Date.now()}-${expense.id}`,
+      type: "EMAIL",
+      recipient: expense.submittedBy.email,
+      content: `Expense "${expense.title}" ${statusMessage}`,
+      status: emailResult.success ? "sent" : "failed",
+      chapterId: expense.chapterId,
+    },
+  });
+}
+
+/**
+ * Expense approval service. Kept apart from the finance service because it
+ * pulls in the email provider.
+ */
+export const expenseApprovalService = {
+  /**
+   * Approval Rules
+   */
+  getApprovalRules: async (chapterId: string) => {
+    return db.expenseApprovalRule.findMany({
+      where: { chapterId },
+      orderBy: { minAmount: "asc" },
+      include: ruleInclude,
+    });
+  },
+
+  createApprovalRule: async (data: ApprovalRuleInput & { chapterId: string }) => {
+    await assertNoOverlappingRule(data.chapterId, data);
+    await assertApproversAreMembers(data.chapterId, data);
+
+    return db.expenseApprovalRule.create({
+      data: {
+        name: data.name,
+        minAmount: data.minAmount,
+        maxAmount: data.maxAmount ?? null,
+        isActive: data.isActive ?? true,
+        chapterId: data.chapterId,
+        steps: {
+          create: toStepRows(data.steps),
+        },
+      },
+      include: ruleInclude,
+    });
+  },
+
+  // Replace a rule and its steps. Expenses already in review keep the rule, so
+  // their next step is read from the new chain.
+  updateApprovalRule: async (ruleId: string, chapterId: string, data: ApprovalRuleInput) => {
+    await assertNoOverlappingRule(chapterId, data, ruleId);
+    await assertApproversAreMembers(chapterId, data);
+
+    return db.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.expenseApprovalStep.deleteMany({
+        where: {
+          ruleId,
+          rule: { chapterId }, // Ensure tenant isolation
+        },
+      });
+
+      return tx.expenseApprovalRule.update({
+        where: {
+          id: ruleId,
+          chapterId, // Ensure tenant isolation
+        },
+        data: {
+          name: data.name,
+          minAmount: data.minAmount,
+          maxAmount: data.maxAmount ?? null,
+          isActive: data.isActive ?? true,
+          steps: {
+            create: toStepRows(data.steps),
+          },
+        },
+        include: ruleInclude,
+      });
+    });
+  },
+
+  // Pending expenses on a deleted rule fall back to a single admin approval
+  deleteApprovalRule: async (ruleId: string, chapterId: string) => {
+    return db.expenseApprovalRule.delete({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+  },
+
+  /**
+   * Reviewing Expenses
+   */
+  // Record a decision on the expense's current step. A denial ends the review;
+  // the last approval marks the expense approved.
+  reviewExpense: async (
+    expenseId: string,
+    chapterId: string,
+    data: {
+      decision: ExpenseApprovalDecision;
+      comment?: string | null;
+    },
+    reviewer: { userId: string; role: string }
+  ) => {
+    const expense = await db.expense.findFirst({
+      where: {
+        id: expenseId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        submittedBy: {
+          select: { name: true, email: true },
+        },
+        approvalRule: {
+          include: {
+            steps: true,
+          },
+        },
+        approvals: true,
+      },
+    });
+
+    if (!expense) {
+      throw new Error("Expense not found");
+    }
+
+    if (expense.status !== ExpenseStatus.PENDING) {
+      throw new Error("Only pending expenses can be reviewed");
+    }
+
+    const steps = expense.approvalRule?.steps.length ? expense.approvalRule.steps : DEFAULT_APPROVAL_STEPS;
+    const step = getNextApprovalStep(steps, expense.approvals);
+
+    if (!step) {
+      throw new Error("This expense has no approval steps left");
+    }
+
+    if (!canDecideApprovalStep(step, reviewer, expense.approvals)) {
+      throw new Error(`You cannot decide the "${step.name}" approval step for this expense`);
+    }
+
+    if (data.decision === ExpenseApprovalDecision.DENIED && !data.comment?.trim()) {
+      throw new Error("A comment is required when denying an expense");
+    }
+
+    await db.expenseApproval.create({
+      data: {
+        stepOrder: step.order,
+        stepName: step.name,
+        decision: data.decision,
+        comment: data.comment || null,
+        expenseId,
+        decidedById: reviewer.userId,
+      },
+    });
+
+    const isFinalStep = !getNextApprovalStep(steps, [
+      ...expense.approvals,
+      { stepOrder: step.order, decision: data.decision, decidedById: reviewer.userId },
+    ]);
+
+    if (data.decision === ExpenseApprovalDecision.DENIED) {
+      await financeService.updateExpense(expenseId, chapterId, {
+        status: ExpenseStatus.DENIED,
+      }, reviewer.userId);
+      await notifySubmitter(expense, `was denied at the ${step.name} step`, data.comment);
+    } else if (isFinalStep) {
+      await financeService.updateExpense(expenseId, chapterId, {
+        status: ExpenseStatus.APPROVED,
+        approvedById: reviewer.userId,
+        approvedAt: new Date(),
+      }, reviewer.userId);
+      await notifySubmitter(expense, "was approved", data.comment);
+    } else {
+      await notifySubmitter(expense, `was approved at the ${step.name} step and is waiting on the next approver`, data.comment);
+    }
+
+    return financeService.getExpense(expenseId, chapterId);
+  },
+
+  // Pay out an approved expense, recording its transaction and notifying the submitter
+  markExpensePaid: async (
+    expenseId: string,
+    chapterId: string,
+    data: { paidAt?: Date } = {},
+    actorId?: string,
+    caller?: CallerTransaction
+  ) => {
+    const expense = await (caller?.tx ?? db).expense.findFirst({
+      where: {
+        id: expenseId,
+        chapterId, // Ensure tenant isolation
+      },
+      select: { status: true },
+    });
+
+    if (!expense) {
+      throw new Error("Expense not found");
+    }
+
+    if (expense.status !== ExpenseStatus.APPROVED) {
+      throw new Error("Only approved expenses can be marked as paid");
+    }
+
+    const paidExpense = await financeService.updateExpense(expenseId, chapterId, {
+      status: ExpenseStatus.PAID,
+      paidAt: data.paidAt ?? new Date(),
+    }, actorId, caller);
+
+    await afterCommit(caller, () => notifySubmitter({ ...paidExpense, chapterId }, "has been paid"));
+
+    return paidExpense;
+  },
+};
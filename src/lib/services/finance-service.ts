@@ -1,32 +1,366 @@
 import { db } from "@/lib/db";
-import { BudgetStatus, ExpenseStatus, TransactionType, Prisma } from '@/generated/prisma';
+import { BudgetStatus, ExpenseStatus, TransactionType, DuesScheduleFrequency, MembershipRole, LateFeeType, LateFeeRecurrence, DuesPaymentPlanStatus, DuesAdjustmentStatus, DuesAdjustmentType, PaymentMethod, ReimbursementStatus, Prisma } from '@/generated/prisma';
 import stripe from "@/lib/stripe";
+import { getChapterTransferOptions } from "@/lib/finance/stripe-connect";
+import { calculateInstallments, getInstallmentChanges } from "@/lib/finance/dues-schedule";
+import { getLateFeeAssessments } from "@/lib/finance/late-fees";
+import { allocateDuesPayment, allocateDuesRefund, getDuesBalance, getUnpaidDues } from "@/lib/finance/dues-balance";
+import { getBulkDuesAmounts } from "@/lib/finance/dues-adjustments";
+import { getNextPlanInstallment, getPaymentPlanInstallments } from "@/lib/finance/payment-plans";
+import { formatCurrency, formatDate } from "@/lib/utils/format";
+import { describePaymentMethod, PaymentTransactionMetadata } from "@/lib/finance/payment-methods";
+import { getBrandColor } from "@/lib/finance/statements";
+import { sendEmail } from "@/lib/mail";
+import { findApprovalRule } from "@/lib/finance/expense-approvals";
+import { getBudgetUsage, getOverBudgetWarnings } from "@/lib/finance/budget-usage";
+import { postTransactionToLedger } from "@/lib/services/ledger-service";
+import { getStorageProvider } from "@/lib/storage";
+import { assertPeriodsOpen, getFrozenPeriods } from "@/lib/services/fiscal-period-service";
+import { findPeriodForDate, PeriodRange } from "@/lib/finance/fiscal-periods";
+import { endOfDay, startOfDay } from "date-fns";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { RECEIPT_FILE_EXTENSIONS, ReceiptContentType } from "@/lib/validations/finance";
+
+// Roles that count as active members when generating scheduled dues
+const ACTIVE_MEMBER_ROLES: MembershipRole[] = [
+  MembershipRole.MEMBER,
+  MembershipRole.ADMIN,
+  MembershipRole.OWNER,
+];
+
+/**
+ * The approval chain an expense of this amount goes through, or null when no
+ * rule covers it and any admin can approve
+ */
+async function getApprovalRuleId(tx: Prisma.TransactionClient, chapterId: string, amount: number) {
+  const rules = await tx.expenseApprovalRule.findMany({
+    where: { chapterId, isActive: true },
+  });
+
+  return findApprovalRule(rules, amount)?.id ?? null;
+}
+
+/**
+ * Check that a line item belongs to the chapter and to the expense's budget,
+ * returning the budget it belongs to
+ */
+async function resolveLineItemBudget(
+  tx: Prisma.TransactionClient,
+  chapterId: string,
+  lineItemId: string,
+  budgetId?: string | null
+) {
+  const lineItem = await tx.budgetLineItem.findFirst({
+    where: {
+      id: lineItemId,
+      budget: { chapterId }, // Ensure tenant isolation
+    },
+    select: { budgetId: true },
+  });
+
+  if (!lineItem) {
+    throw new Error("Budget line item not found");
+  }
+
+  if (budgetId && budgetId !== lineItem.budgetId) {
+    throw new Error("The line item belongs to a different budget");
+  }
+
+  return lineItem.budgetId;
+}
+
+/**
+ * Line items split the budget amount, so together they may not exceed it
+ */
+async function assertLineItemsFitBudget(
+  tx: Prisma.TransactionClient,
+  budgetId: string,
+  change: { lineItemId?: string; amount: number }
+) {
+  const budget = await tx.budget.findUnique({
+    where: { id: budgetId },
+    include: {
+      lineItems: { select: { id: true, amount: true } },
+    },
+  });
+
+  if (!budget) {
+    throw new Error("Budget not found");
+  }
+
+  const allocated =
+    budget.lineItems
+      .filter((item) => item.id !== change.lineItemId)
+      .reduce((sum, item) => sum + item.amount, 0) + change.amount;
+
+  if (allocated > budget.amount) {
+    throw new Error(
+      `Line items would allocate ${formatCurrency(allocated, budget.currency)} of a ${formatCurrency(budget.amount, budget.currency)} budget`
+    );
+  }
+}
+
+// Leave out dues falling due in locked or closed periods, which may not change
+function outsideFrozenPeriods(frozen: PeriodRange[]): Prisma.DuesPaymentWhereInput {
+  if (frozen.length === 0) {
+    return {};
+  }
+
+  return {
+    NOT: frozen.map((period) => ({
+      dueDate: { gte: startOfDay(period.startDate), lte: endOfDay(period.endDate) },
+    })),
+  };
+}
+
+/**
+ * Bring a schedule's generated dues payments in line with its current settings
+ * for the given members. Paid or partially paid installments and installments
+ * in locked or closed periods are never modified; unpaid ones are updated,
+ * less any approved adjustments, created or removed to match the schedule.
+ */
+async function syncScheduleInstallments(
+  tx: Prisma.TransactionClient,
+  schedule: {
+    id: string;
+    chapterId: string;
+    totalAmount: number;
+    currency: string;
+    installmentCount: number;
+    frequency: DuesScheduleFrequency;
+    firstDueDate: Date;
+  },
+  userIds: string[],
+  options: { skipPastDue?: boolean } = {}
+) {
+  const frozen = await getFrozenPeriods(tx, schedule.chapterId);
+
+  // Remove unpaid installments that no longer exist after a schedule edit
+  await tx.duesPayment.deleteMany({
+    where: {
+      scheduleId: schedule.id,
+      paidAt: null,
+      amountPaid: 0,
+      adjustments: { none: { status: DuesAdjustmentStatus.APPROVED } },
+      installmentNumber: { gt: schedule.installmentCount },
+      ...outsideFrozenPeriods(frozen),
+    },
+  });
+
+  const payments = await tx.duesPayment.findMany({
+    where: {
+      scheduleId: schedule.id,
+      userId: { in: userIds },
+    },
+    select: {
+      id: true,
+      userId: true,
+      installmentNumber: true,
+      dueDate: true,
+      paidAt: true,
+      amountPaid: true,
+      adjustments: {
+        where: { status: DuesAdjustmentStatus.APPROVED },
+        select: { amount: true },
+      },
+    },
+  });
+
+  const existing = payments.map(({ adjustments, ...payment }) => ({
+    ...payment,
+    adjusted: adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0),
+  }));
+
+  const changes = getInstallmentChanges(calculateInstallments(schedule), existing, userIds, {
+    skipPastDue: options.skipPastDue,
+    isFrozen: (date) => findPeriodForDate(frozen, date) !== undefined,
+  });
+
+  for (const change of changes) {
+    if (change.type === "update") {
+      await tx.duesPayment.update({
+        where: { id: change.id },
+        data: {
+          amount: change.amount,
+          currency: schedule.currency,
+          dueDate: change.dueDate,
+        },
+      });
+      continue;
+    }
+
+    await tx.duesPayment.create({
+      data: {
+        amount: change.amount,
+        currency: schedule.currency,
+        dueDate: change.dueDate,
+        installmentNumber: change.installmentNumber,
+        chapterId: schedule.chapterId,
+        scheduleId: schedule.id,
+        userId: change.userId,
+      },
+    });
+  }
+}
+
+// Email the member a receipt for a payment; failures are logged, not thrown
+async function sendPaymentReceipt(receipt: {
+  paymentRecordId: string;
+  chapterId: string;
+  chapterName: string;
+  chapterSlug: string;
+  primaryColor: string | null;
+  memberName: string | null;
+  email: string | null;
+  amount: number;
+  currency: string;
+  paidAt: Date;
+  method: PaymentMethod;
+  referenceNumber?: string | null;
+  balanceRemaining: number;
+  note?: string | null;
+}) {
+  if (!receipt.email) {
+    return;
+  }
+
+  const amount = formatCurrency(receipt.amount, receipt.currency);
+  const receiptLink = `${process.env.NEXTAUTH_URL || "http://localhost:3000"}/api/chapters/${receipt.chapterSlug}/finance/receipts/${receipt.paymentRecordId}`;
+
+  const emailResult = await sendEmail(receipt.email, "paymentReceipt", {
+    chapterName: receipt.chapterName,
+    brandColor: getBrandColor(receipt.primaryColor),
+    receiptLink,
+    memberName: receipt.memberName || "",
+    amount,
+    paidDate: formatDate(receipt.paidAt),
+    paymentMethod: describePaymentMethod(receipt.method, receipt.referenceNumber),
+    balanceRemaining: formatCurrency(receipt.balanceRemaining, receipt.currency),
+    message: receipt.note || undefined,
+  });
+
+  // Log the email in the database
+  await db.messageLog.create({
+    data: {
+      messageId: emailResult.info?.id || `email-${Date.now()}-${receipt.paymentRecordId}`,
+      type: "EMAIL",
+      recipient: receipt.email,
+      content: `Receipt for ${amount} dues payment`,
+      status: emailResult.success ? "sent" : "failed",
+      chapterId: receipt.chapterId,
+    },
+  });
+}
+
+/**
+ * Record a finance change in the chapter's audit log. Changes made by
+ * scheduled jobs and Stripe webhooks have no actor and are logged without one.
+ */
+async function auditFinanceChange(
+  actorId: string | null | undefined,
+  entry: Omit<Parameters<typeof logFinanceAuditEntry>[0], "userId">
+) {
+  await logFinanceAuditEntry({ userId: actorId ?? null, ...entry });
+}
+
+/**
+ * A transaction opened by the caller. Audit entries and emails are queued
+ * until it commits so a rollback can't leave them behind.
+ */
+export type CallerTransaction = {
+  tx: Prisma.TransactionClient;
+  afterCommit: (() => Promise<unknown>)[];
+};
+
+// Run the work in the caller's transaction when there is one, otherwise in a new one
+function runInTransaction<T>(caller: CallerTransaction | undefined, work: (tx: Prisma.TransactionClient) => Promise<T>) {
+  return caller ? work(caller.tx) : db.$transaction(work);
+}
+
+// Run a follow-up now, or once the caller's transaction has committed
+export async function afterCommit(caller: CallerTransaction | undefined, followUp: () => Promise<unknown>) {
+  if (caller) {
+    caller.afterCommit.push(followUp);
+  } else {
+    await followUp();
+  }
+}
 
 /**
  * Finance Service
- * Handles all finance-related operations with multi-tenant support
+ * Handles all finance-related operations with multi-tenant support.
+ * Methods that change money take the acting user's ID so the change can
+ * be written to the audit log.
  */
 export const financeService = {
   /**
    * Budget Management
    */
-  getBudgets: async (chapterId: string) => {
-    return db.budget.findMany({
-      where: { chapterId },
+  getBudgets: async (chapterId: string, filters?: { status?: BudgetStatus }) => {
+    const budgets = await db.budget.findMany({
+      where: {
+        chapterId,
+        ...(filters?.status && { status: filters.status }),
+      },
       orderBy: { startDate: "desc" },
+      include: {
+        expenses: {
+          select: { amount: true, status: true },
+        },
+        _count: {
+          select: { lineItems: true },
+        },
+      },
     });
+
+    return budgets.map(({ expenses, ...budget }) => ({
+      ...budget,
+      usage: getBudgetUsage(budget.amount, expenses),
+    }));
   },
 
+  // A budget with allocated vs. spent vs. committed for the budget and each line item
   getBudget: async (budgetId: string, chapterId: string) => {
-    return db.budget.findFirst({
+    const budget = await db.budget.findFirst({
       where: { 
         id: budgetId,
         chapterId // Ensure tenant isolation
       },
       include: {
-        expenses: true,
+        expenses: {
+          orderBy: { submittedAt: "desc" },
+          include: {
+            submittedBy: {
+              select: { id: true, name: true, email: true },
+            },
+          },
+        },
+        lineItems: {
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
+
+    if (!budget) {
+      return null;
+    }
+
+    const unassigned = budget.expenses.filter((expense) => !expense.lineItemId);
+    const allocatedToLineItems = budget.lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    return {
+      ...budget,
+      usage: getBudgetUsage(budget.amount, budget.expenses),
+      lineItems: budget.lineItems.map((item) => ({
+        ...item,
+        usage: getBudgetUsage(
+          item.amount,
+          budget.expenses.filter((expense) => expense.lineItemId === item.id)
+        ),
+      })),
+      // Whatever the line items leave unallocated covers expenses without a line item
+      unassignedUsage: getBudgetUsage(budget.amount - allocatedToLineItems, unassigned),
+    };
   },
 
   createBudget: async (data: {
@@ -35,12 +369,23 @@ export const financeService = {
     startDate: Date;
     endDate: Date;
     amount: number;
+    currency?: string;
     status?: BudgetStatus;
     chapterId: string;
-  }) => {
-    return db.budget.create({
+  }, actorId?: string) => {
+    const budget = await db.budget.create({
       data
     });
+
+    await auditFinanceChange(actorId, {
+      chapterId: data.chapterId,
+      action: "budget.created",
+      targetType: "budget",
+      targetId: budget.id,
+      after: budget,
+    });
+
+    return budget;
   },
 
   updateBudget: async (
@@ -52,33 +397,245 @@ export const financeService = {
       startDate?: Date;
       endDate?: Date;
       amount?: number;
+      currency?: string;
       status?: BudgetStatus;
-    }
+    },
+    actorId?: string
   ) => {
-    return db.budget.update({
+    const before = await db.budget.findFirst({
+      where: {
+        id: budgetId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (data.amount !== undefined) {
+      const allocation = await db.budgetLineItem.aggregate({
+        where: {
+          budgetId,
+          budget: { chapterId }, // Ensure tenant isolation
+        },
+        _sum: { amount: true },
+      });
+
+      if ((allocation._sum.amount ?? 0) > data.amount) {
+        throw new Error("The budget amount cannot be less than its line items");
+      }
+    }
+
+    const budget = await db.budget.update({
       where: {
         id: budgetId,
         chapterId, // Ensure tenant isolation
       },
       data,
     });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "budget.updated",
+      targetType: "budget",
+      targetId: budget.id,
+      before,
+      after: budget,
+    });
+
+    return budget;
   },
 
-  deleteBudget: async (budgetId: string, chapterId: string) => {
-    return db.budget.delete({
+  deleteBudget: async (budgetId: string, chapterId: string, actorId?: string) => {
+    const budget = await db.budget.delete({
       where: {
         id: budgetId,
         chapterId, // Ensure tenant isolation
       },
     });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "budget.deleted",
+      targetType: "budget",
+      targetId: budget.id,
+      before: budget,
+    });
+
+    return budget;
+  },
+
+  /**
+   * Budget Line Items
+   */
+  createBudgetLineItem: async (
+    budgetId: string,
+    chapterId: string,
+    data: {
+      name: string;
+      description?: string | null;
+      amount: number;
+    },
+    actorId?: string
+  ) => {
+    const lineItem = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const budget = await tx.budget.findFirst({
+        where: {
+          id: budgetId,
+          chapterId, // Ensure tenant isolation
+        },
+        select: { id: true },
+      });
+
+      if (!budget) {
+        throw new Error("Budget not found");
+      }
+
+      await assertLineItemsFitBudget(tx, budgetId, { amount: data.amount });
+
+      return tx.budgetLineItem.create({
+        data: {
+          ...data,
+          budgetId,
+        },
+      });
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "budget_line_item.created",
+      targetType: "budget_line_item",
+      targetId: lineItem.id,
+      after: lineItem,
+    });
+
+    return lineItem;
+  },
+
+  updateBudgetLineItem: async (
+    lineItemId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      amount?: number;
+    },
+    actorId?: string
+  ) => {
+    const { before, after } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const lineItem = await tx.budgetLineItem.findFirst({
+        where: {
+          id: lineItemId,
+          budget: { chapterId }, // Ensure tenant isolation
+        },
+      });
+
+      if (!lineItem) {
+        throw new Error("Budget line item not found");
+      }
+
+      if (data.amount !== undefined) {
+        await assertLineItemsFitBudget(tx, lineItem.budgetId, { lineItemId, amount: data.amount });
+      }
+
+      const updated = await tx.budgetLineItem.update({
+        where: { id: lineItemId },
+        data,
+      });
+
+      return { before: lineItem, after: updated };
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "budget_line_item.updated",
+      targetType: "budget_line_item",
+      targetId: lineItemId,
+      before,
+      after,
+    });
+
+    return after;
+  },
+
+  // Expenses on the line item stay on the budget without a line item
+  deleteBudgetLineItem: async (lineItemId: string, chapterId: string, actorId?: string) => {
+    const lineItem = await db.budgetLineItem.findFirst({
+      where: {
+        id: lineItemId,
+        budget: { chapterId }, // Ensure tenant isolation
+      },
+    });
+
+    if (!lineItem) {
+      throw new Error("Budget line item not found");
+    }
+
+    await db.budgetLineItem.delete({
+      where: { id: lineItemId },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "budget_line_item.deleted",
+      targetType: "budget_line_item",
+      targetId: lineItemId,
+      before: lineItem,
+    });
+
+    return lineItem;
+  },
+
+  // Budget and line item overruns this expense causes once everything pending is approved
+  getBudgetWarnings: async (
+    chapterId: string,
+    expense: { id?: string; amount: number; budgetId?: string | null; lineItemId?: string | null }
+  ) => {
+    if (!expense.budgetId) {
+      return [];
+    }
+
+    const budget = await db.budget.findFirst({
+      where: {
+        id: expense.budgetId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        expenses: {
+          select: { id: true, amount: true, status: true, lineItemId: true },
+        },
+        lineItems: {
+          select: { id: true, name: true, amount: true },
+        },
+      },
+    });
+
+    return budget ? getOverBudgetWarnings(budget, expense) : [];
   },
 
   /**
    * Expense Management
    */
-  getExpenses: async (chapterId: string) => {
+  getExpenses: async (
+    chapterId: string,
+    filters?: {
+      status?: ExpenseStatus;
+      startDate?: Date; // Submitted on or after
+      endDate?: Date; // Submitted on or before
+      budgetId?: string;
+    }
+  ) => {
+    const { status, startDate, endDate, budgetId } = filters || {};
+
     return db.expense.findMany({
-      where: { chapterId },
+      where: {
+        chapterId,
+        ...(status && { status }),
+        ...((startDate || endDate) && {
+          submittedAt: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+        ...(budgetId && { budgetId }),
+      },
       orderBy: { submittedAt: "desc" },
       include: {
         submittedBy: {
@@ -98,6 +655,27 @@ export const financeService = {
           },
         },
         budget: true,
+        lineItem: true,
+        approvalRule: {
+          include: {
+            steps: {
+              orderBy: { order: "asc" },
+              include: {
+                approver: {
+                  select: { id: true, name: true },
+                },
+              },
+            },
+          },
+        },
+        approvals: {
+          orderBy: { decidedAt: "asc" },
+          include: {
+            decidedBy: {
+              select: { id: true, name: true },
+            },
+          },
+        },
       },
     });
   },
@@ -126,6 +704,27 @@ export const financeService = {
           },
         },
         budget: true,
+        lineItem: true,
+        approvalRule: {
+          include: {
+            steps: {
+              orderBy: { order: "asc" },
+              include: {
+                approver: {
+                  select: { id: true, name: true },
+                },
+              },
+            },
+          },
+        },
+        approvals: {
+          orderBy: { decidedAt: "asc" },
+          include: {
+            decidedBy: {
+              select: { id: true, name: true },
+            },
+          },
+        },
       },
     });
   },
@@ -134,26 +733,50 @@ export const financeService = {
     title: string;
     description?: string | null;
     amount: number;
+    currency?: string;
     receiptUrl?: string | null;
     status?: ExpenseStatus;
     chapterId: string;
     budgetId?: string | null;
+    lineItemId?: string | null;
     submittedById: string;
   }) => {
-    return db.expense.create({
-      data,
-      include: {
-        submittedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    const expense = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      // An expense on a line item always sits on that line item's budget
+      const budgetId = data.lineItemId
+        ? await resolveLineItemBudget(tx, data.chapterId, data.lineItemId, data.budgetId)
+        : data.budgetId;
+
+      return tx.expense.create({
+        data: {
+          ...data,
+          budgetId,
+          approvalRuleId: await getApprovalRuleId(tx, data.chapterId, data.amount),
+        },
+        include: {
+          submittedBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
           },
+          budget: true,
+          lineItem: true,
         },
-        budget: true,
-      },
+      });
+    });
+
+    await auditFinanceChange(data.submittedById, {
+      chapterId: data.chapterId,
+      action: "expense.created",
+      targetType: "expense",
+      targetId: expense.id,
+      after: expense,
     });
+
+    return expense;
   },
 
   updateExpense: async (
@@ -163,64 +786,281 @@ export const financeService = {
       title?: string;
       description?: string | null;
       amount?: number;
+      currency?: string;
       receiptUrl?: string | null;
       status?: ExpenseStatus;
       budgetId?: string | null;
+      lineItemId?: string | null;
       approvedById?: string | null;
       approvedAt?: Date | null;
       paidAt?: Date | null;
-    }
+    },
+    actorId?: string,
+    caller?: CallerTransaction
   ) => {
-    const expense = await db.expense.update({
+    const { before, after } = await runInTransaction(caller, async (tx: Prisma.TransactionClient) => {
+      const current = await tx.expense.findFirst({
+        where: {
+          id: expenseId,
+          chapterId, // Ensure tenant isolation
+        },
+        include: { reimbursement: { select: { status: true } } },
+      });
+
+      if (!current) {
+        throw new Error("Expense not found");
+      }
+
+      // A payout in flight settles the expense itself
+      if (data.status && current.reimbursement?.status === ReimbursementStatus.PENDING) {
+        throw new Error("This expense has a reimbursement in progress");
+      }
+
+      // Paid expenses belong to the period they were paid in
+      await assertPeriodsOpen(tx, chapterId, [current.paidAt, data.paidAt], "This expense");
+
+      // Keep the line item and budget consistent; moving budgets drops the old line item
+      const budgetChanged = data.budgetId !== undefined && data.budgetId !== current.budgetId;
+      const budgetAssignment = data.lineItemId
+        ? { budgetId: await resolveLineItemBudget(tx, chapterId, data.lineItemId, data.budgetId) }
+        : budgetChanged && data.lineItemId === undefined
+          ? { lineItemId: null }
+          : {};
+
+      // A new amount can fall under a different approval chain, so pending approvals start over
+      const amountChanged = data.amount !== undefined && data.amount !== current.amount;
+      if (amountChanged && current.status === ExpenseStatus.PENDING) {
+        await tx.expenseApproval.deleteMany({
+          where: { expenseId },
+        });
+      }
+
+      const expense = await tx.expense.update({
+        where: {
+          id: expenseId,
+          chapterId, // Ensure tenant isolation
+        },
+        data: {
+          ...data,
+          ...budgetAssignment,
+          ...(amountChanged && current.status === ExpenseStatus.PENDING && {
+            approvalRuleId: await getApprovalRuleId(tx, chapterId, data.amount!),
+          }),
+        },
+        include: {
+          submittedBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
+          },
+        },
+      });
+
+      // Create a transaction record if the expense is paid and post it to the ledger
+      if (data.status === "PAID" && data.paidAt) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: -expense.amount, // Negative amount for outgoing expense
+            currency: expense.currency,
+            type: TransactionType.EXPENSE,
+            description: `Expense payment: ${expense.title}`,
+            chapterId,
+            expenseId: expense.id,
+            processedAt: data.paidAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      return { before: current, after: expense };
+    });
+
+    await afterCommit(caller, () => auditFinanceChange(actorId, {
+      chapterId,
+      action: "expense.updated",
+      targetType: "expense",
+      targetId: expenseId,
+      before,
+      after,
+    }));
+
+    return after;
+  },
+
+  deleteExpense: async (expenseId: string, chapterId: string, actorId?: string) => {
+    const current = await db.expense.findFirst({
       where: {
         id: expenseId,
         chapterId, // Ensure tenant isolation
       },
-      data,
-      include: {
-        submittedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
-        },
-      },
+      select: { paidAt: true },
     });
 
-    // Create a transaction record if the expense is paid
-    if (data.status === "PAID" && data.paidAt) {
-      await db.transaction.create({
-        data: {
-          amount: -expense.amount, // Negative amount for outgoing expense
-          type: TransactionType.EXPENSE,
-          description: `Expense payment: ${expense.title}`,
-          chapterId,
-          expenseId: expense.id,
-          processedAt: data.paidAt,
-        },
-      });
+    if (!current) {
+      throw new Error("Expense not found");
     }
 
-    return expense;
-  },
+    await assertPeriodsOpen(db, chapterId, [current.paidAt], "This expense");
 
-  deleteExpense: async (expenseId: string, chapterId: string) => {
-    return db.expense.delete({
+    const expense = await db.expense.delete({
       where: {
         id: expenseId,
         chapterId, // Ensure tenant isolation
       },
     });
-  },
 
-  /**
-   * Dues Management
+    if (expense.receiptKey) {
+      await getStorageProvider().deleteObject(expense.receiptKey);
+    }
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "expense.deleted",
+      targetType: "expense",
+      targetId: expense.id,
+      before: expense,
+    });
+
+    return expense;
+  },
+
+  /**
+   * Expense Receipts
+   */
+  // Store an uploaded receipt and attach it to the expense, replacing any earlier upload
+  attachExpenseReceipt: async (expenseId: string, chapterId: string, file: File, actorId?: string) => {
+    const expense = await db.expense.findFirst({
+      where: {
+        id: expenseId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!expense) {
+      throw new Error("Expense not found");
+    }
+
+    await assertPeriodsOpen(db, chapterId, [expense.paidAt], "This expense");
+
+    const extension = RECEIPT_FILE_EXTENSIONS[file.type as ReceiptContentType];
+    if (!extension) {
+      throw new Error("Receipt must be a JPEG, PNG, WebP or HEIC image or a PDF");
+    }
+
+    const receiptKey = `chapters/${chapterId}/receipts/${expenseId}-${Date.now()}.${extension}`;
+    const storage = getStorageProvider();
+
+    await storage.putObject(receiptKey, Buffer.from(await file.arrayBuffer()), file.type);
+
+    const updatedExpense = await db.expense.update({
+      where: { id: expenseId },
+      data: {
+        receiptKey,
+        receiptFileName: file.name,
+        receiptContentType: file.type,
+        receiptSize: file.size,
+      },
+    });
+
+    if (expense.receiptKey) {
+      await storage.deleteObject(expense.receiptKey);
+    }
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "expense.updated",
+      targetType: "expense",
+      targetId: expenseId,
+      before: expense,
+      after: updatedExpense,
+    });
+
+    return updatedExpense;
+  },
+
+  getExpenseReceipt: async (expenseId: string, chapterId: string) => {
+    const expense = await db.expense.findFirst({
+      where: {
+        id: expenseId,
+        chapterId, // Ensure tenant isolation
+      },
+      select: {
+        receiptKey: true,
+        receiptFileName: true,
+        receiptContentType: true,
+      },
+    });
+
+    if (!expense?.receiptKey) {
+      return null;
+    }
+
+    const body = await getStorageProvider().getObject(expense.receiptKey);
+
+    if (!body) {
+      return null;
+    }
+
+    return {
+      body,
+      fileName: expense.receiptFileName ?? "receipt",
+      contentType: expense.receiptContentType ?? "application/octet-stream",
+    };
+  },
+
+  removeExpenseReceipt: async (expenseId: string, chapterId: string, actorId?: string) => {
+    const expense = await db.expense.findFirst({
+      where: {
+        id: expenseId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!expense) {
+      throw new Error("Expense not found");
+    }
+
+    await assertPeriodsOpen(db, chapterId, [expense.paidAt], "This expense");
+
+    const updatedExpense = await db.expense.update({
+      where: { id: expenseId },
+      data: {
+        receiptKey: null,
+        receiptFileName: null,
+        receiptContentType: null,
+        receiptSize: null,
+      },
+    });
+
+    if (expense.receiptKey) {
+      await getStorageProvider().deleteObject(expense.receiptKey);
+    }
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "expense.updated",
+      targetType: "expense",
+      targetId: expenseId,
+      before: expense,
+      after: updatedExpense,
+    });
+
+    return updatedExpense;
+  },
+
+  /**
+   * Dues Management
    */
-  getDuesPayments: async (chapterId: string) => {
+  getDuesPayments: async (chapterId: string, filters?: { status?: "paid" | "pending" }) => {
     return db.duesPayment.findMany({
-      where: { chapterId },
+      where: {
+        chapterId,
+        ...(filters?.status ? { paidAt: filters.status === "paid" ? { not: null } : null } : {}),
+      },
       orderBy: { dueDate: "desc" },
       include: {
         user: {
@@ -231,6 +1071,41 @@ export const financeService = {
             image: true,
           },
         },
+        schedule: {
+          select: {
+            id: true,
+            name: true,
+            installmentCount: true,
+          },
+        },
+        lateFees: {
+          where: { waivedAt: null },
+          orderBy: { assessedAt: "asc" },
+        },
+        paymentRecords: {
+          select: {
+            id: true,
+            amount: true,
+            paidAt: true,
+            method: true,
+            referenceNumber: true,
+            stripePaymentId: true,
+            reviewReason: true,
+            refunds: {
+              select: { amount: true },
+            },
+          },
+          orderBy: { paidAt: "desc" },
+        },
+        paymentPlans: {
+          where: {
+            status: { in: [DuesPaymentPlanStatus.PENDING, DuesPaymentPlanStatus.APPROVED] },
+          },
+        },
+        adjustments: {
+          where: { status: DuesAdjustmentStatus.APPROVED },
+          select: { id: true, type: true, amount: true },
+        },
       },
     });
   },
@@ -241,134 +1116,1628 @@ export const financeService = {
         userId,
         chapterId, // Ensure tenant isolation
       },
+      include: {
+        schedule: {
+          select: {
+            id: true,
+            name: true,
+            installmentCount: true,
+          },
+        },
+        lateFees: {
+          where: { waivedAt: null },
+          orderBy: { assessedAt: "asc" },
+        },
+        paymentRecords: {
+          select: {
+            id: true,
+            amount: true,
+            paidAt: true,
+            method: true,
+            referenceNumber: true,
+          },
+          orderBy: { paidAt: "desc" },
+        },
+        paymentPlans: {
+          where: {
+            status: { in: [DuesPaymentPlanStatus.PENDING, DuesPaymentPlanStatus.APPROVED] },
+          },
+        },
+        adjustments: {
+          where: { status: DuesAdjustmentStatus.APPROVED },
+          select: { id: true, type: true, amount: true },
+        },
+      },
       orderBy: { dueDate: "desc" },
     });
   },
 
-  getDuesPayment: async (duesPaymentId: string, chapterId: string) => {
-    return db.duesPayment.findFirst({
+  getDuesPayment: async (duesPaymentId: string, chapterId: string) => {
+    return db.duesPayment.findFirst({
+      where: {
+        id: duesPaymentId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    });
+  },
+
+  createDuesPayment: async (data: {
+    amount: number;
+    currency?: string;
+    dueDate: Date;
+    chapterId: string;
+    userId: string;
+  }, actorId?: string) => {
+    const duesPayment = await db.duesPayment.create({
+      data,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId: data.chapterId,
+      action: "dues.created",
+      targetType: "dues_payment",
+      targetId: duesPayment.id,
+      after: duesPayment,
+    });
+
+    return duesPayment;
+  },
+
+  // Create dues payments in bulk for multiple members. With useCategoryAmounts each
+  // member is charged their dues category's default and the amount covers the rest.
+  createBulkDuesPayments: async (data: {
+    amount?: number;
+    currency?: string;
+    dueDate: Date;
+    chapterId: string;
+    memberIds: string[];
+    useCategoryAmounts?: boolean;
+  }, actorId?: string) => {
+    const { amount, currency, dueDate, chapterId, memberIds } = data;
+
+    const memberships = data.useCategoryAmounts
+      ? await db.membership.findMany({
+          where: {
+            userId: { in: memberIds },
+            chapterId, // Ensure tenant isolation
+          },
+          select: {
+            userId: true,
+            duesCategory: {
+              select: { defaultAmount: true, currency: true },
+            },
+          },
+        })
+      : [];
+
+    const { amounts, missing } = getBulkDuesAmounts(memberIds, memberships, { amount, currency });
+
+    if (missing.length > 0) {
+      throw new Error(`${missing.length} selected member(s) have no dues category; enter an amount to charge them`);
+    }
+    
+    const duesPayments = await db.$transaction(
+      amounts.map((member) => 
+        db.duesPayment.create({
+          data: {
+            amount: member.amount,
+            currency: member.currency,
+            dueDate,
+            chapterId,
+            userId: member.userId,
+          },
+        })
+      )
+    );
+
+    for (const duesPayment of duesPayments) {
+      await auditFinanceChange(actorId, {
+        chapterId,
+        action: "dues.created",
+        targetType: "dues_payment",
+        targetId: duesPayment.id,
+        after: duesPayment,
+        metadata: { bulk: true },
+      });
+    }
+
+    return duesPayments;
+  },
+
+  updateDuesPayment: async (
+    duesPaymentId: string,
+    chapterId: string,
+    data: {
+      amount?: number;
+      currency?: string;
+      dueDate?: Date;
+      paidAt?: Date | null;
+      stripePaymentId?: string | null;
+      stripeInvoiceId?: string | null;
+    },
+    actorId?: string
+  ) => {
+    const { paidAt, stripePaymentId, ...details } = data;
+
+    const existing = await db.duesPayment.findFirst({
+      where: {
+        id: duesPaymentId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    // Dues belong to the period they fall due in
+    await assertPeriodsOpen(db, chapterId, [existing?.dueDate, data.dueDate], "This dues payment");
+
+    // Marking unpaid dues as paid records a payment for whatever is still owed
+    if (paidAt && existing && !existing.paidAt) {
+      if (Object.keys(details).length > 0) {
+        const updated = await db.duesPayment.update({
+          where: {
+            id: duesPaymentId,
+            chapterId, // Ensure tenant isolation
+          },
+          data: details,
+        });
+
+        await auditFinanceChange(actorId, {
+          chapterId,
+          action: "dues.updated",
+          targetType: "dues_payment",
+          targetId: duesPaymentId,
+          before: existing,
+          after: updated,
+        });
+      }
+
+      return financeService.recordDuesPayment(duesPaymentId, chapterId, {
+        paidAt,
+        stripePaymentId: stripePaymentId ?? undefined,
+        recordedById: actorId,
+      });
+    }
+
+    const duesPayment = await db.duesPayment.update({
+      where: {
+        id: duesPaymentId,
+        chapterId, // Ensure tenant isolation
+      },
+      data,
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues.updated",
+      targetType: "dues_payment",
+      targetId: duesPaymentId,
+      before: existing,
+      after: duesPayment,
+    });
+
+    return duesPayment;
+  },
+
+  deleteDuesPayment: async (duesPaymentId: string, chapterId: string, actorId?: string) => {
+    const existing = await db.duesPayment.findFirst({
+      where: {
+        id: duesPaymentId,
+        chapterId, // Ensure tenant isolation
+      },
+      select: { dueDate: true, paidAt: true },
+    });
+
+    await assertPeriodsOpen(db, chapterId, [existing?.dueDate, existing?.paidAt], "This dues payment");
+
+    const duesPayment = await db.duesPayment.delete({
+      where: {
+        id: duesPaymentId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues.deleted",
+      targetType: "dues_payment",
+      targetId: duesPayment.id,
+      before: duesPayment,
+    });
+
+    return duesPayment;
+  },
+
+  /**
+   * Partial Payments
+   */
+  getDuesPaymentRecords: async (duesPaymentId: string, chapterId: string) => {
+    return db.duesPaymentRecord.findMany({
+      where: {
+        duesPaymentId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      include: {
+        recordedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        receivedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { paidAt: "desc" },
+    });
+  },
+
+  // Record a full or partial payment (in minor units) against a dues payment.
+  // Without an amount the whole remaining balance is paid. Money already
+  // collected, e.g. by Stripe, is always recorded; an overpayment or a payment
+  // in a frozen period is flagged for an admin to review instead of refused.
+  recordDuesPayment: async (
+    duesPaymentId: string,
+    chapterId: string,
+    data: {
+      amount?: number;
+      paidAt?: Date;
+      note?: string | null;
+      method?: PaymentMethod; // Worked out from the Stripe or bank details when omitted
+      referenceNumber?: string | null;
+      receivedById?: string | null;
+      sendReceipt?: boolean; // Defaults to true; every payment gets a receipt unless an admin opts out
+      stripePaymentId?: string;
+      platformFee?: number | null; // Kept by the platform from a Stripe payment
+      recordedById?: string;
+      bankStatementLineId?: string; // Reconciles the new transactions against this bank deposit
+      collected?: boolean; // The money has already been taken and can't be turned away
+    },
+    caller?: CallerTransaction
+  ) => {
+    const paidAt = data.paidAt ?? new Date();
+    const reconciledAt = data.bankStatementLineId ? new Date() : undefined;
+    const method = data.method
+      ?? (data.stripePaymentId ? PaymentMethod.STRIPE : data.bankStatementLineId ? PaymentMethod.BANK_TRANSFER : PaymentMethod.OTHER);
+
+    // Copied onto each transaction so the ledger shows how the money arrived
+    const metadata: PaymentTransactionMetadata = {
+      paymentMethod: method,
+      ...(data.referenceNumber && { referenceNumber: data.referenceNumber }),
+      ...(data.receivedById && { receivedById: data.receivedById }),
+    };
+
+    const { before, duesPayment, receipt } = await runInTransaction(caller, async (tx: Prisma.TransactionClient) => {
+      const reviewReasons: string[] = [];
+
+      // The payment's transactions are dated when it was paid
+      if (!data.collected) {
+        await assertPeriodsOpen(tx, chapterId, [paidAt], "This payment");
+      } else if (findPeriodForDate(await getFrozenPeriods(tx, chapterId), paidAt)) {
+        reviewReasons.push(`Paid on ${formatDate(paidAt)}, in a locked or closed period.`);
+      }
+
+      const duesPayment = await tx.duesPayment.findFirst({
+        where: {
+          id: duesPaymentId,
+          chapterId, // Ensure tenant isolation
+        },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+          chapter: {
+            select: { name: true, slug: true, primaryColor: true },
+          },
+          lateFees: {
+            where: { waivedAt: null },
+            orderBy: { assessedAt: "asc" },
+            include: {
+              transactions: {
+                select: { amount: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (!duesPayment) {
+        throw new Error("Dues payment not found");
+      }
+
+      if (data.receivedById) {
+        const receiver = await tx.membership.findFirst({
+          where: {
+            userId: data.receivedById,
+            chapterId, // Ensure tenant isolation
+          },
+        });
+
+        if (!receiver) {
+          throw new Error("The payment must be received by a member of this chapter");
+        }
+      }
+
+      const balance = getDuesBalance(duesPayment);
+      const amount = data.amount ?? balance.remaining;
+
+      if (amount <= 0 || (balance.remaining <= 0 && !data.collected)) {
+        throw new Error("Dues payment has no remaining balance");
+      }
+
+      if (amount > balance.remaining && !data.collected) {
+        throw new Error(`Payment exceeds the remaining balance of ${formatCurrency(balance.remaining, duesPayment.currency)}`);
+      }
+
+      const allocation = allocateDuesPayment(
+        {
+          amount: duesPayment.amount,
+          amountPaid: duesPayment.amountPaid,
+          lateFees: duesPayment.lateFees.map((fee) => ({
+            id: fee.id,
+            amount: fee.amount,
+            amountPaid: fee.transactions.reduce((sum, transaction) => sum + transaction.amount, 0),
+          })),
+        },
+        amount
+      );
+
+      // Collected money beyond what is owed stays with the dues so it can be refunded
+      const overpaid = Math.max(amount - balance.remaining, 0);
+      if (overpaid > 0) {
+        allocation.toDues += overpaid;
+        reviewReasons.push(`Paid ${formatCurrency(overpaid, duesPayment.currency)} more than was owed; refund the difference.`);
+      }
+
+      const amountPaid = duesPayment.amountPaid + amount;
+      const isSettled = amountPaid >= balance.total;
+      const payerName = duesPayment.user.name ?? duesPayment.user.email;
+
+      const record = await tx.duesPaymentRecord.create({
+        data: {
+          amount,
+          paidAt,
+          note: data.note,
+          method,
+          referenceNumber: data.referenceNumber,
+          stripePaymentId: data.stripePaymentId,
+          reviewReason: reviewReasons.length ? reviewReasons.join(" ") : null,
+          duesPaymentId,
+          recordedById: data.recordedById,
+          receivedById: data.receivedById,
+        },
+      });
+
+      // The dues and late fee portions are recorded as separate transactions
+      if (allocation.toDues > 0) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: allocation.toDues, // Positive amount for incoming payment
+            currency: duesPayment.currency,
+            type: TransactionType.DUES_PAYMENT,
+            description: isSettled && duesPayment.amountPaid === 0
+              ? `Dues payment from ${payerName}`
+              : `Partial dues payment from ${payerName}`,
+            metadata,
+            chapterId,
+            duesPaymentRecordId: record.id,
+            bankStatementLineId: data.bankStatementLineId,
+            reconciledAt,
+            processedAt: paidAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      for (const lateFee of allocation.toLateFees) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: lateFee.amount,
+            currency: duesPayment.currency,
+            type: TransactionType.LATE_FEE,
+            description: `Late fee from ${payerName}`,
+            metadata,
+            chapterId,
+            lateFeeId: lateFee.lateFeeId,
+            duesPaymentRecordId: record.id,
+            bankStatementLineId: data.bankStatementLineId,
+            reconciledAt,
+            processedAt: paidAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      // The chapter receives the payment less the platform fee
+      if (data.platformFee) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: -data.platformFee, // Negative amount for outgoing fee
+            currency: duesPayment.currency,
+            type: TransactionType.EXPENSE,
+            description: `Platform fee on payment from ${payerName}`,
+            chapterId,
+            duesPaymentRecordId: record.id,
+            processedAt: paidAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      if (isSettled) {
+        await tx.duesPaymentPlan.updateMany({
+          where: {
+            duesPaymentId,
+            status: DuesPaymentPlanStatus.APPROVED,
+          },
+          data: { status: DuesPaymentPlanStatus.COMPLETED },
+        });
+      }
+
+      const updated = await tx.duesPayment.update({
+        where: { id: duesPaymentId },
+        data: {
+          amountPaid,
+          paidAt: isSettled ? duesPayment.paidAt ?? paidAt : undefined,
+          stripePaymentId: data.stripePaymentId,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
+          },
+        },
+      });
+
+      return {
+        before: duesPayment,
+        duesPayment: updated,
+        receipt: {
+          paymentRecordId: record.id,
+          chapterId,
+          chapterName: duesPayment.chapter.name,
+          chapterSlug: duesPayment.chapter.slug,
+          primaryColor: duesPayment.chapter.primaryColor,
+          memberName: duesPayment.user.name,
+          email: duesPayment.user.email,
+          amount,
+          currency: duesPayment.currency,
+          paidAt,
+          method,
+          referenceNumber: data.referenceNumber,
+          balanceRemaining: Math.max(balance.total - amountPaid, 0),
+          note: data.note,
+          reviewReason: record.reviewReason,
+        },
+      };
+    });
+
+    await afterCommit(caller, async () => {
+      // Online payments without an admin recording them were made by the member
+      await auditFinanceChange(data.recordedById ?? before.userId, {
+        chapterId,
+        action: "dues.payment_recorded",
+        targetType: "dues_payment",
+        targetId: duesPaymentId,
+        before,
+        after: duesPayment,
+        metadata: {
+          paymentRecordId: receipt.paymentRecordId,
+          amount: receipt.amount,
+          method,
+          referenceNumber: data.referenceNumber,
+          ...(receipt.reviewReason && { reviewReason: receipt.reviewReason }),
+        },
+      });
+
+      // Sent once the payment is saved so a slow email can't roll it back
+      if (data.sendReceipt !== false) {
+        await sendPaymentReceipt(receipt);
+      }
+    });
+
+    return duesPayment;
+  },
+
+  /**
+   * Payment Plans
+   */
+  getPaymentPlans: async (chapterId: string, status?: DuesPaymentPlanStatus) => {
+    return db.duesPaymentPlan.findMany({
+      where: {
+        status,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      include: {
+        duesPayment: {
+          select: {
+            id: true,
+            amount: true,
+            amountPaid: true,
+            currency: true,
+            dueDate: true,
+            paidAt: true,
+          },
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+        reviewedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  },
+
+  // Members request a plan for their own unpaid dues; an admin has to approve it
+  requestPaymentPlan: async (data: {
+    duesPaymentId: string;
+    chapterId: string;
+    userId: string;
+    installmentCount: number;
+    frequency: DuesScheduleFrequency;
+    firstPaymentDate: Date;
+    requestNote?: string | null;
+  }) => {
+    const duesPayment = await db.duesPayment.findFirst({
+      where: {
+        id: data.duesPaymentId,
+        chapterId: data.chapterId, // Ensure tenant isolation
+        userId: data.userId,
+      },
+      include: {
+        lateFees: {
+          where: { waivedAt: null },
+        },
+        paymentPlans: {
+          where: {
+            status: { in: [DuesPaymentPlanStatus.PENDING, DuesPaymentPlanStatus.APPROVED] },
+          },
+        },
+      },
+    });
+
+    if (!duesPayment) {
+      throw new Error("Dues payment not found");
+    }
+
+    if (duesPayment.paidAt) {
+      throw new Error("Dues payment has already been paid");
+    }
+
+    if (duesPayment.paymentPlans.length > 0) {
+      throw new Error("A payment plan already exists for this dues payment");
+    }
+
+    const balance = getDuesBalance(duesPayment);
+
+    const plan = await db.duesPaymentPlan.create({
+      data: {
+        totalAmount: balance.remaining,
+        baseAmountPaid: balance.paid,
+        installmentCount: data.installmentCount,
+        frequency: data.frequency,
+        firstPaymentDate: data.firstPaymentDate,
+        requestNote: data.requestNote,
+        duesPaymentId: duesPayment.id,
+        requestedById: data.userId,
+      },
+    });
+
+    await auditFinanceChange(data.userId, {
+      chapterId: data.chapterId,
+      action: "payment_plan.requested",
+      targetType: "payment_plan",
+      targetId: plan.id,
+      after: plan,
+    });
+
+    return plan;
+  },
+
+  reviewPaymentPlan: async (
+    planId: string,
+    chapterId: string,
+    data: {
+      status: "APPROVED" | "DENIED";
+      reviewNote?: string | null;
+      reviewedById: string;
+    }
+  ) => {
+    const plan = await db.duesPaymentPlan.findFirst({
+      where: {
+        id: planId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      include: {
+        duesPayment: {
+          include: {
+            lateFees: {
+              where: { waivedAt: null },
+            },
+          },
+        },
+      },
+    });
+
+    if (!plan) {
+      throw new Error("Payment plan not found");
+    }
+
+    if (plan.status !== DuesPaymentPlanStatus.PENDING) {
+      throw new Error("Only pending payment plans can be reviewed");
+    }
+
+    // Payments may have been made since the request, so the plan covers the balance as of approval
+    const balance = getDuesBalance(plan.duesPayment);
+
+    const reviewed = await db.duesPaymentPlan.update({
+      where: { id: planId },
+      data: {
+        status: data.status,
+        reviewNote: data.reviewNote,
+        reviewedById: data.reviewedById,
+        reviewedAt: new Date(),
+        ...(data.status === DuesPaymentPlanStatus.APPROVED
+          ? { totalAmount: balance.remaining, baseAmountPaid: balance.paid }
+          : {}),
+      },
+    });
+
+    await auditFinanceChange(data.reviewedById, {
+      chapterId,
+      action: "payment_plan.reviewed",
+      targetType: "payment_plan",
+      targetId: planId,
+      before: plan,
+      after: reviewed,
+    });
+
+    return reviewed;
+  },
+
+  // Members can withdraw a plan request until it has been reviewed
+  cancelPaymentPlan: async (planId: string, chapterId: string, userId: string) => {
+    const plan = await db.duesPaymentPlan.findFirst({
+      where: {
+        id: planId,
+        requestedById: userId,
+        status: DuesPaymentPlanStatus.PENDING,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+    });
+
+    if (!plan) {
+      throw new Error("Payment plan not found");
+    }
+
+    const canceled = await db.duesPaymentPlan.update({
+      where: { id: planId },
+      data: { status: DuesPaymentPlanStatus.CANCELED },
+    });
+
+    await auditFinanceChange(userId, {
+      chapterId,
+      action: "payment_plan.canceled",
+      targetType: "payment_plan",
+      targetId: planId,
+      before: plan,
+      after: canceled,
+    });
+
+    return canceled;
+  },
+
+  /**
+   * Dues Categories
+   */
+  getDuesCategories: async (chapterId: string) => {
+    return db.duesCategory.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+      },
+      orderBy: { name: "asc" },
+      include: {
+        _count: { select: { memberships: true } },
+      },
+    });
+  },
+
+  createDuesCategory: async (data: {
+    name: string;
+    description?: string | null;
+    defaultAmount: number;
+    currency?: string;
+    chapterId: string;
+  }, actorId?: string) => {
+    const existing = await db.duesCategory.findUnique({
+      where: { chapterId_name: { chapterId: data.chapterId, name: data.name } },
+    });
+
+    if (existing) {
+      throw new Error("A dues category with this name already exists");
+    }
+
+    const category = await db.duesCategory.create({ data });
+
+    await auditFinanceChange(actorId, {
+      chapterId: data.chapterId,
+      action: "dues_category.created",
+      targetType: "dues_category",
+      targetId: category.id,
+      after: category,
+    });
+
+    return category;
+  },
+
+  updateDuesCategory: async (
+    categoryId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      defaultAmount?: number;
+      currency?: string;
+    },
+    actorId?: string
+  ) => {
+    const category = await db.duesCategory.findFirst({
+      where: {
+        id: categoryId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!category) {
+      throw new Error("Dues category not found");
+    }
+
+    if (data.name && data.name !== category.name) {
+      const existing = await db.duesCategory.findUnique({
+        where: { chapterId_name: { chapterId, name: data.name } },
+      });
+
+      if (existing) {
+        throw new Error("A dues category with this name already exists");
+      }
+    }
+
+    // Dues already created keep their amounts; the new default applies from now on
+    const updated = await db.duesCategory.update({
+      where: { id: category.id },
+      data,
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues_category.updated",
+      targetType: "dues_category",
+      targetId: category.id,
+      before: category,
+      after: updated,
+    });
+
+    return updated;
+  },
+
+  // Members in the category are left without one
+  deleteDuesCategory: async (categoryId: string, chapterId: string, actorId?: string) => {
+    const category = await db.duesCategory.findFirst({
+      where: {
+        id: categoryId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!category) {
+      throw new Error("Dues category not found");
+    }
+
+    await db.duesCategory.delete({
+      where: { id: category.id },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues_category.deleted",
+      targetType: "dues_category",
+      targetId: category.id,
+      before: category,
+    });
+
+    return category;
+  },
+
+  // Move members into a category, or out of theirs with a null category
+  assignDuesCategory: async (
+    chapterId: string,
+    memberIds: string[],
+    duesCategoryId: string | null,
+    actorId?: string
+  ) => {
+    if (duesCategoryId) {
+      const category = await db.duesCategory.findFirst({
+        where: {
+          id: duesCategoryId,
+          chapterId, // Ensure tenant isolation
+        },
+      });
+
+      if (!category) {
+        throw new Error("Dues category not found");
+      }
+    }
+
+    const { count } = await db.membership.updateMany({
+      where: {
+        userId: { in: memberIds },
+        chapterId, // Ensure tenant isolation
+      },
+      data: { duesCategoryId },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues_category.assigned",
+      targetType: "dues_category",
+      targetId: duesCategoryId ?? undefined,
+      metadata: { memberIds, duesCategoryId, updated: count },
+    });
+
+    return { updated: count };
+  },
+
+  /**
+   * Dues Adjustments
+   */
+  getDuesAdjustments: async (chapterId: string, status?: DuesAdjustmentStatus) => {
+    return db.duesAdjustment.findMany({
+      where: {
+        status,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      include: {
+        duesPayment: {
+          select: {
+            id: true,
+            amount: true,
+            amountPaid: true,
+            currency: true,
+            dueDate: true,
+            paidAt: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+        requestedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        reviewedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  },
+
+  // Request a waiver, scholarship or discount; it lowers the balance once an admin approves it
+  requestDuesAdjustment: async (data: {
+    duesPaymentId: string;
+    chapterId: string;
+    type: DuesAdjustmentType;
+    amount: number;
+    reason: string;
+    requestedById: string;
+  }) => {
+    const duesPayment = await db.duesPayment.findFirst({
+      where: {
+        id: data.duesPaymentId,
+        chapterId: data.chapterId, // Ensure tenant isolation
+      },
+      include: {
+        lateFees: {
+          where: { waivedAt: null },
+          include: {
+            transactions: {
+              select: { amount: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!duesPayment) {
+      throw new Error("Dues payment not found");
+    }
+
+    if (duesPayment.paidAt) {
+      throw new Error("Dues payment has already been paid");
+    }
+
+    const unpaid = getUnpaidDues({
+      amount: duesPayment.amount,
+      amountPaid: duesPayment.amountPaid,
+      lateFees: duesPayment.lateFees.map((fee) => ({
+        amountPaid: fee.transactions.reduce((sum, transaction) => sum + transaction.amount, 0),
+      })),
+    });
+
+    // Late fees are waived on their own; adjustments only cover the dues
+    if (data.amount > unpaid) {
+      throw new Error(`Adjustment exceeds the ${formatCurrency(unpaid, duesPayment.currency)} of dues still owed`);
+    }
+
+    const adjustment = await db.duesAdjustment.create({
+      data: {
+        type: data.type,
+        amount: data.amount,
+        reason: data.reason,
+        duesPaymentId: duesPayment.id,
+        requestedById: data.requestedById,
+      },
+    });
+
+    await auditFinanceChange(data.requestedById, {
+      chapterId: data.chapterId,
+      action: "dues_adjustment.requested",
+      targetType: "dues_adjustment",
+      targetId: adjustment.id,
+      after: adjustment,
+    });
+
+    return adjustment;
+  },
+
+  reviewDuesAdjustment: async (
+    adjustmentId: string,
+    chapterId: string,
+    data: {
+      status: "APPROVED" | "DENIED";
+      reviewNote?: string | null;
+      reviewedById: string;
+    }
+  ) => {
+    const { before, after, duesAmount } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const adjustment = await tx.duesAdjustment.findFirst({
+        where: {
+          id: adjustmentId,
+          duesPayment: {
+            chapterId, // Ensure tenant isolation
+          },
+        },
+        include: {
+          duesPayment: {
+            include: {
+              lateFees: {
+                where: { waivedAt: null },
+                include: {
+                  transactions: {
+                    select: { amount: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!adjustment) {
+        throw new Error("Dues adjustment not found");
+      }
+
+      if (adjustment.status !== DuesAdjustmentStatus.PENDING) {
+        throw new Error("Only pending adjustments can be reviewed");
+      }
+
+      const { duesPayment } = adjustment;
+      let duesAmount = duesPayment.amount;
+
+      if (duesPayment.userId === data.reviewedById) {
+        throw new Error("You cannot review an adjustment to your own dues");
+      }
+
+      if (data.status === DuesAdjustmentStatus.APPROVED) {
+        const lateFees = duesPayment.lateFees.map((fee) => ({
+          amount: fee.amount,
+          amountPaid: fee.transactions.reduce((sum, transaction) => sum + transaction.amount, 0),
+        }));
+
+        // Payments may have come in since the request
+        const unpaid = getUnpaidDues({ amount: duesPayment.amount, amountPaid: duesPayment.amountPaid, lateFees });
+
+        if (duesPayment.paidAt || adjustment.amount > unpaid) {
+          throw new Error(`Adjustment exceeds the ${formatCurrency(unpaid, duesPayment.currency)} of dues still owed`);
+        }
+
+        const amount = duesPayment.amount - adjustment.amount;
+        duesAmount = amount;
+        const isSettled = getDuesBalance({ amount, amountPaid: duesPayment.amountPaid, lateFees }).remaining === 0;
+
+        if (isSettled) {
+          await tx.duesPaymentPlan.updateMany({
+            where: {
+              duesPaymentId: duesPayment.id,
+              status: DuesPaymentPlanStatus.APPROVED,
+            },
+            data: { status: DuesPaymentPlanStatus.COMPLETED },
+          });
+        }
+
+        // Nothing is posted to the books; dues are only recorded as income when paid
+        await tx.duesPayment.update({
+          where: { id: duesPayment.id },
+          data: {
+            amount,
+            paidAt: isSettled ? new Date() : undefined,
+          },
+        });
+      }
+
+      const reviewed = await tx.duesAdjustment.update({
+        where: { id: adjustment.id },
+        data: {
+          status: data.status,
+          reviewNote: data.reviewNote,
+          reviewedById: data.reviewedById,
+          reviewedAt: new Date(),
+        },
+      });
+
+      return {
+        before: adjustment,
+        after: reviewed,
+        duesAmount: { before: duesPayment.amount, after: duesAmount },
+      };
+    });
+
+    await auditFinanceChange(data.reviewedById, {
+      chapterId,
+      action: "dues_adjustment.reviewed",
+      targetType: "dues_adjustment",
+      targetId: adjustmentId,
+      before,
+      after,
+      metadata: { duesPaymentId: after.duesPaymentId, duesAmount },
+    });
+
+    return after;
+  },
+
+  /**
+   * Dues Schedules
+   */
+  getDuesSchedules: async (chapterId: string) => {
+    return db.duesSchedule.findMany({
+      where: { chapterId },
+      orderBy: { firstDueDate: "desc" },
+      include: {
+        _count: {
+          select: { duesPayments: true },
+        },
+      },
+    });
+  },
+
+  getDuesSchedule: async (scheduleId: string, chapterId: string) => {
+    return db.duesSchedule.findFirst({
+      where: {
+        id: scheduleId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        duesPayments: {
+          orderBy: [{ dueDate: "asc" }, { installmentNumber: "asc" }],
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                image: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  },
+
+  // Create a schedule and generate its installments for all active members
+  createDuesSchedule: async (data: {
+    name: string;
+    description?: string | null;
+    totalAmount: number;
+    currency?: string;
+    installmentCount: number;
+    frequency: DuesScheduleFrequency;
+    firstDueDate: Date;
+    isActive?: boolean;
+    includeNewMembers?: boolean;
+    chapterId: string;
+    createdById?: string | null;
+  }) => {
+    const schedule = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const schedule = await tx.duesSchedule.create({ data });
+
+      const members = await tx.membership.findMany({
+        where: {
+          chapterId: data.chapterId,
+          role: { in: ACTIVE_MEMBER_ROLES },
+        },
+        select: { userId: true },
+      });
+
+      await syncScheduleInstallments(
+        tx,
+        schedule,
+        members.map((member) => member.userId)
+      );
+
+      return schedule;
+    });
+
+    await auditFinanceChange(data.createdById, {
+      chapterId: data.chapterId,
+      action: "dues_schedule.created",
+      targetType: "dues_schedule",
+      targetId: schedule.id,
+      after: schedule,
+    });
+
+    return schedule;
+  },
+
+  // Update a schedule and re-sync the unpaid installments it generated
+  updateDuesSchedule: async (
+    scheduleId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      totalAmount?: number;
+      currency?: string;
+      installmentCount?: number;
+      frequency?: DuesScheduleFrequency;
+      firstDueDate?: Date;
+      isActive?: boolean;
+      includeNewMembers?: boolean;
+    },
+    actorId?: string
+  ) => {
+    const { before, after } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const before = await tx.duesSchedule.findFirst({
+        where: {
+          id: scheduleId,
+          chapterId, // Ensure tenant isolation
+        },
+      });
+
+      const schedule = await tx.duesSchedule.update({
+        where: {
+          id: scheduleId,
+          chapterId, // Ensure tenant isolation
+        },
+        data,
+      });
+
+      // Inactive schedules keep the installments they already generated
+      if (schedule.isActive) {
+        // Only members already on the schedule are re-synced; new members are
+        // added through applyDuesSchedulesToMember when they are approved.
+        // Installments already past due are not back-billed to late joiners.
+        const participants = await tx.duesPayment.findMany({
+          where: { scheduleId },
+          distinct: ["userId"],
+          select: { userId: true },
+        });
+
+        await syncScheduleInstallments(
+          tx,
+          schedule,
+          participants.map((participant) => participant.userId),
+          { skipPastDue: true }
+        );
+      }
+
+      return { before, after: schedule };
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues_schedule.updated",
+      targetType: "dues_schedule",
+      targetId: scheduleId,
+      before,
+      after,
+    });
+
+    return after;
+  },
+
+  // Delete a schedule along with its unpaid installments; paid or partially paid ones and those in locked or closed periods are kept
+  deleteDuesSchedule: async (scheduleId: string, chapterId: string, actorId?: string) => {
+    const { schedule, deletedInstallments } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.duesPayment.deleteMany({
+        where: {
+          scheduleId,
+          chapterId, // Ensure tenant isolation
+          paidAt: null,
+          amountPaid: 0,
+          ...outsideFrozenPeriods(await getFrozenPeriods(tx, chapterId)),
+        },
+      });
+
+      const schedule = await tx.duesSchedule.delete({
+        where: {
+          id: scheduleId,
+          chapterId, // Ensure tenant isolation
+        },
+      });
+
+      return { schedule, deletedInstallments: count };
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues_schedule.deleted",
+      targetType: "dues_schedule",
+      targetId: scheduleId,
+      before: schedule,
+      metadata: { deletedInstallments },
+    });
+
+    return schedule;
+  },
+
+  // Generate upcoming installments of active schedules for a newly approved member
+  applyDuesSchedulesToMember: async (userId: string, chapterId: string) => {
+    const schedules = await db.duesSchedule.findMany({
+      where: {
+        chapterId,
+        isActive: true,
+        includeNewMembers: true,
+      },
+    });
+
+    for (const schedule of schedules) {
+      await db.$transaction(async (tx: Prisma.TransactionClient) => {
+        await syncScheduleInstallments(tx, schedule, [userId], { skipPastDue: true });
+      });
+    }
+
+    return schedules.length;
+  },
+
+  /**
+   * Late Fees
+   */
+  getLateFeeRules: async (chapterId: string) => {
+    return db.lateFeeRule.findMany({
+      where: { chapterId },
+      orderBy: { graceDays: "asc" },
+    });
+  },
+
+  createLateFeeRule: async (data: {
+    name: string;
+    graceDays: number;
+    feeType: LateFeeType;
+    amount: number;
+    recurrence: LateFeeRecurrence;
+    recurrenceDays?: number | null;
+    maxApplications?: number | null;
+    isActive?: boolean;
+    chapterId: string;
+  }, actorId?: string) => {
+    const rule = await db.lateFeeRule.create({
+      data,
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId: data.chapterId,
+      action: "late_fee_rule.created",
+      targetType: "late_fee_rule",
+      targetId: rule.id,
+      after: rule,
+    });
+
+    return rule;
+  },
+
+  updateLateFeeRule: async (
+    ruleId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      graceDays?: number;
+      feeType?: LateFeeType;
+      amount?: number;
+      recurrence?: LateFeeRecurrence;
+      recurrenceDays?: number | null;
+      maxApplications?: number | null;
+      isActive?: boolean;
+    },
+    actorId?: string
+  ) => {
+    const before = await db.lateFeeRule.findFirst({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    const rule = await db.lateFeeRule.update({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+      data,
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "late_fee_rule.updated",
+      targetType: "late_fee_rule",
+      targetId: ruleId,
+      before,
+      after: rule,
+    });
+
+    return rule;
+  },
+
+  // Fees already assessed under a deleted rule are kept on the dues payment
+  deleteLateFeeRule: async (ruleId: string, chapterId: string, actorId?: string) => {
+    const rule = await db.lateFeeRule.delete({
+      where: {
+        id: ruleId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "late_fee_rule.deleted",
+      targetType: "late_fee_rule",
+      targetId: ruleId,
+      before: rule,
+    });
+
+    return rule;
+  },
+
+  // Assess any late fees that have come due on the chapter's unpaid dues
+  applyLateFees: async (chapterId: string, asOf: Date = new Date(), actorId?: string) => {
+    const rules = await db.lateFeeRule.findMany({
+      where: {
+        chapterId,
+        isActive: true,
+      },
+    });
+
+    // Fees are dated when assessed, so none are added while that date is frozen
+    const isFrozen = findPeriodForDate(await getFrozenPeriods(db, chapterId), asOf) !== undefined;
+
+    if (rules.length === 0 || isFrozen) {
+      return { assessedCount: 0 };
+    }
+
+    const overdueDues = await db.duesPayment.findMany({
       where: {
-        id: duesPaymentId,
-        chapterId, // Ensure tenant isolation
+        chapterId,
+        paidAt: null,
+        dueDate: { lt: asOf },
+        // Dues on an approved payment plan follow the plan's dates instead
+        paymentPlans: {
+          none: { status: DuesPaymentPlanStatus.APPROVED },
+        },
       },
       include: {
-        user: {
+        lateFees: {
           select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+            ruleId: true,
+            sequence: true,
           },
         },
       },
     });
+
+    let assessedCount = 0;
+
+    for (const duesPayment of overdueDues) {
+      for (const rule of rules) {
+        const assessments = getLateFeeAssessments(rule, duesPayment, asOf);
+
+        for (const assessment of assessments) {
+          // Skip fees that were already assessed (including waived ones)
+          const alreadyAssessed = duesPayment.lateFees.some(
+            (fee) => fee.ruleId === rule.id && fee.sequence === assessment.sequence
+          );
+
+          if (alreadyAssessed) {
+            continue;
+          }
+
+          const lateFee = await db.duesLateFee.create({
+            data: {
+              amount: assessment.amount,
+              sequence: assessment.sequence,
+              assessedAt: asOf,
+              duesPaymentId: duesPayment.id,
+              ruleId: rule.id,
+            },
+          });
+          assessedCount++;
+
+          await auditFinanceChange(actorId, {
+            chapterId,
+            action: "dues.late_fee_assessed",
+            targetType: "late_fee",
+            targetId: lateFee.id,
+            after: lateFee,
+          });
+        }
+      }
+    }
+
+    return { assessedCount };
   },
 
-  createDuesPayment: async (data: {
-    amount: number;
-    dueDate: Date;
-    chapterId: string;
-    userId: string;
-  }) => {
-    return db.duesPayment.create({
-      data,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
+  // Run late fee assessment for every chapter with an active rule
+  applyLateFeesForAllChapters: async (asOf: Date = new Date()) => {
+    const chapters = await db.chapter.findMany({
+      where: {
+        lateFeeRules: {
+          some: { isActive: true },
         },
       },
+      select: { id: true },
     });
-  },
 
-  // Create dues payments in bulk for multiple members
-  createBulkDuesPayments: async (data: {
-    amount: number;
-    dueDate: Date;
-    chapterId: string;
-    memberIds: string[];
-  }) => {
-    const { amount, dueDate, chapterId, memberIds } = data;
-    
-    const duesPayments = await db.$transaction(
-      memberIds.map((userId) => 
-        db.duesPayment.create({
-          data: {
-            amount,
-            dueDate,
-            chapterId,
-            userId,
-          },
-        })
-      )
-    );
+    let assessedCount = 0;
 
-    return duesPayments;
+    for (const chapter of chapters) {
+      const result = await financeService.applyLateFees(chapter.id, asOf);
+      assessedCount += result.assessedCount;
+    }
+
+    return { chapterCount: chapters.length, assessedCount };
   },
 
-  updateDuesPayment: async (
-    duesPaymentId: string,
-    chapterId: string,
-    data: {
-      amount?: number;
-      dueDate?: Date;
-      paidAt?: Date | null;
-      stripePaymentId?: string | null;
-      stripeInvoiceId?: string | null;
-    }
-  ) => {
-    const duesPayment = await db.duesPayment.update({
+  waiveLateFee: async (lateFeeId: string, chapterId: string, actorId?: string) => {
+    const collected = await db.transaction.count({
       where: {
-        id: duesPaymentId,
+        lateFeeId,
         chapterId, // Ensure tenant isolation
       },
-      data,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
+    });
+
+    if (collected > 0) {
+      throw new Error("Late fee has already been paid");
+    }
+
+    const before = await db.duesLateFee.findFirst({
+      where: {
+        id: lateFeeId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
         },
       },
     });
 
-    // Create a transaction record if the dues payment is completed
-    if (data.paidAt && duesPayment.paidAt) {
-      await db.transaction.create({
-        data: {
-          amount: duesPayment.amount, // Positive amount for incoming payment
-          type: TransactionType.DUES_PAYMENT,
-          description: `Dues payment from ${duesPayment.user.name ?? duesPayment.user.email}`,
-          chapterId,
-          duesPaymentId: duesPayment.id,
-          processedAt: data.paidAt,
-        },
-      });
+    if (!before) {
+      throw new Error("Late fee not found");
     }
 
-    return duesPayment;
-  },
+    await assertPeriodsOpen(db, chapterId, [before.assessedAt], "This late fee");
 
-  deleteDuesPayment: async (duesPaymentId: string, chapterId: string) => {
-    return db.duesPayment.delete({
+    const lateFee = await db.duesLateFee.update({
       where: {
-        id: duesPaymentId,
-        chapterId, // Ensure tenant isolation
+        id: lateFeeId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
       },
+      data: {
+        waivedAt: new Date(),
+      },
+    });
+
+    await auditFinanceChange(actorId, {
+      chapterId,
+      action: "dues.late_fee_waived",
+      targetType: "late_fee",
+      targetId: lateFeeId,
+      before,
+      after: lateFee,
+      metadata: { duesPaymentId: lateFee.duesPaymentId },
     });
+
+    return lateFee;
   },
 
   /**
    * Stripe Payment Processing
    */
-  createStripeCheckoutSession: async (duesPaymentId: string, chapterId: string) => {
+  // Members paying from the portal return to the portal; admins return to the dues dashboard
+  createStripeCheckoutSession: async (
+    duesPaymentId: string,
+    chapterId: string,
+    returnTo: "admin" | "portal" = "admin"
+  ) => {
     // Get the dues payment
     const duesPayment = await db.duesPayment.findFirst({
       where: {
@@ -378,6 +2747,12 @@ export const financeService = {
       include: {
         user: true,
         chapter: true,
+        lateFees: {
+          where: { waivedAt: null },
+        },
+        paymentPlans: {
+          where: { status: DuesPaymentPlanStatus.APPROVED },
+        },
       },
     });
 
@@ -385,36 +2760,86 @@ export const financeService = {
       throw new Error("Dues payment not found");
     }
 
-    // Make sure the chapter has a Stripe customer ID
-    if (!duesPayment.chapter.stripeCustomerId) {
-      throw new Error("Chapter is not set up for payments");
+    if (duesPayment.paidAt) {
+      throw new Error("Dues payment has already been paid");
     }
 
+    const lateFeeTotal = duesPayment.lateFees.reduce((sum, fee) => sum + fee.amount, 0);
+    const balance = getDuesBalance(duesPayment);
+
+    // On a payment plan only the next installment is charged
+    const [plan] = duesPayment.paymentPlans;
+    const nextInstallment = plan
+      ? getNextPlanInstallment(getPaymentPlanInstallments(plan, duesPayment.amountPaid))
+      : undefined;
+    const chargeAmount = nextInstallment
+      ? Math.min(nextInstallment.amount - nextInstallment.amountPaid, balance.remaining)
+      : balance.remaining;
+
+    const metadata = {
+      duesPaymentId: duesPayment.id,
+      chapterId: duesPayment.chapterId,
+      userId: duesPayment.userId,
+    };
+
     // Create a Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ["card"],
       customer_email: duesPayment.user.email ?? undefined,
-      metadata: {
-        duesPaymentId: duesPayment.id,
-        chapterId: duesPayment.chapterId,
-        userId: duesPayment.userId,
+      metadata,
+      payment_intent_data: {
+        metadata,
+        // Paid out to the chapter's own Stripe account once it is set up
+        ...getChapterTransferOptions(duesPayment.chapter, chargeAmount),
       },
-      line_items: [
+      line_items: chargeAmount < balance.total ? [
+        {
+          price_data: {
+            currency: duesPayment.currency.toLowerCase(),
+            product_data: {
+              name: nextInstallment
+                ? `${duesPayment.chapter.name} - Payment Plan Installment ${nextInstallment.installmentNumber}`
+                : `${duesPayment.chapter.name} - Remaining Dues Balance`,
+              description: `Due date: ${(nextInstallment?.dueDate ?? duesPayment.dueDate).toLocaleDateString()}`,
+            },
+            unit_amount: chargeAmount, // Already in minor units
+          },
+          quantity: 1,
+        },
+      ] : [
         {
           price_data: {
-            currency: "usd",
+            currency: duesPayment.currency.toLowerCase(),
             product_data: {
               name: `${duesPayment.chapter.name} - Member Dues`,
               description: `Due date: ${duesPayment.dueDate.toLocaleDateString()}`,
             },
-            unit_amount: Math.round(duesPayment.amount * 100), // Convert to cents
+            unit_amount: duesPayment.amount,
           },
           quantity: 1,
         },
+        ...(lateFeeTotal > 0
+          ? [
+              {
+                price_data: {
+                  currency: duesPayment.currency.toLowerCase(),
+                  product_data: {
+                    name: `${duesPayment.chapter.name} - Late Fees`,
+                  },
+                  unit_amount: lateFeeTotal,
+                },
+                quantity: 1,
+              },
+            ]
+          : []),
       ],
       mode: "payment",
-      success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/admin/finance/dues/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/admin/finance/dues`,
+      success_url: returnTo === "portal"
+        ? `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/portal/dues/success?session_id={CHECKOUT_SESSION_ID}`
+        : `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/admin/finance/dues/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: returnTo === "portal"
+        ? `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/portal/dues`
+        : `${process.env.NEXT_PUBLIC_BASE_URL}/${duesPayment.chapter.slug}/admin/finance/dues`,
     });
 
     return { sessionId: session.id, url: session.url };
@@ -439,11 +2864,329 @@ export const financeService = {
       throw new Error("Payment intent not found");
     }
 
-    // Update dues payment
-    return financeService.updateDuesPayment(duesPaymentId, chapterId, {
+    // Webhooks can be delivered more than once; each Stripe payment is recorded only once
+    const existingRecord = await db.duesPaymentRecord.findUnique({
+      where: { stripePaymentId: paymentIntentId },
+    });
+
+    if (existingRecord) {
+      return financeService.getDuesPayment(duesPaymentId, chapterId);
+    }
+
+    // Record the amount actually charged, which may be a partial payment.
+    // Stripe reports amounts in minor units, the same as our records. Stripe
+    // has already taken the money, so it is recorded even if the dues were
+    // paid another way in the meantime; retrying the webhook can't change that.
+    return financeService.recordDuesPayment(duesPaymentId, chapterId, {
+      amount: session.amount_total ?? undefined,
       paidAt: new Date(),
+      note: "Paid online",
+      collected: true,
       stripePaymentId: paymentIntentId,
+      platformFee: typeof session.payment_intent === "string"
+        ? undefined
+        : session.payment_intent?.application_fee_amount,
+    });
+  },
+
+  /**
+   * Refunds
+   */
+  // Refund all or part of a payment made through Stripe. Without an amount
+  // whatever is left of the payment is refunded.
+  refundDuesPayment: async (
+    duesPaymentId: string,
+    chapterId: string,
+    data: {
+      paymentRecordId: string;
+      amount?: number;
+      reason?: string | null;
+      refundedById?: string;
+    }
+  ) => {
+    const record = await db.duesPaymentRecord.findFirst({
+      where: {
+        id: data.paymentRecordId,
+        duesPaymentId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      include: {
+        duesPayment: {
+          select: { currency: true },
+        },
+        refunds: {
+          select: { amount: true },
+        },
+      },
+    });
+
+    if (!record) {
+      throw new Error("Payment not found");
+    }
+
+    if (!record.stripePaymentId) {
+      throw new Error("Only payments made through Stripe can be refunded");
+    }
+
+    const refundable = record.amount - record.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    const amount = data.amount ?? refundable;
+
+    if (amount <= 0 || refundable <= 0) {
+      throw new Error("Payment has already been fully refunded");
+    }
+
+    if (amount > refundable) {
+      throw new Error(`Refund exceeds the ${formatCurrency(refundable, record.duesPayment.currency)} left on this payment`);
+    }
+
+    // Check before any money moves so the refund can always be recorded
+    await assertPeriodsOpen(db, chapterId, [new Date()], "This refund");
+
+    // Payments made through Stripe Connect are refunded out of the chapter's
+    // account; the platform fee is kept, matching the fee expense on our books
+    const paymentIntent = await stripe.paymentIntents.retrieve(record.stripePaymentId);
+
+    const refund = await stripe.refunds.create({
+      payment_intent: record.stripePaymentId,
+      amount, // Stripe takes minor units, the same as our records
+      ...(paymentIntent.transfer_data && { reverse_transfer: true }),
+      metadata: {
+        duesPaymentId,
+        chapterId,
+        paymentRecordId: record.id,
+        ...(data.reason && { reason: data.reason }),
+      },
+    });
+
+    if (refund.status === "failed" || refund.status === "canceled") {
+      throw new Error("Stripe could not process the refund");
+    }
+
+    return financeService.recordDuesRefund(record.id, chapterId, {
+      amount,
+      reason: data.reason,
+      stripeRefundId: refund.id,
+      refundedById: data.refundedById,
+    });
+  },
+
+  // Record money returned from a dues payment: REFUND transactions for the
+  // dues and late fee portions, and a lower amount paid on the dues
+  recordDuesRefund: async (
+    paymentRecordId: string,
+    chapterId: string,
+    data: {
+      amount: number;
+      reason?: string | null;
+      stripeRefundId?: string;
+      refundedById?: string;
+      refundedAt?: Date;
+    }
+  ) => {
+    const refundedAt = data.refundedAt ?? new Date();
+
+    const { refund, dues } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Refunds made here are reported again by the webhook; each is recorded once
+      if (data.stripeRefundId) {
+        const existing = await tx.duesRefund.findUnique({
+          where: { stripeRefundId: data.stripeRefundId },
+        });
+
+        if (existing) {
+          return { refund: existing, dues: null };
+        }
+      }
+
+      await assertPeriodsOpen(tx, chapterId, [refundedAt], "This refund");
+
+      const record = await tx.duesPaymentRecord.findFirst({
+        where: {
+          id: paymentRecordId,
+          duesPayment: {
+            chapterId, // Ensure tenant isolation
+          },
+        },
+        include: {
+          duesPayment: {
+            include: {
+              user: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+              lateFees: {
+                where: { waivedAt: null },
+                select: { amount: true },
+              },
+            },
+          },
+          // Payment portions and earlier refunds of them, not the platform fee
+          transactions: {
+            where: { type: { not: TransactionType.EXPENSE } },
+            select: { amount: true, lateFeeId: true },
+            orderBy: { createdAt: "asc" },
+          },
+          refunds: {
+            select: { amount: true },
+          },
+        },
+      });
+
+      if (!record) {
+        throw new Error("Payment not found");
+      }
+
+      const { duesPayment } = record;
+      const refundable = record.amount - record.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+
+      if (data.amount <= 0) {
+        throw new Error("Refund amount must be positive");
+      }
+
+      if (data.amount > refundable) {
+        throw new Error(`Refund exceeds the ${formatCurrency(refundable, duesPayment.currency)} left on this payment`);
+      }
+
+      const lateFeePortions = new Map<string, number>();
+      for (const transaction of record.transactions) {
+        if (transaction.lateFeeId) {
+          lateFeePortions.set(transaction.lateFeeId, (lateFeePortions.get(transaction.lateFeeId) ?? 0) + transaction.amount);
+        }
+      }
+
+      const allocation = allocateDuesRefund(
+        {
+          dues: record.transactions
+            .filter((transaction) => !transaction.lateFeeId)
+            .reduce((sum, transaction) => sum + transaction.amount, 0),
+          lateFees: [...lateFeePortions.entries()].map(([lateFeeId, amount]) => ({ lateFeeId, amount })),
+        },
+        data.amount
+      );
+
+      const refund = await tx.duesRefund.create({
+        data: {
+          amount: data.amount,
+          reason: data.reason,
+          stripeRefundId: data.stripeRefundId,
+          refundedAt,
+          paymentRecordId,
+          refundedById: data.refundedById,
+        },
+      });
+
+      const payeeName = duesPayment.user.name ?? duesPayment.user.email;
+
+      // Refunds are negative, linked to the payment they return money from
+      if (allocation.fromDues > 0) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: -allocation.fromDues,
+            currency: duesPayment.currency,
+            type: TransactionType.REFUND,
+            description: `Dues refund to ${payeeName}`,
+            chapterId,
+            duesPaymentRecordId: paymentRecordId,
+            duesRefundId: refund.id,
+            processedAt: refundedAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      for (const lateFee of allocation.fromLateFees) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount: -lateFee.amount,
+            currency: duesPayment.currency,
+            type: TransactionType.REFUND,
+            description: `Late fee refund to ${payeeName}`,
+            chapterId,
+            lateFeeId: lateFee.lateFeeId,
+            duesPaymentRecordId: paymentRecordId,
+            duesRefundId: refund.id,
+            processedAt: refundedAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      // Refunded money is owed again unless the dues are changed or deleted
+      const amountPaid = duesPayment.amountPaid - data.amount;
+      const isSettled = amountPaid >= getDuesBalance(duesPayment).total;
+
+      const updated = await tx.duesPayment.update({
+        where: { id: duesPayment.id },
+        data: {
+          amountPaid,
+          paidAt: isSettled ? duesPayment.paidAt : null,
+        },
+      });
+
+      return { refund, dues: { before: duesPayment, after: updated } };
+    });
+
+    if (dues) {
+      await auditFinanceChange(data.refundedById, {
+        chapterId,
+        action: "dues.refunded",
+        targetType: "dues_payment",
+        targetId: dues.after.id,
+        before: dues.before,
+        after: dues.after,
+        metadata: {
+          refundId: refund.id,
+          paymentRecordId,
+          amount: refund.amount,
+          reason: refund.reason,
+        },
+      });
+    }
+
+    return refund;
+  },
+
+  // Record the refunds Stripe reports for a charge, including ones issued
+  // from the Stripe dashboard
+  processStripeRefunds: async (chargeId: string, paymentIntentId: string) => {
+    const record = await db.duesPaymentRecord.findUnique({
+      where: { stripePaymentId: paymentIntentId },
+      include: {
+        duesPayment: {
+          select: { chapterId: true },
+        },
+      },
     });
+
+    // Not a dues payment
+    if (!record) {
+      return [];
+    }
+
+    const refunds = await stripe.refunds.list({ charge: chargeId, limit: 100 });
+    const recorded = [];
+
+    for (const refund of refunds.data) {
+      if (refund.status === "failed" || refund.status === "canceled") {
+        continue;
+      }
+
+      recorded.push(
+        await financeService.recordDuesRefund(record.id, record.duesPayment.chapterId, {
+          amount: refund.amount,
+          reason: refund.metadata?.reason ?? null,
+          stripeRefundId: refund.id,
+          refundedAt: new Date(refund.created * 1000),
+        })
+      );
+    }
+
+    return recorded;
   },
 
   /**
@@ -455,16 +3198,22 @@ export const financeService = {
       startDate?: Date;
       endDate?: Date;
       type?: TransactionType;
+      reconciled?: boolean;
     }
   ) => {
-    const { startDate, endDate, type } = filters || {};
+    const { startDate, endDate, type, reconciled } = filters || {};
     
     return db.transaction.findMany({
       where: {
         chapterId,
-        ...(startDate && { createdAt: { gte: startDate } }),
-        ...(endDate && { createdAt: { lte: endDate } }),
+        ...((startDate || endDate) && {
+          createdAt: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
         ...(type && { type }),
+        ...(reconciled !== undefined && { reconciledAt: reconciled ? { not: null } : null }),
       },
       orderBy: { createdAt: "desc" },
       include: {
@@ -487,6 +3236,7 @@ export const financeService = {
 
   createTransaction: async (data: {
     amount: number;
+    currency?: string;
     type: TransactionType;
     description?: string | null;
     metadata?: Prisma.InputJsonValue | null;
@@ -494,7 +3244,7 @@ export const financeService = {
     expenseId?: string | null;
     duesPaymentId?: string | null;
     processedAt?: Date | null;
-  }) => {
+  }, actorId?: string) => {
     // Handle JSON null values correctly for Prisma
     const processedData = {
       ...data,
@@ -502,20 +3252,41 @@ export const financeService = {
       metadata: data.metadata === null ? Prisma.JsonNull : data.metadata
     };
     
-    return db.transaction.create({
-      data: processedData,
+    // Every transaction posts balanced debits and credits to the ledger
+    const transaction = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      await assertPeriodsOpen(tx, data.chapterId, [data.processedAt ?? new Date()], "This transaction");
+
+      const transaction = await tx.transaction.create({
+        data: processedData,
+      });
+
+      await postTransactionToLedger(tx, transaction);
+
+      return transaction;
     });
+
+    await auditFinanceChange(actorId, {
+      chapterId: data.chapterId,
+      action: "transaction.created",
+      targetType: "transaction",
+      targetId: transaction.id,
+      after: transaction,
+    });
+
+    return transaction;
   },
 
   /**
    * Finance Dashboard / Summary
    */
   getFinanceSummary: async (chapterId: string) => {
-    // Get total incoming dues
-    const totalDuesResult = await db.duesPayment.aggregate({
+    // Get everything collected so far: dues, late fees, donations and ticket sales, less refunds
+    const totalIncomeResult = await db.transaction.aggregate({
       where: {
         chapterId,
-        paidAt: { not: null },
+        type: {
+          in: [TransactionType.DUES_PAYMENT, TransactionType.LATE_FEE, TransactionType.INCOME, TransactionType.REFUND],
+        },
       },
       _sum: { amount: true },
     });
@@ -529,16 +3300,37 @@ export const financeService = {
       _sum: { amount: true },
     });
 
-    // Get unpaid dues
-    const unpaidDuesResult = await db.duesPayment.aggregate({
+    // Get unpaid dues with what has been paid towards them so far
+    const unpaidDues = await db.duesPayment.findMany({
       where: {
         chapterId,
         paidAt: null,
       },
-      _sum: { amount: true },
-      _count: true,
+      select: {
+        amount: true,
+        amountPaid: true,
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+      },
     });
 
+    // Payments go to the dues amount first, then to late fees
+    const outstanding = unpaidDues.reduce(
+      (totals, duesPayment) => {
+        const balance = getDuesBalance(duesPayment);
+        const duesRemaining = Math.max(duesPayment.amount - duesPayment.amountPaid, 0);
+
+        return {
+          amount: totals.amount + duesRemaining,
+          lateFees: totals.lateFees + Math.max(balance.remaining - duesRemaining, 0),
+          partiallyPaidCount: totals.partiallyPaidCount + (duesPayment.amountPaid > 0 ? 1 : 0),
+        };
+      },
+      { amount: 0, lateFees: 0, partiallyPaidCount: 0 }
+    );
+
     // Get pending expenses
     const pendingExpensesResult = await db.expense.aggregate({
       where: {
@@ -557,7 +3349,7 @@ export const financeService = {
       },
     });
 
-    const totalIncome = totalDuesResult._sum.amount || 0;
+    const totalIncome = totalIncomeResult._sum.amount || 0;
     const totalExpenses = totalExpensesResult._sum.amount || 0;
 
     return {
@@ -565,8 +3357,10 @@ export const financeService = {
       totalExpenses,
       balance: totalIncome - totalExpenses,
       unpaidDues: {
-        amount: unpaidDuesResult._sum.amount || 0,
-        count: unpaidDuesResult._count,
+        amount: outstanding.amount,
+        count: unpaidDues.length,
+        lateFees: outstanding.lateFees,
+        partiallyPaidCount: outstanding.partiallyPaidCount,
       },
       pendingExpenses: {
         amount: pendingExpensesResult._sum.amount || 0,
@@ -0,0 +1,406 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { FiscalPeriodStatus, Prisma } from "@/generated/prisma";
+import { ensureChartOfAccounts } from "@/lib/services/ledger-service";
+import { getAccountBalance } from "@/lib/finance/ledger";
+import {
+  findPeriodForDate,
+  getCarryForwardBalances,
+  periodsOverlap,
+} from "@/lib/finance/fiscal-periods";
+import { endOfDay, startOfDay } from "date-fns";
+
+type PeriodInput = {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+};
+
+const periodInclude = {
+  closedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  balances: {
+    orderBy: { account: { code: "asc" } },
+    include: {
+      account: {
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          type: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.FiscalPeriodInclude;
+
+/**
+ * The chapter's locked and closed periods
+ */
+export async function getFrozenPeriods(client: Prisma.TransactionClient, chapterId: string) {
+  return client.fiscalPeriod.findMany({
+    where: {
+      chapterId,
+      status: { in: [FiscalPeriodStatus.LOCKED, FiscalPeriodStatus.CLOSED] },
+    },
+  });
+}
+
+/**
+ * Refuse a change to finance records dated in a locked or closed period.
+ * Pass every date the change touches, e.g. both the old and new due date.
+ */
+export async function assertPeriodsOpen(
+  client: Prisma.TransactionClient,
+  chapterId: string,
+  dates: (Date | null | undefined)[],
+  record: string
+) {
+  const frozen = await getFrozenPeriods(client, chapterId);
+
+  for (const date of dates) {
+    const period = date ? findPeriodForDate(frozen, date) : undefined;
+    if (period) {
+      throw new Error(
+        `${record} falls in ${period.name}, which is ${period.status === FiscalPeriodStatus.CLOSED ? "closed" : "locked"}`
+      );
+    }
+  }
+}
+
+// Ledger account balances from the journal entries matching the date filter
+async function getLedgerBalances(
+  tx: Prisma.TransactionClient,
+  chapterId: string,
+  date: Prisma.DateTimeFilter
+) {
+  const accounts = await ensureChartOfAccounts(tx, chapterId);
+
+  const totals = await tx.journalLine.groupBy({
+    by: ["accountId"],
+    where: {
+      account: {
+        chapterId, // Ensure tenant isolation
+      },
+      entry: { date },
+    },
+    _sum: { debit: true, credit: true },
+  });
+
+  return Array.from(accounts.values()).map((account) => {
+    const sums = totals.find((total) => total.accountId === account.id)?._sum;
+
+    return {
+      accountId: account.id,
+      code: account.code,
+      type: account.type,
+      balance: getAccountBalance(account.type, { debit: sums?.debit ?? 0, credit: sums?.credit ?? 0 }),
+    };
+  });
+}
+
+// Write opening balances onto a period, keeping any closing balances it has
+async function setOpeningBalances(
+  tx: Prisma.TransactionClient,
+  periodId: string,
+  balances: { accountId: string; openingBalance: number }[]
+) {
+  for (const balance of balances) {
+    await tx.fiscalPeriodBalance.upsert({
+      where: {
+        periodId_accountId: { periodId, accountId: balance.accountId },
+      },
+      create: { periodId, ...balance },
+      update: { openingBalance: balance.openingBalance },
+    });
+  }
+}
+
+// Periods may not share days, otherwise a record could belong to two of them
+async function assertNoOverlappingPeriod(chapterId: string, period: PeriodInput, periodId?: string) {
+  const others = await db.fiscalPeriod.findMany({
+    where: {
+      chapterId,
+      ...(periodId && { id: { not: periodId } }),
+    },
+  });
+
+  const overlapping = others.find((other) => periodsOverlap(period, other));
+
+  if (overlapping) {
+    throw new Error(`Dates overlap the "${overlapping.name}" fiscal period`);
+  }
+}
+
+async function findPeriod(client: Prisma.TransactionClient, periodId: string, chapterId: string) {
+  const period = await client.fiscalPeriod.findFirst({
+    where: {
+      id: periodId,
+      chapterId, // Ensure tenant isolation
+    },
+  });
+
+  if (!period) {
+    throw new Error("Fiscal period not found");
+  }
+
+  return period;
+}
+
+/**
+ * Fiscal Period Service
+ * Semesters or officer terms that a chapter's books are locked and closed by
+ */
+export const fiscalPeriodService = {
+  getPeriods: async (chapterId: string) => {
+    return db.fiscalPeriod.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+      },
+      orderBy: { startDate: "desc" },
+      include: periodInclude,
+    });
+  },
+
+  getPeriod: async (periodId: string, chapterId: string) => {
+    return db.fiscalPeriod.findFirst({
+      where: {
+        id: periodId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: periodInclude,
+    });
+  },
+
+  // A period that follows a closed one starts from its carried-forward balances
+  createPeriod: async (data: PeriodInput & { chapterId: string }) => {
+    await assertNoOverlappingPeriod(data.chapterId, data);
+
+    return db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const period = await tx.fiscalPeriod.create({
+        data,
+      });
+
+      const previous = await tx.fiscalPeriod.findFirst({
+        where: {
+          chapterId: data.chapterId, // Ensure tenant isolation
+          endDate: { lt: data.startDate },
+        },
+        orderBy: { endDate: "desc" },
+        include: { balances: { include: { account: true } } },
+      });
+
+      if (previous?.status === FiscalPeriodStatus.CLOSED) {
+        await setOpeningBalances(
+          tx,
+          period.id,
+          getCarryForwardBalances(
+            previous.balances.map((balance) => ({
+              accountId: balance.accountId,
+              code: balance.account.code,
+              type: balance.account.type,
+              balance: balance.closingBalance ?? 0,
+            }))
+          )
+        );
+      }
+
+      return tx.fiscalPeriod.findUniqueOrThrow({
+        where: { id: period.id },
+        include: periodInclude,
+      });
+    });
+  },
+
+  // Only open periods can be renamed or moved
+  updatePeriod: async (periodId: string, chapterId: string, data: PeriodInput) => {
+    const period = await findPeriod(db, periodId, chapterId);
+
+    if (period.status !== FiscalPeriodStatus.OPEN) {
+      throw new Error("Unlock the period before changing it");
+    }
+
+    await assertNoOverlappingPeriod(chapterId, data, periodId);
+
+    return db.fiscalPeriod.update({
+      where: { id: periodId },
+      data,
+      include: periodInclude,
+    });
+  },
+
+  deletePeriod: async (periodId: string, chapterId: string) => {
+    const period = await findPeriod(db, periodId, chapterId);
+
+    if (period.status !== FiscalPeriodStatus.OPEN) {
+      throw new Error("Only open periods can be deleted");
+    }
+
+    return db.fiscalPeriod.delete({
+      where: { id: periodId },
+    });
+  },
+
+  /**
+   * Locking and Closing
+   */
+  // Freeze a period's records, e.g. while the books are reviewed
+  lockPeriod: async (periodId: string, chapterId: string, actorId?: string) => {
+    const period = await findPeriod(db, periodId, chapterId);
+
+    if (period.status !== FiscalPeriodStatus.OPEN) {
+      throw new Error("Only open periods can be locked");
+    }
+
+    const locked = await db.fiscalPeriod.update({
+      where: { id: periodId },
+      data: {
+        status: FiscalPeriodStatus.LOCKED,
+        lockedAt: new Date(),
+      },
+      include: periodInclude,
+    });
+
+    await logFinanceAuditEntry({
+      userId: actorId ?? null,
+      chapterId,
+      action: "fiscal_period.locked",
+      targetType: "fiscal_period",
+      targetId: periodId,
+      before: period,
+      after: locked,
+    });
+
+    return locked;
+  },
+
+  unlockPeriod: async (periodId: string, chapterId: string, actorId?: string) => {
+    const period = await findPeriod(db, periodId, chapterId);
+
+    if (period.status !== FiscalPeriodStatus.LOCKED) {
+      throw new Error("Only locked periods can be unlocked; closed periods stay closed");
+    }
+
+    const unlocked = await db.fiscalPeriod.update({
+      where: { id: periodId },
+      data: {
+        status: FiscalPeriodStatus.OPEN,
+        lockedAt: null,
+      },
+      include: periodInclude,
+    });
+
+    await logFinanceAuditEntry({
+      userId: actorId ?? null,
+      chapterId,
+      action: "fiscal_period.unlocked",
+      targetType: "fiscal_period",
+      targetId: periodId,
+      before: period,
+      after: unlocked,
+    });
+
+    return unlocked;
+  },
+
+  // Close a period for good: record each account's closing balance and carry
+  // the balances forward as the next period's opening balances
+  closePeriod: async (periodId: string, chapterId: string, closedById: string) => {
+    const { before, closed } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const period = await findPeriod(tx, periodId, chapterId);
+
+      if (period.status === FiscalPeriodStatus.CLOSED) {
+        throw new Error("Fiscal period is already closed");
+      }
+
+      // Balances only carry forward correctly when periods close in order
+      const earlierOpen = await tx.fiscalPeriod.findFirst({
+        where: {
+          chapterId, // Ensure tenant isolation
+          startDate: { lt: period.startDate },
+          status: { not: FiscalPeriodStatus.CLOSED },
+        },
+        orderBy: { startDate: "asc" },
+      });
+
+      if (earlierOpen) {
+        throw new Error(`Close ${earlierOpen.name} before closing ${period.name}`);
+      }
+
+      // The chapter's first period opens with everything posted before it
+      const hasOpeningBalances = await tx.fiscalPeriodBalance.count({
+        where: { periodId },
+      });
+      if (hasOpeningBalances === 0) {
+        await setOpeningBalances(
+          tx,
+          periodId,
+          getCarryForwardBalances(
+            await getLedgerBalances(tx, chapterId, { lt: startOfDay(period.startDate) })
+          )
+        );
+      }
+
+      const closing = await getLedgerBalances(tx, chapterId, { lte: endOfDay(period.endDate) });
+
+      for (const balance of closing) {
+        await tx.fiscalPeriodBalance.upsert({
+          where: {
+            periodId_accountId: { periodId, accountId: balance.accountId },
+          },
+          create: { periodId, accountId: balance.accountId, closingBalance: balance.balance },
+          update: { closingBalance: balance.balance },
+        });
+      }
+
+      const next = await tx.fiscalPeriod.findFirst({
+        where: {
+          chapterId, // Ensure tenant isolation
+          startDate: { gt: period.endDate },
+        },
+        orderBy: { startDate: "asc" },
+      });
+
+      if (next) {
+        await setOpeningBalances(tx, next.id, getCarryForwardBalances(closing));
+      }
+
+      const now = new Date();
+      const closed = await tx.fiscalPeriod.update({
+        where: { id: periodId },
+        data: {
+          status: FiscalPeriodStatus.CLOSED,
+          lockedAt: period.lockedAt ?? now,
+          closedAt: now,
+          closedById,
+        },
+        include: periodInclude,
+      });
+
+      return { before: period, closed };
+    });
+
+    await logFinanceAuditEntry({
+      userId: closedById,
+      chapterId,
+      action: "fiscal_period.closed",
+      targetType: "fiscal_period",
+      targetId: periodId,
+      before,
+      after: closed,
+      metadata: {
+        closingBalances: closed.balances.map((balance) => ({
+          accountId: balance.accountId,
+          closingBalance: balance.closingBalance,
+        })),
+      },
+    });
+
+    return closed;
+  },
+};
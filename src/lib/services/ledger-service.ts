@@ -0,0 +1,416 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { assertPeriodsOpen, getFrozenPeriods } from "@/lib/services/fiscal-period-service";
+import { findPeriodForDate } from "@/lib/finance/fiscal-periods";
+import { LedgerAccountType, TransactionType, Prisma } from "@/generated/prisma";
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  getAccountBalance,
+  getTransactionPostingCodes,
+  isBalanced,
+  JournalLineInput,
+} from "@/lib/finance/ledger";
+
+/**
+ * Create any default accounts the chapter is missing and return the chart of
+ * accounts keyed by code
+ */
+export async function ensureChartOfAccounts(tx: Prisma.TransactionClient, chapterId: string) {
+  await tx.ledgerAccount.createMany({
+    data: DEFAULT_CHART_OF_ACCOUNTS.map((account) => ({
+      ...account,
+      isSystem: true,
+      chapterId,
+    })),
+    skipDuplicates: true,
+  });
+
+  const accounts = await tx.ledgerAccount.findMany({
+    where: { chapterId },
+  });
+
+  return new Map(accounts.map((account) => [account.code, account]));
+}
+
+/**
+ * Post the debits and credits for a transaction. Must run inside the same
+ * database transaction that created it so the books never go out of balance.
+ */
+export async function postTransactionToLedger(
+  tx: Prisma.TransactionClient,
+  transaction: {
+    id: string;
+    chapterId: string;
+    amount: number;
+    currency: string;
+    type: TransactionType;
+    lateFeeId?: string | null;
+    description: string | null;
+    processedAt: Date | null;
+    createdAt: Date;
+  }
+) {
+  // Nothing moves for a zero amount
+  if (transaction.amount === 0) {
+    return null;
+  }
+
+  const codes = getTransactionPostingCodes(transaction);
+
+  if (!codes) {
+    throw new Error(`${transaction.type} transactions must name the accounts they move money between`);
+  }
+
+  const accounts = await ensureChartOfAccounts(tx, transaction.chapterId);
+  const amount = Math.abs(transaction.amount);
+
+  return tx.journalEntry.create({
+    data: {
+      date: transaction.processedAt ?? transaction.createdAt,
+      description: transaction.description ?? transaction.type,
+      currency: transaction.currency,
+      chapterId: transaction.chapterId,
+      transactionId: transaction.id,
+      lines: {
+        create: [
+          { accountId: accounts.get(codes.debit)!.id, debit: amount },
+          { accountId: accounts.get(codes.credit)!.id, credit: amount },
+        ],
+      },
+    },
+  });
+}
+
+/**
+ * Ledger Service
+ * Chart of accounts and double-entry journal for a chapter
+ */
+export const ledgerService = {
+  /**
+   * Chart of Accounts
+   */
+  // List the chapter's accounts with their current balances
+  getAccounts: async (chapterId: string) => {
+    const accounts = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const chart = await ensureChartOfAccounts(tx, chapterId);
+      return Array.from(chart.values()).sort((a, b) => a.code.localeCompare(b.code));
+    });
+
+    const totals = await db.journalLine.groupBy({
+      by: ["accountId"],
+      where: {
+        account: {
+          chapterId, // Ensure tenant isolation
+        },
+      },
+      _sum: { debit: true, credit: true },
+    });
+
+    return accounts.map((account) => {
+      const sums = totals.find((total) => total.accountId === account.id)?._sum;
+      const debit = sums?.debit ?? 0;
+      const credit = sums?.credit ?? 0;
+
+      return {
+        ...account,
+        debit,
+        credit,
+        balance: getAccountBalance(account.type, { debit, credit }),
+      };
+    });
+  },
+
+  createAccount: async (data: {
+    code: string;
+    name: string;
+    type: LedgerAccountType;
+    description?: string | null;
+    chapterId: string;
+  }) => {
+    return db.ledgerAccount.create({
+      data,
+    });
+  },
+
+  updateAccount: async (
+    accountId: string,
+    chapterId: string,
+    data: {
+      code?: string;
+      name?: string;
+      type?: LedgerAccountType;
+      description?: string | null;
+      isActive?: boolean;
+    }
+  ) => {
+    const account = await db.ledgerAccount.findFirst({
+      where: {
+        id: accountId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!account) {
+      throw new Error("Account not found");
+    }
+
+    // Automatic postings look system accounts up by code, so those stay fixed
+    if (account.isSystem && ((data.code && data.code !== account.code) || (data.type && data.type !== account.type))) {
+      throw new Error("The code and type of a default account cannot be changed");
+    }
+
+    return db.ledgerAccount.update({
+      where: { id: accountId },
+      data,
+    });
+  },
+
+  // Only custom accounts that nothing has been posted to can be deleted
+  deleteAccount: async (accountId: string, chapterId: string) => {
+    const account = await db.ledgerAccount.findFirst({
+      where: {
+        id: accountId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        _count: { select: { lines: true } },
+      },
+    });
+
+    if (!account) {
+      throw new Error("Account not found");
+    }
+
+    if (account.isSystem) {
+      throw new Error("Default accounts cannot be deleted");
+    }
+
+    if (account._count.lines > 0) {
+      throw new Error("Accounts with postings cannot be deleted; deactivate them instead");
+    }
+
+    return db.ledgerAccount.delete({
+      where: { id: accountId },
+    });
+  },
+
+  /**
+   * Journal
+   */
+  getJournalEntries: async (
+    chapterId: string,
+    filters?: {
+      accountId?: string;
+      limit?: number;
+    }
+  ) => {
+    return db.journalEntry.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        ...(filters?.accountId && { lines: { some: { accountId: filters.accountId } } }),
+      },
+      include: {
+        lines: {
+          include: {
+            account: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+                type: true,
+              },
+            },
+          },
+        },
+        transaction: {
+          select: {
+            id: true,
+            type: true,
+          },
+        },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { date: "desc" },
+      take: filters?.limit,
+    });
+  },
+
+  // Post a manual journal entry, e.g. opening balances or a correction
+  createJournalEntry: async (data: {
+    chapterId: string;
+    date: Date;
+    description: string;
+    currency?: string;
+    lines: JournalLineInput[];
+    createdById?: string;
+  }) => {
+    if (!isBalanced(data.lines)) {
+      throw new Error("Journal entry is not balanced; total debits must equal total credits");
+    }
+
+    const accountIds = Array.from(new Set(data.lines.map((line) => line.accountId)));
+    const accountCount = await db.ledgerAccount.count({
+      where: {
+        id: { in: accountIds },
+        chapterId: data.chapterId, // Ensure tenant isolation
+        isActive: true,
+      },
+    });
+
+    if (accountCount !== accountIds.length) {
+      throw new Error("Journal entry uses an unknown or inactive account");
+    }
+
+    await assertPeriodsOpen(db, data.chapterId, [data.date], "This journal entry");
+
+    const entry = await db.journalEntry.create({
+      data: {
+        date: data.date,
+        description: data.description,
+        currency: data.currency,
+        chapterId: data.chapterId,
+        createdById: data.createdById,
+        lines: {
+          create: data.lines.map((line) => ({
+            accountId: line.accountId,
+            debit: line.debit,
+            credit: line.credit,
+            memo: line.memo,
+          })),
+        },
+      },
+      include: {
+        lines: true,
+      },
+    });
+
+    if (data.createdById) {
+      await logFinanceAuditEntry({
+        userId: data.createdById,
+        chapterId: data.chapterId,
+        action: "journal_entry.created",
+        targetType: "journal_entry",
+        targetId: entry.id,
+        after: entry,
+        metadata: { lines: data.lines },
+      });
+    }
+
+    return entry;
+  },
+
+  // Move money between two of the chapter's accounts, e.g. operating to social fund
+  createTransfer: async (data: {
+    chapterId: string;
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+    currency?: string;
+    description?: string | null;
+    date?: Date;
+    createdById?: string;
+  }) => {
+    if (data.fromAccountId === data.toAccountId) {
+      throw new Error("Choose two different accounts");
+    }
+
+    const transfer = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const accounts = await tx.ledgerAccount.findMany({
+        where: {
+          id: { in: [data.fromAccountId, data.toAccountId] },
+          chapterId: data.chapterId, // Ensure tenant isolation
+          isActive: true,
+        },
+      });
+
+      const from = accounts.find((account) => account.id === data.fromAccountId);
+      const to = accounts.find((account) => account.id === data.toAccountId);
+
+      if (!from || !to) {
+        throw new Error("Transfer uses an unknown or inactive account");
+      }
+
+      const date = data.date ?? new Date();
+      const description = data.description || `Transfer from ${from.name} to ${to.name}`;
+
+      await assertPeriodsOpen(tx, data.chapterId, [date], "This transfer");
+
+      const transaction = await tx.transaction.create({
+        data: {
+          amount: data.amount,
+          currency: data.currency,
+          type: TransactionType.TRANSFER,
+          description,
+          metadata: { fromAccountId: from.id, toAccountId: to.id },
+          chapterId: data.chapterId,
+          processedAt: date,
+        },
+      });
+
+      await tx.journalEntry.create({
+        data: {
+          date,
+          description,
+          currency: transaction.currency,
+          chapterId: data.chapterId,
+          transactionId: transaction.id,
+          createdById: data.createdById,
+          lines: {
+            create: [
+              { accountId: to.id, debit: data.amount },
+              { accountId: from.id, credit: data.amount },
+            ],
+          },
+        },
+      });
+
+      return transaction;
+    });
+
+    if (data.createdById) {
+      await logFinanceAuditEntry({
+        userId: data.createdById,
+        chapterId: data.chapterId,
+        action: "transfer.created",
+        targetType: "transaction",
+        targetId: transfer.id,
+        after: transfer,
+        metadata: { fromAccountId: data.fromAccountId, toAccountId: data.toAccountId },
+      });
+    }
+
+    return transfer;
+  },
+
+  // Post journal entries for transactions recorded before the ledger existed.
+  // Transactions dated in a locked or closed period are left for after it reopens.
+  postUnpostedTransactions: async (chapterId: string) => {
+    const transactions = await db.transaction.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        journalEntry: null,
+        type: { not: TransactionType.TRANSFER },
+        amount: { not: 0 }, // Plan changes and other markers move no money
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const frozen = await getFrozenPeriods(db, chapterId);
+    const postable = transactions.filter(
+      (transaction) => !findPeriodForDate(frozen, transaction.processedAt ?? transaction.createdAt)
+    );
+
+    for (const transaction of postable) {
+      await db.$transaction(async (tx: Prisma.TransactionClient) => {
+        await postTransactionToLedger(tx, transaction);
+      });
+    }
+
+    return postable.length;
+  },
+};
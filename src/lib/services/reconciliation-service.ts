@@ -0,0 +1,555 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { BankStatementLineStatus, ExpenseStatus, Prisma, TransactionType } from "@/generated/prisma";
+import { CallerTransaction, financeService } from "@/lib/services/finance-service";
+import { expenseApprovalService } from "@/lib/services/expense-approval-service";
+import { parseBankStatement, scoreStatementMatch, MATCH_WINDOW_DAYS } from "@/lib/finance/bank-statements";
+import { getDuesBalance } from "@/lib/finance/dues-balance";
+import { addDays } from "date-fns";
+
+const lineInclude = {
+  matchedTransaction: {
+    select: {
+      id: true,
+      amount: true,
+      type: true,
+      description: true,
+      processedAt: true,
+      createdAt: true,
+    },
+  },
+  matchedExpense: {
+    select: {
+      id: true,
+      title: true,
+      amount: true,
+      status: true,
+      submittedBy: {
+        select: { id: true, name: true },
+      },
+    },
+  },
+  matchedDuesPayment: {
+    select: {
+      id: true,
+      amount: true,
+      amountPaid: true,
+      dueDate: true,
+      user: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+  },
+  transactions: {
+    select: {
+      id: true,
+      amount: true,
+      type: true,
+      description: true,
+    },
+  },
+};
+
+/**
+ * Suggest a record for every unmatched line of an import. Each record is
+ * suggested for at most one line, best score first.
+ */
+async function suggestMatches(importId: string, chapterId: string) {
+  const lines = await db.bankStatementLine.findMany({
+    where: {
+      importId,
+      chapterId, // Ensure tenant isolation
+      status: BankStatementLineStatus.UNMATCHED,
+    },
+  });
+
+  if (lines.length === 0) {
+    return 0;
+  }
+
+  const dates = lines.map((line) => line.date.getTime());
+  const from = addDays(new Date(Math.min(...dates)), -MATCH_WINDOW_DAYS);
+  const to = addDays(new Date(Math.max(...dates)), MATCH_WINDOW_DAYS);
+
+  // Records already claimed by another line are left out
+  const claimed = await db.bankStatementLine.findMany({
+    where: {
+      chapterId,
+      status: { in: [BankStatementLineStatus.MATCHED, BankStatementLineStatus.RECONCILED] },
+    },
+    select: {
+      matchedTransactionId: true,
+      matchedExpenseId: true,
+      matchedDuesPaymentId: true,
+    },
+  });
+
+  const [transactions, expenses, duesPayments] = await Promise.all([
+    db.transaction.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        reconciledAt: null,
+        type: { not: TransactionType.TRANSFER },
+        OR: [
+          { processedAt: { gte: from, lte: to } },
+          { processedAt: null, createdAt: { gte: from, lte: to } },
+        ],
+      },
+    }),
+    // Approved but unpaid expenses are paid when their withdrawal is confirmed
+    db.expense.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        status: ExpenseStatus.APPROVED,
+        transaction: null,
+      },
+    }),
+    db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        paidAt: null,
+      },
+      include: {
+        user: { select: { name: true, email: true } },
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+      },
+    }),
+  ]);
+
+  const candidates = [
+    ...transactions.map((transaction) => ({
+      key: `transaction:${transaction.id}`,
+      match: { matchedTransactionId: transaction.id },
+      amount: transaction.amount,
+      date: transaction.processedAt ?? transaction.createdAt,
+      description: transaction.description ?? "",
+      claimed: claimed.some((line) => line.matchedTransactionId === transaction.id),
+    })),
+    ...expenses.map((expense) => ({
+      key: `expense:${expense.id}`,
+      match: { matchedExpenseId: expense.id },
+      amount: -expense.amount, // Expenses leave the account
+      date: expense.approvedAt ?? expense.submittedAt,
+      description: expense.title,
+      claimed: claimed.some((line) => line.matchedExpenseId === expense.id),
+    })),
+    ...duesPayments.map((duesPayment) => ({
+      key: `dues:${duesPayment.id}`,
+      match: { matchedDuesPaymentId: duesPayment.id },
+      amount: getDuesBalance(duesPayment).remaining,
+      date: duesPayment.dueDate,
+      description: `Dues ${duesPayment.user.name ?? duesPayment.user.email}`,
+      claimed: claimed.some((line) => line.matchedDuesPaymentId === duesPayment.id),
+    })),
+  ].filter((candidate) => !candidate.claimed);
+
+  // Score every pairing and hand out the best ones first
+  const pairs = lines
+    .flatMap((line) =>
+      candidates.map((candidate) => ({
+        line,
+        candidate,
+        score: scoreStatementMatch(line, candidate),
+      }))
+    )
+    .filter((pair): pair is typeof pair & { score: number } => pair.score !== null)
+    .sort((a, b) => b.score - a.score);
+
+  const matchedLines = new Set<string>();
+  const usedCandidates = new Set<string>();
+  let matched = 0;
+
+  for (const { line, candidate } of pairs) {
+    if (matchedLines.has(line.id) || usedCandidates.has(candidate.key)) {
+      continue;
+    }
+
+    matchedLines.add(line.id);
+    usedCandidates.add(candidate.key);
+
+    await db.bankStatementLine.update({
+      where: { id: line.id },
+      data: {
+        ...candidate.match,
+        status: BankStatementLineStatus.MATCHED,
+      },
+    });
+
+    matched++;
+  }
+
+  return matched;
+}
+
+/**
+ * Load a line that can still be changed, i.e. one that is not reconciled yet
+ */
+async function getOpenLine(lineId: string, chapterId: string) {
+  const line = await db.bankStatementLine.findFirst({
+    where: {
+      id: lineId,
+      chapterId, // Ensure tenant isolation
+    },
+  });
+
+  if (!line) {
+    throw new Error("Statement line not found");
+  }
+
+  if (line.status === BankStatementLineStatus.RECONCILED) {
+    throw new Error("Statement line is already reconciled");
+  }
+
+  return line;
+}
+
+/**
+ * Bank reconciliation service. Imports bank statements and confirms each line
+ * against the chapter's transactions.
+ */
+export const reconciliationService = {
+  /**
+   * Statement Imports
+   */
+  getStatementImports: async (chapterId: string) => {
+    const imports = await db.bankStatementImport.findMany({
+      where: { chapterId },
+      include: {
+        importedBy: {
+          select: { id: true, name: true },
+        },
+        lines: {
+          select: { status: true, date: true },
+        },
+      },
+      orderBy: { importedAt: "desc" },
+    });
+
+    // Summarise the lines rather than sending every one of them
+    return imports.map(({ lines, ...statementImport }) => ({
+      ...statementImport,
+      lineCount: lines.length,
+      reconciledCount: lines.filter((line) => line.status === BankStatementLineStatus.RECONCILED).length,
+      ignoredCount: lines.filter((line) => line.status === BankStatementLineStatus.IGNORED).length,
+      startDate: lines.length ? new Date(Math.min(...lines.map((line) => line.date.getTime()))) : null,
+      endDate: lines.length ? new Date(Math.max(...lines.map((line) => line.date.getTime()))) : null,
+    }));
+  },
+
+  getStatementImport: async (importId: string, chapterId: string) => {
+    return db.bankStatementImport.findFirst({
+      where: {
+        id: importId,
+        chapterId, // Ensure tenant isolation
+      },
+      include: {
+        importedBy: {
+          select: { id: true, name: true },
+        },
+        lines: {
+          include: lineInclude,
+          orderBy: { date: "asc" },
+        },
+      },
+    });
+  },
+
+  // Parse a CSV or OFX statement, skip lines imported before and suggest matches
+  importStatement: async (data: {
+    chapterId: string;
+    fileName: string;
+    content: string;
+    currency?: string;
+    importedById?: string;
+  }) => {
+    const { format, lines } = parseBankStatement(data.fileName, data.content, data.currency);
+
+    // Lines carrying the bank's own ID are only ever imported once
+    const references = lines.map((line) => line.reference).filter((reference): reference is string => !!reference);
+    const existing = references.length
+      ? await db.bankStatementLine.findMany({
+          where: {
+            chapterId: data.chapterId, // Ensure tenant isolation
+            reference: { in: references },
+          },
+          select: { reference: true },
+        })
+      : [];
+    const existingReferences = new Set(existing.map((line) => line.reference));
+    const newLines = lines.filter((line) => !line.reference || !existingReferences.has(line.reference));
+
+    if (newLines.length === 0) {
+      throw new Error("Every line in this statement has already been imported");
+    }
+
+    const statementImport = await db.bankStatementImport.create({
+      data: {
+        fileName: data.fileName,
+        format,
+        chapterId: data.chapterId,
+        importedById: data.importedById,
+        lines: {
+          create: newLines.map((line) => ({
+            ...line,
+            chapterId: data.chapterId,
+          })),
+        },
+      },
+    });
+
+    const matchedCount = await suggestMatches(statementImport.id, data.chapterId);
+
+    return {
+      ...statementImport,
+      lineCount: newLines.length,
+      skippedCount: lines.length - newLines.length,
+      matchedCount,
+    };
+  },
+
+  // Deleting an import is only allowed before any of its lines are reconciled
+  deleteStatementImport: async (importId: string, chapterId: string) => {
+    const reconciledLines = await db.bankStatementLine.count({
+      where: {
+        importId,
+        chapterId, // Ensure tenant isolation
+        status: BankStatementLineStatus.RECONCILED,
+      },
+    });
+
+    if (reconciledLines > 0) {
+      throw new Error("Statements with reconciled lines cannot be deleted");
+    }
+
+    return db.bankStatementImport.delete({
+      where: {
+        id: importId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+  },
+
+  /**
+   * Statement Lines
+   */
+  // Point a line at a different record, or clear its match to leave it unmatched
+  matchLine: async (
+    lineId: string,
+    chapterId: string,
+    data: {
+      transactionId?: string | null;
+      expenseId?: string | null;
+      duesPaymentId?: string | null;
+    },
+    actorId?: string
+  ) => {
+    const before = await getOpenLine(lineId, chapterId);
+
+    const hasMatch = !!(data.transactionId || data.expenseId || data.duesPaymentId);
+
+    const line = await db.bankStatementLine.update({
+      where: { id: lineId },
+      data: {
+        matchedTransactionId: data.transactionId ?? null,
+        matchedExpenseId: data.expenseId ?? null,
+        matchedDuesPaymentId: data.duesPaymentId ?? null,
+        status: hasMatch ? BankStatementLineStatus.MATCHED : BankStatementLineStatus.UNMATCHED,
+      },
+      include: lineInclude,
+    });
+
+    await logFinanceAuditEntry({
+      userId: actorId ?? null,
+      chapterId,
+      action: "reconciliation.matched",
+      targetType: "statement_line",
+      targetId: lineId,
+      before,
+      after: line,
+    });
+
+    return line;
+  },
+
+  ignoreLine: async (lineId: string, chapterId: string, actorId?: string) => {
+    const before = await getOpenLine(lineId, chapterId);
+
+    const line = await db.bankStatementLine.update({
+      where: { id: lineId },
+      data: {
+        matchedTransactionId: null,
+        matchedExpenseId: null,
+        matchedDuesPaymentId: null,
+        status: BankStatementLineStatus.IGNORED,
+      },
+      include: lineInclude,
+    });
+
+    await logFinanceAuditEntry({
+      userId: actorId ?? null,
+      chapterId,
+      action: "reconciliation.ignored",
+      targetType: "statement_line",
+      targetId: lineId,
+      before,
+      after: line,
+    });
+
+    return line;
+  },
+
+  // Confirm a matched line. Matched expenses are marked paid and matched dues
+  // are recorded as paid, which creates their transactions.
+  confirmLine: async (lineId: string, chapterId: string, userId: string) => {
+    const line = await getOpenLine(lineId, chapterId);
+    const reconciledAt = new Date();
+    const afterCommit: CallerTransaction["afterCommit"] = [];
+
+    if (!line.matchedTransactionId && !line.matchedExpenseId && !line.matchedDuesPaymentId) {
+      throw new Error("Match the line to a record or create a transaction for it first");
+    }
+
+    const reconciled = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Claim the line before recording anything so two confirmations can't both go through
+      const claimed = await tx.bankStatementLine.updateMany({
+        where: {
+          id: lineId,
+          chapterId, // Ensure tenant isolation
+          status: line.status,
+          matchedTransactionId: line.matchedTransactionId,
+          matchedExpenseId: line.matchedExpenseId,
+          matchedDuesPaymentId: line.matchedDuesPaymentId,
+        },
+        data: {
+          status: BankStatementLineStatus.RECONCILED,
+          reconciledAt,
+          reconciledById: userId,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new Error("Statement line was changed while it was being confirmed");
+      }
+
+      if (line.matchedTransactionId) {
+        await tx.transaction.update({
+          where: {
+            id: line.matchedTransactionId,
+            chapterId, // Ensure tenant isolation
+          },
+          data: {
+            bankStatementLineId: line.id,
+            reconciledAt,
+          },
+        });
+      } else if (line.matchedExpenseId) {
+        await expenseApprovalService.markExpensePaid(line.matchedExpenseId, chapterId, {
+          paidAt: line.date,
+        }, userId, { tx, afterCommit });
+
+        await tx.transaction.update({
+          where: { expenseId: line.matchedExpenseId },
+          data: {
+            bankStatementLineId: line.id,
+            reconciledAt,
+          },
+        });
+      } else if (line.matchedDuesPaymentId) {
+        await financeService.recordDuesPayment(line.matchedDuesPaymentId, chapterId, {
+          amount: line.amount,
+          paidAt: line.date,
+          note: `Bank deposit: ${line.description}`,
+          recordedById: userId,
+          bankStatementLineId: line.id,
+        }, { tx, afterCommit });
+      }
+
+      return tx.bankStatementLine.findUniqueOrThrow({
+        where: { id: lineId },
+        include: lineInclude,
+      });
+    });
+
+    for (const followUp of afterCommit) {
+      await followUp();
+    }
+
+    await logFinanceAuditEntry({
+      userId,
+      chapterId,
+      action: "reconciliation.confirmed",
+      targetType: "statement_line",
+      targetId: lineId,
+      before: line,
+      after: reconciled,
+    });
+
+    return reconciled;
+  },
+
+  // Record a transaction for a line the chapter's books are missing and reconcile it
+  createTransactionForLine: async (
+    lineId: string,
+    chapterId: string,
+    data: {
+      type: TransactionType;
+      description?: string | null;
+    },
+    userId: string
+  ) => {
+    const line = await getOpenLine(lineId, chapterId);
+
+    const transaction = await financeService.createTransaction({
+      amount: line.amount,
+      currency: line.currency,
+      type: data.type,
+      description: data.description || line.description,
+      chapterId,
+      processedAt: line.date,
+    }, userId);
+
+    const reconciledAt = new Date();
+
+    await db.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        bankStatementLineId: line.id,
+        reconciledAt,
+      },
+    });
+
+    // The new transaction is audited on its own; this records the reconciliation
+    const reconciled = await db.bankStatementLine.update({
+      where: { id: lineId },
+      data: {
+        matchedTransactionId: transaction.id,
+        matchedExpenseId: null,
+        matchedDuesPaymentId: null,
+        status: BankStatementLineStatus.RECONCILED,
+        reconciledAt,
+        reconciledById: userId,
+      },
+      include: lineInclude,
+    });
+
+    await logFinanceAuditEntry({
+      userId,
+      chapterId,
+      action: "reconciliation.confirmed",
+      targetType: "statement_line",
+      targetId: lineId,
+      before: line,
+      after: reconciled,
+    });
+
+    return reconciled;
+  },
+
+  // Re-run matching for lines that are still unmatched, e.g. after recording missing expenses
+  rematchStatementImport: async (importId: string, chapterId: string) => {
+    return suggestMatches(importId, chapterId);
+  },
+};
@@ -0,0 +1,397 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { ExpenseStatus, PaymentMethod, Prisma, ReimbursementStatus, TransactionType } from "@/generated/prisma";
+import { groupExpensesByPayee } from "@/lib/finance/reimbursements";
+import { PaymentTransactionMetadata } from "@/lib/finance/payment-methods";
+import { getPayoutProvider, PayoutResult } from "@/lib/payouts";
+import { postTransactionToLedger } from "@/lib/services/ledger-service";
+import { assertPeriodsOpen } from "@/lib/services/fiscal-period-service";
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+const reimbursementInclude = {
+  payee: { select: userSelect },
+  issuedBy: { select: userSelect },
+  expenses: {
+    select: {
+      id: true,
+      title: true,
+      amount: true,
+    },
+  },
+} satisfies Prisma.ReimbursementInclude;
+
+/**
+ * Mark a reimbursement's expenses paid and record each one in the books the
+ * same way a single expense is when it is marked paid
+ */
+async function settleAsPaid(
+  tx: Prisma.TransactionClient,
+  reimbursement: { id: string; chapterId: string; method: PaymentMethod; reference: string | null },
+  paidAt: Date
+) {
+  const { id, chapterId } = reimbursement;
+
+  await assertPeriodsOpen(tx, chapterId, [paidAt], "This reimbursement");
+
+  const expenses = await tx.expense.findMany({
+    where: {
+      reimbursementId: id,
+      chapterId, // Ensure tenant isolation
+    },
+  });
+
+  await tx.expense.updateMany({
+    where: {
+      reimbursementId: id,
+      chapterId, // Ensure tenant isolation
+    },
+    data: {
+      status: ExpenseStatus.PAID,
+      paidAt,
+    },
+  });
+
+  const metadata: PaymentTransactionMetadata = {
+    paymentMethod: reimbursement.method,
+    ...(reimbursement.reference && { referenceNumber: reimbursement.reference }),
+  };
+
+  for (const expense of expenses) {
+    const transaction = await tx.transaction.create({
+      data: {
+        amount: -expense.amount, // Negative amount for outgoing expense
+        currency: expense.currency,
+        type: TransactionType.EXPENSE,
+        description: `Expense payment: ${expense.title}`,
+        chapterId,
+        expenseId: expense.id,
+        processedAt: paidAt,
+        metadata,
+      },
+    });
+
+    await postTransactionToLedger(tx, transaction);
+  }
+
+  return tx.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.PAID,
+      paidAt,
+      failureReason: null,
+    },
+  });
+}
+
+/**
+ * Record a failed payout and put its expenses back in the queue
+ */
+async function settleAsFailed(tx: Prisma.TransactionClient, id: string, chapterId: string, failureReason?: string | null) {
+  await tx.expense.updateMany({
+    where: {
+      reimbursementId: id,
+      chapterId, // Ensure tenant isolation
+    },
+    data: { reimbursementId: null },
+  });
+
+  return tx.reimbursement.update({
+    where: { id },
+    data: {
+      status: ReimbursementStatus.FAILED,
+      failureReason: failureReason || "Payout failed",
+    },
+  });
+}
+
+/**
+ * Reimbursement Service
+ * Pays members back for approved expenses, in batches grouped by submitter
+ */
+export const reimbursementService = {
+  /**
+   * Queue
+   */
+
+  // Approved expenses waiting to be paid, one group per submitter, plus recent reimbursements
+  getQueue: async (chapterId: string) => {
+    const [expenses, payoutMethods, reimbursements] = await Promise.all([
+      db.expense.findMany({
+        where: {
+          chapterId, // Ensure tenant isolation
+          status: ExpenseStatus.APPROVED,
+          reimbursementId: null,
+        },
+        orderBy: { approvedAt: "asc" },
+        select: {
+          id: true,
+          title: true,
+          amount: true,
+          currency: true,
+          approvedAt: true,
+          submittedById: true,
+          submittedBy: { select: userSelect },
+        },
+      }),
+      db.payoutMethod.findMany({
+        where: {
+          chapterId, // Ensure tenant isolation
+        },
+      }),
+      db.reimbursement.findMany({
+        where: {
+          chapterId, // Ensure tenant isolation
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+        include: reimbursementInclude,
+      }),
+    ]);
+
+    const payees = groupExpensesByPayee(expenses).map((group) => ({
+      ...group,
+      payee: group.expenses[0].submittedBy,
+      payoutMethod: payoutMethods.find((payoutMethod) => payoutMethod.userId === group.payeeId) ?? null,
+    }));
+
+    return { payees, reimbursements };
+  },
+
+  // Save how a member wants to be reimbursed
+  setPayoutMethod: async (
+    chapterId: string,
+    userId: string,
+    data: {
+      method: PaymentMethod;
+      details?: string | null;
+    }
+  ) => {
+    const membership = await db.membership.findFirst({
+      where: {
+        userId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+
+    return db.payoutMethod.upsert({
+      where: {
+        chapterId_userId: { chapterId, userId },
+      },
+      create: {
+        chapterId,
+        userId,
+        method: data.method,
+        details: data.details || null,
+      },
+      update: {
+        method: data.method,
+        details: data.details || null,
+      },
+    });
+  },
+
+  /**
+   * Reimbursements
+   */
+
+  // Reimburse a batch of approved expenses, one reimbursement per submitter. Without
+  // issuePayout they are recorded as already paid outside GreekDash.
+  reimburseExpenses: async (
+    chapterId: string,
+    issuedById: string,
+    data: {
+      expenseIds: string[];
+      reference?: string | null;
+      paidAt?: Date;
+      method?: PaymentMethod; // Overrides each member's payout method, e.g. when paying everyone by check
+      issuePayout?: boolean;
+    }
+  ) => {
+    const paidAt = data.paidAt ?? new Date();
+    const provider = data.issuePayout ? getPayoutProvider() : null;
+
+    const created = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const expenseIds = [...new Set(data.expenseIds)];
+      const expenses = await tx.expense.findMany({
+        where: {
+          id: { in: expenseIds },
+          chapterId, // Ensure tenant isolation
+          status: ExpenseStatus.APPROVED,
+          reimbursementId: null,
+        },
+      });
+
+      if (expenses.length !== expenseIds.length) {
+        throw new Error("Only approved expenses that are not already being reimbursed can be paid");
+      }
+
+      // Check before any money moves, not only once the payout settles
+      await assertPeriodsOpen(tx, chapterId, [paidAt], "This reimbursement");
+
+      const payoutMethods = await tx.payoutMethod.findMany({
+        where: {
+          chapterId, // Ensure tenant isolation
+          userId: { in: expenses.map((expense) => expense.submittedById) },
+        },
+      });
+
+      const reimbursements = [];
+      for (const group of groupExpensesByPayee(expenses)) {
+        const payoutMethod = payoutMethods.find((method) => method.userId === group.payeeId);
+
+        const reimbursement = await tx.reimbursement.create({
+          data: {
+            amount: group.total,
+            currency: group.currency,
+            method: data.method ?? payoutMethod?.method ?? PaymentMethod.OTHER,
+            payoutDetails: payoutMethod?.details,
+            reference: data.reference || null,
+            provider: provider?.name,
+            chapterId,
+            payeeId: group.payeeId,
+            issuedById,
+            expenses: {
+              connect: group.expenses.map((expense) => ({ id: expense.id })),
+            },
+          },
+        });
+
+        reimbursements.push(provider ? reimbursement : await settleAsPaid(tx, reimbursement, paidAt));
+      }
+
+      return reimbursements;
+    });
+
+    // Payouts go out after the expenses are claimed, so a retry can't pay them twice
+    if (provider) {
+      for (const reimbursement of created) {
+        const payee = await db.user.findUnique({
+          where: { id: reimbursement.payeeId },
+          select: { name: true, email: true },
+        });
+
+        let result: PayoutResult;
+        try {
+          result = await provider.createPayout({
+            reference: reimbursement.id,
+            amount: reimbursement.amount,
+            currency: reimbursement.currency,
+            method: reimbursement.method,
+            destination: reimbursement.payoutDetails,
+            payee: payee ?? { name: null, email: null },
+            description: reimbursement.reference
+              ? `Expense reimbursement (${reimbursement.reference})`
+              : "Expense reimbursement",
+          });
+        } catch (error) {
+          console.error(`Error issuing payout for reimbursement ${reimbursement.id}:`, error);
+          result = {
+            id: "",
+            status: "FAILED",
+            failureReason: error instanceof Error ? error.message : "Payout failed",
+          };
+        }
+
+        await db.$transaction(async (tx: Prisma.TransactionClient) => {
+          if (result.id) {
+            await tx.reimbursement.update({
+              where: { id: reimbursement.id },
+              data: { providerPayoutId: result.id },
+            });
+          }
+
+          if (result.status === "PAID") {
+            await settleAsPaid(tx, reimbursement, new Date());
+          } else if (result.status === "FAILED") {
+            await settleAsFailed(tx, reimbursement.id, chapterId, result.failureReason);
+          }
+        });
+      }
+    }
+
+    const reimbursements = await db.reimbursement.findMany({
+      where: {
+        id: { in: created.map((reimbursement) => reimbursement.id) },
+        chapterId, // Ensure tenant isolation
+      },
+      include: reimbursementInclude,
+    });
+
+    for (const reimbursement of reimbursements) {
+      await logFinanceAuditEntry({
+        userId: issuedById,
+        chapterId,
+        action: "reimbursement.created",
+        targetType: "reimbursement",
+        targetId: reimbursement.id,
+        after: reimbursement,
+        metadata: { expenseIds: reimbursement.expenses.map((expense) => expense.id) },
+      });
+    }
+
+    return reimbursements;
+  },
+
+  // Settle a payout the provider reported as pending once it has gone through or failed
+  settleReimbursement: async (
+    reimbursementId: string,
+    chapterId: string,
+    data: {
+      status: "PAID" | "FAILED";
+      paidAt?: Date;
+      failureReason?: string | null;
+    },
+    actorId?: string
+  ) => {
+    const { before, settled } = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const reimbursement = await tx.reimbursement.findFirst({
+        where: {
+          id: reimbursementId,
+          chapterId, // Ensure tenant isolation
+        },
+      });
+
+      if (!reimbursement) {
+        throw new Error("Reimbursement not found");
+      }
+
+      if (reimbursement.status !== ReimbursementStatus.PENDING) {
+        throw new Error("Only pending reimbursements can be settled");
+      }
+
+      if (data.status === "PAID") {
+        await settleAsPaid(tx, reimbursement, data.paidAt ?? new Date());
+      } else {
+        await settleAsFailed(tx, reimbursement.id, chapterId, data.failureReason);
+      }
+
+      const settled = await tx.reimbursement.findUniqueOrThrow({
+        where: { id: reimbursement.id },
+        include: reimbursementInclude,
+      });
+
+      return { before: reimbursement, settled };
+    });
+
+    await logFinanceAuditEntry({
+      userId: actorId ?? null,
+      chapterId,
+      action: "reimbursement.settled",
+      targetType: "reimbursement",
+      targetId: reimbursementId,
+      before,
+      after: settled,
+    });
+
+    return settled;
+  },
+};
@@ -0,0 +1,214 @@
+import { db } from "@/lib/db";
+import { Prisma } from "@/generated/prisma";
+import { DEFAULT_CURRENCY } from "@/lib/finance/money";
+import {
+  buildIncomeStatement,
+  buildMonthlyCashFlow,
+  FinancialReport,
+  getDuesCollection,
+  getTopExpenseCategories,
+  ReportTransaction,
+} from "@/lib/finance/reports";
+import { buildCashFlowForecast, CashFlowForecast } from "@/lib/finance/cash-flow-forecast";
+import { getBudgetUsage } from "@/lib/finance/budget-usage";
+import { getDuesBalance } from "@/lib/finance/dues-balance";
+import { endOfDay, startOfDay, subMonths } from "date-fns";
+
+// Transactions count on the date the money moved, or when they were recorded if never processed
+function transactionDateFilter(range: { gte?: Date; lt?: Date; lte?: Date }): Prisma.TransactionWhereInput {
+  return {
+    OR: [
+      { processedAt: range },
+      { processedAt: null, createdAt: range },
+    ],
+  };
+}
+
+/**
+ * Financial reports service
+ */
+export const reportService = {
+  // Income statement, monthly cash flow, dues collection and top expense categories for a date range
+  getFinancialReport: async (
+    chapterId: string,
+    range: { startDate: Date; endDate: Date }
+  ): Promise<FinancialReport> => {
+    const startDate = startOfDay(range.startDate);
+    const endDate = endOfDay(range.endDate);
+
+    const chapter = await db.chapter.findUnique({
+      where: { id: chapterId },
+      select: { name: true },
+    });
+
+    if (!chapter) {
+      throw new Error("Chapter not found");
+    }
+
+    const transactions = await db.transaction.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        ...transactionDateFilter({ gte: startDate, lte: endDate }),
+      },
+      select: {
+        amount: true,
+        currency: true,
+        type: true,
+        processedAt: true,
+        createdAt: true,
+        expense: {
+          select: {
+            budget: { select: { name: true } },
+            lineItem: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    // Everything before the range makes up the opening balance
+    const opening = await db.transaction.aggregate({
+      where: {
+        chapterId, // Ensure tenant isolation
+        type: { not: "TRANSFER" },
+        ...transactionDateFilter({ lt: startDate }),
+      },
+      _sum: { amount: true },
+    });
+
+    const duesPayments = await db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        dueDate: { gte: startDate, lte: endDate },
+      },
+      select: {
+        amount: true,
+        amountPaid: true,
+        paidAt: true,
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+      },
+    });
+
+    const reportTransactions: ReportTransaction[] = transactions.map((transaction) => ({
+      ...transaction,
+      date: transaction.processedAt ?? transaction.createdAt,
+    }));
+    const openingBalance = opening._sum.amount ?? 0;
+
+    return {
+      chapterName: chapter.name,
+      currency: transactions[0]?.currency ?? DEFAULT_CURRENCY,
+      startDate,
+      endDate,
+      generatedAt: new Date(),
+      incomeStatement: buildIncomeStatement(reportTransactions),
+      cashFlow: {
+        openingBalance,
+        months: buildMonthlyCashFlow(reportTransactions, { startDate, endDate }, openingBalance),
+      },
+      duesCollection: getDuesCollection(duesPayments),
+      topExpenseCategories: getTopExpenseCategories(reportTransactions),
+    };
+  },
+
+  // Projected month-end balances from unpaid dues, active budgets and unpaid expenses
+  getCashFlowForecast: async (chapterId: string, monthCount: number): Promise<CashFlowForecast> => {
+    const today = new Date();
+
+    const balance = await db.transaction.aggregate({
+      where: {
+        chapterId, // Ensure tenant isolation
+        type: { not: "TRANSFER" },
+      },
+      _sum: { amount: true },
+    });
+
+    const latestTransaction = await db.transaction.findFirst({
+      where: { chapterId }, // Ensure tenant isolation
+      orderBy: { createdAt: "desc" },
+      select: { currency: true },
+    });
+
+    // Dues that fell due over the past year show how much actually gets collected
+    const pastDues = await db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        dueDate: { gte: subMonths(today, 12), lt: today },
+      },
+      select: {
+        amount: true,
+        amountPaid: true,
+        paidAt: true,
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+      },
+    });
+    const history = getDuesCollection(pastDues);
+
+    const unpaidDues = await db.duesPayment.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        paidAt: null,
+      },
+      select: {
+        amount: true,
+        amountPaid: true,
+        dueDate: true,
+        lateFees: {
+          where: { waivedAt: null },
+          select: { amount: true },
+        },
+      },
+    });
+
+    const budgets = await db.budget.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        status: "ACTIVE",
+      },
+      select: {
+        amount: true,
+        startDate: true,
+        endDate: true,
+        expenses: { select: { amount: true, status: true } },
+      },
+    });
+
+    const unpaidExpenses = await db.expense.findMany({
+      where: {
+        chapterId, // Ensure tenant isolation
+        status: { in: ["PENDING", "APPROVED"] },
+      },
+      select: { amount: true },
+    });
+
+    return buildCashFlowForecast(
+      {
+        currency: latestTransaction?.currency ?? DEFAULT_CURRENCY,
+        openingBalance: balance._sum.amount ?? 0,
+        // With no history to go on, expect dues to be paid in full
+        collectionRate: history.billed > 0 ? history.rate : 1,
+        monthCount,
+        unpaidDues: unpaidDues.map((dues) => ({
+          dueDate: dues.dueDate,
+          remaining: getDuesBalance(dues).remaining,
+        })),
+        // Unpaid expenses are counted on their own, so leave them out of what the budget still has to spend
+        budgets: budgets.map((budget) => {
+          const usage = getBudgetUsage(budget.amount, budget.expenses);
+          return {
+            startDate: budget.startDate,
+            endDate: budget.endDate,
+            remaining: usage.remaining - usage.pending,
+          };
+        }),
+        unpaidExpenses,
+      },
+      today
+    );
+  },
+};
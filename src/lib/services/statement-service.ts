@@ -0,0 +1,160 @@
+import { db } from "@/lib/db";
+import { DEFAULT_CURRENCY } from "@/lib/finance/money";
+import { getDuesBalance } from "@/lib/finance/dues-balance";
+import { describePaymentMethod } from "@/lib/finance/payment-methods";
+import {
+  buildStatement,
+  getBrandColor,
+  getDuesLabel,
+  MemberStatement,
+  PaymentReceipt,
+  StatementEntry,
+} from "@/lib/finance/statements";
+
+async function getBranding(chapterId: string) {
+  const chapter = await db.chapter.findUnique({
+    where: { id: chapterId },
+    select: { name: true, primaryColor: true },
+  });
+
+  if (!chapter) {
+    throw new Error("Chapter not found");
+  }
+
+  return { name: chapter.name, primaryColor: getBrandColor(chapter.primaryColor) };
+}
+
+/**
+ * Statement Service
+ * Receipts and yearly dues statements that members can download
+ */
+export const statementService = {
+  // Receipt for one payment; pass userId to only find the member's own payments
+  getPaymentReceipt: async (paymentRecordId: string, chapterId: string, userId?: string): Promise<PaymentReceipt | null> => {
+    const record = await db.duesPaymentRecord.findFirst({
+      where: {
+        id: paymentRecordId,
+        duesPayment: {
+          chapterId, // Ensure tenant isolation
+          ...(userId && { userId }),
+        },
+      },
+      include: {
+        refunds: {
+          select: { amount: true },
+        },
+        duesPayment: {
+          include: {
+            user: {
+              select: { name: true, email: true },
+            },
+            schedule: {
+              select: { name: true, installmentCount: true },
+            },
+            lateFees: {
+              where: { waivedAt: null },
+              select: { amount: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const { duesPayment } = record;
+
+    return {
+      receiptNumber: record.id.slice(-8).toUpperCase(),
+      chapter: await getBranding(chapterId),
+      member: duesPayment.user,
+      duesLabel: getDuesLabel(duesPayment),
+      amount: record.amount,
+      currency: duesPayment.currency,
+      paidAt: record.paidAt,
+      method: record.method,
+      referenceNumber: record.referenceNumber,
+      refunded: record.refunds.reduce((sum, refund) => sum + refund.amount, 0),
+      balanceRemaining: getDuesBalance(duesPayment).remaining,
+      generatedAt: new Date(),
+    };
+  },
+
+  // Everything that changed what a member owed during a calendar year
+  getMemberStatement: async (userId: string, chapterId: string, year: number): Promise<MemberStatement> => {
+    const [chapter, membership, duesPayments] = await Promise.all([
+      getBranding(chapterId),
+      db.membership.findFirst({
+        where: {
+          userId,
+          chapterId, // Ensure tenant isolation
+        },
+        include: {
+          user: {
+            select: { name: true, email: true },
+          },
+        },
+      }),
+      db.duesPayment.findMany({
+        where: {
+          userId,
+          chapterId, // Ensure tenant isolation
+        },
+        include: {
+          schedule: {
+            select: { name: true, installmentCount: true },
+          },
+          lateFees: {
+            where: { waivedAt: null },
+          },
+          paymentRecords: {
+            include: { refunds: true },
+          },
+        },
+      }),
+    ]);
+
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+
+    const entries: StatementEntry[] = duesPayments.flatMap((duesPayment) => {
+      const label = getDuesLabel(duesPayment);
+
+      return [
+        { date: duesPayment.dueDate, description: label, amount: duesPayment.amount, kind: "DUES" as const },
+        ...duesPayment.lateFees.map((fee) => ({
+          date: fee.assessedAt,
+          description: `Late fee · ${label}`,
+          amount: fee.amount,
+          kind: "LATE_FEE" as const,
+        })),
+        ...duesPayment.paymentRecords.flatMap((record) => [
+          {
+            date: record.paidAt,
+            description: `Payment · ${describePaymentMethod(record.method, record.referenceNumber)}`,
+            amount: -record.amount,
+            kind: "PAYMENT" as const,
+          },
+          ...record.refunds.map((refund) => ({
+            date: refund.refundedAt,
+            description: refund.reason ? `Refund · ${refund.reason}` : "Refund",
+            amount: refund.amount,
+            kind: "REFUND" as const,
+          })),
+        ]),
+      ];
+    });
+
+    return {
+      chapter,
+      member: membership.user,
+      year,
+      currency: duesPayments[0]?.currency ?? DEFAULT_CURRENCY,
+      ...buildStatement(entries, year),
+      generatedAt: new Date(),
+    };
+  },
+};
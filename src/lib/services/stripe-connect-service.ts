@@ -0,0 +1,136 @@
+import Stripe from "stripe";
+import stripe from "@/lib/stripe";
+import { db } from "@/lib/db";
+import { getStripeConnectStatus } from "@/lib/finance/stripe-connect";
+
+async function findChapter(chapterId: string) {
+  const chapter = await db.chapter.findUnique({
+    where: { id: chapterId },
+  });
+
+  if (!chapter) {
+    throw new Error("Chapter not found");
+  }
+
+  return chapter;
+}
+
+// Copy Stripe's view of the account onto the chapter
+async function saveAccountState(account: Stripe.Account) {
+  return db.chapter.update({
+    where: { stripeAccountId: account.id },
+    data: {
+      stripeDetailsSubmitted: account.details_submitted ?? false,
+      stripeChargesEnabled: account.charges_enabled ?? false,
+      stripePayoutsEnabled: account.payouts_enabled ?? false,
+    },
+  });
+}
+
+/**
+ * Stripe Connect Service
+ * Onboards chapters onto their own Stripe account so dues are paid out to the chapter
+ */
+export const stripeConnectService = {
+  // Onboarding status, plus balance and recent payouts once the account can be paid out
+  getAccount: async (chapterId: string) => {
+    let chapter = await findChapter(chapterId);
+
+    if (!chapter.stripeAccountId) {
+      return { status: getStripeConnectStatus(chapter), requirementsDue: [], balance: null, payouts: [] };
+    }
+
+    // Refresh from Stripe, e.g. straight after returning from onboarding
+    const account = await stripe.accounts.retrieve(chapter.stripeAccountId);
+    chapter = await saveAccountState(account);
+
+    const status = getStripeConnectStatus(chapter);
+    const requirementsDue = account.requirements?.currently_due ?? [];
+
+    if (!chapter.stripePayoutsEnabled) {
+      return { status, requirementsDue, balance: null, payouts: [] };
+    }
+
+    const options = { stripeAccount: account.id };
+    const [balance, payouts] = await Promise.all([
+      stripe.balance.retrieve({}, options),
+      stripe.payouts.list({ limit: 5 }, options),
+    ]);
+
+    return {
+      status,
+      requirementsDue,
+      balance: {
+        available: balance.available.map(({ amount, currency }) => ({ amount, currency: currency.toUpperCase() })),
+        pending: balance.pending.map(({ amount, currency }) => ({ amount, currency: currency.toUpperCase() })),
+      },
+      payouts: payouts.data.map((payout) => ({
+        id: payout.id,
+        amount: payout.amount, // Minor units
+        currency: payout.currency.toUpperCase(),
+        status: payout.status,
+        arrivalDate: new Date(payout.arrival_date * 1000),
+      })),
+    };
+  },
+
+  // Link to Stripe's hosted onboarding, creating the chapter's account the first time
+  createOnboardingLink: async (chapterId: string) => {
+    const chapter = await findChapter(chapterId);
+    let accountId = chapter.stripeAccountId;
+
+    if (!accountId) {
+      const account = await stripe.accounts.create({
+        type: "express",
+        business_profile: { name: chapter.name },
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+        },
+        metadata: { chapterId },
+      });
+
+      accountId = account.id;
+      await db.chapter.update({
+        where: { id: chapterId },
+        data: { stripeAccountId: accountId },
+      });
+    }
+
+    const financeUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/${chapter.slug}/admin/finance`;
+    const link = await stripe.accountLinks.create({
+      account: accountId,
+      type: "account_onboarding",
+      refresh_url: `${financeUrl}?stripe=refresh`, // Expired links send the admin back to start again
+      return_url: `${financeUrl}?stripe=return`,
+    });
+
+    return { url: link.url };
+  },
+
+  // One-time link into the Stripe Express dashboard for bank details and payout history
+  createDashboardLink: async (chapterId: string) => {
+    const chapter = await findChapter(chapterId);
+
+    if (!chapter.stripeAccountId || !chapter.stripeDetailsSubmitted) {
+      throw new Error("Finish setting up Stripe before opening the Stripe dashboard");
+    }
+
+    const link = await stripe.accounts.createLoginLink(chapter.stripeAccountId);
+
+    return { url: link.url };
+  },
+
+  // Keep the chapter in step with account.updated webhooks
+  syncAccount: async (account: Stripe.Account) => {
+    const chapter = await db.chapter.findUnique({
+      where: { stripeAccountId: account.id },
+    });
+
+    if (!chapter) {
+      return null;
+    }
+
+    return saveAccountState(account);
+  },
+};
@@ -0,0 +1,577 @@
+import { db } from "@/lib/db";
+import { logFinanceAuditEntry } from "@/lib/audit";
+import { MembershipRole, Prisma, TransactionType } from "@/generated/prisma";
+import { randomInt } from "crypto";
+import { format } from "date-fns";
+import stripe from "@/lib/stripe";
+import { sendEmail } from "@/lib/mail";
+import { getChapterTransferOptions } from "@/lib/finance/stripe-connect";
+import { getBrandColor } from "@/lib/finance/statements";
+import { EventTicketOption, getTicketAvailability } from "@/lib/finance/event-tickets";
+import { postTransactionToLedger } from "@/lib/services/ledger-service";
+import { assertPeriodsOpen } from "@/lib/services/fiscal-period-service";
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+// Letters and digits that can't be mistaken for one another when read aloud or typed
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Random ticket code in two groups, e.g. "7KQ2M-XH4PA"
+ */
+function generateTicketCode(): string {
+  const characters = Array.from({ length: 10 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]);
+  return `${characters.slice(0, 5).join("")}-${characters.slice(5).join("")}`;
+}
+
+/**
+ * Ticket types of the given events with how many of each have been issued
+ * and whether they can still be bought
+ */
+async function getTicketTypesWithAvailability(eventIds: string[]) {
+  const events = await db.event.findMany({
+    where: { id: { in: eventIds } },
+    select: {
+      id: true,
+      status: true,
+      endDate: true,
+      capacity: true,
+      ticketTypes: { orderBy: { price: "asc" } },
+    },
+  });
+
+  const soldByType = await db.eventTicket.groupBy({
+    by: ["ticketTypeId"],
+    where: { eventId: { in: eventIds } },
+    _count: { _all: true },
+  });
+  const sold = new Map(soldByType.map((group) => [group.ticketTypeId, group._count._all]));
+
+  return new Map(
+    events.map((event) => {
+      const ticketsSold = event.ticketTypes.reduce((sum, ticketType) => sum + (sold.get(ticketType.id) ?? 0), 0);
+
+      return [
+        event.id,
+        event.ticketTypes.map((ticketType) => ({
+          ...ticketType,
+          sold: sold.get(ticketType.id) ?? 0,
+          availability: getTicketAvailability(
+            { ...ticketType, sold: sold.get(ticketType.id) ?? 0 },
+            { ...event, ticketsSold }
+          ),
+        })),
+      ];
+    })
+  );
+}
+
+// Whether the user is an approved member of the chapter
+async function isChapterMember(userId: string | null | undefined, chapterId: string) {
+  if (!userId) {
+    return false;
+  }
+
+  const membership = await db.membership.findUnique({
+    where: { userId_chapterId: { userId, chapterId } },
+    select: { role: true },
+  });
+
+  return !!membership && membership.role !== MembershipRole.PENDING_MEMBER;
+}
+
+// Email the buyer their ticket codes; failures are logged, not thrown
+async function sendTickets(orderId: string) {
+  const order = await db.eventTicketOrder.findUnique({
+    where: { id: orderId },
+    include: {
+      tickets: { select: { code: true } },
+      ticketType: { select: { name: true } },
+      event: { select: { title: true, startDate: true, location: true } },
+      chapter: { select: { name: true, primaryColor: true } },
+    },
+  });
+
+  if (!order) {
+    return;
+  }
+
+  const emailResult = await sendEmail(order.buyerEmail, "eventTickets", {
+    chapterName: order.chapter.name,
+    brandColor: getBrandColor(order.chapter.primaryColor),
+    name: order.buyerName,
+    eventTitle: order.event.title,
+    eventDate: format(order.event.startDate, "EEEE, MMMM d, yyyy 'at' h:mm a"),
+    eventLocation: order.event.location,
+    ticketTypeName: order.ticketType.name,
+    ticketCodes: order.tickets.map((ticket) => ticket.code),
+  });
+
+  // Log the email in the database
+  await db.messageLog.create({
+    data: {
+      messageId: emailResult.info?.id || `email-${Date.now()}-${order.id}`,
+      type: "EMAIL",
+      recipient: order.buyerEmail,
+      content: `${order.tickets.length} ticket(s) for ${order.event.title}`,
+      status: emailResult.success ? "sent" : "failed",
+      chapterId: order.chapterId,
+    },
+  });
+}
+
+/**
+ * Ticket Service
+ * Paid and free event tickets sold through Stripe, with a code per ticket
+ */
+export const ticketService = {
+  /**
+   * Ticket Types
+   */
+  getTicketTypes: async (eventId: string, chapterId: string) => {
+    const event = await db.event.findFirst({
+      where: {
+        id: eventId,
+        chapterId, // Ensure tenant isolation
+      },
+      select: { id: true },
+    });
+
+    if (!event) {
+      throw new Error("Event not found");
+    }
+
+    const ticketTypes = await getTicketTypesWithAvailability([event.id]);
+    return ticketTypes.get(event.id) ?? [];
+  },
+
+  createTicketType: async (
+    eventId: string,
+    chapterId: string,
+    data: {
+      name: string;
+      description?: string | null;
+      price: number;
+      currency?: string;
+      quantity?: number | null;
+      membersOnly: boolean;
+      salesEndAt?: Date | null;
+    }
+  ) => {
+    const event = await db.event.findFirst({
+      where: {
+        id: eventId,
+        chapterId, // Ensure tenant isolation
+      },
+    });
+
+    if (!event) {
+      throw new Error("Event not found");
+    }
+
+    return db.eventTicketType.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        price: data.price,
+        currency: data.currency,
+        quantity: data.quantity ?? null,
+        membersOnly: data.membersOnly,
+        salesEndAt: data.salesEndAt ?? null,
+        eventId: event.id,
+      },
+    });
+  },
+
+  updateTicketType: async (
+    ticketTypeId: string,
+    eventId: string,
+    chapterId: string,
+    data: {
+      name?: string;
+      description?: string | null;
+      price?: number;
+      currency?: string;
+      quantity?: number | null;
+      membersOnly?: boolean;
+      salesEndAt?: Date | null;
+    }
+  ) => {
+    const ticketType = await db.eventTicketType.findFirst({
+      where: {
+        id: ticketTypeId,
+        eventId,
+        event: { chapterId }, // Ensure tenant isolation
+      },
+      include: {
+        _count: { select: { tickets: true } },
+      },
+    });
+
+    if (!ticketType) {
+      throw new Error("Ticket type not found");
+    }
+
+    if (data.currency && data.currency !== ticketType.currency && ticketType._count.tickets > 0) {
+      throw new Error("The currency of a ticket type that has been sold cannot be changed");
+    }
+
+    if (data.quantity != null && data.quantity < ticketType._count.tickets) {
+      throw new Error(`${ticketType._count.tickets} tickets have already been issued; the quantity cannot be lower`);
+    }
+
+    return db.eventTicketType.update({
+      where: { id: ticketType.id },
+      data: {
+        name: data.name,
+        description: data.description,
+        price: data.price,
+        currency: data.currency,
+        quantity: data.quantity,
+        membersOnly: data.membersOnly,
+        salesEndAt: data.salesEndAt,
+      },
+    });
+  },
+
+  // Ticket types that have been sold are closed instead, so their orders keep their type
+  deleteTicketType: async (ticketTypeId: string, eventId: string, chapterId: string) => {
+    const ticketType = await db.eventTicketType.findFirst({
+      where: {
+        id: ticketTypeId,
+        eventId,
+        event: { chapterId }, // Ensure tenant isolation
+      },
+      include: {
+        _count: { select: { orders: true } },
+      },
+    });
+
+    if (!ticketType) {
+      throw new Error("Ticket type not found");
+    }
+
+    if (ticketType._count.orders > 0) {
+      throw new Error("Ticket types that have been sold cannot be deleted; end their sales instead");
+    }
+
+    return db.eventTicketType.delete({
+      where: { id: ticketType.id },
+    });
+  },
+
+  /**
+   * Orders and Tickets
+   */
+  getTicketOrders: async (eventId: string, chapterId: string) => {
+    return db.eventTicketOrder.findMany({
+      where: {
+        eventId,
+        chapterId, // Ensure tenant isolation
+      },
+      orderBy: { createdAt: "desc" },
+      include: {
+        ticketType: { select: { id: true, name: true } },
+        tickets: { select: { id: true, code: true, issuedAt: true } },
+        user: { select: userSelect },
+      },
+    });
+  },
+
+  // Ticket types on sale for each event, keyed by event ID, for the public events list and the portal
+  getTicketsForEvents: async (eventIds: string[]): Promise<Record<string, EventTicketOption[]>> => {
+    const ticketTypes = await getTicketTypesWithAvailability(eventIds);
+
+    return Object.fromEntries(
+      [...ticketTypes.entries()].map(([eventId, types]) => [
+        eventId,
+        types.map((ticketType) => ({
+          id: ticketType.id,
+          name: ticketType.name,
+          description: ticketType.description,
+          price: ticketType.price,
+          currency: ticketType.currency,
+          membersOnly: ticketType.membersOnly,
+          salesEndAt: ticketType.salesEndAt,
+          availability: ticketType.availability,
+        })),
+      ])
+    );
+  },
+
+  // Tickets the member bought while signed in, soonest event first
+  getMyTickets: async (userId: string, chapterId: string) => {
+    return db.eventTicketOrder.findMany({
+      where: {
+        userId,
+        chapterId, // Ensure tenant isolation
+      },
+      orderBy: { event: { startDate: "asc" } },
+      include: {
+        event: { select: { id: true, title: true, startDate: true, endDate: true, location: true, status: true } },
+        ticketType: { select: { name: true } },
+        tickets: { select: { id: true, code: true } },
+      },
+    });
+  },
+
+  /**
+   * Stripe Checkout
+   */
+  // Public events sell to anyone; private events, members-only tickets and free
+  // tickets need a signed-in member. Free tickets go to the member's own email.
+  createTicketCheckout: async (data: {
+    chapterSlug: string;
+    eventId: string;
+    ticketTypeId: string;
+    quantity: number;
+    buyerName: string;
+    buyerEmail: string;
+    userId?: string | null;
+  }) => {
+    const ticketType = await db.eventTicketType.findFirst({
+      where: {
+        id: data.ticketTypeId,
+        eventId: data.eventId,
+        event: { chapter: { slug: data.chapterSlug } },
+      },
+      include: {
+        event: { include: { chapter: true } },
+      },
+    });
+
+    if (!ticketType) {
+      throw new Error("Ticket type not found");
+    }
+
+    const { event } = ticketType;
+    const isMember = await isChapterMember(data.userId, event.chapterId);
+
+    if ((!event.isPublic || ticketType.membersOnly) && !isMember) {
+      throw new Error("These tickets are only available to chapter members");
+    }
+
+    // Nothing is paid for free tickets, so they would otherwise email anyone's address
+    const amount = ticketType.price * data.quantity;
+    if (amount === 0 && !isMember) {
+      throw new Error("Sign in to the chapter portal to get free tickets");
+    }
+
+    const availability = (await getTicketTypesWithAvailability([event.id]))
+      .get(event.id)
+      ?.find((type) => type.id === ticketType.id)?.availability;
+
+    if (!availability?.isOnSale) {
+      throw new Error(availability?.reason ?? "These tickets are not on sale");
+    }
+
+    if (availability.remaining !== null && data.quantity > availability.remaining) {
+      throw new Error(`Only ${availability.remaining} tickets are left`);
+    }
+
+    const member = amount === 0 && data.userId
+      ? await db.user.findUnique({ where: { id: data.userId }, select: { email: true } })
+      : null;
+
+    // Stripe metadata values are strings of at most 500 characters
+    const metadata = {
+      ticketTypeId: ticketType.id,
+      eventId: event.id,
+      chapterId: event.chapterId,
+      quantity: String(data.quantity),
+      buyerName: data.buyerName,
+      buyerEmail: member?.email ?? data.buyerEmail,
+      ...(data.userId && { userId: data.userId }),
+    };
+    const pageUrl = isMember
+      ? `${process.env.NEXT_PUBLIC_BASE_URL}/${event.chapter.slug}/portal/events`
+      : `${process.env.NEXT_PUBLIC_BASE_URL}/${event.chapter.slug}`;
+
+    // Free tickets are issued straight away
+    if (amount === 0) {
+      await ticketService.recordTicketOrder(null, 0, metadata);
+      return { url: `${pageUrl}?tickets=purchased` };
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      customer_email: data.buyerEmail,
+      metadata,
+      payment_intent_data: {
+        metadata,
+        ...getChapterTransferOptions(event.chapter, amount),
+      },
+      line_items: [
+        {
+          price_data: {
+            currency: ticketType.currency.toLowerCase(),
+            product_data: {
+              name: `${event.title} - ${ticketType.name}`,
+              description: `${event.chapter.name} event ticket`,
+            },
+            unit_amount: ticketType.price, // Already in minor units
+          },
+          quantity: data.quantity,
+        },
+      ],
+      mode: "payment",
+      success_url: `${pageUrl}?tickets=purchased`,
+      cancel_url: pageUrl,
+    });
+
+    return { sessionId: session.id, url: session.url };
+  },
+
+  // Issue the tickets of a completed purchase with its income transaction.
+  // Webhooks can be delivered more than once; each Stripe payment is recorded
+  // only once. Tickets paid for are always issued, even if the last ones sold
+  // while the buyer was at checkout.
+  recordTicketOrder: async (
+    stripePaymentId: string | null,
+    amount: number,
+    metadata: Record<string, string>,
+    platformFee?: number | null
+  ) => {
+    const { ticketTypeId, eventId, chapterId } = metadata;
+    const quantity = Number(metadata.quantity);
+
+    if (!ticketTypeId || !eventId || !chapterId || !Number.isInteger(quantity) || quantity < 1) {
+      throw new Error("Missing metadata in Stripe payment");
+    }
+
+    if (stripePaymentId) {
+      const existing = await db.eventTicketOrder.findUnique({
+        where: { stripePaymentId },
+      });
+
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const ticketType = await db.eventTicketType.findFirst({
+      where: {
+        id: ticketTypeId,
+        eventId,
+        event: { chapterId }, // Ensure tenant isolation
+      },
+      include: { event: { select: { title: true } } },
+    });
+
+    if (!ticketType) {
+      throw new Error("Ticket type not found");
+    }
+
+    const purchasedAt = new Date();
+    const buyerName = metadata.buyerName || "Guest";
+
+    const order = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (amount > 0) {
+        await assertPeriodsOpen(tx, chapterId, [purchasedAt], "This ticket sale");
+      }
+
+      const order = await tx.eventTicketOrder.create({
+        data: {
+          quantity,
+          amount,
+          currency: ticketType.currency,
+          buyerName,
+          buyerEmail: metadata.buyerEmail,
+          stripePaymentId,
+          eventId,
+          ticketTypeId: ticketType.id,
+          chapterId,
+          userId: metadata.userId || null,
+          tickets: {
+            create: Array.from({ length: quantity }, () => ({
+              code: generateTicketCode(),
+              eventId,
+              ticketTypeId: ticketType.id,
+            })),
+          },
+        },
+      });
+
+      if (amount > 0) {
+        const transaction = await tx.transaction.create({
+          data: {
+            amount,
+            currency: ticketType.currency,
+            type: TransactionType.INCOME,
+            description: `${quantity} × ${ticketType.name} ticket for ${ticketType.event.title} from ${buyerName}`,
+            chapterId,
+            eventId,
+            ticketOrderId: order.id,
+            processedAt: purchasedAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, transaction);
+      }
+
+      if (platformFee) {
+        const feeTransaction = await tx.transaction.create({
+          data: {
+            amount: -platformFee, // Negative amount for outgoing fee
+            currency: ticketType.currency,
+            type: TransactionType.EXPENSE,
+            description: `Platform fee on tickets for ${ticketType.event.title} from ${buyerName}`,
+            chapterId,
+            eventId,
+            ticketOrderId: order.id,
+            processedAt: purchasedAt,
+          },
+        });
+
+        await postTransactionToLedger(tx, feeTransaction);
+      }
+
+      return order;
+    });
+
+    // Only paid orders touch the books; guest buyers are logged without an account
+    if (amount > 0) {
+      await logFinanceAuditEntry({
+        userId: order.userId,
+        chapterId,
+        action: "ticket_order.recorded",
+        targetType: "ticket_order",
+        targetId: order.id,
+        after: order,
+        metadata: { eventId, ...(platformFee && { platformFee }) },
+      });
+    }
+
+    // Sent once the order is saved so a slow email can't roll it back
+    await sendTickets(order.id);
+
+    return order;
+  },
+
+  // Process a completed ticket checkout from the Stripe webhook
+  processTicketCheckout: async (sessionId: string) => {
+    const session = await stripe.checkout.sessions.retrieve(sessionId, {
+      expand: ["payment_intent"],
+    });
+
+    const paymentIntent = typeof session.payment_intent === "string" ? null : session.payment_intent;
+    const paymentIntentId = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      throw new Error("Payment intent not found");
+    }
+
+    return ticketService.recordTicketOrder(
+      paymentIntentId,
+      session.amount_total ?? 0, // Stripe amounts are already in minor units
+      session.metadata ?? {},
+      paymentIntent?.application_fee_amount
+    );
+  },
+};
@@ -0,0 +1,191 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * File storage used for uploads such as expense receipts. The backend is
+ * chosen with STORAGE_DRIVER: "local" (default) writes to the filesystem for
+ * development, "s3" talks to any S3-compatible service.
+ */
+export interface StorageProvider {
+  putObject(key: string, body: Buffer, contentType: string): Promise<void>;
+  getObject(key: string): Promise<Buffer | null>;
+  deleteObject(key: string): Promise<void>;
+}
+
+/**
+ * Stores files under STORAGE_LOCAL_PATH (default ./.uploads). Files are kept
+ * out of /public so they are only served through authorised routes.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+
+    // Keys come from our own code, but never let one escape the storage root
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+
+    return filePath;
+  }
+
+  async putObject(key: string, body: Buffer) {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async getObject(key: string) {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string) {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // Set for S3-compatible services such as R2 or MinIO
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// S3 expects RFC 3986 encoding of every path segment
+const encodeKey = (key: string) =>
+  key
+    .split('/')
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join('/');
+
+/**
+ * Minimal S3 client signing requests with AWS Signature Version 4, which every
+ * S3-compatible service accepts
+ */
+export class S3StorageProvider implements StorageProvider {
+  constructor(private readonly config: S3Config) {}
+
+  private getObjectUrl(key: string) {
+    // Custom endpoints use path-style URLs; AWS uses virtual-hosted buckets
+    return this.config.endpoint
+      ? new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${encodeKey(key)}`)
+      : new URL(`https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${encodeKey(key)}`);
+  }
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const url = this.getObjectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const requestHeaders: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    };
+
+    // The host is signed but set by fetch itself
+    const headers: Record<string, string> = { host: url.host, ...requestHeaders };
+
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers)
+      .sort()
+      .map((name) => `${name}:${headers[name]}\n`)
+      .join('');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'),
+      'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async putObject(key: string, body: Buffer, contentType: string) {
+    const res = await this.send('PUT', key, body, contentType);
+    if (!res.ok) {
+      throw new Error(`Failed to upload ${key} to storage (${res.status})`);
+    }
+  }
+
+  async getObject(key: string) {
+    const res = await this.send('GET', key);
+    if (res.status === 404) {
+      return null;
+    }
+    if (!res.ok) {
+      throw new Error(`Failed to read ${key} from storage (${res.status})`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async deleteObject(key: string) {
+    const res = await this.send('DELETE', key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Failed to delete ${key} from storage (${res.status})`);
+    }
+  }
+}
+
+let storageProvider: StorageProvider | null = null;
+
+export function getStorageProvider(): StorageProvider {
+  if (storageProvider) {
+    return storageProvider;
+  }
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_ENDPOINT } = process.env;
+
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    storageProvider = new S3StorageProvider({
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: S3_ENDPOINT,
+    });
+  } else {
+    storageProvider = new LocalStorageProvider(
+      process.env.STORAGE_LOCAL_PATH || path.join(process.cwd(), '.uploads')
+    );
+  }
+
+  return storageProvider;
+}
@@ -0,0 +1,36 @@
+/**
+ * Build CSV text (RFC 4180) from rows of cells
+ */
+
+type CsvCell = string | number | boolean | Date | null | undefined;
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+function escapeCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) {
+    return "";
+  }
+
+  if (typeof cell === "number" || typeof cell === "boolean") {
+    return String(cell);
+  }
+
+  let text = cell instanceof Date ? cell.toISOString() : cell;
+
+  // Neutralise formula injection from user-entered text such as descriptions
+  if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Join rows into CSV text with CRLF line endings
+ * @param rows Rows of cells; the first row is usually the header
+ * @returns CSV text
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -2,24 +2,28 @@
  * Utility functions for formatting data in the application
  */
 
+import { DEFAULT_CURRENCY, fromMinorUnits, getCurrencyExponent } from "@/lib/finance/money";
+
 /**
- * Format a currency value to USD format
- * @param value Number to format as currency
+ * Format an amount stored in minor units (e.g. cents) as currency
+ * @param value Amount in the currency's minor units
+ * @param currency ISO 4217 currency code (default: 'USD')
  * @param locale Locale for formatting (default: 'en-US')
- * @param currency Currency code (default: 'USD')
  * @returns Formatted currency string
  */
 export function formatCurrency(
   value: number,
-  locale = "en-US",
-  currency = "USD"
+  currency = DEFAULT_CURRENCY,
+  locale = "en-US"
 ): string {
+  const exponent = getCurrencyExponent(currency);
+
   return new Intl.NumberFormat(locale, {
     style: "currency",
     currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(fromMinorUnits(value, currency));
 }
 
 /**
@@ -52,3 +52,15 @@ export const rsvpSchema = z.object({
 });
 
 export type RsvpFormValues = z.infer<typeof rsvpSchema>;
+
+// Check a member in by their scanned code or, when searched by name, their user ID
+export const checkInSchema = z
+  .object({
+    code: z.string().trim().min(1).optional(),
+    userId: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.userId), {
+    message: "Provide either a check-in code or a member",
+  });
+
+export type CheckInValues = z.infer<typeof checkInSchema>;
@@ -1,37 +1,125 @@
 import * as z from "zod";
-import { TransactionType, ExpenseStatus, BudgetStatus } from "@/generated/prisma";
+import { TransactionType, ExpenseStatus, BudgetStatus, DuesScheduleFrequency, LateFeeType, LateFeeRecurrence, LedgerAccountType, MembershipRole, PaymentMethod, CampaignStatus, DuesAdjustmentType } from "@/generated/prisma";
+import { OFFLINE_PAYMENT_METHODS } from "@/lib/finance/payment-methods";
+import { MAX_TICKETS_PER_ORDER } from "@/lib/finance/event-tickets";
+
+// Money is sent and stored as integer minor units (cents for USD)
+const minorUnitsSchema = z.coerce.number().int("Amount must be a whole number of minor units (e.g. cents)");
+
+// ISO 4217 currency code, e.g. "USD"
+export const currencySchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO 4217 code")
+  .transform((currency) => currency.toUpperCase());
+
 // Budget schema
 export const budgetSchema = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional().nullable(),
   startDate: z.coerce.date(),
   endDate: z.coerce.date(),
-  amount: z.coerce.number().positive("Budget amount must be positive"),
+  amount: minorUnitsSchema.positive("Budget amount must be positive"),
+  currency: currencySchema.optional(),
   status: z.nativeEnum(BudgetStatus).default("PLANNING"),
   chapterId: z.string().cuid("Invalid chapter ID"),
 });
 
+// Budget line item schema; line items split the budget amount into categories
+export const budgetLineItemSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional().nullable(),
+  amount: minorUnitsSchema.positive("Line item amount must be positive"),
+  budgetId: z.string().cuid("Invalid budget ID"),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Receipt uploads: photos of paper receipts and PDF invoices
+export const RECEIPT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "application/pdf",
+] as const;
+export type ReceiptContentType = (typeof RECEIPT_CONTENT_TYPES)[number];
+// Stored receipts are named by their content type, never by the uploaded file name
+export const RECEIPT_FILE_EXTENSIONS: Record<ReceiptContentType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "application/pdf": "pdf",
+};
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+export const receiptFileSchema = z
+  .custom<File>((value) => typeof File !== "undefined" && value instanceof File, "Receipt must be a file")
+  .refine((file) => file.size > 0, "Receipt file is empty")
+  .refine((file) => file.size <= MAX_RECEIPT_SIZE, "Receipt must be 10 MB or smaller")
+  .refine(
+    (file) => (RECEIPT_CONTENT_TYPES as readonly string[]).includes(file.type),
+    "Receipt must be a JPEG, PNG, WebP or HEIC image or a PDF"
+  );
+
 // Expense schema
 export const expenseSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional().nullable(),
-  amount: z.coerce.number().positive("Expense amount must be positive"),
+  amount: minorUnitsSchema.positive("Expense amount must be positive"),
+  currency: currencySchema.optional(),
   receiptUrl: z.string().url().optional().nullable(),
+  receiptFile: receiptFileSchema.optional(), // Uploaded as multipart form data
   status: z.nativeEnum(ExpenseStatus).default("PENDING"),
   budgetId: z.string().cuid("Invalid budget ID").optional().nullable(),
+  lineItemId: z.string().cuid("Invalid line item ID").optional().nullable(),
   chapterId: z.string().cuid("Invalid chapter ID"),
 });
 
 // Expense approval schema
-export const expenseApprovalSchema = z.object({
-  expenseId: z.string().cuid("Invalid expense ID"),
-  status: z.enum(["APPROVED", "DENIED", "PAID"]),
-  chapterId: z.string().cuid("Invalid chapter ID"),
-});
+export const expenseApprovalSchema = z
+  .object({
+    expenseId: z.string().cuid("Invalid expense ID"),
+    status: z.enum(["APPROVED", "DENIED", "PAID"]),
+    comment: z.string().max(1000, "Comment is too long").optional().nullable(),
+    chapterId: z.string().cuid("Invalid chapter ID"),
+  })
+  .refine((data) => data.status !== "DENIED" || !!data.comment?.trim(), {
+    message: "A comment is required when denying an expense",
+    path: ["comment"],
+  });
+
+// Expense approval rule schema. Amounts are minor units; the maximum is exclusive.
+export const expenseApprovalRuleSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    minAmount: minorUnitsSchema.nonnegative("Minimum amount cannot be negative"),
+    maxAmount: minorUnitsSchema.positive("Maximum amount must be positive").optional().nullable(),
+    isActive: z.boolean().default(true),
+    steps: z
+      .array(
+        z
+          .object({
+            name: z.string().min(1, "Step name is required"),
+            approverId: z.string().cuid("Invalid approver ID").optional().nullable(),
+            approverRole: z.nativeEnum(MembershipRole).optional().nullable(),
+          })
+          .refine((step) => !!step.approverId !== !!step.approverRole, {
+            message: "Choose either an approver or a role for each step",
+          })
+      )
+      .min(1, "Add at least one approval step")
+      .max(10, "An approval chain can have at most 10 steps"),
+    chapterId: z.string().cuid("Invalid chapter ID"),
+  })
+  .refine((data) => data.maxAmount === null || data.maxAmount === undefined || data.maxAmount > data.minAmount, {
+    message: "Maximum amount must be greater than the minimum",
+    path: ["maxAmount"],
+  });
 
 // Dues payment schema
 export const duesPaymentSchema = z.object({
-  amount: z.coerce.number().positive("Payment amount must be positive"),
+  amount: minorUnitsSchema.positive("Payment amount must be positive"),
+  currency: currencySchema.optional(),
   dueDate: z.coerce.date(),
   userId: z.string().cuid("Invalid user ID"),
   chapterId: z.string().cuid("Invalid chapter ID"),
@@ -39,7 +127,8 @@ export const duesPaymentSchema = z.object({
 
 // Transaction schema
 export const transactionSchema = z.object({
-  amount: z.coerce.number(),
+  amount: minorUnitsSchema,
+  currency: currencySchema.optional(),
   type: z.nativeEnum(TransactionType),
   description: z.string().optional().nullable(),
   metadata: z.record(z.any()).optional().nullable(),
@@ -49,19 +138,239 @@ export const transactionSchema = z.object({
 });
 
 // Schema for bulk creating dues payments
-export const bulkDuesPaymentSchema = z.object({
-  amount: z.coerce.number().positive("Payment amount must be positive"),
-  dueDate: z.coerce.date(),
+export const bulkDuesPaymentSchema = z
+  .object({
+    amount: minorUnitsSchema.positive("Payment amount must be positive").optional(),
+    currency: currencySchema.optional(),
+    dueDate: z.coerce.date(),
+    chapterId: z.string().cuid("Invalid chapter ID"),
+    memberIds: z.array(z.string().cuid("Invalid member ID")),
+    // Charge each member their dues category's default amount; the amount above covers members without one
+    useCategoryAmounts: z.boolean().default(false),
+  })
+  .refine((data) => data.useCategoryAmounts || data.amount !== undefined, {
+    message: "Amount is required",
+    path: ["amount"],
+  });
+
+// Schema for a member dues category such as new members, actives or seniors
+export const duesCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  description: z.string().max(1000, "Description is too long").optional().nullable(),
+  defaultAmount: minorUnitsSchema.positive("Default amount must be positive"),
+  currency: currencySchema.optional(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for moving members into a dues category, or out of one with a null category
+export const duesCategoryAssignmentSchema = z.object({
+  memberIds: z.array(z.string().cuid("Invalid member ID")).min(1, "Select at least one member"),
+  duesCategoryId: z.string().cuid("Invalid dues category ID").nullable(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Dues schedule schema
+export const duesScheduleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional().nullable(),
+  totalAmount: minorUnitsSchema.positive("Total amount must be positive"),
+  currency: currencySchema.optional(),
+  installmentCount: z.coerce
+    .number()
+    .int("Installments must be a whole number")
+    .min(1, "At least one installment is required")
+    .max(24, "A schedule can have at most 24 installments"),
+  frequency: z.nativeEnum(DuesScheduleFrequency).default("MONTHLY"),
+  firstDueDate: z.coerce.date(),
+  isActive: z.boolean().default(true),
+  includeNewMembers: z.boolean().default(true),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Late fee rule schema
+// FLAT amounts are in minor units; PERCENTAGE amounts are basis points of the dues amount (e.g. 500 for 5%)
+export const lateFeeRuleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  graceDays: z.coerce.number().int().min(0, "Grace period cannot be negative"),
+  feeType: z.nativeEnum(LateFeeType).default("FLAT"),
+  amount: minorUnitsSchema.positive("Fee amount must be positive"),
+  recurrence: z.nativeEnum(LateFeeRecurrence).default("ONE_TIME"),
+  recurrenceDays: z.coerce.number().int().positive("Recurrence interval must be positive").optional().nullable(),
+  maxApplications: z.coerce.number().int().positive("Maximum applications must be positive").optional().nullable(),
+  isActive: z.boolean().default(true),
   chapterId: z.string().cuid("Invalid chapter ID"),
-  memberIds: z.array(z.string().cuid("Invalid member ID")),
+});
+
+// Dues reminder rule schema
+// offsetDays is relative to the due date: -7 is a week before, 3 is three days overdue
+export const duesReminderRuleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  offsetDays: z.coerce.number().int().min(-90, "Reminders can start at most 90 days early").max(90, "Reminders can run at most 90 days late"),
+  sendEmail: z.boolean().default(true),
+  sendSms: z.boolean().default(false),
+  message: z.string().max(1000, "Message is too long").optional().nullable(),
+  isActive: z.boolean().default(true),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for recording a full or partial payment received outside Stripe
+export const duesPaymentRecordSchema = z.object({
+  amount: minorUnitsSchema.positive("Payment amount must be positive").optional(), // Omit to pay the full remaining balance
+  paidAt: z.coerce.date().optional(),
+  note: z.string().max(500, "Note is too long").optional().nullable(),
+  method: z.enum(OFFLINE_PAYMENT_METHODS).default(PaymentMethod.OTHER),
+  referenceNumber: z.string().trim().max(100, "Reference number is too long").optional().nullable(),
+  receivedById: z.string().cuid("Invalid member ID").optional().nullable(),
+  sendReceipt: z.boolean().default(true),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for refunding a payment made through Stripe
+export const duesRefundSchema = z.object({
+  paymentRecordId: z.string().cuid("Invalid payment ID"),
+  amount: minorUnitsSchema.positive("Refund amount must be positive").optional(), // Omit to refund what is left of the payment
+  reason: z.string().max(500, "Reason is too long").optional().nullable(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for a member requesting a payment plan
+export const paymentPlanRequestSchema = z.object({
+  duesPaymentId: z.string().cuid("Invalid dues payment ID"),
+  installmentCount: z.coerce.number().int().min(2, "A plan needs at least 2 payments").max(12, "A plan can have at most 12 payments"),
+  frequency: z.nativeEnum(DuesScheduleFrequency).default("MONTHLY"),
+  firstPaymentDate: z.coerce.date(),
+  requestNote: z.string().max(1000, "Note is too long").optional().nullable(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for an admin approving or denying a payment plan
+export const paymentPlanReviewSchema = z.object({
+  status: z.enum(["APPROVED", "DENIED"]),
+  reviewNote: z.string().max(1000, "Note is too long").optional().nullable(),
+});
+
+// Schema for requesting a waiver, scholarship or discount on a member's dues
+export const duesAdjustmentSchema = z.object({
+  duesPaymentId: z.string().cuid("Invalid dues payment ID"),
+  type: z.nativeEnum(DuesAdjustmentType),
+  amount: minorUnitsSchema.positive("Amount must be positive"),
+  reason: z.string().trim().min(1, "A reason is required").max(1000, "Reason is too long"),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for an admin approving or denying a waiver, scholarship or discount
+export const duesAdjustmentReviewSchema = z.object({
+  status: z.enum(["APPROVED", "DENIED"]),
+  reviewNote: z.string().max(1000, "Note is too long").optional().nullable(),
 });
 
 // Schema for making a payment via Stripe
 export const stripePaymentSchema = z.object({
   duesPaymentId: z.string().cuid("Invalid dues payment ID"),
+  returnTo: z.enum(["admin", "portal"]).default("admin"), // Where Stripe sends the payer afterwards
   chapterId: z.string().cuid("Invalid chapter ID"),
 });
 
+// Ledger account schema
+export const ledgerAccountSchema = z.object({
+  code: z.string().regex(/^\d{3,6}$/, "Account code must be 3 to 6 digits"),
+  name: z.string().min(1, "Name is required"),
+  type: z.nativeEnum(LedgerAccountType),
+  description: z.string().optional().nullable(),
+  isActive: z.boolean().default(true),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for a manual journal entry; each line is either a debit or a credit
+export const journalEntrySchema = z.object({
+  date: z.coerce.date(),
+  description: z.string().min(1, "Description is required"),
+  currency: currencySchema.optional(),
+  lines: z
+    .array(
+      z.object({
+        accountId: z.string().cuid("Invalid account ID"),
+        debit: minorUnitsSchema.nonnegative().default(0),
+        credit: minorUnitsSchema.nonnegative().default(0),
+        memo: z.string().optional().nullable(),
+      })
+    )
+    .min(2, "A journal entry needs at least two lines"),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+}).refine(
+  (data) =>
+    data.lines.reduce((sum, line) => sum + line.debit, 0) ===
+    data.lines.reduce((sum, line) => sum + line.credit, 0),
+  { message: "Total debits must equal total credits", path: ["lines"] }
+);
+
+// Schema for moving money between two ledger accounts
+export const ledgerTransferSchema = z.object({
+  fromAccountId: z.string().cuid("Invalid account ID"),
+  toAccountId: z.string().cuid("Invalid account ID"),
+  amount: minorUnitsSchema.positive("Transfer amount must be positive"),
+  currency: currencySchema.optional(),
+  description: z.string().optional().nullable(),
+  date: z.coerce.date().optional(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+  message: "Choose two different accounts",
+  path: ["toAccountId"],
+});
+
+// Largest bank statement file accepted for import
+export const MAX_STATEMENT_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+// Schema for importing a CSV or OFX bank statement
+export const bankStatementImportSchema = z.object({
+  fileName: z.string().min(1, "File name is required"),
+  content: z
+    .string()
+    .min(1, "Statement file is empty")
+    .max(MAX_STATEMENT_FILE_SIZE, "Statement file is too large"),
+  currency: currencySchema.optional(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for working through a single bank statement line
+export const bankStatementLineActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("match"),
+    transactionId: z.string().cuid("Invalid transaction ID").optional().nullable(),
+    expenseId: z.string().cuid("Invalid expense ID").optional().nullable(),
+    duesPaymentId: z.string().cuid("Invalid dues payment ID").optional().nullable(),
+  }),
+  z.object({
+    action: z.literal("confirm"),
+  }),
+  z.object({
+    action: z.literal("ignore"),
+  }),
+  z.object({
+    action: z.literal("create"),
+    type: z.nativeEnum(TransactionType).refine((type) => type !== TransactionType.TRANSFER, {
+      message: "Record transfers from the ledger instead",
+    }),
+    description: z.string().optional().nullable(),
+  }),
+]);
+
+// Schema for a fiscal period such as a semester or officer term
+export const fiscalPeriodSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+});
+
+// Schema for locking, unlocking or closing a fiscal period
+export const fiscalPeriodActionSchema = z.object({
+  action: z.enum(["lock", "unlock", "close"]),
+});
+
 // Schema for filtering transactions
 export const transactionFilterSchema = z.object({
   startDate: z.coerce.date().optional(),
@@ -69,3 +378,136 @@ export const transactionFilterSchema = z.object({
   type: z.nativeEnum(TransactionType).optional(),
   chapterId: z.string().cuid("Invalid chapter ID"),
 });
+
+// Filters for the dues list and its export
+export const duesListQuerySchema = z.object({
+  status: z.preprocess(
+    (status) => (typeof status === "string" ? status.toLowerCase() : status),
+    z.enum(["paid", "pending"]).optional()
+  ),
+});
+
+// Filters for the expenses list and its export
+export const expenseListQuerySchema = z.object({
+  status: z.nativeEnum(ExpenseStatus).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  budgetId: z.string().cuid("Invalid budget ID").optional(),
+});
+
+// Filters for the budgets list and its export
+export const budgetListQuerySchema = z.object({
+  status: z.nativeEnum(BudgetStatus).optional(),
+});
+
+// Filters for the transactions list and its export
+export const transactionListQuerySchema = transactionFilterSchema.omit({ chapterId: true }).extend({
+  reconciled: z.enum(["true", "false"]).transform((reconciled) => reconciled === "true").optional(),
+});
+
+// File format of a finance list export
+export const listExportFormatSchema = z.enum(["csv", "xlsx"]).default("csv");
+
+// Query for a financial report; the range is inclusive and at most five years
+export const financialReportQuerySchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    format: z.enum(["json", "csv", "pdf"]).default("json"),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  })
+  .refine((data) => data.endDate.getTime() - data.startDate.getTime() <= 5 * 366 * 24 * 60 * 60 * 1000, {
+    message: "Reports can cover at most five years",
+    path: ["endDate"],
+  });
+
+// Query for the cash-flow forecast; months to project, starting with the current one
+export const cashFlowForecastQuerySchema = z.object({
+  months: z.coerce.number().int().min(1).max(24).default(6),
+});
+
+// Schema for downloading a member's yearly dues statement; admins may name the member
+export const memberStatementQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000, "Invalid year").max(2100, "Invalid year").default(() => new Date().getFullYear()),
+  userId: z.string().cuid("Invalid member ID").optional(),
+});
+
+// Schema for saving how a member wants expense reimbursements paid
+export const payoutMethodSchema = z.object({
+  userId: z.string().cuid("Invalid member ID"),
+  method: z.enum(OFFLINE_PAYMENT_METHODS),
+  details: z.string().trim().max(200, "Payout details are too long").optional().nullable(),
+});
+
+// Schema for reimbursing a batch of approved expenses
+export const reimbursementBatchSchema = z.object({
+  expenseIds: z.array(z.string().cuid("Invalid expense ID")).min(1, "Select at least one expense"),
+  reference: z.string().trim().max(100, "Reference is too long").optional().nullable(),
+  paidAt: z.coerce.date().optional(),
+  method: z.enum(OFFLINE_PAYMENT_METHODS).optional(), // Omit to use each member's payout method
+  issuePayout: z.boolean().default(false),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for settling a reimbursement whose payout is still pending
+export const reimbursementSettleSchema = z.object({
+  status: z.enum(["PAID", "FAILED"]),
+  paidAt: z.coerce.date().optional(),
+  failureReason: z.string().max(500, "Reason is too long").optional().nullable(),
+});
+
+// Schema for creating or updating a fundraising campaign
+export const campaignSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(120, "Title is too long"),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes")
+    .max(60, "Link is too long")
+    .optional(), // Worked out from the title when omitted
+  description: z.string().max(5000, "Description is too long").optional().nullable(),
+  goalAmount: minorUnitsSchema.positive("Goal must be positive"),
+  currency: currencySchema.optional(),
+  status: z.nativeEnum(CampaignStatus).default("DRAFT"),
+  endDate: z.coerce.date().optional().nullable(),
+  chapterId: z.string().cuid("Invalid chapter ID"),
+});
+
+// Schema for a donation from the public donation page
+export const donationCheckoutSchema = z.object({
+  chapterSlug: z.string().min(1, "Chapter is required"),
+  campaignSlug: z.string().min(1, "Campaign is required"),
+  amount: minorUnitsSchema.min(100, "Donations must be at least 1.00"),
+  donorName: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  donorEmail: z.string().trim().email("Invalid email address"),
+  message: z.string().trim().max(500, "Message is too long").optional().nullable(),
+  isAnonymous: z.boolean().default(false),
+});
+
+// Schema for a kind of ticket sold for an event
+export const eventTicketTypeSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60, "Name is too long"),
+  description: z.string().trim().max(500, "Description is too long").optional().nullable(),
+  price: minorUnitsSchema.min(0, "Price cannot be negative"),
+  currency: currencySchema.optional(),
+  quantity: z.coerce.number().int().positive("Quantity must be positive").optional().nullable(), // Omit for no limit
+  membersOnly: z.boolean().default(false),
+  salesEndAt: z.coerce.date().optional().nullable(),
+});
+
+// Schema for buying tickets from the public events list or the portal
+export const ticketCheckoutSchema = z.object({
+  chapterSlug: z.string().min(1, "Chapter is required"),
+  eventId: z.string().cuid("Invalid event ID"),
+  ticketTypeId: z.string().cuid("Invalid ticket type ID"),
+  quantity: z.coerce
+    .number()
+    .int()
+    .min(1, "Choose at least one ticket")
+    .max(MAX_TICKETS_PER_ORDER, `At most ${MAX_TICKETS_PER_ORDER} tickets per order`),
+  buyerName: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  buyerEmail: z.string().trim().email("Invalid email address"),
+});
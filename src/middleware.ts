@@ -15,6 +15,8 @@ export default withAuth(
     // Allow public routes
     // Check if the path is just a chapterSlug (e.g., /alpha-beta-gamma) - this should be public
     const isChapterPublicPage = /^\/[a-zA-Z0-9-]+$/.test(pathname) && !pathname.startsWith("/api/");
+    // Campaign donation pages (e.g., /alpha-beta-gamma/donate/spring-drive) are public too
+    const isDonationPage = /^\/[a-zA-Z0-9-]+\/donate\/[a-zA-Z0-9-]+$/.test(pathname);
     
     const isPublicRoute = 
       pathname === "/" || 
@@ -23,7 +25,10 @@ export default withAuth(
       pathname === "/forgot-password" ||
       pathname === "/reset-password" ||
       pathname === "/api/auth" ||
-      isChapterPublicPage;
+      pathname === "/api/donations" ||
+      pathname === "/api/tickets" ||
+      isChapterPublicPage ||
+      isDonationPage;
     
     if (!isAuthenticated && !isPublicRoute) {
       // Redirect to login if trying to access protected route without authentication
@@ -104,6 +109,6 @@ export const config = {
     // Skip authentication check for API routes, public routes, and static files
     // Note: We explicitly exclude the base chapterSlug route (e.g., /alpha-beta-gamma)
     // as these are public chapter pages accessible without authentication
-    "/((?!login|signup|forgot-password|reset-password|api/auth|api/chapters/check-slug|api/contact|_next/static|_next/image|images|favicon.ico|[a-zA-Z0-9-]+$).*)",
+    "/((?!login|signup|forgot-password|reset-password|api/auth|api/chapters/check-slug|api/contact|api/donations|api/tickets|api/cron|_next/static|_next/image|images|favicon.ico|[a-zA-Z0-9-]+$).*)",
   ],
 };